@@ -3,16 +3,22 @@ import { defineConfig } from 'astro/config';
 
 import tailwindcss from '@tailwindcss/vite';
 import mdx from '@astrojs/mdx';
+import node from '@astrojs/node';
 import react from '@astrojs/react';
 import vercel from '@astrojs/vercel';
 
+// Live navigation keeps its sessions in the server's memory, so it only runs on one long-lived
+// server: build and start with ASTRO_ADAPTER=node (`node dist/server/entry.mjs`). On Vercel each
+// request can reach another function instance, and live navigation is turned off.
+const adapter = process.env.ASTRO_ADAPTER === 'node' ? node({ mode: 'standalone' }) : vercel();
+
 // https://astro.build/config
 export default defineConfig({
-  adapter: vercel(),
+  adapter,
 
   vite: {
     plugins: [tailwindcss()]
   },
 
   integrations: [mdx(), react()]
-});
\ No newline at end of file
+});
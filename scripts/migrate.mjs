@@ -0,0 +1,68 @@
+/**
+ * Creates the app's tables for the configured STORAGE_BACKEND (see src/lib/storage.ts):
+ * - "supabase" (default): runs supabase/migrations/*.sql in order with psql against DATABASE_URL,
+ *   the project's Postgres connection string
+ * - "local": creates the table files in LOCAL_STORAGE_DIR (default .data), keeping existing rows
+ *
+ *   STORAGE_BACKEND=local npm run db:migrate
+ *   DATABASE_URL=postgresql://… npm run db:migrate
+ */
+
+import { spawnSync } from 'node:child_process';
+import { access, mkdir, readdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const LOCAL_TABLES = [
+  'audit_reports',
+  'workspaces',
+  'workspace_members',
+  'report_comments',
+  'projects',
+  'action_items',
+  'project_credentials',
+];
+const MIGRATIONS_DIR = path.join(import.meta.dirname, '..', 'supabase', 'migrations');
+
+async function migrateLocal(directory) {
+  await mkdir(directory, { recursive: true });
+  for (const table of LOCAL_TABLES) {
+    const file = path.join(directory, `${table}.json`);
+    try {
+      await access(file);
+      console.log(`${table}: already exists`);
+    } catch {
+      await writeFile(file, '[]');
+      console.log(`${table}: created`);
+    }
+  }
+}
+
+async function migrateSupabase(databaseUrl) {
+  const migrations = (await readdir(MIGRATIONS_DIR)).filter((file) => file.endsWith('.sql')).sort();
+  for (const migration of migrations) {
+    console.log(`Applying ${migration}`);
+    const { status, error } = spawnSync(
+      'psql',
+      [databaseUrl, '--quiet', '-v', 'ON_ERROR_STOP=1', '-f', path.join(MIGRATIONS_DIR, migration)],
+      { stdio: 'inherit' }
+    );
+    if (error || status !== 0) {
+      throw new Error(error ? `Could not run psql: ${error.message}` : `${migration} failed`);
+    }
+  }
+}
+
+const backend = process.env.STORAGE_BACKEND || 'supabase';
+
+try {
+  if (backend === 'local') {
+    await migrateLocal(process.env.LOCAL_STORAGE_DIR || '.data');
+  } else if (!process.env.DATABASE_URL) {
+    throw new Error('Set DATABASE_URL to the Supabase project connection string, or STORAGE_BACKEND=local');
+  } else {
+    await migrateSupabase(process.env.DATABASE_URL);
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
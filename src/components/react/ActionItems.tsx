@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import {
+  type ActionItem,
+  type ActionSuggestion,
+  type ActionVerification,
+  ACTION_EFFORTS,
+  ACTION_PRIORITIES,
+  ACTION_STATUSES,
+  verifyActionItem,
+} from '../../lib/actionItems';
+
+interface ActionItemsProps {
+  reportId: string;
+  principles: Array<{ id: string; title: string }>;
+  items: ActionItem[];
+  /** Recommendations from the report that aren't tracked yet */
+  suggestions?: ActionSuggestion[];
+  canEdit: boolean;
+  /**
+   * Ratings from the next audit of the same product, to check finished items against; null when
+   * there is no later audit yet
+   */
+  laterRatings?: Record<string, number | null> | null;
+  onChange?: (items: ActionItem[]) => void;
+}
+
+const STATUS_LABELS: Record<ActionItem['status'], string> = {
+  open: 'Open',
+  'in-progress': 'In progress',
+  done: 'Done',
+};
+
+const STATUS_COLORS: Record<ActionItem['status'], string> = {
+  open: 'bg-slate-100 text-slate-700',
+  'in-progress': 'bg-blue-50 text-blue-700',
+  done: 'bg-green-50 text-green-700',
+};
+
+const PRIORITY_COLORS: Record<ActionItem['priority'], string> = {
+  high: 'text-red-700',
+  medium: 'text-amber-700',
+  low: 'text-slate-500',
+};
+
+const selectClass =
+  'px-2 py-1 text-xs border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400';
+
+function VerificationBadge({ verification }: { verification: ActionVerification }) {
+  switch (verification.result) {
+    case 'awaiting-audit':
+      return <span className="text-xs text-slate-400">Awaiting the next audit</span>;
+    case 'not-rated':
+      return <span className="text-xs text-slate-400">Not rated in both audits</span>;
+    default: {
+      const { result, before, after } = verification;
+      const color = result === 'raised' ? 'bg-green-50 text-green-700' : result === 'lowered' ? 'bg-red-50 text-red-700' : 'bg-slate-50 text-slate-600';
+      const label = result === 'raised' ? 'Score raised' : result === 'lowered' ? 'Score lowered' : 'Score unchanged';
+      return (
+        <span className={`px-1.5 py-0.5 text-xs rounded ${color}`}>
+          {label}: {before}/5 &rarr; {after}/5
+        </span>
+      );
+    }
+  }
+}
+
+export default function ActionItems({
+  reportId,
+  principles,
+  items,
+  suggestions = [],
+  canEdit,
+  laterRatings,
+  onChange,
+}: ActionItemsProps) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const titleOf = (principleId: string) => principles.find((p) => p.id === principleId)?.title ?? principleId;
+
+  const request = async (url: string, init: RequestInit) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' } });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Request failed');
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const track = async (tracked: ActionSuggestion[]) => {
+    const data = await request('/api/action-items', { method: 'POST', body: JSON.stringify({ reportId, items: tracked }) });
+    if (data) onChange?.([...items, ...data.items]);
+  };
+
+  const update = async (item: ActionItem, changes: Partial<Pick<ActionItem, 'assignee' | 'priority' | 'effort' | 'status'>>) => {
+    const data = await request(`/api/action-items?id=${item.id}`, { method: 'PATCH', body: JSON.stringify(changes) });
+    if (data) onChange?.(items.map((i) => (i.id === item.id ? data.item : i)));
+  };
+
+  const remove = async (item: ActionItem) => {
+    if (!window.confirm('Stop tracking this action item?')) return;
+    const data = await request(`/api/action-items?id=${item.id}`, { method: 'DELETE' });
+    if (data) onChange?.(items.filter((i) => i.id !== item.id));
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>}
+
+      {items.length > 0 && (
+        <ul className="bg-white rounded-lg border border-slate-200 divide-y divide-slate-100">
+          {items.map((item) => (
+            <li key={item.id} className="p-4 space-y-2">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <p className="text-sm text-slate-900">{item.title}</p>
+                  <a href={`/principles/${item.principleId}`} className="text-xs text-slate-500 hover:text-slate-800">
+                    {titleOf(item.principleId)} &rarr;
+                  </a>
+                </div>
+                {canEdit ? (
+                  <select
+                    value={item.status}
+                    onChange={(e) => update(item, { status: e.target.value as ActionItem['status'] })}
+                    disabled={busy}
+                    className={selectClass}
+                  >
+                    {ACTION_STATUSES.map((s) => (
+                      <option key={s} value={s}>
+                        {STATUS_LABELS[s]}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className={`px-2 py-0.5 text-xs rounded-full shrink-0 ${STATUS_COLORS[item.status]}`}>
+                    {STATUS_LABELS[item.status]}
+                  </span>
+                )}
+              </div>
+
+              <div className="flex items-center gap-3 flex-wrap text-xs text-slate-500">
+                {canEdit ? (
+                  <>
+                    <input
+                      type="text"
+                      defaultValue={item.assignee ?? ''}
+                      onBlur={(e) => e.target.value.trim() !== (item.assignee ?? '') && update(item, { assignee: e.target.value })}
+                      placeholder="Owner"
+                      className={`w-40 ${selectClass}`}
+                    />
+                    <select
+                      value={item.priority}
+                      onChange={(e) => update(item, { priority: e.target.value as ActionItem['priority'] })}
+                      disabled={busy}
+                      className={selectClass}
+                    >
+                      {ACTION_PRIORITIES.map((p) => (
+                        <option key={p} value={p}>
+                          {p} priority
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={item.effort}
+                      onChange={(e) => update(item, { effort: e.target.value as ActionItem['effort'] })}
+                      disabled={busy}
+                      className={selectClass}
+                    >
+                      {ACTION_EFFORTS.map((effort) => (
+                        <option key={effort} value={effort}>
+                          {effort} effort
+                        </option>
+                      ))}
+                    </select>
+                    <button onClick={() => remove(item)} disabled={busy} className="text-red-600 hover:text-red-800 disabled:opacity-50">
+                      Remove
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <span>{item.assignee ? `Owner: ${item.assignee}` : 'No owner'}</span>
+                    <span className={PRIORITY_COLORS[item.priority]}>{item.priority} priority</span>
+                    <span>{item.effort} effort</span>
+                  </>
+                )}
+                {laterRatings !== undefined && item.status === 'done' && (
+                  <VerificationBadge verification={verifyActionItem(item, laterRatings)} />
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEdit && suggestions.length > 0 && (
+        <div className="bg-slate-50 rounded-lg border border-slate-200 p-4">
+          <div className="flex items-center justify-between gap-3 mb-2">
+            <span className="text-sm font-medium text-slate-700">Recommendations to track</span>
+            <button
+              onClick={() => track(suggestions)}
+              disabled={busy}
+              className="text-sm font-medium text-slate-700 hover:text-slate-900 disabled:opacity-50"
+            >
+              Track all
+            </button>
+          </div>
+          <ul className="space-y-2">
+            {suggestions.map((suggestion) => (
+              <li key={`${suggestion.principleId}:${suggestion.title}`} className="flex items-start justify-between gap-3 text-sm">
+                <div>
+                  <span className="text-slate-700">{suggestion.title}</span>
+                  <span className="text-xs text-slate-400"> · {titleOf(suggestion.principleId)}</span>
+                </div>
+                <button
+                  onClick={() => track([suggestion])}
+                  disabled={busy}
+                  className="text-slate-500 hover:text-slate-800 shrink-0 disabled:opacity-50"
+                >
+                  Track
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
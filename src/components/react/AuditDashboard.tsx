@@ -0,0 +1,408 @@
+import { useMemo, useState } from 'react';
+import { type ReportListing, type SavedReport, filterReports } from '../../lib/reports';
+import { draftFromReport, saveDraft } from '../../lib/auditDrafts';
+import type { ReportAccessMode } from '../../lib/reportAccess';
+import { type WorkspaceMembership, hasRole } from '../../lib/workspaces';
+import type { Project } from '../../lib/projects';
+
+interface AuditDashboardProps {
+  email: string | null;
+  reports: ReportListing[];
+  workspaces: WorkspaceMembership[];
+  projects: Project[];
+}
+
+const SCORE_BANDS = [
+  { label: 'Any score', min: 0, max: 5 },
+  { label: 'Below 3', min: 0, max: 2.99 },
+  { label: '3 to 4', min: 3, max: 3.99 },
+  { label: '4 and above', min: 4, max: 5 },
+];
+
+const ACCESS_LABELS: Record<ReportAccessMode, string> = {
+  link: 'Link',
+  password: 'Password',
+  signed: 'Signed links',
+  private: 'Private',
+};
+
+const inputClass =
+  'px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400';
+
+function formatCreated(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+export default function AuditDashboard({ email, reports: initialReports, workspaces, projects }: AuditDashboardProps) {
+  const [reports, setReports] = useState(initialReports);
+  const [workspaceName, setWorkspaceName] = useState('');
+  const [projectName, setProjectName] = useState('');
+  const [query, setQuery] = useState('');
+  const [tag, setTag] = useState<string | null>(null);
+  const [scoreBand, setScoreBand] = useState(0);
+  const [editing, setEditing] = useState<{
+    id: string;
+    productName: string;
+    tags: string;
+    workspaceId: string | null;
+    projectId: string | null;
+  } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reports can be moved into workspaces the user edits
+  const editableWorkspaces = workspaces.filter((w) => hasRole(w.role, 'editor'));
+  const workspaceNames = useMemo(() => new Map(workspaces.map((w) => [w.id, w.name])), [workspaces]);
+  const projectNames = useMemo(() => new Map(projects.map((p) => [p.id, p.name])), [projects]);
+
+  const allTags = useMemo(() => [...new Set(reports.flatMap((r) => r.tags))].sort(), [reports]);
+  const shown = useMemo(
+    () => filterReports(reports, { query, tag, minScore: SCORE_BANDS[scoreBand].min, maxScore: SCORE_BANDS[scoreBand].max }),
+    [reports, query, tag, scoreBand]
+  );
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const saveEdit = () =>
+    editing &&
+    run(editing.id, async () => {
+      const response = await fetch(`/api/reports?id=${editing.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          productName: editing.productName,
+          tags: editing.tags.split(',').map((t) => t.trim()).filter(Boolean),
+          workspaceId: editing.workspaceId,
+          projectId: editing.projectId,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save changes');
+      setReports((current) =>
+        current.map((r) =>
+          r.id === editing.id
+            ? { ...r, productName: data.productName, tags: data.tags, workspaceId: data.workspaceId, projectId: data.projectId }
+            : r
+        )
+      );
+      setEditing(null);
+    });
+
+  const removeReport = (report: ReportListing) =>
+    run(report.id, async () => {
+      if (!window.confirm(`Delete "${report.productName || report.id}"? Anyone with its link will lose access.`)) return;
+      const response = await fetch(`/api/reports?id=${report.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error((await response.json()).error || 'Failed to delete report');
+      setReports((current) => current.filter((r) => r.id !== report.id));
+    });
+
+  // Reopened reports become local drafts; sharing one saves a new version of the report
+  const openAsDraft = (report: ReportListing) =>
+    run(report.id, async () => {
+      const response = await fetch(`/api/reports?id=${report.id}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to open report');
+      const draft = draftFromReport(data as SavedReport);
+      await saveDraft(draft);
+      window.location.href = `/audit?draft=${draft.id}`;
+    });
+
+  const createWorkspace = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run('new-workspace', async () => {
+      const response = await fetch('/api/workspaces', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: workspaceName }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to create workspace');
+      window.location.href = data.url;
+    });
+  };
+
+  const createProject = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run('new-project', async () => {
+      const response = await fetch('/api/projects', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: projectName }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to create project');
+      window.location.href = data.url;
+    });
+  };
+
+  const signOut = async () => {
+    await fetch('/api/auth/sign-out', { method: 'POST' });
+    window.location.href = '/';
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap text-sm text-slate-500">
+        <span>Signed in as {email ?? 'unknown'}</span>
+        <button onClick={signOut} className="font-medium text-slate-700 hover:text-slate-900">
+          Sign out
+        </button>
+      </div>
+
+      {/* Workspaces */}
+      <div className="bg-white rounded-lg border border-slate-200 p-4">
+        <div className="text-sm font-medium text-slate-700 mb-2">Workspaces</div>
+        <div className="flex items-center gap-3 flex-wrap">
+          {workspaces.map((w) => (
+            <a
+              key={w.id}
+              href={`/workspaces/${w.id}`}
+              className="px-3 py-1.5 text-sm rounded-lg bg-slate-100 text-slate-700 hover:bg-slate-200"
+            >
+              {w.name} <span className="text-xs text-slate-500">· {w.role}</span>
+            </a>
+          ))}
+          <form onSubmit={createWorkspace} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={workspaceName}
+              onChange={(e) => setWorkspaceName(e.target.value)}
+              required
+              placeholder="New workspace name"
+              className={inputClass}
+            />
+            <button
+              type="submit"
+              disabled={busyId === 'new-workspace'}
+              className="px-3 py-2 text-sm font-medium rounded-lg bg-slate-900 text-white hover:bg-slate-800 disabled:bg-slate-400"
+            >
+              Create
+            </button>
+          </form>
+        </div>
+      </div>
+
+      {/* Projects */}
+      <div className="bg-white rounded-lg border border-slate-200 p-4">
+        <div className="text-sm font-medium text-slate-700 mb-2">Projects</div>
+        <div className="flex items-center gap-3 flex-wrap">
+          {projects.map((p) => (
+            <a
+              key={p.id}
+              href={`/projects/${p.id}`}
+              className="px-3 py-1.5 text-sm rounded-lg bg-slate-100 text-slate-700 hover:bg-slate-200"
+            >
+              {p.name}
+              {p.workspaceId && <span className="text-xs text-slate-500"> · {workspaceNames.get(p.workspaceId) ?? 'workspace'}</span>}
+            </a>
+          ))}
+          <form onSubmit={createProject} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={projectName}
+              onChange={(e) => setProjectName(e.target.value)}
+              required
+              placeholder="New project name"
+              className={inputClass}
+            />
+            <button
+              type="submit"
+              disabled={busyId === 'new-project'}
+              className="px-3 py-2 text-sm font-medium rounded-lg bg-slate-900 text-white hover:bg-slate-800 disabled:bg-slate-400"
+            >
+              Create
+            </button>
+          </form>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by product or tag"
+          className={`w-64 ${inputClass}`}
+        />
+        <select value={tag ?? ''} onChange={(e) => setTag(e.target.value || null)} className={inputClass}>
+          <option value="">All tags</option>
+          {allTags.map((t) => (
+            <option key={t} value={t}>
+              {t}
+            </option>
+          ))}
+        </select>
+        <select value={scoreBand} onChange={(e) => setScoreBand(Number(e.target.value))} className={inputClass}>
+          {SCORE_BANDS.map((band, i) => (
+            <option key={band.label} value={i}>
+              {band.label}
+            </option>
+          ))}
+        </select>
+        <span className="text-sm text-slate-500">
+          {shown.length} of {reports.length} audit{reports.length !== 1 ? 's' : ''}
+        </span>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      {reports.length === 0 ? (
+        <div className="bg-white rounded-lg border border-slate-200 p-8 text-center text-slate-500">
+          Audits you share while signed in will appear here.{' '}
+          <a href="/audit" className="font-medium text-slate-700 hover:text-slate-900">
+            Start an audit &rarr;
+          </a>
+        </div>
+      ) : (
+        <ul className="bg-white rounded-lg border border-slate-200 divide-y divide-slate-100">
+          {shown.map((report) => (
+            <li key={report.id} className="p-4">
+              {editing?.id === report.id ? (
+                <div className="flex items-end gap-3 flex-wrap">
+                  <label className="block text-sm text-slate-600">
+                    Product name
+                    <input
+                      type="text"
+                      value={editing.productName}
+                      onChange={(e) => setEditing({ ...editing, productName: e.target.value })}
+                      className={`mt-1 block w-64 ${inputClass}`}
+                    />
+                  </label>
+                  <label className="block text-sm text-slate-600">
+                    Tags (comma separated)
+                    <input
+                      type="text"
+                      value={editing.tags}
+                      onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                      className={`mt-1 block w-64 ${inputClass}`}
+                    />
+                  </label>
+                  <label className="block text-sm text-slate-600">
+                    Workspace
+                    <select
+                      value={editing.workspaceId ?? ''}
+                      onChange={(e) => setEditing({ ...editing, workspaceId: e.target.value || null })}
+                      className={`mt-1 block ${inputClass}`}
+                    >
+                      <option value="">None</option>
+                      {editableWorkspaces.map((w) => (
+                        <option key={w.id} value={w.id}>
+                          {w.name}
+                        </option>
+                      ))}
+                      {editing.workspaceId && !editableWorkspaces.some((w) => w.id === editing.workspaceId) && (
+                        <option value={editing.workspaceId}>{workspaceNames.get(editing.workspaceId) ?? 'Current workspace'}</option>
+                      )}
+                    </select>
+                  </label>
+                  <label className="block text-sm text-slate-600">
+                    Project
+                    <select
+                      value={editing.projectId ?? ''}
+                      onChange={(e) => setEditing({ ...editing, projectId: e.target.value || null })}
+                      className={`mt-1 block ${inputClass}`}
+                    >
+                      <option value="">None</option>
+                      {projects.map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.name}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <button
+                    onClick={saveEdit}
+                    disabled={busyId === report.id}
+                    className="px-3 py-2 text-sm font-medium rounded-lg bg-slate-900 text-white hover:bg-slate-800 disabled:bg-slate-400"
+                  >
+                    Save
+                  </button>
+                  <button onClick={() => setEditing(null)} className="px-3 py-2 text-sm text-slate-600 hover:text-slate-900">
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-4 flex-wrap">
+                  <div className="min-w-0">
+                    <a href={`/audit/${report.id}`} className="font-medium text-slate-900 hover:text-blue-600">
+                      {report.productName || 'Untitled audit'}
+                    </a>
+                    <div className="text-xs text-slate-500 mt-0.5">
+                      {formatCreated(report.createdAt)} · {report.overallScore.toFixed(1)}/5 · {ACCESS_LABELS[report.accessMode]}
+                      {report.previousVersionId && <> · re-audit</>}
+                      {report.workspaceId && <> · {workspaceNames.get(report.workspaceId) ?? 'Workspace'}</>}
+                      {report.projectId && (
+                        <>
+                          {' · '}
+                          <a href={`/projects/${report.projectId}`} className="hover:text-slate-800">
+                            {projectNames.get(report.projectId) ?? 'Project'}
+                          </a>
+                        </>
+                      )}
+                    </div>
+                    {report.tags.length > 0 && (
+                      <div className="flex gap-1 flex-wrap mt-1">
+                        {report.tags.map((t) => (
+                          <button
+                            key={t}
+                            onClick={() => setTag(t)}
+                            className="px-2 py-0.5 text-xs rounded-full bg-slate-100 text-slate-700 hover:bg-slate-200"
+                          >
+                            {t}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3 text-sm shrink-0">
+                    <button
+                      onClick={() => openAsDraft(report)}
+                      disabled={busyId === report.id}
+                      className="font-medium text-slate-700 hover:text-slate-900 disabled:opacity-50"
+                    >
+                      Open as draft
+                    </button>
+                    <button
+                      onClick={() =>
+                        setEditing({
+                          id: report.id,
+                          productName: report.productName ?? '',
+                          tags: report.tags.join(', '),
+                          workspaceId: report.workspaceId,
+                          projectId: report.projectId,
+                        })
+                      }
+                      className="text-slate-500 hover:text-slate-800"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => removeReport(report)}
+                      disabled={busyId === report.id}
+                      className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+          {shown.length === 0 && <li className="p-4 text-sm text-slate-500">No audits match these filters.</li>}
+        </ul>
+      )}
+    </div>
+  );
+}
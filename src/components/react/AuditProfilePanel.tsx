@@ -0,0 +1,284 @@
+import { useState, useEffect, useCallback } from 'react';
+import PrincipleSelector from './PrincipleSelector';
+import {
+  type AuditProfile,
+  AUDIT_PROFILE_PRESETS,
+  createRelevanceProfile,
+} from '../../data/auditProfiles';
+import {
+  type AudienceRelevance,
+  type ContextRelevance,
+  type AudienceKey,
+  type ContextKey,
+  AUDIENCE_LABELS,
+  CONTEXT_LABELS,
+} from '../../data/relevance';
+
+interface SelectablePrinciple {
+  id: string;
+  title: string;
+  category: string;
+  essential: boolean;
+  audienceRelevance?: AudienceRelevance;
+  contextRelevance?: ContextRelevance;
+}
+
+interface AuditProfilePanelProps {
+  principles: SelectablePrinciple[];
+  /** The built-in default profile (essential principles) */
+  defaultProfile: AuditProfile;
+  profile: AuditProfile;
+  onChange: (profile: AuditProfile) => void;
+  disabled?: boolean;
+}
+
+const STORAGE_KEY = 'audit-profiles';
+
+function loadSavedProfiles(): AuditProfile[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeSavedProfiles(profiles: AuditProfile[]) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+export default function AuditProfilePanel({
+  principles,
+  defaultProfile,
+  profile,
+  onChange,
+  disabled = false,
+}: AuditProfilePanelProps) {
+  const [savedProfiles, setSavedProfiles] = useState<AuditProfile[]>([]);
+  const [isEditing, setIsEditing] = useState(false);
+  const [newProfileName, setNewProfileName] = useState('');
+  const [audience, setAudience] = useState<AudienceKey | ''>(profile.audience ?? '');
+  const [context, setContext] = useState<ContextKey | ''>(profile.context ?? '');
+
+  // Read saved profiles after mount so server and client render the same markup
+  useEffect(() => {
+    setSavedProfiles(loadSavedProfiles());
+  }, []);
+
+  const availableProfiles = [defaultProfile, ...AUDIT_PROFILE_PRESETS, ...savedProfiles];
+  const isSavedProfile = savedProfiles.some((p) => p.id === profile.id);
+
+  const selectProfile = useCallback((id: string) => {
+    const next = [defaultProfile, ...AUDIT_PROFILE_PRESETS, ...savedProfiles].find((p) => p.id === id);
+    if (next) onChange(next);
+  }, [defaultProfile, savedProfiles, onChange]);
+
+  // Select and weight principles by their relevance to the chosen audience and context
+  const tailorProfile = useCallback(() => {
+    if (!audience && !context) return;
+    onChange(createRelevanceProfile(principles, audience || undefined, context || undefined));
+  }, [principles, audience, context, onChange]);
+
+  const updateWeight = useCallback((principleId: string, weight: number) => {
+    const weights = { ...profile.weights };
+    if (weight === 1) {
+      delete weights[principleId];
+    } else {
+      weights[principleId] = weight;
+    }
+    onChange({ ...profile, weights });
+  }, [profile, onChange]);
+
+  const updateThreshold = useCallback((key: 'gapThreshold' | 'strengthThreshold', value: number) => {
+    onChange({ ...profile, [key]: value });
+  }, [profile, onChange]);
+
+  const saveProfile = useCallback(() => {
+    if (!newProfileName.trim()) return;
+    const saved: AuditProfile = {
+      ...profile,
+      id: `custom-${crypto.randomUUID()}`,
+      name: newProfileName.trim(),
+      description: undefined,
+    };
+    const updated = [...savedProfiles, saved];
+    storeSavedProfiles(updated);
+    setSavedProfiles(updated);
+    setNewProfileName('');
+    onChange(saved);
+  }, [newProfileName, profile, savedProfiles, onChange]);
+
+  const updateSavedProfile = useCallback(() => {
+    const updated = savedProfiles.map((p) => (p.id === profile.id ? profile : p));
+    storeSavedProfiles(updated);
+    setSavedProfiles(updated);
+  }, [profile, savedProfiles]);
+
+  const deleteProfile = useCallback(() => {
+    const updated = savedProfiles.filter((p) => p.id !== profile.id);
+    storeSavedProfiles(updated);
+    setSavedProfiles(updated);
+    onChange(defaultProfile);
+  }, [profile, savedProfiles, defaultProfile, onChange]);
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-4 space-y-4">
+      <div className="flex items-center gap-3 flex-wrap">
+        <label htmlFor="audit-profile" className="text-sm font-medium text-slate-700">
+          Audit profile
+        </label>
+        <select
+          id="audit-profile"
+          value={availableProfiles.some((p) => p.id === profile.id) ? profile.id : ''}
+          onChange={(e) => selectProfile(e.target.value)}
+          disabled={disabled}
+          className="px-3 py-1.5 text-sm bg-white border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-slate-400"
+        >
+          {availableProfiles.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+          {!availableProfiles.some((p) => p.id === profile.id) && (
+            <option value="">{profile.name}</option>
+          )}
+        </select>
+        <button
+          type="button"
+          onClick={() => setIsEditing(!isEditing)}
+          disabled={disabled}
+          className="ml-auto text-sm font-medium text-slate-600 hover:text-slate-900 disabled:opacity-50"
+        >
+          {isEditing ? 'Done' : 'Customize'}
+        </button>
+      </div>
+
+      {/* Tailor to audience and context */}
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-sm text-slate-600">Tailor for</span>
+        <select
+          aria-label="Audience"
+          value={audience}
+          onChange={(e) => setAudience(e.target.value as AudienceKey | '')}
+          disabled={disabled}
+          className="px-3 py-1.5 text-sm bg-white border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-slate-400"
+        >
+          <option value="">Any audience</option>
+          {(Object.keys(AUDIENCE_LABELS) as AudienceKey[]).map((key) => (
+            <option key={key} value={key}>{AUDIENCE_LABELS[key]}</option>
+          ))}
+        </select>
+        <select
+          aria-label="Learning context"
+          value={context}
+          onChange={(e) => setContext(e.target.value as ContextKey | '')}
+          disabled={disabled}
+          className="px-3 py-1.5 text-sm bg-white border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-slate-400"
+        >
+          <option value="">Any context</option>
+          {(Object.keys(CONTEXT_LABELS) as ContextKey[]).map((key) => (
+            <option key={key} value={key}>{CONTEXT_LABELS[key]}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={tailorProfile}
+          disabled={disabled || (!audience && !context)}
+          className="px-3 py-1.5 bg-slate-100 text-slate-700 rounded-md text-sm font-medium hover:bg-slate-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Apply
+        </button>
+      </div>
+
+      {profile.description && (
+        <p className="text-sm text-slate-500">{profile.description}</p>
+      )}
+
+      {profile.principleIds.length === 0 && (
+        <p className="text-sm text-amber-700">No principles match this profile. Choose a different audience or context, or pick principles manually.</p>
+      )}
+
+      <div className="text-xs text-slate-500">
+        Gaps: scores of {profile.gapThreshold} or below · Strengths: {profile.strengthThreshold} or above
+      </div>
+
+      {isEditing && !disabled && (
+        <div className="pt-4 border-t border-slate-100 space-y-4">
+          {/* Thresholds */}
+          <div className="flex gap-4 flex-wrap">
+            <label className="text-sm text-slate-700 flex items-center gap-2">
+              Gap at or below
+              <select
+                value={profile.gapThreshold}
+                onChange={(e) => updateThreshold('gapThreshold', Number(e.target.value))}
+                className="text-sm border border-slate-200 rounded px-2 py-1"
+              >
+                {[1, 2, 3, 4].filter((n) => n < profile.strengthThreshold).map((n) => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-slate-700 flex items-center gap-2">
+              Strength at or above
+              <select
+                value={profile.strengthThreshold}
+                onChange={(e) => updateThreshold('strengthThreshold', Number(e.target.value))}
+                className="text-sm border border-slate-200 rounded px-2 py-1"
+              >
+                {[2, 3, 4, 5].filter((n) => n > profile.gapThreshold).map((n) => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <PrincipleSelector
+            principles={principles}
+            selectedIds={profile.principleIds}
+            onChange={(principleIds) => onChange({ ...profile, principleIds })}
+            weights={profile.weights}
+            onWeightChange={updateWeight}
+            defaultExpanded
+          />
+
+          {/* Save */}
+          <div className="flex gap-2 flex-wrap">
+            <input
+              type="text"
+              value={newProfileName}
+              onChange={(e) => setNewProfileName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && saveProfile()}
+              placeholder="New profile name..."
+              className="flex-1 px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-slate-400"
+            />
+            <button
+              type="button"
+              onClick={saveProfile}
+              disabled={!newProfileName.trim() || profile.principleIds.length === 0}
+              className="px-4 py-2 bg-slate-900 text-white rounded-lg text-sm font-medium hover:bg-slate-800 disabled:bg-slate-300 disabled:cursor-not-allowed"
+            >
+              Save as Profile
+            </button>
+            {isSavedProfile && (
+              <>
+                <button
+                  type="button"
+                  onClick={updateSavedProfile}
+                  className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-200"
+                >
+                  Update "{profile.name}"
+                </button>
+                <button
+                  type="button"
+                  onClick={deleteProfile}
+                  className="px-4 py-2 text-sm text-red-600 hover:text-red-700"
+                >
+                  Delete
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,37 @@
-import { useState, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback, useRef, useEffect } from 'react';
 import RatingScale from './RatingScale';
 import ImageUpload from './ImageUpload';
 import FollowUpQuestions, { type FollowUpAnswer } from './FollowUpQuestions';
 import UpfrontContextModal from './UpfrontContextModal';
 import NavigationMode from './NavigationMode';
-import { auditData } from '../../data/auditPrompts';
+import AuditProfilePanel from './AuditProfilePanel';
+import VarianceIndicator from './VarianceIndicator';
+import EvidenceThumbnails from './EvidenceThumbnails';
+import ExportButtons from './ExportButtons';
+import type { AuditPromptData } from '../../data/auditPrompts';
+import type { AudienceRelevance, ContextRelevance } from '../../data/relevance';
+import type { PrincipleFailure } from '../../lib/structuredOutput';
+import { type AuditProfile, createDefaultProfile } from '../../data/auditProfiles';
+import {
+  type AIScore,
+  type SectionResult,
+  type RefinedScore,
+  type ScoreOverride,
+  aiScoresWithRefinements,
+  changedFromAi,
+  combineSectionScores,
+  summarizeRatings,
+  summarizeSection,
+  buildKeyTakeaways,
+  quickWinMinimum,
+  ratingsFromSectionResults,
+} from '../../lib/auditScoring';
+import { withEvidenceThumbnails } from '../../lib/thumbnails';
+import { streamSectionAnalysis, mapWithConcurrency } from '../../lib/analysisStream';
+import { type AuditDraft, getDraft, saveDraft } from '../../lib/auditDrafts';
+import { parseReportId } from '../../lib/reports';
+import type { Project } from '../../lib/projects';
+import type { ReportAccessMode } from '../../lib/reportAccess';
 import {
   type UpfrontContextAnswers,
   type SectionType,
@@ -12,8 +39,13 @@ import {
   SECTION_TYPE_OPTIONS,
 } from '../../data/upfrontQuestions';
 import { getRelevantFollowUpPrinciples } from '../../data/followUpQuestions';
-import type { NavigationSession, CapturedMoment, LearningContentType } from '../../types/navigation';
-import { MAX_IMAGES_PER_SECTION } from '../../config/constants';
+import type {
+  NavigationSession,
+  NavigationAnalysisContext,
+  CapturedMoment,
+  LearningContentType,
+} from '../../types/navigation';
+import { MAX_IMAGES_PER_SECTION, CONSENSUS_RUN_OPTIONS, ANALYSIS_CONCURRENCY } from '../../config/constants';
 
 type Category =
   | 'Memory & Retention'
@@ -28,6 +60,10 @@ interface Principle {
   title: string;
   category: Category;
   summary: string;
+  essential: boolean;
+  audienceRelevance?: AudienceRelevance;
+  contextRelevance?: ContextRelevance;
+  audit: AuditPromptData;
 }
 
 interface AuditToolProps {
@@ -45,29 +81,18 @@ interface Section {
   images: ImageFile[];
   notes: string;
   typeOverride?: SectionType;
+  /** Set for sections built from a navigation session; the first images are its captures, in order */
+  navigation?: NavigationAnalysisContext;
 }
 
-interface AIScore {
-  score: number;
-  reasoning: string;
-  confidence: 'high' | 'medium' | 'low';
-  notApplicable?: boolean;
-}
-
-interface SectionResult {
-  sectionId: string;
-  sectionName: string;
+// Live state of one section while an analysis is running
+interface SectionProgress {
+  status: 'queued' | 'analyzing' | 'done';
+  /** Principles the server is scoring for this section (known once its stream starts) */
+  principleIds: string[];
   scores: Record<string, AIScore>;
 }
 
-interface RefinedScore {
-  principleId: string;
-  originalScore: number;
-  refinedScore: number;
-  refinedReasoning: string;
-  specificActions: string[];
-}
-
 const categoryColors: Record<Category, { bg: string; text: string }> = {
   'Memory & Retention': { bg: 'bg-purple-100', text: 'text-purple-800' },
   'Practice & Skill Building': { bg: 'bg-green-100', text: 'text-green-800' },
@@ -77,6 +102,18 @@ const categoryColors: Record<Category, { bg: string; text: string }> = {
   'Transfer & Application': { bg: 'bg-pink-100', text: 'text-pink-800' },
 };
 
+/** Tags from a comma-separated input, without blanks or repeats */
+function parseTags(input: string): string[] {
+  return [...new Set(input.split(',').map((tag) => tag.trim()).filter(Boolean))];
+}
+
+const SHARE_ACCESS_MODES: Array<{ mode: ReportAccessMode; label: string }> = [
+  { mode: 'link', label: 'Anyone with the link' },
+  { mode: 'password', label: 'Anyone with the password' },
+  { mode: 'signed', label: 'Only signed links I create' },
+  { mode: 'private', label: 'Only me' },
+];
+
 const confidenceColors = {
   high: 'text-green-600',
   medium: 'text-amber-600',
@@ -93,6 +130,24 @@ const SECTION_PRESETS = [
   'Assessment',
 ];
 
+// Wait for edits to settle before saving the draft
+const DRAFT_SAVE_DELAY_MS = 1000;
+
+// Point the address bar at a saved draft (or at a fresh audit when id is null)
+function setDraftUrl(id: string | null) {
+  const url = new URL(window.location.href);
+  if (id) url.searchParams.set('draft', id);
+  else url.searchParams.delete('draft');
+  window.history.replaceState(null, '', url);
+}
+
+// List the principles the AI failed to score, by title
+function describeFailures(failures: PrincipleFailure[], principles: Principle[]): string {
+  return failures
+    .map((f) => principles.find((p) => p.id === f.principleId)?.title ?? f.principleId)
+    .join(', ');
+}
+
 // Helper function to convert base64 image data to File object
 function base64ToFile(base64: string, mediaType: string, filename: string): File {
   const byteString = atob(base64);
@@ -105,6 +160,59 @@ function base64ToFile(base64: string, mediaType: string, filename: string): File
   return new File([blob], filename, { type: mediaType });
 }
 
+/**
+ * The sections for a navigated flow: its captures in order, split into parts of at most
+ * MAX_IMAGES_PER_SECTION screenshots. Each part keeps its captures (without screenshots), the
+ * interactions since the previous part and the session timing, for analyzing it.
+ */
+function sectionsForFlow(session: NavigationSession, flowId: string, name: string): Section[] {
+  const captures = session.captures.filter((c) => c.flowId === flowId);
+  const interactions = session.interactions.filter((i) => i.flowId === flowId);
+  const partCount = Math.ceil(captures.length / MAX_IMAGES_PER_SECTION);
+
+  return Array.from({ length: partCount }, (_, part) => {
+    const start = part * MAX_IMAGES_PER_SECTION;
+    const partCaptures = captures.slice(start, start + MAX_IMAGES_PER_SECTION);
+    const since = part > 0 ? captures[start - 1].timestamp : -Infinity;
+    const until = part < partCount - 1 ? partCaptures[partCaptures.length - 1].timestamp : Infinity;
+    return {
+      id: part > 0 ? `${flowId}-part-${part + 1}` : flowId,
+      name: partCount > 1 ? `${name} (part ${part + 1} of ${partCount})` : name,
+      images: partCaptures.map((capture, idx) => ({
+        file: base64ToFile(capture.image, capture.mediaType, `${flowId}-capture-${start + idx}.png`),
+        preview: `data:${capture.mediaType};base64,${capture.image}`,
+      })),
+      notes: partCaptures
+        .map((c) => c.description)
+        .filter(Boolean)
+        .join('\n'),
+      typeOverride: detectSectionTypeFromCaptures(partCaptures),
+      navigation: {
+        captures: partCaptures.map(({ image: _, ...capture }) => capture),
+        interactions: interactions.filter((i) => i.timestamp > since && i.timestamp <= until),
+        flows: session.flows.filter((f) => f.id === flowId),
+        session: { startUrl: session.startUrl, duration: (session.endedAt ?? Date.now()) - session.startedAt },
+      },
+    };
+  });
+}
+
+/**
+ * A navigated section's context after its screenshots were edited. Screenshots can only be removed
+ * or added after the others, so the captures of the screenshots still there stay in order and
+ * keep their numbers; new uploads have no capture. Undefined once no captured screenshot is left.
+ */
+function navigationAfterImageEdit(section: Section, images: ImageFile[]): NavigationAnalysisContext | undefined {
+  if (!section.navigation) return undefined;
+  const captures: NavigationAnalysisContext['captures'] = [];
+  for (const image of images) {
+    const capture = section.navigation.captures[section.images.indexOf(image)];
+    if (!capture) break;
+    captures.push(capture);
+  }
+  return captures.length > 0 ? { ...section.navigation, captures } : undefined;
+}
+
 // Helper function to detect section type from captured content types
 function detectSectionTypeFromCaptures(captures: CapturedMoment[]): SectionType | undefined {
   const types = captures.map((c) => c.contentType);
@@ -129,8 +237,19 @@ function detectSectionTypeFromCaptures(captures: CapturedMoment[]): SectionType
 
 export default function AuditTool({ principles }: AuditToolProps) {
   const [mode, setMode] = useState<'manual' | 'ai' | 'navigation'>('manual');
+  // Audit profile: which principles are audited, their weights and gap/strength thresholds
+  const defaultProfile = useMemo(
+    () => createDefaultProfile(principles.filter((p) => p.essential).map((p) => p.id)),
+    [principles]
+  );
+  const [profile, setProfile] = useState<AuditProfile>(defaultProfile);
+  const selectedIds = profile.principleIds;
+  const auditPrinciples = useMemo(
+    () => principles.filter((p) => selectedIds.includes(p.id)),
+    [principles, selectedIds]
+  );
   const [ratings, setRatings] = useState<Record<string, number | null>>(() =>
-    Object.fromEntries(principles.map((p) => [p.id, null]))
+    Object.fromEntries(principles.filter((p) => p.essential).map((p) => [p.id, null]))
   );
   const [showResults, setShowResults] = useState(false);
 
@@ -139,11 +258,29 @@ export default function AuditTool({ principles }: AuditToolProps) {
   const [newSectionName, setNewSectionName] = useState('');
   const [sectionResults, setSectionResults] = useState<SectionResult[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [analyzingSection, setAnalyzingSection] = useState<string | null>(null);
+  // Independent analyses per section, aggregated into consensus scores
+  const [runsPerSection, setRunsPerSection] = useState(1);
+  const [analysisProgress, setAnalysisProgress] = useState<Record<string, SectionProgress>>({});
+  const analysisAbortRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Principles the AI could not score validly, one message per section (or refinement)
+  const [scoringFailures, setScoringFailures] = useState<string[]>([]);
   const [resultsTab, setResultsTab] = useState<'overall' | string>('overall');
   const [isSharing, setIsSharing] = useState(false);
   const [sharedUrl, setSharedUrl] = useState<string | null>(null);
+  // Link or id of an earlier report this audit is a new version of
+  const [previousVersion, setPreviousVersion] = useState('');
+  // Shown on the shared report and the author's dashboard
+  const [productName, setProductName] = useState('');
+  const [tagsInput, setTagsInput] = useState('');
+  // Project the audit tracks; signed-in users choose from the projects they can open
+  const [projectId, setProjectId] = useState('');
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [sharedComparisonUrl, setSharedComparisonUrl] = useState<string | null>(null);
+  // Who can open the shared report; the owner can change this later from the report page
+  const [shareAccessMode, setShareAccessMode] = useState<ReportAccessMode>('link');
+  const [sharePassword, setSharePassword] = useState('');
+  const [shareExpiryDays, setShareExpiryDays] = useState<number | null>(null);
   const [copied, setCopied] = useState(false);
 
   // Follow-up questions state
@@ -151,39 +288,35 @@ export default function AuditTool({ principles }: AuditToolProps) {
   const [isRefining, setIsRefining] = useState(false);
   const [refinedScores, setRefinedScores] = useState<RefinedScore[]>([]);
 
+  // Why the auditor changed AI scores, by principle; required for each changed score before sharing
+  const [overrideRationales, setOverrideRationales] = useState<Record<string, string>>({});
+
   // Upfront context state
   const [showUpfrontModal, setShowUpfrontModal] = useState(false);
   const [upfrontContext, setUpfrontContext] = useState<UpfrontContextAnswers>({});
 
+  // Draft persistence: the audit is saved locally as it changes, and restored from ?draft=<id>
+  const draftIdRef = useRef<string | null>(null);
+  const draftCreatedAtRef = useRef<string | null>(null);
+  const [draftRestored, setDraftRestored] = useState(false);
+
   const completedCount = Object.values(ratings).filter((r) => r !== null).length;
-  const totalCount = principles.length;
+  const totalCount = auditPrinciples.length;
   const allCompleted = completedCount === totalCount;
 
   // Combine section results into overall scores
   const combinedAiScores = useMemo(() => {
     if (sectionResults.length === 0) return null;
+    return combineSectionScores(sectionResults, auditPrinciples.map((p) => p.id));
+  }, [sectionResults, auditPrinciples]);
 
-    const combined: Record<string, AIScore & { contributingSection: string }> = {};
-
-    for (const principle of principles) {
-      let bestScore: (AIScore & { contributingSection: string }) | null = null;
-
-      for (const result of sectionResults) {
-        const score = result.scores[principle.id];
-        if (score && !score.notApplicable && score.score > 0) {
-          if (!bestScore || score.score > bestScore.score) {
-            bestScore = { ...score, contributingSection: result.sectionName };
-          }
-        }
-      }
-
-      if (bestScore) {
-        combined[principle.id] = bestScore;
-      }
-    }
-
-    return combined;
-  }, [sectionResults, principles]);
+  // The AI's final word per principle: its refined score when follow-up revisited it
+  const aiScores = useMemo(
+    () => aiScoresWithRefinements(sectionResults, refinedScores, auditPrinciples.map((p) => p.id)),
+    [sectionResults, refinedScores, auditPrinciples]
+  );
+  const changedScores = useMemo(() => changedFromAi(ratings, aiScores), [ratings, aiScores]);
+  const missingRationales = changedScores.filter((id) => !overrideRationales[id]?.trim());
 
   // Identify low-scoring principles for follow-up (filtered by section relevance)
   const lowScoringPrinciples = useMemo(() => {
@@ -191,7 +324,7 @@ export default function AuditTool({ principles }: AuditToolProps) {
 
     // Get all low-scoring principle IDs
     const allLowScoring = Object.entries(combinedAiScores)
-      .filter(([, score]) => score.score <= 3 && !score.notApplicable)
+      .filter(([, score]) => score.score <= profile.gapThreshold && !score.notApplicable)
       .map(([id]) => id);
 
     // Filter to only principles relevant for the analyzed section types
@@ -210,46 +343,12 @@ export default function AuditTool({ principles }: AuditToolProps) {
         };
       })
       .sort((a, b) => a.score - b.score);
-  }, [combinedAiScores, principles, sections]);
-
-  const results = useMemo(() => {
-    const rated = Object.entries(ratings).filter(([, score]) => score !== null);
-    if (rated.length === 0) return null;
-
-    const scores = rated.map(([, score]) => score as number);
-    const average = scores.reduce((a, b) => a + b, 0) / scores.length;
-
-    const gaps = rated
-      .filter(([, score]) => (score as number) <= 3)
-      .map(([id, score]) => {
-        const principle = principles.find((p) => p.id === id)!;
-        return {
-          id,
-          title: principle.title,
-          category: principle.category,
-          score: score as number,
-          recommendation: auditData[id]?.recommendation || '',
-          contributingSection: combinedAiScores?.[id]?.contributingSection,
-        };
-      })
-      .sort((a, b) => a.score - b.score);
+  }, [combinedAiScores, principles, sections, profile]);
 
-    const strengths = rated
-      .filter(([, score]) => (score as number) >= 4)
-      .map(([id, score]) => {
-        const principle = principles.find((p) => p.id === id)!;
-        return {
-          id,
-          title: principle.title,
-          category: principle.category,
-          score: score as number,
-          contributingSection: combinedAiScores?.[id]?.contributingSection,
-        };
-      })
-      .sort((a, b) => b.score - a.score);
-
-    return { average, gaps, strengths, totalRated: rated.length };
-  }, [ratings, principles, combinedAiScores]);
+  const results = useMemo(
+    () => summarizeRatings(ratings, principles, profile, combinedAiScores),
+    [ratings, principles, combinedAiScores, profile]
+  );
 
   // Section-specific results for tab view
   const sectionResults_forTab = useMemo(() => {
@@ -258,95 +357,25 @@ export default function AuditTool({ principles }: AuditToolProps) {
     const selectedSection = sectionResults.find((sr) => sr.sectionId === resultsTab);
     if (!selectedSection) return null;
 
-    const sectionScores = Object.entries(selectedSection.scores)
-      .filter(([, score]) => score && !score.notApplicable && score.score > 0);
-
-    if (sectionScores.length === 0) return null;
-
-    const scores = sectionScores.map(([, s]) => s.score);
-    const average = scores.reduce((a, b) => a + b, 0) / scores.length;
-
-    const gaps = sectionScores
-      .filter(([, s]) => s.score <= 3)
-      .map(([id, s]) => {
-        const principle = principles.find((p) => p.id === id)!;
-        return {
-          id,
-          title: principle.title,
-          category: principle.category,
-          score: s.score,
-          reasoning: s.reasoning,
-          recommendation: auditData[id]?.recommendation || '',
-        };
-      })
-      .sort((a, b) => a.score - b.score);
-
-    const strengths = sectionScores
-      .filter(([, s]) => s.score >= 4)
-      .map(([id, s]) => {
-        const principle = principles.find((p) => p.id === id)!;
-        return {
-          id,
-          title: principle.title,
-          category: principle.category,
-          score: s.score,
-          reasoning: s.reasoning,
-        };
-      })
-      .sort((a, b) => b.score - a.score);
-
-    const notApplicable = Object.entries(selectedSection.scores)
-      .filter(([, score]) => score?.notApplicable)
-      .map(([id]) => {
-        const principle = principles.find((p) => p.id === id)!;
-        return { id, title: principle.title };
-      });
-
-    return {
-      sectionName: selectedSection.sectionName,
-      average,
-      gaps,
-      strengths,
-      notApplicable,
-      totalRated: sectionScores.length,
-    };
-  }, [resultsTab, sectionResults, principles]);
+    return summarizeSection(selectedSection, principles, profile);
+  }, [resultsTab, sectionResults, principles, profile]);
 
   // Active results based on tab
   const activeResults = resultsTab === 'overall' ? results : sectionResults_forTab;
 
   // Generate key takeaways from results
-  const keyTakeaways = useMemo(() => {
-    if (!results || results.gaps.length === 0) return null;
-
-    // Group gaps by category and find lowest average
-    const categoryAvg: Record<string, number[]> = {};
-    for (const gap of results.gaps) {
-      if (!categoryAvg[gap.category]) categoryAvg[gap.category] = [];
-      categoryAvg[gap.category].push(gap.score);
-    }
-
-    const priorityCategory = Object.entries(categoryAvg)
-      .map(([cat, scores]) => ({
-        category: cat,
-        avg: scores.reduce((a, b) => a + b, 0) / scores.length,
-        count: scores.length,
-      }))
-      .sort((a, b) => a.avg - b.avg)[0];
-
-    // Top 3 actions (already sorted by score in results.gaps)
-    const topActions = results.gaps.slice(0, 3);
-
-    // Quick wins: scores of 2-3 (easier to improve than 1s)
-    const quickWins = results.gaps.filter((g) => g.score >= 2 && g.score <= 3);
-
-    return { priorityCategory, topActions, quickWins };
-  }, [results]);
+  const keyTakeaways = useMemo(() => buildKeyTakeaways(results, profile), [results, profile]);
 
   const handleRating = (principleId: string, score: number) => {
     setRatings((prev) => ({ ...prev, [principleId]: score }));
   };
 
+  // Switch or edit the audit profile, keeping ratings for principles that stay selected
+  const updateProfile = useCallback((next: AuditProfile) => {
+    setProfile(next);
+    setRatings((prev) => Object.fromEntries(next.principleIds.map((id) => [id, prev[id] ?? null])));
+  }, []);
+
   const addSection = useCallback((name: string) => {
     if (!name.trim()) return;
     setSections((prev) => [
@@ -368,10 +397,16 @@ export default function AuditTool({ principles }: AuditToolProps) {
 
   const updateSectionImages = useCallback((sectionId: string, images: ImageFile[]) => {
     setSections((prev) =>
-      prev.map((s) => (s.id === sectionId ? { ...s, images } : s))
+      prev.map((s) => (s.id === sectionId ? { ...s, images, navigation: navigationAfterImageEdit(s, images) } : s))
     );
   }, []);
 
+  // Preview URLs for a section's screenshots, keyed by the number the AI cites them by
+  const sectionImageUrls = (sectionId: string): Record<number, string> => {
+    const section = sections.find((s) => s.id === sectionId);
+    return Object.fromEntries(section?.images.map((img, i) => [i + 1, img.preview]) ?? []);
+  };
+
   const updateSectionNotes = useCallback((sectionId: string, notes: string) => {
     setSections((prev) =>
       prev.map((s) => (s.id === sectionId ? { ...s, notes } : s))
@@ -400,13 +435,24 @@ export default function AuditTool({ principles }: AuditToolProps) {
     setIsAnalyzing(true);
     setError(null);
     setSectionResults([]);
+    setScoringFailures([]);
+    setAnalysisProgress(
+      Object.fromEntries(sectionsWithImages.map((s) => [s.id, { status: 'queued', principleIds: [], scores: {} }]))
+    );
+
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    const updateProgress = (sectionId: string, update: (progress: SectionProgress) => SectionProgress) =>
+      setAnalysisProgress((prev) => ({ ...prev, [sectionId]: update(prev[sectionId]) }));
 
-    const results: SectionResult[] = [];
+    const failureMessages: string[] = [];
+    let results: SectionResult[];
 
-    for (const section of sectionsWithImages) {
-      setAnalyzingSection(section.name);
+    try {
+      // Sections run in parallel (up to the limit); scores appear as each principle is scored
+      results = await mapWithConcurrency(sectionsWithImages, ANALYSIS_CONCURRENCY, async (section) => {
+        updateProgress(section.id, (p) => ({ ...p, status: 'analyzing' }));
 
-      try {
         const imageData = await Promise.all(
           section.images.map(async (img) => {
             const buffer = await img.file.arrayBuffer();
@@ -417,67 +463,83 @@ export default function AuditTool({ principles }: AuditToolProps) {
           })
         );
 
-        const response = await fetch('/api/analyze', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            images: imageData,
+        const data = await streamSectionAnalysis(
+          {
+            ...(section.navigation
+              ? {
+                  navigation: {
+                    ...section.navigation,
+                    captures: section.navigation.captures.map((capture, i) => ({ ...capture, image: imageData[i].data })),
+                  },
+                  // Screenshots uploaded after navigating follow the captures
+                  images: imageData.slice(section.navigation.captures.length),
+                }
+              : { images: imageData }),
             sectionName: section.name,
             sectionType: section.typeOverride,
             sectionNotes: section.notes || undefined,
             upfrontContext: Object.keys(context).length > 0 ? context : undefined,
-          }),
-        });
+            profile,
+            runs: runsPerSection,
+          },
+          {
+            signal: controller.signal,
+            onStart: (principleIds) => updateProgress(section.id, (p) => ({ ...p, principleIds })),
+            onScore: (principleId, score) =>
+              updateProgress(section.id, (p) => ({ ...p, scores: { ...p.scores, [principleId]: score } })),
+          }
+        );
 
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || `Analysis failed for ${section.name}`);
+        updateProgress(section.id, (p) => ({ ...p, status: 'done' }));
+        if (data.failures && data.failures.length > 0) {
+          failureMessages.push(`${section.name}: ${describeFailures(data.failures, principles)}`);
         }
-
-        const data = await response.json();
-        results.push({
+        return {
           sectionId: section.id,
           sectionName: section.name,
           scores: data.scores,
-        });
-      } catch (err) {
+        };
+      });
+    } catch (err) {
+      const cancelled = controller.signal.aborted;
+      // Stop the sections still running
+      controller.abort();
+      if (!cancelled) {
         setError(err instanceof Error ? err.message : 'Analysis failed');
-        setIsAnalyzing(false);
-        setAnalyzingSection(null);
-        return;
       }
+      setIsAnalyzing(false);
+      setAnalysisProgress({});
+      return;
+    } finally {
+      analysisAbortRef.current = null;
     }
 
     setSectionResults(results);
+    setScoringFailures(failureMessages);
+    setAnalysisProgress({});
 
     // Pre-fill ratings with best scores
-    const newRatings: Record<string, number | null> = {};
-    for (const principle of principles) {
-      let bestScore = 0;
-      for (const result of results) {
-        const score = result.scores[principle.id];
-        if (score && !score.notApplicable && score.score > bestScore) {
-          bestScore = score.score;
-        }
-      }
-      newRatings[principle.id] = bestScore > 0 ? bestScore : null;
-    }
+    const newRatings = ratingsFromSectionResults(results, auditPrinciples.map((p) => p.id));
     setRatings(newRatings);
 
     setIsAnalyzing(false);
-    setAnalyzingSection(null);
 
     // Check for low-scoring principles to trigger follow-up
     // Only show follow-up if there are relevant questions for the section types
     const lowScoringIds = Object.entries(newRatings)
-      .filter(([, score]) => score !== null && score <= 3)
+      .filter(([, score]) => score !== null && score <= profile.gapThreshold)
       .map(([id]) => id);
     const sectionNames = sections.map((s) => s.name);
     const relevantLowScoring = getRelevantFollowUpPrinciples(lowScoringIds, sectionNames);
     if (relevantLowScoring.length > 0) {
       setShowFollowUp(true);
     }
-  }, [sections, principles]);
+  }, [sections, auditPrinciples, principles, profile, runsPerSection]);
+
+  // Stop an in-progress analysis; sections and screenshots are kept so it can be re-run
+  const cancelAnalysis = useCallback(() => {
+    analysisAbortRef.current?.abort();
+  }, []);
 
   // Handle upfront context modal completion
   const handleUpfrontComplete = useCallback((context: UpfrontContextAnswers) => {
@@ -492,17 +554,112 @@ export default function AuditTool({ principles }: AuditToolProps) {
   }, [runAnalysis]);
 
   const resetAudit = useCallback(() => {
-    setRatings(Object.fromEntries(principles.map((p) => [p.id, null])));
+    setRatings(Object.fromEntries(auditPrinciples.map((p) => [p.id, null])));
     setSections([]);
     setSectionResults([]);
     setShowResults(false);
     setShowFollowUp(false);
     setRefinedScores([]);
+    setOverrideRationales({});
     setError(null);
+    setScoringFailures([]);
     setResultsTab('overall');
     setShowUpfrontModal(false);
     setUpfrontContext({});
-  }, [principles]);
+    setProductName('');
+    setTagsInput('');
+    setPreviousVersion('');
+    setProjectId('');
+    // Later changes start a new draft; the previous one stays saved
+    draftIdRef.current = null;
+    draftCreatedAtRef.current = null;
+    setDraftUrl(null);
+  }, [auditPrinciples]);
+
+  const restoreDraft = useCallback((draft: AuditDraft) => {
+    draftIdRef.current = draft.id;
+    draftCreatedAtRef.current = draft.createdAt;
+    setMode(draft.mode);
+    setProfile(draft.profile);
+    setRatings(draft.ratings);
+    setSections(
+      draft.sections.map(({ images, ...section }) => ({
+        ...section,
+        images: images.map((file) => ({ file, preview: URL.createObjectURL(file) })),
+      }))
+    );
+    setUpfrontContext(draft.upfrontContext);
+    setSectionResults(draft.sectionResults);
+    setRefinedScores(draft.refinedScores);
+    setOverrideRationales(draft.overrideRationales ?? {});
+    setShowResults(draft.showResults);
+    setProductName(draft.productName ?? '');
+    setTagsInput((draft.tags ?? []).join(', '));
+    setPreviousVersion(draft.previousVersionId ?? '');
+    setProjectId(draft.projectId ?? '');
+  }, []);
+
+  // Signed-out users get a 401 and simply see no project choice
+  useEffect(() => {
+    fetch('/api/projects')
+      .then((response) => (response.ok ? response.json() : { projects: [] }))
+      .then((data) => setProjects(data.projects ?? []))
+      .catch(() => setProjects([]));
+  }, []);
+
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('draft');
+    if (!id) {
+      setDraftRestored(true);
+      return;
+    }
+    getDraft(id)
+      .then((draft) => {
+        if (draft) restoreDraft(draft);
+        else setDraftUrl(null);
+      })
+      .catch((err) => console.warn('Could not load draft:', err))
+      .finally(() => setDraftRestored(true));
+  }, [restoreDraft]);
+
+  useEffect(() => {
+    // Nothing worth keeping yet, or mid-analysis (results are saved once it finishes)
+    if (!draftRestored || isAnalyzing) return;
+    if (sections.length === 0 && !Object.values(ratings).some((r) => r !== null)) return;
+
+    const timer = setTimeout(() => {
+      const isNew = !draftIdRef.current;
+      const id = (draftIdRef.current ??= crypto.randomUUID());
+      const now = new Date().toISOString();
+      const createdAt = (draftCreatedAtRef.current ??= now);
+
+      saveDraft({
+        id,
+        createdAt,
+        updatedAt: now,
+        mode,
+        profile,
+        ratings,
+        sections: sections.map(({ images, ...section }) => ({ ...section, images: images.map((img) => img.file) })),
+        upfrontContext,
+        sectionResults,
+        refinedScores,
+        overrideRationales,
+        showResults,
+        productName: productName || undefined,
+        tags: parseTags(tagsInput),
+        previousVersionId: parseReportId(previousVersion) ?? undefined,
+        projectId: projectId || undefined,
+      })
+        .then(() => {
+          // Keep the draft in the URL so a refresh resumes it
+          if (isNew) setDraftUrl(id);
+        })
+        .catch((err) => console.warn('Could not save draft:', err));
+    }, DRAFT_SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [draftRestored, isAnalyzing, mode, profile, ratings, sections, upfrontContext, sectionResults, refinedScores, overrideRationales, showResults, productName, tagsInput, previousVersion, projectId]);
 
   // Handle follow-up completion
   const handleFollowUpComplete = useCallback(async (answers: FollowUpAnswer[]) => {
@@ -533,6 +690,9 @@ export default function AuditTool({ principles }: AuditToolProps) {
 
       const data = await response.json();
       setRefinedScores(data.refinedScores || []);
+      if (data.failures?.length > 0) {
+        setScoringFailures((prev) => [...prev, `Refinement: ${describeFailures(data.failures, principles)}`]);
+      }
 
       // Update ratings with refined scores
       const newRatings = { ...ratings };
@@ -546,7 +706,7 @@ export default function AuditTool({ principles }: AuditToolProps) {
       setIsRefining(false);
       setShowFollowUp(false);
     }
-  }, [combinedAiScores, lowScoringPrinciples, ratings]);
+  }, [combinedAiScores, lowScoringPrinciples, ratings, principles]);
 
   const handleFollowUpSkip = useCallback(() => {
     setShowFollowUp(false);
@@ -559,7 +719,7 @@ export default function AuditTool({ principles }: AuditToolProps) {
       `# Learning Science Audit Results`,
       ``,
       `**Overall Score: ${results.average.toFixed(1)} / 5.0**`,
-      `${results.totalRated}/${totalCount} principles rated`,
+      `${results.totalRated}/${totalCount} principles rated (profile: ${profile.name})`,
       ``,
     ];
 
@@ -603,8 +763,32 @@ export default function AuditTool({ principles }: AuditToolProps) {
     setTimeout(() => setCopied(false), 2000);
   };
 
+  // Everything a shared report stores, with screenshots of the cited evidence embedded
+  const buildReportPayload = async () => ({
+    overallScore: results?.average,
+    ratings,
+    sectionResults: sectionResults.length > 0
+      ? await withEvidenceThumbnails(
+          sectionResults,
+          Object.fromEntries(sections.map((s) => [s.id, s.images.map((img) => img.file)]))
+        )
+      : null,
+    keyTakeaways,
+    profile,
+    refinedScores,
+    scoreOverrides: changedScores.map(
+      (id): Omit<ScoreOverride, 'author' | 'createdAt'> => ({
+        principleId: id,
+        previousScore: aiScores[id].score,
+        score: ratings[id]!,
+        justification: overrideRationales[id]?.trim() ?? '',
+      })
+    ),
+  });
+
+  // Legacy URLs encode scores positionally over the essential principles
   const shareLegacyUrl = () => {
-    const scores = principles.map((p) => ratings[p.id] ?? 0).join(',');
+    const scores = principles.filter((p) => p.essential).map((p) => ratings[p.id] ?? 0).join(',');
     const url = `${window.location.origin}/audit?r=${scores}`;
     navigator.clipboard.writeText(url);
   };
@@ -612,18 +796,36 @@ export default function AuditTool({ principles }: AuditToolProps) {
   const shareReport = async () => {
     if (!results) return;
 
+    const previousVersionId = parseReportId(previousVersion);
+    if (previousVersion.trim() && !previousVersionId) {
+      setError('Enter the earlier report as a share link or report ID');
+      return;
+    }
+    if (missingRationales.length > 0) {
+      const titles = missingRationales.map((id) => principles.find((p) => p.id === id)?.title ?? id);
+      setError(`Explain why you changed the AI score for: ${titles.join(', ')}`);
+      return;
+    }
+
     setIsSharing(true);
     setSharedUrl(null);
+    setError(null);
 
     try {
       const response = await fetch('/api/reports', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          overallScore: results.average,
-          ratings,
-          sectionResults: sectionResults.length > 0 ? sectionResults : null,
-          keyTakeaways,
+          ...(await buildReportPayload()),
+          productName: productName.trim() || null,
+          tags: parseTags(tagsInput),
+          previousVersionId,
+          projectId: projectId || null,
+          access: {
+            mode: shareAccessMode,
+            ...(shareAccessMode === 'password' && { password: sharePassword }),
+            expiresAt: shareExpiryDays ? new Date(Date.now() + shareExpiryDays * 24 * 60 * 60 * 1000).toISOString() : null,
+          },
         }),
       });
 
@@ -635,6 +837,7 @@ export default function AuditTool({ principles }: AuditToolProps) {
       const data = await response.json();
       const fullUrl = `${window.location.origin}${data.url}`;
       setSharedUrl(fullUrl);
+      setSharedComparisonUrl(previousVersionId ? `/audit/compare?a=${previousVersionId}&b=${data.id}` : null);
       navigator.clipboard.writeText(fullUrl);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to share report');
@@ -651,7 +854,7 @@ export default function AuditTool({ principles }: AuditToolProps) {
     if (encoded) {
       const scores = encoded.split(',').map((s) => parseInt(s, 10));
       const newRatings: Record<string, number | null> = {};
-      principles.forEach((p, i) => {
+      principles.filter((p) => p.essential).forEach((p, i) => {
         const score = scores[i];
         newRatings[p.id] = score && score > 0 ? score : null;
       });
@@ -710,9 +913,23 @@ export default function AuditTool({ principles }: AuditToolProps) {
         </button>
       </div>
 
+      {/* Audit Profile */}
+      {mode !== 'navigation' && sectionResults.length === 0 && !showResults && (
+        <AuditProfilePanel
+          principles={principles}
+          defaultProfile={defaultProfile}
+          profile={profile}
+          onChange={updateProfile}
+          disabled={isAnalyzing}
+        />
+      )}
+
       {/* Navigation Mode */}
       {mode === 'navigation' && sectionResults.length === 0 && (
         <NavigationMode
+          projects={projects}
+          projectId={projectId}
+          onProjectChange={setProjectId}
           onComplete={(session: NavigationSession) => {
             console.log('Navigation session completed:', session);
 
@@ -728,60 +945,15 @@ export default function AuditTool({ principles }: AuditToolProps) {
                 (flow) => flowGroups[flow.id]?.length > 0
               );
 
-              let newSections;
-
-              if (hasMatchingFlows) {
-                // Create sections from flows with captures
-                newSections = session.flows
-                  .filter((flow) => flowGroups[flow.id]?.length > 0)
-                  .map((flow) => {
-                    const captures = flowGroups[flow.id];
-                    return {
-                      id: flow.id,
-                      name: flow.description,
-                      images: captures.map((capture, idx) => ({
-                        file: base64ToFile(
-                          capture.image,
-                          capture.mediaType,
-                          `${flow.id}-capture-${idx}.png`
-                        ),
-                        preview: `data:${capture.mediaType};base64,${capture.image}`,
-                      })),
-                      notes: captures
-                        .map((c) => c.description)
-                        .filter(Boolean)
-                        .join('\n'),
-                      typeOverride: detectSectionTypeFromCaptures(captures),
-                    };
-                  });
-              } else {
-                // Fallback: group captures by their own flowIds (for imported JSON)
-                const captureFlowIds = [...new Set(session.captures.map((c) => c.flowId))];
-                newSections = captureFlowIds.map((flowId, idx) => {
-                  const captures = session.captures.filter((c) => c.flowId === flowId);
-                  // Use flow description if available, otherwise generate from captures
-                  const flowName =
-                    session.flows[idx]?.description ||
-                    `Captured Flow ${idx + 1}`;
-                  return {
-                    id: flowId,
-                    name: flowName,
-                    images: captures.map((capture, captureIdx) => ({
-                      file: base64ToFile(
-                        capture.image,
-                        capture.mediaType,
-                        `${flowId}-capture-${captureIdx}.png`
-                      ),
-                      preview: `data:${capture.mediaType};base64,${capture.image}`,
-                    })),
-                    notes: captures
-                      .map((c) => c.description)
-                      .filter(Boolean)
-                      .join('\n'),
-                    typeOverride: detectSectionTypeFromCaptures(captures),
-                  };
-                });
-              }
+              // Flows with captures become sections, or for imported JSON whose captures don't match
+              // its flows, the captures' own flowIds do
+              const newSections = hasMatchingFlows
+                ? session.flows
+                    .filter((flow) => flowGroups[flow.id]?.length > 0)
+                    .flatMap((flow) => sectionsForFlow(session, flow.id, flow.description))
+                : [...new Set(session.captures.map((c) => c.flowId))].flatMap((flowId, idx) =>
+                    sectionsForFlow(session, flowId, session.flows[idx]?.description || `Captured Flow ${idx + 1}`)
+                  );
 
               setSections(newSections);
               // Switch to AI mode to show the sections ready for analysis
@@ -919,9 +1091,9 @@ export default function AuditTool({ principles }: AuditToolProps) {
           <div className="flex gap-3">
             <button
               onClick={analyzeSections}
-              disabled={sectionsWithImages.length === 0 || isAnalyzing}
+              disabled={sectionsWithImages.length === 0 || selectedIds.length === 0 || isAnalyzing}
               className={`px-6 py-2 rounded-lg font-medium text-white transition-colors ${
-                sectionsWithImages.length === 0 || isAnalyzing
+                sectionsWithImages.length === 0 || selectedIds.length === 0 || isAnalyzing
                   ? 'bg-slate-300 cursor-not-allowed'
                   : 'bg-slate-900 hover:bg-slate-800'
               }`}
@@ -932,13 +1104,76 @@ export default function AuditTool({ principles }: AuditToolProps) {
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
                   </svg>
-                  Analyzing {analyzingSection}...
+                  Analyzing {Object.values(analysisProgress).filter((p) => p.status === 'done').length}/
+                  {Object.keys(analysisProgress).length} sections...
                 </span>
               ) : (
                 `Analyze ${sectionsWithImages.length} Section${sectionsWithImages.length !== 1 ? 's' : ''}`
               )}
             </button>
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              Runs per section
+              <select
+                value={runsPerSection}
+                onChange={(e) => setRunsPerSection(Number(e.target.value))}
+                disabled={isAnalyzing}
+                className="text-sm border border-slate-200 rounded px-2 py-1"
+                title="Analyze each section several times and use the median score to reduce variance"
+              >
+                {CONSENSUS_RUN_OPTIONS.map((n) => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+            {isAnalyzing && (
+              <button
+                onClick={cancelAnalysis}
+                className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-900"
+              >
+                Cancel
+              </button>
+            )}
           </div>
+
+          {/* Live analysis progress */}
+          {isAnalyzing && (
+            <div className="bg-white rounded-lg border border-slate-200 divide-y divide-slate-100">
+              {sectionsWithImages
+                .filter((section) => analysisProgress[section.id])
+                .map((section) => {
+                  const progress = analysisProgress[section.id];
+                  const scored = Object.keys(progress.scores).length;
+                  return (
+                    <div key={section.id} className="p-4">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="font-medium text-slate-900">{section.name}</span>
+                        <span className="text-xs text-slate-500">
+                          {progress.status === 'queued'
+                            ? 'Waiting...'
+                            : progress.status === 'done'
+                              ? 'Done'
+                              : progress.principleIds.length > 0
+                                ? `${scored}/${progress.principleIds.length} principles scored`
+                                : 'Starting...'}
+                        </span>
+                      </div>
+                      {scored > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {Object.entries(progress.scores).map(([principleId, score]) => (
+                            <span
+                              key={principleId}
+                              className="px-2 py-0.5 text-xs rounded-full bg-slate-100 text-slate-700"
+                            >
+                              {principles.find((p) => p.id === principleId)?.title ?? principleId}: {score.score}/5
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+            </div>
+          )}
         </div>
       )}
 
@@ -1003,12 +1238,23 @@ export default function AuditTool({ principles }: AuditToolProps) {
           <div className="w-full bg-slate-200 rounded-full h-2">
             <div
               className="bg-slate-600 h-2 rounded-full transition-all duration-300"
-              style={{ width: `${(completedCount / totalCount) * 100}%` }}
+              style={{ width: `${totalCount > 0 ? (completedCount / totalCount) * 100 : 0}%` }}
             />
           </div>
         </div>
       )}
 
+      {scoringFailures.length > 0 && !showFollowUp && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+          <p className="font-medium mb-1">Some principles could not be scored by the AI. Rate them manually:</p>
+          <ul className="list-disc list-inside">
+            {scoringFailures.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {showResults && results && !showFollowUp ? (
         /* Results Section */
         <div className="space-y-6">
@@ -1147,7 +1393,7 @@ export default function AuditTool({ principles }: AuditToolProps) {
                       Quick Wins
                     </div>
                     <p className="text-sm text-slate-600">
-                      {keyTakeaways.quickWins.map((w) => w.title).join(', ')} {keyTakeaways.quickWins.length === 1 ? 'is' : 'are'} at {keyTakeaways.quickWins.length === 1 ? `${keyTakeaways.quickWins[0].score}/5` : '2-3/5'} — small improvements could push {keyTakeaways.quickWins.length === 1 ? 'this' : 'these'} to strengths.
+                      {keyTakeaways.quickWins.map((w) => w.title).join(', ')} {keyTakeaways.quickWins.length === 1 ? 'is' : 'are'} at {keyTakeaways.quickWins.length === 1 ? `${keyTakeaways.quickWins[0].score}/5` : `${quickWinMinimum(profile)}-${profile.gapThreshold}/5`} — small improvements could push {keyTakeaways.quickWins.length === 1 ? 'this' : 'these'} to strengths.
                     </p>
                   </div>
                 )}
@@ -1187,7 +1433,17 @@ export default function AuditTool({ principles }: AuditToolProps) {
                       </span>
                     </div>
                     {'reasoning' in gap && gap.reasoning && resultsTab !== 'overall' && (
-                      <p className="text-sm text-slate-600 mb-2 italic">"{gap.reasoning}"</p>
+                      <p className="text-sm text-slate-600 mb-2 italic">
+                        "{gap.reasoning}"
+                        <span className={`not-italic text-xs ml-1 ${confidenceColors[gap.confidence]}`}>
+                          ({gap.confidence} confidence)
+                        </span>
+                      </p>
+                    )}
+                    {'evidence' in gap && resultsTab !== 'overall' && (
+                      <div className="mb-3">
+                        <EvidenceThumbnails evidence={gap.evidence} images={sectionImageUrls(resultsTab)} />
+                      </div>
                     )}
                     <p className="text-sm text-slate-600 mb-3">{gap.recommendation}</p>
                     <a
@@ -1224,7 +1480,12 @@ export default function AuditTool({ principles }: AuditToolProps) {
                           )}
                         </div>
                         {'reasoning' in s && s.reasoning && resultsTab !== 'overall' && (
-                          <p className="text-sm text-slate-500 mt-1 italic">"{s.reasoning}"</p>
+                          <p className="text-sm text-slate-500 mt-1 italic">
+                            "{s.reasoning}"
+                            <span className={`not-italic text-xs ml-1 ${confidenceColors[s.confidence]}`}>
+                              ({s.confidence} confidence)
+                            </span>
+                          </p>
                         )}
                       </div>
                     </li>
@@ -1257,6 +1518,106 @@ export default function AuditTool({ principles }: AuditToolProps) {
 
           {/* Actions */}
           <div className="space-y-3">
+            <div className="flex items-end gap-3 flex-wrap">
+              <label className="block text-sm text-slate-600">
+                Product name (optional)
+                <input
+                  type="text"
+                  value={productName}
+                  onChange={(e) => setProductName(e.target.value)}
+                  placeholder="e.g. Onboarding course v2"
+                  className="mt-1 block w-64 px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400"
+                />
+              </label>
+              <label className="block text-sm text-slate-600">
+                Tags (comma separated)
+                <input
+                  type="text"
+                  value={tagsInput}
+                  onChange={(e) => setTagsInput(e.target.value)}
+                  placeholder="client, mobile"
+                  className="mt-1 block w-64 px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400"
+                />
+              </label>
+              {projects.length > 0 && (
+                <label className="block text-sm text-slate-600">
+                  Project
+                  <select
+                    value={projectId}
+                    onChange={(e) => setProjectId(e.target.value)}
+                    className="mt-1 block px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400"
+                  >
+                    <option value="">None</option>
+                    {projects.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+            <label className="block text-sm text-slate-600">
+              Re-auditing? Link this report to the earlier one (optional)
+              <input
+                type="text"
+                value={previousVersion}
+                onChange={(e) => setPreviousVersion(e.target.value)}
+                placeholder="Earlier report link or ID"
+                className="mt-1 w-full max-w-md px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400"
+              />
+            </label>
+            <div className="flex items-end gap-3 flex-wrap">
+              <label className="block text-sm text-slate-600">
+                Who can open the shared link
+                <select
+                  value={shareAccessMode}
+                  onChange={(e) => setShareAccessMode(e.target.value as ReportAccessMode)}
+                  className="mt-1 block px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400"
+                >
+                  {SHARE_ACCESS_MODES.map((option) => (
+                    <option key={option.mode} value={option.mode}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {shareAccessMode === 'password' && (
+                <label className="block text-sm text-slate-600">
+                  Password
+                  <input
+                    type="password"
+                    value={sharePassword}
+                    onChange={(e) => setSharePassword(e.target.value)}
+                    placeholder="At least 8 characters"
+                    className="mt-1 block px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400"
+                  />
+                </label>
+              )}
+              <label className="block text-sm text-slate-600">
+                Expires
+                <select
+                  value={shareExpiryDays ?? ''}
+                  onChange={(e) => setShareExpiryDays(e.target.value ? Number(e.target.value) : null)}
+                  className="mt-1 block px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400"
+                >
+                  <option value="">Never</option>
+                  <option value={1}>After 1 day</option>
+                  <option value={7}>After 7 days</option>
+                  <option value={30}>After 30 days</option>
+                </select>
+              </label>
+            </div>
+            {missingRationales.length > 0 && (
+              <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                {missingRationales.length === 1 ? '1 score differs' : `${missingRationales.length} scores differ`} from the
+                AI&apos;s without a rationale.{' '}
+                <button onClick={() => setShowResults(false)} className="font-medium underline hover:text-amber-900">
+                  Add rationales
+                </button>
+              </div>
+            )}
+            <ExportButtons getReport={buildReportPayload} />
             <div className="flex gap-3">
               <button
                 onClick={copyResults}
@@ -1309,6 +1670,14 @@ export default function AuditTool({ principles }: AuditToolProps) {
               <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
                 <div className="text-sm text-green-800 font-medium mb-1">Report shared! Link copied to clipboard.</div>
                 <div className="text-sm text-green-700 font-mono break-all">{sharedUrl}</div>
+                {sharedComparisonUrl && (
+                  <a
+                    href={sharedComparisonUrl}
+                    className="inline-block mt-2 text-sm font-medium text-green-800 hover:text-green-900"
+                  >
+                    Compare with the previous version &rarr;
+                  </a>
+                )}
               </div>
             )}
             {error && (
@@ -1321,10 +1690,11 @@ export default function AuditTool({ principles }: AuditToolProps) {
       ) : (mode === 'manual' || (sectionResults.length > 0 && !showFollowUp)) ? (
         /* Rating Cards */
         <div className="space-y-4">
-          {principles.map((principle) => {
-            const promptData = auditData[principle.id];
+          {auditPrinciples.map((principle) => {
+            const promptData = principle.audit;
             const colors = categoryColors[principle.category];
             const aiScore = combinedAiScores?.[principle.id];
+            const refined = refinedScores.find((r) => r.principleId === principle.id);
 
             // Get section-specific view if tab selected
             const selectedSection = sectionResults.find((sr) => sr.sectionId === resultsTab);
@@ -1359,6 +1729,7 @@ export default function AuditTool({ principles }: AuditToolProps) {
                       <span className={`text-xs ${confidenceColors[aiScore.confidence]}`}>
                         ({aiScore.confidence} confidence)
                       </span>
+                      {aiScore.consensus && <VarianceIndicator consensus={aiScore.consensus} />}
                       {aiScore.contributingSection && (
                         <span className="text-xs text-slate-400">
                           from: {aiScore.contributingSection}
@@ -1366,6 +1737,12 @@ export default function AuditTool({ principles }: AuditToolProps) {
                       )}
                     </div>
                     <p className="text-sm text-slate-700">{aiScore.reasoning}</p>
+                    {aiScore.evidence && (
+                      <EvidenceThumbnails
+                        evidence={aiScore.evidence}
+                        images={sectionImageUrls(aiScore.contributingSectionId)}
+                      />
+                    )}
                   </div>
                 )}
 
@@ -1375,6 +1752,26 @@ export default function AuditTool({ principles }: AuditToolProps) {
                   categoryColor={`${colors.bg} ${colors.text}`}
                   rubric={promptData?.rubric}
                 />
+
+                {/* AI, refined and final scores, with the reason for any change */}
+                {aiScore && (
+                  <div className="mt-3 flex items-center gap-2 flex-wrap text-xs text-slate-500">
+                    <span>AI {aiScore.score}/5</span>
+                    {refined && <span>&rarr; refined {refined.refinedScore}/5</span>}
+                    {ratings[principle.id] !== null && <span>&rarr; final {ratings[principle.id]}/5</span>}
+                  </div>
+                )}
+                {changedScores.includes(principle.id) && (
+                  <textarea
+                    value={overrideRationales[principle.id] ?? ''}
+                    onChange={(e) => setOverrideRationales((prev) => ({ ...prev, [principle.id]: e.target.value }))}
+                    rows={2}
+                    placeholder="Why does this score differ from the AI's? (required)"
+                    className={`mt-2 w-full px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400 ${
+                      overrideRationales[principle.id]?.trim() ? 'border-slate-200' : 'border-amber-300'
+                    }`}
+                  />
+                )}
               </div>
             );
           })}
@@ -0,0 +1,39 @@
+import type { ScoreEvidence } from '../../lib/auditScoring';
+
+interface EvidenceThumbnailsProps {
+  evidence: ScoreEvidence[];
+  /** Image URLs keyed by screenshot number (starting at 1) */
+  images: Record<number, string>;
+}
+
+export default function EvidenceThumbnails({ evidence, images }: EvidenceThumbnailsProps) {
+  const shown = evidence.filter((e) => images[e.image]);
+  if (shown.length === 0) return null;
+
+  return (
+    <div className="flex gap-3 flex-wrap mt-2">
+      {shown.map((e, i) => (
+        <figure key={`${e.image}-${i}`} className="w-32">
+          <div className="relative rounded border border-slate-200 overflow-hidden">
+            <img src={images[e.image]} alt={`Screenshot ${e.image}`} className="w-full h-auto block" />
+            {e.region && (
+              <div
+                className="absolute border-2 border-amber-500 bg-amber-400/10"
+                style={{
+                  left: `${e.region.x * 100}%`,
+                  top: `${e.region.y * 100}%`,
+                  width: `${e.region.width * 100}%`,
+                  height: `${e.region.height * 100}%`,
+                }}
+              />
+            )}
+          </div>
+          <figcaption className="text-xs text-slate-500 mt-1">
+            Screenshot {e.image}
+            {e.quote && <span className="block italic text-slate-600 line-clamp-2">"{e.quote}"</span>}
+          </figcaption>
+        </figure>
+      ))}
+    </div>
+  );
+}
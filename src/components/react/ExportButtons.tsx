@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import type { ExportFormat, ExportableReport } from '../../lib/reportExport';
+
+interface ExportButtonsProps {
+  /** Export a shared report by id */
+  reportId?: string;
+  /** Or export a live audit, assembled on demand */
+  getReport?: () => Promise<ExportableReport>;
+}
+
+const FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'pdf', label: 'PDF' },
+  { format: 'docx', label: 'Word' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+];
+
+const buttonClass =
+  'px-3 py-1.5 text-sm font-medium rounded-lg bg-slate-100 text-slate-700 hover:bg-slate-200 disabled:opacity-50';
+
+export default function ExportButtons({ reportId, getReport }: ExportButtonsProps) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Live audits are posted to the same endpoint and downloaded from the response
+  const exportLive = async (format: ExportFormat) => {
+    if (!getReport) return;
+    setExporting(format);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/export?format=${format}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(await getReport()),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Export failed');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `learning-audit.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <span className="text-sm text-slate-500">Export:</span>
+      {FORMATS.map(({ format, label }) =>
+        reportId ? (
+          <a key={format} href={`/api/export?id=${reportId}&format=${format}`} className={buttonClass}>
+            {label}
+          </a>
+        ) : (
+          <button key={format} onClick={() => exportLive(format)} disabled={exporting !== null} className={buttonClass}>
+            {exporting === format ? 'Exporting...' : label}
+          </button>
+        )
+      )}
+      {error && <span className="text-sm text-red-700">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import type { InterventionAction, RemoteInput } from '../../types/navigation';
+import { resumeNavigation, sendRemoteInput } from '../../lib/navigationStream';
+
+interface LiveInterventionProps {
+  sessionId: string;
+  /** Why the navigator needs help */
+  message: string;
+  /** The page as the navigator left it */
+  screenshot?: string;
+}
+
+const KEYS = ['Enter', 'Tab', 'Backspace', 'Escape'];
+
+/**
+ * The user's view into a headless session that is waiting for help: the browser's page, which
+ * they can click, type into and scroll (to log in or solve a captcha), and guidance to send the
+ * navigator when it resumes.
+ */
+export default function LiveIntervention({ sessionId, message, screenshot }: LiveInterventionProps) {
+  const [page, setPage] = useState(screenshot);
+  const [text, setText] = useState('');
+  const [guidance, setGuidance] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [answered, setAnswered] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setPage(screenshot), [screenshot]);
+
+  const send = async (input: RemoteInput) => {
+    setBusy(true);
+    setError(null);
+    try {
+      setPage(await sendRemoteInput(sessionId, input));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The browser did not respond');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const answer = async (action: InterventionAction) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await resumeNavigation(sessionId, action, guidance.trim() || undefined);
+      // The session's next status replaces this panel
+      setAnswered(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The navigator did not respond');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const disabled = busy || answered;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 space-y-3">
+      <div>
+        <h4 className="font-medium text-amber-800">{message}</h4>
+        <p className="text-sm text-amber-700 mt-1">
+          Click the page below to use the navigator's browser, type into the field you clicked, then tell it to continue.
+        </p>
+      </div>
+
+      {page && (
+        <img
+          src={`data:image/png;base64,${page}`}
+          alt="The navigator's browser"
+          onClick={(e) => {
+            if (disabled) return;
+            const box = e.currentTarget.getBoundingClientRect();
+            send({ type: 'click', x: (e.clientX - box.left) / box.width, y: (e.clientY - box.top) / box.height });
+          }}
+          className={`w-full h-auto rounded border border-amber-200 ${disabled ? 'opacity-60' : 'cursor-crosshair'}`}
+        />
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!text) return;
+            send({ type: 'type', text }).then(() => setText(''));
+          }}
+          className="flex flex-1 min-w-60 gap-2"
+        >
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Text to type into the page"
+            disabled={disabled}
+            className="flex-1 px-3 py-1.5 border border-amber-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-amber-400"
+          />
+          <button
+            type="submit"
+            disabled={disabled || !text}
+            className="px-3 py-1.5 bg-white border border-amber-200 text-amber-800 rounded-lg text-sm hover:bg-amber-100 disabled:opacity-50"
+          >
+            Type
+          </button>
+        </form>
+        {KEYS.map((key) => (
+          <button
+            key={key}
+            onClick={() => send({ type: 'press', key })}
+            disabled={disabled}
+            className="px-3 py-1.5 bg-white border border-amber-200 text-amber-800 rounded-lg text-sm hover:bg-amber-100 disabled:opacity-50"
+          >
+            {key}
+          </button>
+        ))}
+        <button
+          onClick={() => send({ type: 'scroll', deltaY: -400 })}
+          disabled={disabled}
+          className="px-3 py-1.5 bg-white border border-amber-200 text-amber-800 rounded-lg text-sm hover:bg-amber-100 disabled:opacity-50"
+        >
+          Scroll up
+        </button>
+        <button
+          onClick={() => send({ type: 'scroll', deltaY: 400 })}
+          disabled={disabled}
+          className="px-3 py-1.5 bg-white border border-amber-200 text-amber-800 rounded-lg text-sm hover:bg-amber-100 disabled:opacity-50"
+        >
+          Scroll down
+        </button>
+      </div>
+
+      <textarea
+        value={guidance}
+        onChange={(e) => setGuidance(e.target.value)}
+        placeholder="Guidance for the navigator, e.g. “The quiz is under Lessons → Week 2”"
+        disabled={disabled}
+        className="w-full h-16 px-3 py-2 border border-amber-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-amber-400 resize-none"
+      />
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => answer('continue')}
+          disabled={disabled}
+          className="px-4 py-2 bg-amber-600 text-white rounded-lg text-sm font-medium hover:bg-amber-700 disabled:bg-amber-300"
+        >
+          I've done it, continue
+        </button>
+        <button
+          onClick={() => answer('skip')}
+          disabled={disabled}
+          className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-200 disabled:opacity-50"
+        >
+          Skip this flow
+        </button>
+        <button
+          onClick={() => answer('abort')}
+          disabled={disabled}
+          className="px-4 py-2 text-slate-500 text-sm hover:text-slate-700 disabled:opacity-50"
+        >
+          Stop navigation
+        </button>
+      </div>
+    </div>
+  );
+}
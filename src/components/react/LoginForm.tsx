@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react';
+import { sameSitePath } from '../../lib/nextPath';
+
+type FormMode = 'sign-in' | 'sign-up';
+
+const inputClass =
+  'mt-1 w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400';
+
+// Only same-site paths, so the redirect can't be pointed at another site
+function nextPath(): string {
+  return sameSitePath(new URLSearchParams(window.location.search).get('next'), window.location.origin);
+}
+
+export default function LoginForm() {
+  const [mode, setMode] = useState<FormMode>('sign-in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Email confirmation links return here with the session in the URL fragment
+  useEffect(() => {
+    const fragment = new URLSearchParams(window.location.hash.slice(1));
+    const accessToken = fragment.get('access_token');
+    const refreshToken = fragment.get('refresh_token');
+    if (!accessToken || !refreshToken) return;
+
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+    setIsSubmitting(true);
+    fetch('/api/auth/session', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ accessToken, refreshToken }),
+    })
+      .then(async (response) => {
+        if (!response.ok) throw new Error((await response.json()).error || 'Sign in failed');
+        window.location.href = nextPath();
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Sign in failed');
+        setIsSubmitting(false);
+      });
+  }, []);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Sign in failed');
+
+      if (data.confirmationRequired) {
+        setNotice('Check your email to confirm your account, then follow the link to sign in.');
+        setIsSubmitting(false);
+        return;
+      }
+      window.location.href = nextPath();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="bg-white border border-slate-200 rounded-lg p-6 max-w-md space-y-4">
+      <div className="flex gap-2 p-1 bg-slate-100 rounded-lg w-fit">
+        {(['sign-in', 'sign-up'] as const).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setMode(option)}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+              mode === option ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-600 hover:text-slate-900'
+            }`}
+          >
+            {option === 'sign-in' ? 'Sign in' : 'Create account'}
+          </button>
+        ))}
+      </div>
+
+      <label className="block text-sm font-medium text-slate-700">
+        Email
+        <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} required className={inputClass} />
+      </label>
+      <label className="block text-sm font-medium text-slate-700">
+        Password
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+          minLength={8}
+          autoComplete={mode === 'sign-in' ? 'current-password' : 'new-password'}
+          className={inputClass}
+        />
+      </label>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+      {notice && <p className="text-sm text-green-700">{notice}</p>}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="px-4 py-2 bg-slate-900 text-white rounded-lg text-sm font-medium hover:bg-slate-800 disabled:bg-slate-400"
+      >
+        {isSubmitting ? 'Please wait...' : mode === 'sign-in' ? 'Sign in' : 'Create account'}
+      </button>
+    </form>
+  );
+}
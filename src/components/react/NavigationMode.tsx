@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import type {
   NavigationFlow,
   NavigationSession,
@@ -7,13 +7,27 @@ import type {
   NavigationConfig,
   WaitingReason,
   LearnerPersona,
+  InterventionAction,
 } from '../../types/navigation';
 import { LEARNER_PERSONAS } from '../../types/navigation';
 import { CONTENT_TYPE_LABELS } from '../../data/navigationPrompts';
+import LiveIntervention from './LiveIntervention';
+import { applyNavigationEvent, streamNavigation } from '../../lib/navigationStream';
+import {
+  importNavigationSession,
+  serializeNavigationSession,
+  type NavigationImportIssue,
+} from '../../lib/navigationSessionFile';
+import type { Project } from '../../lib/projects';
+import type { ProjectCredential } from '../../lib/credentialVault';
 
 interface NavigationModeProps {
   onComplete: (session: NavigationSession) => void;
   onCancel: () => void;
+  /** Projects the user can open, to sign in with one of their test logins */
+  projects?: Project[];
+  projectId?: string;
+  onProjectChange?: (projectId: string) => void;
 }
 
 const FLOW_PRESETS = [
@@ -32,7 +46,19 @@ const WAITING_REASON_MESSAGES: Record<WaitingReason, string> = {
   unknown_state: 'I\'m not sure how to proceed from here.',
 };
 
-export default function NavigationMode({ onComplete, onCancel }: NavigationModeProps) {
+const INTERVENTION_ACTION_LABELS: Record<InterventionAction, string> = {
+  continue: 'Resumed',
+  skip: 'Skipped the flow',
+  abort: 'Stopped the session',
+};
+
+export default function NavigationMode({
+  onComplete,
+  onCancel,
+  projects = [],
+  projectId = '',
+  onProjectChange,
+}: NavigationModeProps) {
   // Session setup state
   const [startUrl, setStartUrl] = useState('');
   const [flows, setFlows] = useState<NavigationFlow[]>([]);
@@ -49,6 +75,29 @@ export default function NavigationMode({ onComplete, onCancel }: NavigationModeP
 
   // Import results
   const [importJson, setImportJson] = useState('');
+  const [importIssues, setImportIssues] = useState<NavigationImportIssue[]>([]);
+
+  // Headless run on the server, cancelled by aborting
+  const runController = useRef<AbortController | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  useEffect(() => () => runController.current?.abort(), []);
+
+  // The project's test logins; none when the user can't edit the project
+  const [credentials, setCredentials] = useState<ProjectCredential[]>([]);
+  const [credentialId, setCredentialId] = useState('');
+
+  useEffect(() => {
+    setCredentialId('');
+    if (!projectId) {
+      setCredentials([]);
+      return;
+    }
+    fetch(`/api/project-credentials?projectId=${encodeURIComponent(projectId)}`)
+      .then((response) => (response.ok ? response.json() : { credentials: [] }))
+      .then((data) => setCredentials(data.credentials ?? []))
+      .catch(() => setCredentials([]));
+  }, [projectId]);
 
   const addFlow = useCallback((description: string) => {
     if (!description.trim()) return;
@@ -109,35 +158,70 @@ export default function NavigationMode({ onComplete, onCancel }: NavigationModeP
     setIsStarting(false);
   }, [startUrl, flows]);
 
-  // Import navigation results from JSON (from Claude Code)
-  const importResults = useCallback((jsonText: string) => {
-    if (!jsonText.trim()) return;
+  // Import a session file: pasted or uploaded JSON, or a zip of screenshots with its manifest
+  const importResults = useCallback(async (input: string | File) => {
+    if (!session || (typeof input === 'string' && !input.trim())) return;
 
-    try {
-      const data = JSON.parse(jsonText);
+    const result = await importNavigationSession(input, session);
+    if (!result.success) {
+      setImportIssues(result.issues);
+      return;
+    }
 
-      if (!data.captures || !Array.isArray(data.captures)) {
-        setError('Invalid format: expected { captures: [...] }');
-        return;
-      }
+    setSession(result.session);
+    setImportJson('');
+    setImportIssues([]);
+    setError(null);
+  }, [session]);
 
-      setSession((prev) => {
-        if (!prev) return null;
-        return {
-          ...prev,
-          captures: data.captures,
-          status: 'completed',
-          endedAt: Date.now(),
-        };
+  const downloadSession = useCallback(() => {
+    if (!session) return;
+
+    const blob = new Blob([JSON.stringify(serializeNavigationSession(session), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'navigation-session.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [session]);
+
+  const runInBrowser = useCallback(async () => {
+    if (!session) return;
+
+    const controller = new AbortController();
+    runController.current = controller;
+    setIsRunning(true);
+    setError(null);
+    setSession((prev) => prev ? { ...prev, status: 'starting' } : null);
+
+    try {
+      await streamNavigation(session, {
+        signal: controller.signal,
+        credentialId: credentialId || undefined,
+        onEvent: (event) => setSession((prev) => prev ? applyNavigationEvent(prev, event) : null),
       });
-      setImportJson('');
-      setError(null);
     } catch (e) {
-      setError('Invalid JSON format. Please paste the captures JSON from Claude Code.');
+      if (!controller.signal.aborted) {
+        setSession((prev) => prev ? {
+          ...prev,
+          status: 'failed',
+          error: e instanceof Error ? e.message : 'Navigation failed',
+          endedAt: Date.now(),
+        } : null);
+      }
+    } finally {
+      runController.current = null;
+      setIsRunning(false);
     }
+  }, [session, credentialId]);
+
+  const stopRun = useCallback(() => {
+    runController.current?.abort();
+    setSession((prev) => prev ? { ...prev, status: 'completed', endedAt: Date.now() } : null);
   }, []);
 
-  const handleUserIntervention = useCallback((action: 'continue' | 'skip' | 'abort') => {
+  const handleUserIntervention = useCallback((action: InterventionAction) => {
     if (!session) return;
 
     if (action === 'abort') {
@@ -338,6 +422,46 @@ export default function NavigationMode({ onComplete, onCancel }: NavigationModeP
             </p>
           </div>
 
+          {/* Test login */}
+          {projects.length > 0 && (
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                Sign In First
+              </label>
+              <div className="flex gap-2">
+                <select
+                  value={projectId}
+                  onChange={(e) => onProjectChange?.(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-slate-400"
+                >
+                  <option value="">No project</option>
+                  {projects.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={credentialId}
+                  onChange={(e) => setCredentialId(e.target.value)}
+                  disabled={credentials.length === 0}
+                  className="flex-1 px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-slate-400 disabled:bg-slate-50 disabled:text-slate-400"
+                >
+                  <option value="">{credentials.length === 0 ? 'No test logins' : 'Without signing in'}</option>
+                  {credentials.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <p className="mt-1 text-xs text-slate-500">
+                The navigator signs in with one of the project's test logins before the flows, and keeps the session for the next run.
+                Add logins on the project's page.
+              </p>
+            </div>
+          )}
+
           {error && (
             <div className="p-3 mb-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-700">
               {error}
@@ -383,7 +507,7 @@ export default function NavigationMode({ onComplete, onCancel }: NavigationModeP
             <li>Enter the URL of your learning experience</li>
             <li>Define the flows you want Claude to test (in order)</li>
             <li>Claude will open a browser and navigate as a real user would</li>
-            <li>If login is needed, you'll be prompted to log in manually</li>
+            <li>If login is needed, Claude signs in with the test login you chose, or prompts you to log in</li>
             <li>Claude captures screenshots at key learning moments</li>
             <li>When done, the captures are analyzed for learning science principles</li>
           </ol>
@@ -450,7 +574,7 @@ export default function NavigationMode({ onComplete, onCancel }: NavigationModeP
               }`}>
                 {flow.description}
               </span>
-              {flow.id === session.currentFlowId && session.status === 'navigating' && (
+              {flow.id === session.currentFlowId && (session.status === 'navigating' || session.status === 'capturing') && (
                 <svg className="animate-spin h-4 w-4 text-blue-500" viewBox="0 0 24 24">
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
@@ -487,7 +611,19 @@ export default function NavigationMode({ onComplete, onCancel }: NavigationModeP
             <div className="flex-1">
               <h4 className="font-medium text-blue-900 mb-2">Ready for Navigation</h4>
               <p className="text-sm text-blue-800 mb-3">
-                Tell Claude Code to navigate your learning experience. Say something like:
+                Run the flows in a headless browser on the server. Captures appear here as they are taken.
+                {credentialId && (
+                  <> It signs in first with <strong>{credentials.find((c) => c.id === credentialId)?.label}</strong>.</>
+                )}
+              </p>
+              <button
+                onClick={runInBrowser}
+                className="px-4 py-2 mb-4 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700"
+              >
+                Run Navigation
+              </button>
+              <p className="text-sm text-blue-800 mb-3">
+                Or tell Claude Code to navigate your learning experience. Say something like:
               </p>
               <div className="bg-white/50 rounded p-3 mb-4 font-mono text-sm text-blue-900">
                 "Navigate to {session.startUrl} using the '{LEARNER_PERSONAS.find(p => p.persona === (session.defaultPersona || 'mixed'))?.label || 'Path Explorer'}' persona and capture these flows: {session.flows.map(f => {
@@ -504,14 +640,38 @@ export default function NavigationMode({ onComplete, onCancel }: NavigationModeP
               <div className="border-t border-blue-200 pt-4 mt-4">
                 <h5 className="text-sm font-medium text-blue-900 mb-2">Import Results</h5>
                 <p className="text-xs text-blue-700 mb-2">
-                  After Claude Code captures screenshots, paste the JSON output here:
+                  After Claude Code captures screenshots, paste the session JSON here or upload it, either as a
+                  .json file or as a .zip of screenshots with a session.json manifest:
                 </p>
                 <textarea
                   value={importJson}
                   onChange={(e) => setImportJson(e.target.value)}
-                  placeholder='{"captures": [...]}'
+                  placeholder='{"format": "navigation-session", "version": 1, "flows": [...], "interactions": [...], "captures": [...]}'
                   className="w-full h-24 px-3 py-2 border border-blue-200 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-400 resize-none"
                 />
+                <input
+                  type="file"
+                  accept=".json,.zip,application/json,application/zip"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) importResults(file);
+                    e.target.value = '';
+                  }}
+                  className="mt-2 block text-xs text-blue-700 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-white file:text-blue-700 file:font-medium hover:file:bg-blue-100"
+                />
+                {importIssues.length > 0 && (
+                  <div className="mt-2 p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700">
+                    <p className="font-medium mb-1">The session file could not be imported:</p>
+                    <ul className="space-y-0.5">
+                      {importIssues.map((issue, index) => (
+                        <li key={index}>
+                          {issue.path && <span className="font-mono">{issue.path}: </span>}
+                          {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
                 <div className="flex gap-2 mt-2">
                   <button
                     onClick={() => importResults(importJson)}
@@ -533,8 +693,57 @@ export default function NavigationMode({ onComplete, onCancel }: NavigationModeP
         </div>
       )}
 
+      {/* Headless run in progress */}
+      {isRunning && (session.status === 'waiting_for_user' && session.waitingReason ? (
+        <LiveIntervention
+          sessionId={session.id}
+          message={WAITING_REASON_MESSAGES[session.waitingReason]}
+          screenshot={session.currentScreenshot}
+        />
+      ) : (
+        <div className="flex items-center justify-between gap-3 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+          {session.currentScreenshot && (
+            <img
+              src={`data:image/png;base64,${session.currentScreenshot}`}
+              alt="The navigator's current page"
+              className="h-16 w-auto rounded border border-blue-200"
+            />
+          )}
+          <span className="flex-1">The navigator is working through your flows.</span>
+          <button onClick={stopRun} className="px-3 py-1.5 text-blue-700 hover:text-blue-900 font-medium">
+            Stop
+          </button>
+        </div>
+      ))}
+
+      {/* Times the user stepped in */}
+      {session.interventions && session.interventions.length > 0 && (
+        <div className="bg-white rounded-lg border border-slate-200 p-4">
+          <h4 className="font-medium text-slate-900 mb-3">Interventions</h4>
+          <ul className="space-y-2 text-sm">
+            {session.interventions.map((intervention) => (
+              <li key={intervention.id} className="text-slate-700">
+                <span className="font-medium">
+                  {session.flows.find((f) => f.id === intervention.flowId)?.description ?? intervention.flowId}
+                </span>
+                {': '}
+                {WAITING_REASON_MESSAGES[intervention.reason]}{' '}
+                <span className="text-slate-500">
+                  {INTERVENTION_ACTION_LABELS[intervention.action]}
+                  {intervention.remoteInputs > 0 && ` after ${intervention.remoteInputs} browser input${intervention.remoteInputs === 1 ? '' : 's'}`}
+                  {` (${Math.round((intervention.resolvedAt - intervention.requestedAt) / 1000)}s)`}
+                </span>
+                {intervention.guidance && (
+                  <p className="text-slate-500 italic">“{intervention.guidance}”</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* User intervention needed */}
-      {session.status === 'waiting_for_user' && session.waitingReason && (
+      {session.status === 'waiting_for_user' && session.waitingReason && !isRunning && (
         <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
           <div className="flex items-start gap-3">
             <svg className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -652,6 +861,13 @@ export default function NavigationMode({ onComplete, onCancel }: NavigationModeP
           >
             Analyze {session.captures.length} Captures
           </button>
+          <button
+            onClick={downloadSession}
+            disabled={session.captures.length === 0}
+            className="px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 disabled:text-slate-300 disabled:cursor-not-allowed"
+          >
+            Download Session
+          </button>
           <button
             onClick={onCancel}
             className="px-4 py-2 text-slate-600 hover:text-slate-900"
@@ -0,0 +1,131 @@
+import { useState, useMemo } from 'react';
+import { WEIGHT_OPTIONS } from '../../data/auditProfiles';
+
+interface SelectablePrinciple {
+  id: string;
+  title: string;
+  category: string;
+  essential: boolean;
+}
+
+interface PrincipleSelectorProps {
+  principles: SelectablePrinciple[];
+  selectedIds: string[];
+  onChange: (selectedIds: string[]) => void;
+  /** Per-principle weights; when provided with onWeightChange, a weight picker is shown for selected principles */
+  weights?: Record<string, number>;
+  onWeightChange?: (principleId: string, weight: number) => void;
+  disabled?: boolean;
+  defaultExpanded?: boolean;
+}
+
+export default function PrincipleSelector({
+  principles,
+  selectedIds,
+  onChange,
+  weights,
+  onWeightChange,
+  disabled = false,
+  defaultExpanded = false,
+}: PrincipleSelectorProps) {
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+
+  // Group principles by category, preserving the incoming (alphabetical) order
+  const principlesByCategory = useMemo(() => {
+    const groups: Record<string, SelectablePrinciple[]> = {};
+    for (const principle of principles) {
+      if (!groups[principle.category]) groups[principle.category] = [];
+      groups[principle.category].push(principle);
+    }
+    return Object.entries(groups).sort(([a], [b]) => a.localeCompare(b));
+  }, [principles]);
+
+  const togglePrinciple = (id: string) => {
+    if (selectedIds.includes(id)) {
+      onChange(selectedIds.filter((s) => s !== id));
+    } else {
+      // Keep selection in the same order as the principle list
+      onChange(principles.filter((p) => p.id === id || selectedIds.includes(p.id)).map((p) => p.id));
+    }
+  };
+
+  const selectEssential = () => onChange(principles.filter((p) => p.essential).map((p) => p.id));
+  const selectAll = () => onChange(principles.map((p) => p.id));
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-slate-700">
+          Auditing <span className="font-medium">{selectedIds.length}</span> of {principles.length} principles
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          disabled={disabled}
+          className="text-sm font-medium text-slate-600 hover:text-slate-900 disabled:opacity-50"
+        >
+          {isExpanded ? 'Done' : 'Choose Principles'}
+        </button>
+      </div>
+
+      {isExpanded && !disabled && (
+        <div className="mt-4 pt-4 border-t border-slate-100">
+          <div className="flex gap-2 mb-4">
+            <button
+              type="button"
+              onClick={selectEssential}
+              className="px-3 py-1.5 bg-slate-100 text-slate-600 rounded-full text-xs hover:bg-slate-200"
+            >
+              Essential only
+            </button>
+            <button
+              type="button"
+              onClick={selectAll}
+              className="px-3 py-1.5 bg-slate-100 text-slate-600 rounded-full text-xs hover:bg-slate-200"
+            >
+              Select all
+            </button>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {principlesByCategory.map(([category, categoryPrinciples]) => (
+              <div key={category}>
+                <div className="text-xs font-medium text-slate-500 uppercase tracking-wide mb-2">{category}</div>
+                <div className="space-y-1">
+                  {categoryPrinciples.map((principle) => (
+                    <div key={principle.id} className="flex items-center gap-2">
+                      <label className="flex-1 flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(principle.id)}
+                          onChange={() => togglePrinciple(principle.id)}
+                          className="rounded border-slate-300 text-slate-600 focus:ring-slate-500"
+                        />
+                        {principle.title}
+                        {principle.essential && (
+                          <span className="text-amber-500" title="Essential principle">&#9733;</span>
+                        )}
+                      </label>
+                      {weights && onWeightChange && selectedIds.includes(principle.id) && (
+                        <select
+                          value={weights[principle.id] ?? 1}
+                          onChange={(e) => onWeightChange(principle.id, Number(e.target.value))}
+                          className="text-xs border border-slate-200 rounded px-1 py-0.5 text-slate-600"
+                          title="Weight in overall score"
+                        >
+                          {WEIGHT_OPTIONS.map((w) => (
+                            <option key={w} value={w}>×{w}</option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
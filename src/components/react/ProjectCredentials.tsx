@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import type { ProjectCredential } from '../../lib/credentialVault';
+
+interface ProjectCredentialsProps {
+  projectId: string;
+  credentials: ProjectCredential[];
+}
+
+const EMPTY_FORM = {
+  label: '',
+  loginUrl: '',
+  username: '',
+  password: '',
+  usernameTarget: '',
+  passwordTarget: '',
+  submitTarget: '',
+};
+
+const inputClass =
+  'px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400';
+
+/**
+ * A project's test logins, which live navigation signs in with before its flows. Usernames and
+ * passwords are write-only: once saved they are never sent back to the browser.
+ */
+export default function ProjectCredentials({ projectId, credentials: initialCredentials }: ProjectCredentialsProps) {
+  const [credentials, setCredentials] = useState(initialCredentials);
+  const [form, setForm] = useState<typeof EMPTY_FORM | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (url: string, init: RequestInit) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' } });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Request failed');
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addCredential = async () => {
+    if (!form) return;
+    const data = await request('/api/project-credentials', {
+      method: 'POST',
+      body: JSON.stringify({ projectId, ...form }),
+    });
+    if (!data) return;
+    setCredentials((prev) => [...prev, data.credential]);
+    setForm(null);
+  };
+
+  const forgetSession = async (credential: ProjectCredential) => {
+    const data = await request(`/api/project-credentials?id=${credential.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ forgetSession: true }),
+    });
+    if (data) setCredentials((prev) => prev.map((c) => (c.id === credential.id ? data.credential : c)));
+  };
+
+  const deleteCredential = async (credential: ProjectCredential) => {
+    if (!window.confirm(`Delete the test login "${credential.label}"?`)) return;
+    const data = await request(`/api/project-credentials?id=${credential.id}`, { method: 'DELETE' });
+    if (data) setCredentials((prev) => prev.filter((c) => c.id !== credential.id));
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-4 text-sm space-y-3">
+      <p className="text-slate-500">
+        Live navigation can sign in with one of these before it runs its flows, and keeps the browser session for the next
+        run. Use accounts made for testing; passwords are stored encrypted and never shown again.
+      </p>
+
+      {credentials.length > 0 && (
+        <ul className="divide-y divide-slate-100">
+          {credentials.map((credential) => (
+            <li key={credential.id} className="py-2 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <div className="font-medium text-slate-900">{credential.label}</div>
+                <div className="text-slate-500 break-all">{credential.loginUrl}</div>
+                <div className="text-xs text-slate-400">
+                  {credential.storageStateSavedAt
+                    ? `Session saved ${new Date(credential.storageStateSavedAt).toLocaleString()}`
+                    : 'Signs in on the next run'}
+                </div>
+              </div>
+              <div className="flex gap-3 shrink-0">
+                {credential.storageStateSavedAt && (
+                  <button
+                    onClick={() => forgetSession(credential)}
+                    disabled={busy}
+                    className="text-slate-600 hover:text-slate-900 disabled:opacity-50"
+                  >
+                    Forget saved session
+                  </button>
+                )}
+                <button
+                  onClick={() => deleteCredential(credential)}
+                  disabled={busy}
+                  className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {form ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            addCredential();
+          }}
+          className="space-y-3 border-t border-slate-100 pt-3"
+        >
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="block text-slate-600">
+              Label
+              <input
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+                placeholder="Student account"
+                required
+                className={`mt-1 w-full ${inputClass}`}
+              />
+            </label>
+            <label className="block text-slate-600">
+              Login page URL
+              <input
+                type="url"
+                value={form.loginUrl}
+                onChange={(e) => setForm({ ...form, loginUrl: e.target.value })}
+                placeholder="https://example.com/login"
+                required
+                className={`mt-1 w-full ${inputClass}`}
+              />
+            </label>
+            <label className="block text-slate-600">
+              Username or email
+              <input
+                value={form.username}
+                onChange={(e) => setForm({ ...form, username: e.target.value })}
+                autoComplete="off"
+                required
+                className={`mt-1 w-full ${inputClass}`}
+              />
+            </label>
+            <label className="block text-slate-600">
+              Password
+              <input
+                type="password"
+                value={form.password}
+                onChange={(e) => setForm({ ...form, password: e.target.value })}
+                autoComplete="new-password"
+                required
+                className={`mt-1 w-full ${inputClass}`}
+              />
+            </label>
+          </div>
+          <details>
+            <summary className="cursor-pointer text-slate-600">Login form fields (optional)</summary>
+            <p className="mt-2 text-xs text-slate-500">
+              CSS selectors or labels, for forms whose fields the navigator doesn't find on its own.
+            </p>
+            <div className="mt-2 grid gap-3 sm:grid-cols-3">
+              {(['usernameTarget', 'passwordTarget', 'submitTarget'] as const).map((field) => (
+                <input
+                  key={field}
+                  value={form[field]}
+                  onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                  placeholder={
+                    field === 'usernameTarget' ? '#email' : field === 'passwordTarget' ? '#password' : 'Sign in'
+                  }
+                  className={inputClass}
+                />
+              ))}
+            </div>
+          </details>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={busy}
+              className="px-4 py-2 bg-slate-900 text-white rounded-lg text-sm font-medium hover:bg-slate-800 disabled:bg-slate-400"
+            >
+              Save login
+            </button>
+            <button type="button" onClick={() => setForm(null)} className="px-4 py-2 text-sm text-slate-600 hover:text-slate-900">
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button onClick={() => setForm(EMPTY_FORM)} className="font-medium text-slate-700 hover:text-slate-900">
+          Add a test login
+        </button>
+      )}
+
+      {error && <p className="text-red-700">{error}</p>}
+    </div>
+  );
+}
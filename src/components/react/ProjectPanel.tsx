@@ -0,0 +1,454 @@
+import { useMemo, useState } from 'react';
+import type { AuditPromptData } from '../../data/auditPrompts';
+import type { Project } from '../../lib/projects';
+import type { ActionItem } from '../../lib/actionItems';
+import { type ProjectAudit, addressedRecommendations, nextAudit, openGaps, projectTrend } from '../../lib/projectTrends';
+import ActionItems from './ActionItems';
+import ProjectCredentials from './ProjectCredentials';
+import type { ProjectCredential } from '../../lib/credentialVault';
+import { type WorkspaceMembership, type WorkspaceRole, hasRole } from '../../lib/workspaces';
+
+type Category =
+  | 'Memory & Retention'
+  | 'Practice & Skill Building'
+  | 'Motivation & Engagement'
+  | 'Cognitive Load'
+  | 'Feedback & Assessment'
+  | 'Transfer & Application';
+
+interface Principle {
+  id: string;
+  title: string;
+  category: Category;
+  audit: AuditPromptData;
+}
+
+interface ProjectPanelProps {
+  principles: Principle[];
+  project: Project;
+  role: WorkspaceRole;
+  /** Whether the viewer created the project, and so may move it between workspaces */
+  isOwner: boolean;
+  audits: Array<ProjectAudit & { productName: string | null }>;
+  /** Action items tracked on the project's audits */
+  actionItems: ActionItem[];
+  /** Workspaces the viewer edits, for sharing the project */
+  workspaces: WorkspaceMembership[];
+  /** Test logins for live navigation; null for viewers, who can't manage them */
+  credentials: ProjectCredential[] | null;
+}
+
+const categoryStrokes: Record<Category, string> = {
+  'Memory & Retention': 'stroke-purple-500',
+  'Practice & Skill Building': 'stroke-green-500',
+  'Motivation & Engagement': 'stroke-orange-500',
+  'Cognitive Load': 'stroke-blue-500',
+  'Feedback & Assessment': 'stroke-yellow-500',
+  'Transfer & Application': 'stroke-pink-500',
+};
+
+const categoryColors: Record<Category, { bg: string; text: string }> = {
+  'Memory & Retention': { bg: 'bg-purple-100', text: 'text-purple-800' },
+  'Practice & Skill Building': { bg: 'bg-green-100', text: 'text-green-800' },
+  'Motivation & Engagement': { bg: 'bg-orange-100', text: 'text-orange-800' },
+  'Cognitive Load': { bg: 'bg-blue-100', text: 'text-blue-800' },
+  'Feedback & Assessment': { bg: 'bg-yellow-100', text: 'text-yellow-800' },
+  'Transfer & Application': { bg: 'bg-pink-100', text: 'text-pink-800' },
+};
+
+const inputClass =
+  'px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400';
+
+const CHART = { width: 640, height: 220, padX: 32, padY: 16 };
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+/** Scores from 1 to 5 over the audits, evenly spaced whatever the time between them */
+function TrendChart({ points, series }: { points: number; series: Array<{ label: string; className: string; values: Array<number | null> }> }) {
+  const x = (i: number) => CHART.padX + (points === 1 ? 0.5 : i / (points - 1)) * (CHART.width - CHART.padX * 2);
+  const y = (score: number) => CHART.padY + ((5 - score) / 4) * (CHART.height - CHART.padY * 2);
+
+  return (
+    <svg viewBox={`0 0 ${CHART.width} ${CHART.height}`} className="w-full h-auto" role="img" aria-label="Scores over time">
+      {[1, 2, 3, 4, 5].map((score) => (
+        <g key={score}>
+          <line x1={CHART.padX} x2={CHART.width - CHART.padX} y1={y(score)} y2={y(score)} className="stroke-slate-100" />
+          <text x={CHART.padX - 8} y={y(score) + 4} textAnchor="end" className="fill-slate-400 text-[10px]">
+            {score}
+          </text>
+        </g>
+      ))}
+      {series.map((s) => {
+        const defined = s.values.map((v, i) => (v === null ? null : ([x(i), y(v)] as const))).filter((p) => p !== null);
+        return (
+          <g key={s.label}>
+            <polyline points={defined.map(([px, py]) => `${px},${py}`).join(' ')} fill="none" className={s.className} />
+            {defined.map(([px, py]) => (
+              <circle key={`${px}-${py}`} cx={px} cy={py} r={3} className={`fill-white ${s.className}`}>
+                <title>{s.label}</title>
+              </circle>
+            ))}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export default function ProjectPanel({
+  principles,
+  project: initialProject,
+  role,
+  isOwner,
+  audits,
+  actionItems,
+  workspaces,
+  credentials,
+}: ProjectPanelProps) {
+  const [project, setProject] = useState(initialProject);
+  const [editing, setEditing] = useState<Project | null>(null);
+  const [shownCategories, setShownCategories] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canEdit = hasRole(role, 'editor');
+
+  const trend = useMemo(() => projectTrend(audits, principles), [audits, principles]);
+  const gaps = useMemo(() => openGaps(audits, principles), [audits, principles]);
+  const progress = useMemo(() => addressedRecommendations(audits, principles).reverse(), [audits, principles]);
+  const categories = useMemo(
+    () => [...new Set(trend.flatMap((point) => Object.keys(point.categories)))].sort() as Category[],
+    [trend]
+  );
+  const auditsById = useMemo(() => new Map(audits.map((a) => [a.id, a])), [audits]);
+  // Items grouped by the audit they came from, newest audit first
+  const actionGroups = useMemo(
+    () =>
+      [...trend]
+        .reverse()
+        .map((point) => ({ reportId: point.reportId, items: actionItems.filter((item) => item.reportId === point.reportId) }))
+        .filter((group) => group.items.length > 0),
+    [trend, actionItems]
+  );
+
+  const series = [
+    { label: 'Overall', className: 'stroke-slate-900 stroke-2', values: trend.map((p) => p.overallScore) },
+    ...categories
+      .filter((c) => shownCategories.has(c))
+      .map((c) => ({ label: c, className: categoryStrokes[c] ?? 'stroke-slate-400', values: trend.map((p) => p.categories[c] ?? null) })),
+  ];
+
+  const toggleCategory = (category: string) =>
+    setShownCategories((current) => {
+      const next = new Set(current);
+      if (!next.delete(category)) next.add(category);
+      return next;
+    });
+
+  const request = async (url: string, init: RequestInit) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' } });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Request failed');
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveDetails = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    const data = await request(`/api/projects?id=${project.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({
+        name: editing.name,
+        url: editing.url ?? '',
+        audience: editing.audience,
+        context: editing.context,
+        ...(isOwner && { workspaceId: editing.workspaceId }),
+      }),
+    });
+    if (!data) return;
+    setProject(data.project);
+    setEditing(null);
+  };
+
+  const deleteProject = async () => {
+    if (!window.confirm('Delete this project? Its audits are kept.')) return;
+    const data = await request(`/api/projects?id=${project.id}`, { method: 'DELETE' });
+    if (data) window.location.href = '/dashboard';
+  };
+
+  return (
+    <div className="space-y-8">
+      {error && <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>}
+
+      {/* Details */}
+      {editing ? (
+        <form onSubmit={saveDetails} className="bg-white rounded-lg border border-slate-200 p-4 space-y-3">
+          <label className="block text-sm text-slate-600">
+            Name
+            <input
+              type="text"
+              value={editing.name}
+              onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+              required
+              className={`mt-1 block w-full ${inputClass}`}
+            />
+          </label>
+          <label className="block text-sm text-slate-600">
+            URL
+            <input
+              type="url"
+              value={editing.url ?? ''}
+              onChange={(e) => setEditing({ ...editing, url: e.target.value })}
+              placeholder="https://"
+              className={`mt-1 block w-full ${inputClass}`}
+            />
+          </label>
+          <label className="block text-sm text-slate-600">
+            Audience
+            <input
+              type="text"
+              value={editing.audience ?? ''}
+              onChange={(e) => setEditing({ ...editing, audience: e.target.value })}
+              placeholder="e.g. New sales hires"
+              className={`mt-1 block w-full ${inputClass}`}
+            />
+          </label>
+          <label className="block text-sm text-slate-600">
+            Context
+            <textarea
+              value={editing.context ?? ''}
+              onChange={(e) => setEditing({ ...editing, context: e.target.value })}
+              rows={3}
+              placeholder="Goals, constraints, what changed since the last audit"
+              className={`mt-1 block w-full ${inputClass}`}
+            />
+          </label>
+          {isOwner && (
+            <label className="block text-sm text-slate-600">
+              Workspace
+              <select
+                value={editing.workspaceId ?? ''}
+                onChange={(e) => setEditing({ ...editing, workspaceId: e.target.value || null })}
+                className={`mt-1 block ${inputClass}`}
+              >
+                <option value="">None (only you)</option>
+                {workspaces.map((w) => (
+                  <option key={w.id} value={w.id}>
+                    {w.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={busy}
+              className="px-4 py-2 bg-slate-900 text-white rounded-lg text-sm font-medium hover:bg-slate-800 disabled:bg-slate-400"
+            >
+              Save
+            </button>
+            <button type="button" onClick={() => setEditing(null)} className="px-4 py-2 text-sm text-slate-600 hover:text-slate-900">
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <section className="bg-white rounded-lg border border-slate-200 p-4 text-sm text-slate-700 space-y-1">
+          {project.url && (
+            <div>
+              <span className="text-slate-500">URL:</span>{' '}
+              <a href={project.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 break-all">
+                {project.url}
+              </a>
+            </div>
+          )}
+          {project.audience && (
+            <div>
+              <span className="text-slate-500">Audience:</span> {project.audience}
+            </div>
+          )}
+          {project.context && <p className="whitespace-pre-line">{project.context}</p>}
+          {!project.url && !project.audience && !project.context && (
+            <p className="text-slate-500">No details yet.</p>
+          )}
+          <div className="flex gap-4 pt-2">
+            {canEdit && (
+              <button onClick={() => setEditing(project)} className="font-medium text-slate-700 hover:text-slate-900">
+                Edit details
+              </button>
+            )}
+            {hasRole(role, 'owner') && (
+              <button onClick={deleteProject} disabled={busy} className="text-red-600 hover:text-red-800 disabled:opacity-50">
+                Delete project
+              </button>
+            )}
+          </div>
+        </section>
+      )}
+
+      {canEdit && credentials && (
+        <section>
+          <h2 className="text-lg font-semibold text-slate-900 mb-3">Test logins</h2>
+          <ProjectCredentials projectId={project.id} credentials={credentials} />
+        </section>
+      )}
+
+      {audits.length === 0 ? (
+        <div className="bg-white rounded-lg border border-slate-200 p-8 text-center text-slate-500">
+          No audits yet. Choose this project when you share an audit, or attach an existing one from your dashboard.{' '}
+          <a href="/audit" className="font-medium text-slate-700 hover:text-slate-900">
+            Start an audit &rarr;
+          </a>
+        </div>
+      ) : (
+        <>
+          {/* Trend */}
+          <section>
+            <h2 className="text-lg font-semibold text-slate-900 mb-3">Scores over time</h2>
+            <div className="bg-white rounded-lg border border-slate-200 p-4">
+              <TrendChart points={trend.length} series={series} />
+              <div className="flex gap-2 flex-wrap mt-3">
+                {categories.map((c) => (
+                  <button
+                    key={c}
+                    onClick={() => toggleCategory(c)}
+                    className={`px-2 py-0.5 text-xs rounded-full ${
+                      shownCategories.has(c) ? `${categoryColors[c].bg} ${categoryColors[c].text}` : 'bg-slate-100 text-slate-500'
+                    }`}
+                  >
+                    {c}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </section>
+
+          {/* Audits */}
+          <section>
+            <h2 className="text-lg font-semibold text-slate-900 mb-3">Audits ({audits.length})</h2>
+            <ul className="bg-white rounded-lg border border-slate-200 divide-y divide-slate-100">
+              {trend
+                .map((point, i) => ({ point, previous: trend[i - 1] }))
+                .reverse()
+                .map(({ point, previous }) => (
+                  <li key={point.reportId} className="p-4 flex items-center justify-between gap-4 flex-wrap">
+                    <div>
+                      <a href={`/audit/${point.reportId}`} className="font-medium text-slate-900 hover:text-blue-600">
+                        {auditsById.get(point.reportId)?.productName || project.name}
+                      </a>
+                      <div className="text-xs text-slate-500 mt-0.5">{formatDate(point.createdAt)}</div>
+                    </div>
+                    <div className="flex items-center gap-4 text-sm">
+                      {previous && (
+                        <a
+                          href={`/audit/compare?a=${previous.reportId}&b=${point.reportId}`}
+                          className="text-slate-500 hover:text-slate-800"
+                        >
+                          Compare with previous
+                        </a>
+                      )}
+                      <span className="font-medium text-slate-700">{point.overallScore.toFixed(1)}/5</span>
+                    </div>
+                  </li>
+                ))}
+            </ul>
+          </section>
+
+          {/* Open gaps */}
+          <section>
+            <h2 className="text-lg font-semibold text-slate-900 mb-3">Open gaps ({gaps.length})</h2>
+            {gaps.length === 0 ? (
+              <div className="bg-white rounded-lg border border-slate-200 p-4 text-sm text-slate-500">
+                The latest audit found no gaps.
+              </div>
+            ) : (
+              <ul className="bg-white rounded-lg border border-red-200 divide-y divide-slate-100">
+                {gaps.map((gap) => (
+                  <li key={gap.id} className="p-4">
+                    <div className="flex items-center justify-between gap-2">
+                      <a href={`/principles/${gap.id}`} className="font-medium text-slate-900 hover:text-blue-600">
+                        {gap.title}
+                      </a>
+                      <span className="text-sm text-slate-500">{gap.score}/5</span>
+                    </div>
+                    <p className="text-sm text-slate-600 mt-1">{gap.recommendation}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {/* Action items, with finished ones checked against the audit that followed */}
+          {actionGroups.length > 0 && (
+            <section>
+              <h2 className="text-lg font-semibold text-slate-900 mb-3">Action items</h2>
+              <div className="space-y-4">
+                {actionGroups.map((group) => (
+                  <div key={group.reportId}>
+                    <a href={`/audit/${group.reportId}`} className="block text-sm font-medium text-slate-700 hover:text-slate-900 mb-2">
+                      From the audit of {formatDate(auditsById.get(group.reportId)!.createdAt)} &rarr;
+                    </a>
+                    <ActionItems
+                      reportId={group.reportId}
+                      principles={principles}
+                      items={group.items}
+                      canEdit={false}
+                      laterRatings={nextAudit(audits, group.reportId)?.ratings ?? null}
+                    />
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {/* Addressed recommendations */}
+          {progress.length > 0 && (
+            <section>
+              <h2 className="text-lg font-semibold text-slate-900 mb-3">Addressed between audits</h2>
+              <div className="space-y-3">
+                {progress.map((step) => (
+                  <div key={step.toReportId} className="bg-white rounded-lg border border-slate-200 p-4">
+                    <div className="text-sm font-medium text-slate-700 mb-2">
+                      {formatDate(step.createdAt)}
+                      <span className="font-normal text-slate-500">
+                        {' '}
+                        · since the audit of {formatDate(auditsById.get(step.fromReportId)?.createdAt ?? step.createdAt)}
+                      </span>
+                    </div>
+                    {step.addressed.length === 0 ? (
+                      <p className="text-sm text-slate-500">No gaps were closed.</p>
+                    ) : (
+                      <ul className="space-y-2">
+                        {step.addressed.map((item) => (
+                          <li key={item.id} className="text-sm">
+                            <span className="text-green-600">&#10003;</span>{' '}
+                            <span className="text-slate-900">{item.title}</span>{' '}
+                            <span className="text-slate-500">
+                              ({item.before}/5 &rarr; {item.after}/5)
+                            </span>
+                            <p className="text-slate-500 ml-5">{item.recommendation}</p>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,14 @@
 import { useState, useEffect } from 'react';
-
-type RelevanceLevel = 'critical' | 'high' | 'moderate' | 'low';
-
-interface AudienceRelevance {
-  learningDesigners?: RelevanceLevel;
-  educators?: RelevanceLevel;
-  selfLearners?: RelevanceLevel;
-}
-
-interface ContextRelevance {
-  gameBasedLearning?: RelevanceLevel;
-  classroomInstruction?: RelevanceLevel;
-  elearning?: RelevanceLevel;
-  selfStudy?: RelevanceLevel;
-}
+import {
+  type RelevanceLevel,
+  type AudienceRelevance,
+  type ContextRelevance,
+  type AudienceKey,
+  type ContextKey,
+  AUDIENCE_LABELS,
+  CONTEXT_LABELS,
+  RELEVANCE_PRIORITY,
+} from '../../data/relevance';
 
 export interface PrincipleRelevance {
   id: string;
@@ -25,23 +20,6 @@ interface RelevanceFilterProps {
   principles: PrincipleRelevance[];
 }
 
-type AudienceKey = keyof AudienceRelevance;
-type ContextKey = keyof ContextRelevance;
-
-const audienceLabels: Record<AudienceKey, string> = {
-  learningDesigners: 'Learning Designer',
-  educators: 'Educator/Teacher',
-  selfLearners: 'Self-directed Learner',
-};
-
-// Default context labels for designers and educators
-const designerContextLabels: Record<ContextKey, string> = {
-  gameBasedLearning: 'Game-Based Learning',
-  classroomInstruction: 'Classroom Instruction',
-  elearning: 'E-Learning',
-  selfStudy: 'Self-Study',
-};
-
 // Learner-friendly context labels
 const learnerContextLabels: Partial<Record<ContextKey, string>> = {
   selfStudy: 'Studying on my own',
@@ -58,19 +36,12 @@ const getContextOptions = (audience: AudienceKey | ''): { key: ContextKey; label
       { key: 'elearning', label: learnerContextLabels.elearning! },
     ];
   }
-  return (Object.keys(designerContextLabels) as ContextKey[]).map((key) => ({
+  return (Object.keys(CONTEXT_LABELS) as ContextKey[]).map((key) => ({
     key,
-    label: designerContextLabels[key],
+    label: CONTEXT_LABELS[key],
   }));
 };
 
-const relevancePriority: Record<RelevanceLevel, number> = {
-  critical: 4,
-  high: 3,
-  moderate: 2,
-  low: 1,
-};
-
 export default function RelevanceFilter({ principles }: RelevanceFilterProps) {
   const [selectedAudience, setSelectedAudience] = useState<AudienceKey | ''>('');
   const [selectedContext, setSelectedContext] = useState<ContextKey | ''>('');
@@ -112,7 +83,7 @@ export default function RelevanceFilter({ principles }: RelevanceFilterProps) {
         const relevance = principle.audienceRelevance[selectedAudience];
         if (!relevance) {
           shouldShow = false;
-        } else if (minRelevance && relevancePriority[relevance] < relevancePriority[minRelevance]) {
+        } else if (minRelevance && RELEVANCE_PRIORITY[relevance] < RELEVANCE_PRIORITY[minRelevance]) {
           shouldShow = false;
         }
       }
@@ -122,7 +93,7 @@ export default function RelevanceFilter({ principles }: RelevanceFilterProps) {
         const relevance = principle.contextRelevance[selectedContext];
         if (!relevance) {
           shouldShow = false;
-        } else if (minRelevance && relevancePriority[relevance] < relevancePriority[minRelevance]) {
+        } else if (minRelevance && RELEVANCE_PRIORITY[relevance] < RELEVANCE_PRIORITY[minRelevance]) {
           shouldShow = false;
         }
       }
@@ -175,9 +146,9 @@ export default function RelevanceFilter({ principles }: RelevanceFilterProps) {
             className="w-full px-3 py-2 text-sm bg-white border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-slate-400 focus:border-transparent"
           >
             <option value="">Anyone</option>
-            {(Object.keys(audienceLabels) as AudienceKey[]).map((key) => (
+            {(Object.keys(AUDIENCE_LABELS) as AudienceKey[]).map((key) => (
               <option key={key} value={key}>
-                {audienceLabels[key]}
+                {AUDIENCE_LABELS[key]}
               </option>
             ))}
           </select>
@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import type { ReportAccessMode, ReportAccessSummary } from '../../lib/reportAccess';
+
+interface ReportAccessPanelProps {
+  reportId: string;
+  access: ReportAccessSummary;
+}
+
+const ACCESS_MODES: Array<{ mode: ReportAccessMode; label: string; description: string }> = [
+  { mode: 'link', label: 'Anyone with the link', description: 'No password needed.' },
+  { mode: 'password', label: 'Password', description: 'Viewers enter a password, or use a signed link.' },
+  { mode: 'signed', label: 'Signed links only', description: 'Only expiring links you create below will open it.' },
+  { mode: 'private', label: 'Only me', description: 'Only you, and members of its workspace, can open it.' },
+];
+
+const LINK_DURATIONS = [
+  { hours: 24, label: '1 day' },
+  { hours: 24 * 7, label: '7 days' },
+  { hours: 24 * 30, label: '30 days' },
+];
+
+const inputClass =
+  'px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400';
+const buttonClass =
+  'px-3 py-1.5 text-sm font-medium rounded-lg bg-slate-100 text-slate-700 hover:bg-slate-200 disabled:opacity-50';
+
+// datetime-local values are in local time without a zone
+const toLocalInput = (iso: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export default function ReportAccessPanel({ reportId, access: initialAccess }: ReportAccessPanelProps) {
+  const [access, setAccess] = useState(initialAccess);
+  const [mode, setMode] = useState<ReportAccessMode>(initialAccess.mode);
+  const [password, setPassword] = useState('');
+  const [expiresAt, setExpiresAt] = useState(toLocalInput(initialAccess.expiresAt));
+  const [linkHours, setLinkHours] = useState(LINK_DURATIONS[1].hours);
+  const [signedLink, setSignedLink] = useState<{ url: string; expiresAt: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (url: string, init: RequestInit) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' } });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Request failed');
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updateAccess = async (changes: Record<string, unknown>, done: string) => {
+    const data = await request(`/api/reports?id=${reportId}`, { method: 'PATCH', body: JSON.stringify(changes) });
+    if (!data) return;
+    setAccess(data.access);
+    setPassword('');
+    setMessage(done);
+  };
+
+  const saveSettings = () =>
+    updateAccess(
+      {
+        mode,
+        ...(password && { password }),
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+      },
+      'Access settings saved'
+    );
+
+  const createSignedLink = async () => {
+    const data = await request('/api/report-links', {
+      method: 'POST',
+      body: JSON.stringify({ id: reportId, expiresInHours: linkHours }),
+    });
+    if (!data) return;
+    const url = `${window.location.origin}${data.url}`;
+    setSignedLink({ url, expiresAt: data.expiresAt });
+    navigator.clipboard.writeText(url);
+  };
+
+  const deleteReport = async () => {
+    if (!window.confirm('Delete this report? Anyone with a link will no longer be able to open it.')) return;
+    const data = await request(`/api/reports?id=${reportId}`, { method: 'DELETE' });
+    if (data) window.location.href = '/audit';
+  };
+
+  const needsPassword = mode === 'password' && !access.hasPassword && !password;
+
+  return (
+    <details className="bg-white border border-slate-200 rounded-lg p-4">
+      <summary className="cursor-pointer text-sm font-medium text-slate-700">
+        Manage access · {ACCESS_MODES.find((m) => m.mode === access.mode)?.label}
+        {access.expiresAt && <> · expires {new Date(access.expiresAt).toLocaleString()}</>}
+      </summary>
+
+      <div className="mt-4 space-y-4">
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium text-slate-700 mb-1">Who can open this report</legend>
+          {ACCESS_MODES.map((option) => (
+            <label key={option.mode} className="flex items-start gap-2 text-sm">
+              <input
+                type="radio"
+                name="access-mode"
+                checked={mode === option.mode}
+                onChange={() => setMode(option.mode)}
+                className="mt-1"
+              />
+              <span>
+                <span className="text-slate-900">{option.label}</span>
+                <span className="block text-xs text-slate-500">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </fieldset>
+
+        {mode === 'password' && (
+          <label className="block text-sm text-slate-600">
+            {access.hasPassword ? 'New password (leave blank to keep the current one)' : 'Password'}
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              minLength={8}
+              className={`mt-1 w-full max-w-sm ${inputClass}`}
+            />
+          </label>
+        )}
+
+        <label className="block text-sm text-slate-600">
+          Expires (optional)
+          <input
+            type="datetime-local"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+            className={`mt-1 block ${inputClass}`}
+          />
+        </label>
+
+        <button onClick={saveSettings} disabled={busy || needsPassword} className={buttonClass}>
+          Save access settings
+        </button>
+
+        {access.mode !== 'private' && (
+          <div className="border-t border-slate-100 pt-4 space-y-2">
+            <div className="text-sm font-medium text-slate-700">Signed links</div>
+            <div className="flex items-center gap-2 flex-wrap">
+              <select
+                value={linkHours}
+                onChange={(e) => setLinkHours(Number(e.target.value))}
+                className={inputClass}
+              >
+                {LINK_DURATIONS.map((d) => (
+                  <option key={d.hours} value={d.hours}>
+                    Valid for {d.label}
+                  </option>
+                ))}
+              </select>
+              <button onClick={createSignedLink} disabled={busy} className={buttonClass}>
+                Create link
+              </button>
+              <button
+                onClick={() => updateAccess({ revokeGrants: true }, 'Earlier signed links and password sessions revoked')}
+                disabled={busy}
+                className={buttonClass}
+              >
+                Revoke all links
+              </button>
+            </div>
+            {signedLink && (
+              <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm">
+                <div className="text-green-800 mb-1">
+                  Link copied · works until {new Date(signedLink.expiresAt).toLocaleString()}
+                </div>
+                <div className="font-mono text-green-700 break-all">{signedLink.url}</div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="border-t border-slate-100 pt-4">
+          <button
+            onClick={deleteReport}
+            disabled={busy}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg bg-red-50 text-red-700 hover:bg-red-100 disabled:opacity-50"
+          >
+            Delete report
+          </button>
+        </div>
+
+        {message && <p className="text-sm text-green-700">{message}</p>}
+        {error && <p className="text-sm text-red-700">{error}</p>}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { type ReportComment, threadsFor } from '../../lib/reportComments';
+
+interface ReportCommentsProps {
+  reportId: string;
+  /** Every comment on the report; only threads about this principle or section are shown */
+  comments: ReportComment[];
+  sectionId: string | null;
+  principleId: string | null;
+  canReview: boolean;
+  onChange: (update: (comments: ReportComment[]) => ReportComment[]) => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400';
+
+function formatWhen(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function CommentBody({ comment }: { comment: ReportComment }) {
+  return (
+    <div>
+      <div className="text-xs text-slate-500">
+        <span className="font-medium text-slate-700">{comment.authorEmail}</span> · {formatWhen(comment.createdAt)}
+      </div>
+      <p className="text-sm text-slate-700 whitespace-pre-wrap">{comment.body}</p>
+    </div>
+  );
+}
+
+export default function ReportComments({
+  reportId,
+  comments,
+  sectionId,
+  principleId,
+  canReview,
+  onChange,
+}: ReportCommentsProps) {
+  const threads = threadsFor(comments, sectionId, principleId);
+  const openCount = threads.filter((t) => !t.comment.resolvedAt).length;
+  const [expanded, setExpanded] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [reply, setReply] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async (url: string, init: RequestInit): Promise<ReportComment | null> => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' } });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Request failed');
+      return data.comment;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const post = async (body: string, parentId: string | null) => {
+    const comment = await send('/api/comments', {
+      method: 'POST',
+      body: JSON.stringify({ reportId, parentId, sectionId, principleId, body }),
+    });
+    if (!comment) return;
+    onChange((current) => [...current, comment]);
+    if (parentId) {
+      setReply('');
+      setReplyTo(null);
+    } else {
+      setDraft('');
+    }
+  };
+
+  const setResolved = async (id: string, resolved: boolean) => {
+    const comment = await send(`/api/comments?id=${id}`, { method: 'PATCH', body: JSON.stringify({ resolved }) });
+    if (comment) onChange((current) => current.map((c) => (c.id === id ? comment : c)));
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-slate-100">
+      <button onClick={() => setExpanded(!expanded)} className="text-sm text-slate-500 hover:text-slate-800">
+        {threads.length === 0
+          ? 'Comment'
+          : `${threads.length} comment thread${threads.length !== 1 ? 's' : ''}${openCount > 0 ? ` (${openCount} open)` : ''}`}
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          {threads.map(({ comment, replies }) => (
+            <div
+              key={comment.id}
+              className={`rounded-lg border p-3 space-y-2 ${comment.resolvedAt ? 'border-slate-100 bg-slate-50 opacity-75' : 'border-slate-200'}`}
+            >
+              <CommentBody comment={comment} />
+              {replies.map((r) => (
+                <div key={r.id} className="pl-4 border-l-2 border-slate-100">
+                  <CommentBody comment={r} />
+                </div>
+              ))}
+
+              <div className="flex items-center gap-3 text-xs">
+                {comment.resolvedAt ? (
+                  <span className="text-green-700">
+                    Resolved{comment.resolvedBy && <> by {comment.resolvedBy}</>} · {formatWhen(comment.resolvedAt)}
+                  </span>
+                ) : (
+                  <button onClick={() => setReplyTo(comment.id)} className="text-slate-500 hover:text-slate-800">
+                    Reply
+                  </button>
+                )}
+                {canReview && (
+                  <button
+                    onClick={() => setResolved(comment.id, !comment.resolvedAt)}
+                    disabled={busy}
+                    className="text-slate-500 hover:text-slate-800 disabled:opacity-50"
+                  >
+                    {comment.resolvedAt ? 'Reopen' : 'Resolve'}
+                  </button>
+                )}
+              </div>
+
+              {replyTo === comment.id && (
+                <div className="space-y-2">
+                  <textarea
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    rows={2}
+                    placeholder="Reply..."
+                    className={inputClass}
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => post(reply, comment.id)}
+                      disabled={busy || !reply.trim()}
+                      className="px-3 py-1.5 text-sm font-medium rounded-lg bg-slate-900 text-white hover:bg-slate-800 disabled:bg-slate-400"
+                    >
+                      Reply
+                    </button>
+                    <button onClick={() => setReplyTo(null)} className="px-3 py-1.5 text-sm text-slate-600 hover:text-slate-900">
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={2}
+              placeholder="Start a thread..."
+              className={inputClass}
+            />
+            <button
+              onClick={() => post(draft, null)}
+              disabled={busy || !draft.trim()}
+              className="px-3 py-1.5 text-sm font-medium rounded-lg bg-slate-900 text-white hover:bg-slate-800 disabled:bg-slate-400"
+            >
+              Comment
+            </button>
+          </div>
+
+          {error && <p className="text-sm text-red-700">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
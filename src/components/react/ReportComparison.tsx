@@ -0,0 +1,200 @@
+import { useMemo } from 'react';
+import type { AuditPromptData } from '../../data/auditPrompts';
+import type { AuditProfile } from '../../data/auditProfiles';
+import type { SectionResult } from '../../lib/auditScoring';
+import { type ScoreChange, compareReports } from '../../lib/reportComparison';
+
+type Category =
+  | 'Memory & Retention'
+  | 'Practice & Skill Building'
+  | 'Motivation & Engagement'
+  | 'Cognitive Load'
+  | 'Feedback & Assessment'
+  | 'Transfer & Application';
+
+interface Principle {
+  id: string;
+  title: string;
+  category: Category;
+  audit: AuditPromptData;
+}
+
+interface ComparedReport {
+  id: string;
+  createdAt: string;
+  overallScore: number;
+  ratings: Record<string, number | null>;
+  sectionResults: SectionResult[] | null;
+  profile: AuditProfile | null;
+}
+
+interface ReportComparisonProps {
+  principles: Principle[];
+  /** The earlier audit */
+  before: ComparedReport;
+  after: ComparedReport;
+}
+
+const categoryColors: Record<Category, { bg: string; text: string }> = {
+  'Memory & Retention': { bg: 'bg-purple-100', text: 'text-purple-800' },
+  'Practice & Skill Building': { bg: 'bg-green-100', text: 'text-green-800' },
+  'Motivation & Engagement': { bg: 'bg-orange-100', text: 'text-orange-800' },
+  'Cognitive Load': { bg: 'bg-blue-100', text: 'text-blue-800' },
+  'Feedback & Assessment': { bg: 'bg-yellow-100', text: 'text-yellow-800' },
+  'Transfer & Application': { bg: 'bg-pink-100', text: 'text-pink-800' },
+};
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+function formatScore(score: number | null, digits = 0): string {
+  return score === null ? '—' : score.toFixed(digits);
+}
+
+function DeltaBadge({ change, digits = 0 }: { change: ScoreChange; digits?: number }) {
+  if (change.delta === null) {
+    return <span className="text-xs text-slate-400">{change.before === null ? 'new' : 'not rated'}</span>;
+  }
+  const rounded = Number(change.delta.toFixed(digits));
+  const color = rounded > 0 ? 'text-green-700 bg-green-50' : rounded < 0 ? 'text-red-700 bg-red-50' : 'text-slate-500 bg-slate-50';
+  return (
+    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${color}`}>
+      {rounded > 0 ? '+' : rounded < 0 ? '−' : '±'}
+      {Math.abs(rounded).toFixed(digits)}
+    </span>
+  );
+}
+
+export default function ReportComparison({ principles, before, after }: ReportComparisonProps) {
+  const comparison = useMemo(() => compareReports(before, after, principles), [before, after, principles]);
+
+  return (
+    <div className="space-y-6">
+      {/* Overall */}
+      <div className="bg-white rounded-lg border border-slate-200 p-6">
+        <div className="grid grid-cols-3 items-center text-center gap-4">
+          <div>
+            <a href={`/audit/${before.id}`} className="text-sm text-slate-500 hover:text-slate-800">
+              {formatDate(before.createdAt)}
+            </a>
+            <div className="text-3xl font-bold text-slate-900">{before.overallScore.toFixed(1)}</div>
+          </div>
+          <div>
+            <DeltaBadge change={comparison.overall} digits={1} />
+          </div>
+          <div>
+            <a href={`/audit/${after.id}`} className="text-sm text-slate-500 hover:text-slate-800">
+              {formatDate(after.createdAt)}
+            </a>
+            <div className="text-3xl font-bold text-slate-900">{after.overallScore.toFixed(1)}</div>
+          </div>
+        </div>
+      </div>
+
+      {/* Gaps closed and opened */}
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="bg-green-50 rounded-lg border border-green-200 p-4">
+          <h3 className="text-sm font-semibold text-green-800 mb-2">Gaps closed ({comparison.gapsClosed.length})</h3>
+          {comparison.gapsClosed.length === 0 ? (
+            <p className="text-sm text-green-700">None</p>
+          ) : (
+            <ul className="space-y-1">
+              {comparison.gapsClosed.map((c) => (
+                <li key={c.id} className="text-sm text-green-900 flex items-center justify-between gap-2">
+                  <span>{c.title}</span>
+                  <span className="text-xs">{c.before} &rarr; {c.after}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div className="bg-red-50 rounded-lg border border-red-200 p-4">
+          <h3 className="text-sm font-semibold text-red-800 mb-2">New gaps ({comparison.gapsOpened.length})</h3>
+          {comparison.gapsOpened.length === 0 ? (
+            <p className="text-sm text-red-700">None</p>
+          ) : (
+            <ul className="space-y-1">
+              {comparison.gapsOpened.map((c) => (
+                <li key={c.id} className="text-sm text-red-900 flex items-center justify-between gap-2">
+                  <span>{c.title}</span>
+                  <span className="text-xs">{c.before} &rarr; {c.after}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Per-principle deltas */}
+      <div className="bg-white rounded-lg border border-slate-200 overflow-hidden">
+        <h3 className="text-lg font-semibold text-slate-900 px-4 pt-4 mb-2">Principles</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-slate-500 border-b border-slate-100">
+              <th className="px-4 py-2 font-medium">Principle</th>
+              <th className="px-4 py-2 font-medium text-center">Before</th>
+              <th className="px-4 py-2 font-medium text-center">After</th>
+              <th className="px-4 py-2 font-medium text-center">Change</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {comparison.principles.map((c) => (
+              <tr key={c.id}>
+                <td className="px-4 py-2">
+                  <span className="font-medium text-slate-800">{c.title}</span>{' '}
+                  <span className={`px-2 py-0.5 text-xs rounded-full ${categoryColors[c.category].bg} ${categoryColors[c.category].text}`}>
+                    {c.category}
+                  </span>
+                </td>
+                <td className="px-4 py-2 text-center text-slate-600">{formatScore(c.before)}</td>
+                <td className="px-4 py-2 text-center text-slate-600">{formatScore(c.after)}</td>
+                <td className="px-4 py-2 text-center"><DeltaBadge change={c} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Per-section changes */}
+      {comparison.sections.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900 mb-3">Sections</h3>
+          <div className="space-y-3">
+            {comparison.sections.map((section) => {
+              const changed = section.principles.filter((p) => p.delta !== 0);
+              return (
+                <div key={section.name} className="bg-white rounded-lg border border-slate-200 p-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="font-medium text-slate-900">{section.name}</span>
+                    <span className="flex items-center gap-2 text-sm text-slate-500">
+                      {formatScore(section.before, 1)} &rarr; {formatScore(section.after, 1)}
+                      <DeltaBadge change={section} digits={1} />
+                    </span>
+                  </div>
+                  {changed.length === 0 ? (
+                    <p className="text-sm text-slate-500">No score changes.</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {changed.map((p) => (
+                        <li key={p.id} className="flex items-center justify-between gap-2 text-sm text-slate-700">
+                          <span>{p.title}</span>
+                          <span className="flex items-center gap-2">
+                            <span className="text-xs text-slate-500">
+                              {formatScore(p.before)} &rarr; {formatScore(p.after)}
+                            </span>
+                            <DeltaBadge change={p} />
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
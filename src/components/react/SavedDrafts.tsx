@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  type AuditDraft,
+  DRAFTS_CHANGED_EVENT,
+  listDrafts,
+  deleteDraft,
+  duplicateDraft,
+  describeDraft,
+} from '../../lib/auditDrafts';
+
+function formatUpdated(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export default function SavedDrafts() {
+  const [drafts, setDrafts] = useState<AuditDraft[]>([]);
+  const [openDraftId, setOpenDraftId] = useState<string | null>(null);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const refresh = useCallback(() => {
+    setOpenDraftId(new URLSearchParams(window.location.search).get('draft'));
+    listDrafts()
+      .then(setDrafts)
+      .catch((err) => console.warn('Could not list drafts:', err));
+  }, []);
+
+  // Drafts live in the browser, so they are read after mount and whenever the audit saves one
+  useEffect(() => {
+    refresh();
+    window.addEventListener(DRAFTS_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(DRAFTS_CHANGED_EVENT, refresh);
+  }, [refresh]);
+
+  const removeDraft = useCallback(async (draft: AuditDraft) => {
+    if (!window.confirm(`Delete the draft "${describeDraft(draft)}"? This can't be undone.`)) return;
+    await deleteDraft(draft.id);
+    // The open audit would save itself again; start a fresh one instead
+    if (draft.id === openDraftId) window.location.href = '/audit';
+  }, [openDraftId]);
+
+  if (drafts.length === 0) return null;
+
+  const shown = isExpanded ? drafts : drafts.slice(0, 3);
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-semibold text-slate-900">Saved drafts ({drafts.length})</h2>
+        <span className="text-xs text-slate-400">Stored in this browser only</span>
+      </div>
+      <ul className="divide-y divide-slate-100">
+        {shown.map((draft) => {
+          const screenshots = draft.sections.reduce((n, s) => n + s.images.length, 0);
+          const rated = Object.values(draft.ratings).filter((r) => r !== null).length;
+          const isOpen = draft.id === openDraftId;
+          return (
+            <li key={draft.id} className="flex items-center justify-between gap-4 py-2">
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-slate-800 truncate">
+                  {describeDraft(draft)}
+                  {isOpen && <span className="ml-2 text-xs font-normal text-green-600">open</span>}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {draft.sections.length} section{draft.sections.length !== 1 ? 's' : ''} · {screenshots} screenshot
+                  {screenshots !== 1 ? 's' : ''} · {rated}/{Object.keys(draft.ratings).length} rated · updated{' '}
+                  {formatUpdated(draft.updatedAt)}
+                </div>
+              </div>
+              <div className="flex items-center gap-3 text-sm shrink-0">
+                {!isOpen && (
+                  <a href={`/audit?draft=${draft.id}`} className="font-medium text-slate-700 hover:text-slate-900">
+                    Resume
+                  </a>
+                )}
+                <button
+                  onClick={() => duplicateDraft(draft.id).catch((err) => console.warn('Could not duplicate draft:', err))}
+                  className="text-slate-500 hover:text-slate-800"
+                >
+                  Duplicate
+                </button>
+                <button onClick={() => removeDraft(draft)} className="text-red-600 hover:text-red-800">
+                  Delete
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      {drafts.length > shown.length || isExpanded ? (
+        <button
+          onClick={() => setIsExpanded((v) => !v)}
+          className="mt-2 text-xs font-medium text-slate-600 hover:text-slate-900"
+        >
+          {isExpanded ? 'Show fewer' : `Show all ${drafts.length}`}
+        </button>
+      ) : null}
+    </div>
+  );
+}
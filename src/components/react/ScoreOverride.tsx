@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import type { ScoreOverride as ScoreOverrideRecord } from '../../lib/auditScoring';
+
+interface ScoreOverrideResult {
+  ratings: Record<string, number | null>;
+  overallScore: number;
+  scoreOverrides: ScoreOverrideRecord[];
+}
+
+interface ScoreOverrideProps {
+  reportId: string;
+  principleId: string;
+  score: number;
+  canReview: boolean;
+  onOverride: (result: ScoreOverrideResult) => void;
+}
+
+export default function ScoreOverride({ reportId, principleId, score, canReview, onOverride }: ScoreOverrideProps) {
+  const [editing, setEditing] = useState(false);
+  const [newScore, setNewScore] = useState(score);
+  const [justification, setJustification] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/score-overrides', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reportId, principleId, score: newScore, justification }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save override');
+      onOverride(data);
+      setEditing(false);
+      setJustification('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save override');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-2">
+      {canReview && !editing && (
+        <button onClick={() => setEditing(true)} className="mt-1 text-sm text-slate-500 hover:text-slate-800">
+          Override score
+        </button>
+      )}
+
+      {editing && (
+        <div className="mt-2 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-slate-600">New score</span>
+            {[1, 2, 3, 4, 5].map((value) => (
+              <button
+                key={value}
+                onClick={() => setNewScore(value)}
+                className={`w-8 h-8 rounded-lg text-sm font-medium ${
+                  newScore === value ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                }`}
+              >
+                {value}
+              </button>
+            ))}
+          </div>
+          <textarea
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+            rows={2}
+            placeholder="Why is this score more accurate? (required)"
+            className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={save}
+              disabled={busy || !justification.trim() || newScore === score}
+              className="px-3 py-1.5 text-sm font-medium rounded-lg bg-slate-900 text-white hover:bg-slate-800 disabled:bg-slate-400"
+            >
+              Save override
+            </button>
+            <button onClick={() => setEditing(false)} className="px-3 py-1.5 text-sm text-slate-600 hover:text-slate-900">
+              Cancel
+            </button>
+          </div>
+          {error && <p className="text-sm text-red-700">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import type { ScoreProvenance, ScoreSource } from '../../lib/auditScoring';
+
+interface ScoreProvenanceNoteProps {
+  provenance: ScoreProvenance;
+}
+
+const SOURCE_LABELS: Record<ScoreSource, { label: string; color: string }> = {
+  ai: { label: 'AI', color: 'bg-slate-50 text-slate-600 border-slate-200' },
+  'ai-refined': { label: 'AI-refined', color: 'bg-blue-50 text-blue-700 border-blue-200' },
+  human: { label: 'Human', color: 'bg-amber-50 text-amber-700 border-amber-200' },
+};
+
+export default function ScoreProvenanceNote({ provenance }: ScoreProvenanceNoteProps) {
+  const { source, aiScore, refinedScore, finalScore, override } = provenance;
+  const { label, color } = SOURCE_LABELS[source];
+  // Scores from manual audits have nothing behind them worth showing
+  if (aiScore === null && !override) return null;
+
+  return (
+    <div className="mt-2 text-xs text-slate-500 space-y-1">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className={`px-1.5 py-0.5 rounded border ${color}`}>{label} score</span>
+        {aiScore !== null && <span>AI {aiScore}/5</span>}
+        {refinedScore !== null && <span>&rarr; refined {refinedScore}/5</span>}
+        {source === 'human' && aiScore !== null && <span>&rarr; final {finalScore}/5</span>}
+      </div>
+      {override && (
+        <p className="text-sm text-slate-600 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2">
+          <span className="font-medium text-slate-700">
+            Score changed{override.previousScore !== null && <> from {override.previousScore}/5</>} to {override.score}/5
+          </span>
+          {override.author && <> by {override.author}</>}: {override.justification}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,27 @@
-import { useMemo } from 'react';
-import { auditData } from '../../data/auditPrompts';
+import { useMemo, useState } from 'react';
+import type { AuditPromptData } from '../../data/auditPrompts';
+import { type AuditProfile, createLegacyProfile } from '../../data/auditProfiles';
+import type { ReportAccessSummary } from '../../lib/reportAccess';
+import type { CommentPermissions, ReportComment } from '../../lib/reportComments';
+import { type ActionItem, suggestActionItems } from '../../lib/actionItems';
+import {
+  type RefinedScore,
+  type ScoreOverride as ScoreOverrideRecord,
+  type SectionResult,
+  combineSectionScores,
+  scoreProvenance,
+  summarizeRatings,
+  summarizeSection,
+  quickWinMinimum,
+} from '../../lib/auditScoring';
+import ActionItems from './ActionItems';
+import EvidenceThumbnails from './EvidenceThumbnails';
+import ExportButtons from './ExportButtons';
+import ReportAccessPanel from './ReportAccessPanel';
+import ReportComments from './ReportComments';
+import ScoreOverride from './ScoreOverride';
+import ScoreProvenanceNote from './ScoreProvenanceNote';
+import VarianceIndicator from './VarianceIndicator';
 
 type Category =
   | 'Memory & Retention'
@@ -14,6 +36,7 @@ interface Principle {
   title: string;
   category: Category;
   summary: string;
+  audit: AuditPromptData;
 }
 
 interface KeyTakeaways {
@@ -42,7 +65,30 @@ interface SharedReportProps {
     createdAt: string;
     overallScore: number;
     ratings: Record<string, number | null>;
+    sectionResults?: SectionResult[] | null;
     keyTakeaways: KeyTakeaways | null;
+    /** Profile the audit was scored with (absent on reports saved before profiles existed) */
+    profile?: AuditProfile | null;
+    /** Low scores revisited after the follow-up questions */
+    refinedScores?: RefinedScore[] | null;
+    /** Scores changed by people: by the auditor before sharing, or by reviewers afterwards */
+    scoreOverrides?: ScoreOverrideRecord[];
+    /** Earlier report this one re-audits, and reports that re-audit this one */
+    previousVersionId?: string | null;
+    nextVersionIds?: string[];
+    /** Present only when the report's owner is viewing it */
+    access?: ReportAccessSummary;
+    /** Recommendations tracked as work, and those tracked on the audit this one re-audits */
+    actions?: {
+      items: ActionItem[];
+      previousItems: ActionItem[];
+      canEdit: boolean;
+    };
+    /** Present for workspace members and the owner: comments, and what they may do with them */
+    collaboration?: {
+      comments: ReportComment[];
+      permissions: CommentPermissions;
+    };
   };
 }
 
@@ -55,43 +101,92 @@ const categoryColors: Record<Category, { bg: string; text: string }> = {
   'Transfer & Application': { bg: 'bg-pink-100', text: 'text-pink-800' },
 };
 
+const confidenceColors = {
+  high: 'text-green-600',
+  medium: 'text-amber-600',
+  low: 'text-slate-400',
+};
+
 export default function SharedReport({ principles, report }: SharedReportProps) {
-  const results = useMemo(() => {
-    const rated = Object.entries(report.ratings).filter(([, score]) => score !== null);
-    if (rated.length === 0) return null;
+  const [resultsTab, setResultsTab] = useState<'overall' | string>('overall');
+  const sectionResults = report.sectionResults ?? [];
+  const refinedScores = report.refinedScores ?? [];
+  // Reviewers can override scores, and comment, without reloading the report
+  const [ratings, setRatings] = useState(report.ratings);
+  const [scoreOverrides, setScoreOverrides] = useState(report.scoreOverrides ?? []);
+  const [comments, setComments] = useState(report.collaboration?.comments ?? []);
+  const [actionItems, setActionItems] = useState(report.actions?.items ?? []);
+  const actionSuggestions = useMemo(
+    () => suggestActionItems(report.keyTakeaways, report.refinedScores ?? null, actionItems),
+    [report.keyTakeaways, report.refinedScores, actionItems]
+  );
+  const permissions = report.collaboration?.permissions ?? { comment: false, review: false };
+  // Whether each final score is the AI's, the refined AI's, or a person's
+  const provenance = useMemo(
+    () => scoreProvenance(ratings, sectionResults, refinedScores, scoreOverrides),
+    [ratings, sectionResults, refinedScores, scoreOverrides]
+  );
+
+  // Older reports were scored with equal weights and the default thresholds
+  const profile = useMemo<AuditProfile>(
+    () => report.profile ?? createLegacyProfile(Object.keys(report.ratings)),
+    [report.profile, report.ratings]
+  );
+
+  // Best AI score per principle, for the reasoning and screenshots behind each gap
+  const combinedScores = useMemo(
+    () =>
+      report.sectionResults?.length
+        ? combineSectionScores(report.sectionResults, Object.keys(report.ratings))
+        : null,
+    [report.sectionResults, report.ratings]
+  );
 
-    const scores = rated.map(([, score]) => score as number);
-    const average = scores.reduce((a, b) => a + b, 0) / scores.length;
+  const results = useMemo(
+    () => summarizeRatings(ratings, principles, profile, combinedScores),
+    [ratings, principles, profile, combinedScores]
+  );
 
-    const gaps = rated
-      .filter(([, score]) => (score as number) <= 3)
-      .map(([id, score]) => {
-        const principle = principles.find((p) => p.id === id)!;
-        return {
-          id,
-          title: principle.title,
-          category: principle.category,
-          score: score as number,
-          recommendation: auditData[id]?.recommendation || '',
-        };
-      })
-      .sort((a, b) => a.score - b.score);
+  // Section-specific results for tab view
+  const sectionSummary = useMemo(() => {
+    const selectedSection = sectionResults.find((sr) => sr.sectionId === resultsTab);
+    return selectedSection ? summarizeSection(selectedSection, principles, profile) : null;
+  }, [resultsTab, sectionResults, principles, profile]);
 
-    const strengths = rated
-      .filter(([, score]) => (score as number) >= 4)
-      .map(([id, score]) => {
-        const principle = principles.find((p) => p.id === id)!;
-        return {
-          id,
-          title: principle.title,
-          category: principle.category,
-          score: score as number,
-        };
-      })
-      .sort((a, b) => b.score - a.score);
+  const activeResults = resultsTab === 'overall' ? results : sectionSummary;
+  const thumbnailsFor = (sectionId: string) =>
+    sectionResults.find((sr) => sr.sectionId === sectionId)?.thumbnails ?? {};
 
-    return { average, gaps, strengths, totalRated: rated.length };
-  }, [report.ratings, principles]);
+  // Provenance and overrides apply to the overall ratings; comments can be about a principle in any tab
+  const reviewControls = (principleId: string, score: number) => (
+    <>
+      {resultsTab === 'overall' && provenance[principleId] && (
+        <ScoreProvenanceNote provenance={provenance[principleId]} />
+      )}
+      {resultsTab === 'overall' && permissions.review && (
+        <ScoreOverride
+          reportId={report.id}
+          principleId={principleId}
+          score={score}
+          canReview={permissions.review}
+          onOverride={(result) => {
+            setRatings(result.ratings);
+            setScoreOverrides(result.scoreOverrides);
+          }}
+        />
+      )}
+      {permissions.comment && (
+        <ReportComments
+          reportId={report.id}
+          comments={comments}
+          sectionId={resultsTab === 'overall' ? null : resultsTab}
+          principleId={principleId}
+          canReview={permissions.review}
+          onChange={setComments}
+        />
+      )}
+    </>
+  );
 
   const keyTakeaways = report.keyTakeaways;
   const createdDate = new Date(report.createdAt).toLocaleDateString('en-US', {
@@ -107,24 +202,104 @@ export default function SharedReport({ principles, report }: SharedReportProps)
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div className="text-sm text-slate-500">
-        Report created on {createdDate}
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div className="text-sm text-slate-500">
+          Report created on {createdDate}
+          {report.profile && <> · Profile: {report.profile.name}</>}
+        </div>
+        <ExportButtons reportId={report.id} />
       </div>
 
+      {report.access && <ReportAccessPanel reportId={report.id} access={report.access} />}
+
+      {/* Versions */}
+      {(report.previousVersionId || (report.nextVersionIds && report.nextVersionIds.length > 0)) && (
+        <div className="flex items-center justify-between gap-4 flex-wrap text-sm bg-slate-50 border border-slate-200 rounded-lg px-4 py-3">
+          <div>
+            {report.previousVersionId && (
+              <span className="flex items-center gap-3">
+                <a href={`/audit/${report.previousVersionId}`} className="font-medium text-slate-700 hover:text-slate-900">
+                  &larr; Previous version
+                </a>
+                <a
+                  href={`/audit/compare?a=${report.previousVersionId}&b=${report.id}`}
+                  className="text-slate-500 hover:text-slate-800"
+                >
+                  Compare with previous
+                </a>
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            {report.nextVersionIds?.map((nextId, i) => (
+              <a key={nextId} href={`/audit/${nextId}`} className="font-medium text-slate-700 hover:text-slate-900">
+                {report.nextVersionIds!.length > 1 ? `Next version ${i + 1}` : 'Next version'} &rarr;
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Results Tabs (if section-based) */}
+      {sectionResults.length > 0 && (
+        <div className="flex gap-2 p-1 bg-slate-100 rounded-lg w-fit flex-wrap">
+          <button
+            onClick={() => setResultsTab('overall')}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+              resultsTab === 'overall'
+                ? 'bg-white text-slate-900 shadow-sm'
+                : 'text-slate-600 hover:text-slate-900'
+            }`}
+          >
+            Overall
+          </button>
+          {sectionResults.map((sr) => (
+            <button
+              key={sr.sectionId}
+              onClick={() => setResultsTab(sr.sectionId)}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                resultsTab === sr.sectionId
+                  ? 'bg-white text-slate-900 shadow-sm'
+                  : 'text-slate-600 hover:text-slate-900'
+              }`}
+            >
+              {sr.sectionName}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Score Summary */}
       <div className="bg-white rounded-lg border border-slate-200 p-6">
         <div className="text-center">
           <div className="text-4xl font-bold text-slate-900 mb-1">
-            {results.average.toFixed(1)} / 5.0
+            {activeResults?.average.toFixed(1) ?? '—'} / 5.0
           </div>
           <div className="text-slate-500">
-            Overall Score ({results.totalRated}/{principles.length} principles rated)
+            {resultsTab === 'overall' ? (
+              <>Overall Score ({results.totalRated}/{Object.keys(ratings).length} principles rated)</>
+            ) : (
+              <>
+                {sectionResults.find((sr) => sr.sectionId === resultsTab)?.sectionName} Score ({sectionSummary?.totalRated ?? 0} principles applicable)
+              </>
+            )}
           </div>
         </div>
+        {resultsTab !== 'overall' && permissions.comment && (
+          <ReportComments
+            key={resultsTab}
+            reportId={report.id}
+            comments={comments}
+            sectionId={resultsTab}
+            principleId={null}
+            canReview={permissions.review}
+            onChange={setComments}
+          />
+        )}
       </div>
 
-      {/* Key Takeaways */}
-      {keyTakeaways && (
+      {/* Key Takeaways - only show on Overall tab */}
+      {resultsTab === 'overall' && keyTakeaways && (
         <div className="bg-gradient-to-r from-slate-50 to-slate-100 rounded-lg border border-slate-200 p-6">
           <h3 className="text-lg font-semibold text-slate-900 mb-4 flex items-center gap-2">
             <svg className="w-5 h-5 text-slate-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -151,20 +326,53 @@ export default function SharedReport({ principles, report }: SharedReportProps)
 
             {/* Top Actions */}
             <div className="bg-white rounded-lg p-4 border border-slate-200">
-              <div className="text-sm font-medium text-slate-500 mb-2">Top Actions</div>
-              <ol className="space-y-2">
-                {keyTakeaways.topActions.map((action, i) => (
-                  <li key={action.id} className="flex items-start gap-2">
-                    <span className="flex-shrink-0 w-5 h-5 rounded-full bg-slate-900 text-white text-xs flex items-center justify-center">
-                      {i + 1}
-                    </span>
-                    <div>
-                      <span className="font-medium text-slate-900">{action.title}</span>
-                      <span className="text-slate-400 ml-1">({action.score}/5)</span>
-                      <p className="text-sm text-slate-600 mt-0.5">{action.recommendation}</p>
-                    </div>
-                  </li>
-                ))}
+              <div className="text-sm font-medium text-slate-500 mb-2">
+                Top Actions
+                {refinedScores.length > 0 && (
+                  <span className="ml-2 text-xs text-green-600">(refined based on follow-up answers)</span>
+                )}
+              </div>
+              <ol className="space-y-3">
+                {keyTakeaways.topActions.map((action, i) => {
+                  const refined = refinedScores.find((r) => r.principleId === action.id);
+                  return (
+                    <li key={action.id} className="flex items-start gap-2">
+                      <span className="flex-shrink-0 w-5 h-5 rounded-full bg-slate-900 text-white text-xs flex items-center justify-center">
+                        {i + 1}
+                      </span>
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="font-medium text-slate-900">{action.title}</span>
+                          {refined && refined.refinedScore !== refined.originalScore ? (
+                            <span className="text-sm">
+                              <span className="text-slate-400 line-through">{refined.originalScore}/5</span>
+                              <span className="text-green-600 ml-1">{refined.refinedScore}/5</span>
+                            </span>
+                          ) : (
+                            <span className="text-slate-400">({action.score}/5)</span>
+                          )}
+                        </div>
+                        {refined ? (
+                          <>
+                            <p className="text-sm text-slate-600 mt-1">{refined.refinedReasoning}</p>
+                            {refined.specificActions.length > 0 && (
+                              <ul className="mt-2 space-y-1">
+                                {refined.specificActions.map((sa, idx) => (
+                                  <li key={idx} className="text-sm text-slate-700 flex items-start gap-1">
+                                    <span className="text-green-500">→</span>
+                                    {sa}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </>
+                        ) : (
+                          <p className="text-sm text-slate-600 mt-0.5">{action.recommendation}</p>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
               </ol>
             </div>
 
@@ -178,7 +386,7 @@ export default function SharedReport({ principles, report }: SharedReportProps)
                   Quick Wins
                 </div>
                 <p className="text-sm text-slate-600">
-                  {keyTakeaways.quickWins.map((w) => w.title).join(', ')} {keyTakeaways.quickWins.length === 1 ? 'is' : 'are'} at 2-3/5 — small improvements could push {keyTakeaways.quickWins.length === 1 ? 'this' : 'these'} to strengths.
+                  {keyTakeaways.quickWins.map((w) => w.title).join(', ')} {keyTakeaways.quickWins.length === 1 ? 'is' : 'are'} at {keyTakeaways.quickWins.length === 1 ? `${keyTakeaways.quickWins[0].score}/5` : `${quickWinMinimum(profile)}-${profile.gapThreshold}/5`} — small improvements could push {keyTakeaways.quickWins.length === 1 ? 'this' : 'these'} to strengths.
                 </p>
               </div>
             )}
@@ -186,14 +394,46 @@ export default function SharedReport({ principles, report }: SharedReportProps)
         </div>
       )}
 
+      {/* Action Items - only show on Overall tab */}
+      {resultsTab === 'overall' && report.actions && (actionItems.length > 0 || (report.actions.canEdit && actionSuggestions.length > 0)) && (
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900 mb-3">Action Items ({actionItems.length})</h3>
+          <ActionItems
+            reportId={report.id}
+            principles={principles}
+            items={actionItems}
+            suggestions={actionSuggestions}
+            canEdit={report.actions.canEdit}
+            onChange={setActionItems}
+          />
+        </div>
+      )}
+
+      {/* Previous Action Items - were finished items reflected in this audit's scores? */}
+      {resultsTab === 'overall' && report.actions && report.actions.previousItems.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900 mb-1">From the Previous Audit</h3>
+          <p className="text-sm text-slate-500 mb-3">
+            Action items tracked on the audit this one re-audits. Finished items show how this audit scored their principle.
+          </p>
+          <ActionItems
+            reportId={report.previousVersionId!}
+            principles={principles}
+            items={report.actions.previousItems}
+            canEdit={false}
+            laterRatings={ratings}
+          />
+        </div>
+      )}
+
       {/* Gaps */}
-      {results.gaps.length > 0 && (
+      {activeResults && activeResults.gaps.length > 0 && (
         <div>
           <h3 className="text-lg font-semibold text-slate-900 mb-3">
-            Areas for Improvement ({results.gaps.length})
+            Areas for Improvement ({activeResults.gaps.length})
           </h3>
           <div className="space-y-3">
-            {results.gaps.map((gap) => (
+            {activeResults.gaps.map((gap) => (
               <div
                 key={gap.id}
                 className="bg-white rounded-lg border border-amber-200 p-4"
@@ -212,6 +452,36 @@ export default function SharedReport({ principles, report }: SharedReportProps)
                     {gap.score}/5
                   </span>
                 </div>
+                {'reasoning' in gap ? (
+                  <div className="mb-2">
+                    <p className="text-sm text-slate-600 italic">
+                      "{gap.reasoning}"
+                      <span className={`not-italic text-xs ml-1 ${confidenceColors[gap.confidence]}`}>
+                        ({gap.confidence} confidence)
+                      </span>
+                    </p>
+                    <EvidenceThumbnails evidence={gap.evidence} images={thumbnailsFor(resultsTab)} />
+                  </div>
+                ) : combinedScores?.[gap.id] && (
+                  <div className="mb-2">
+                    <p className="text-sm text-slate-600 italic">
+                      "{combinedScores[gap.id].reasoning}"
+                      <span className="not-italic text-xs text-slate-400"> · {gap.contributingSection}</span>
+                      <span className={`not-italic text-xs ml-1 ${confidenceColors[combinedScores[gap.id].confidence]}`}>
+                        ({combinedScores[gap.id].confidence} confidence)
+                      </span>
+                    </p>
+                    {combinedScores[gap.id].consensus && (
+                      <div className="mt-1">
+                        <VarianceIndicator consensus={combinedScores[gap.id].consensus!} />
+                      </div>
+                    )}
+                    <EvidenceThumbnails
+                      evidence={combinedScores[gap.id].evidence ?? []}
+                      images={thumbnailsFor(combinedScores[gap.id].contributingSectionId)}
+                    />
+                  </div>
+                )}
                 <p className="text-sm text-slate-600 mb-3">{gap.recommendation}</p>
                 <a
                   href={`/principles/${gap.id}`}
@@ -219,6 +489,7 @@ export default function SharedReport({ principles, report }: SharedReportProps)
                 >
                   Learn more about {gap.title} &rarr;
                 </a>
+                {reviewControls(gap.id, gap.score)}
               </div>
             ))}
           </div>
@@ -226,18 +497,55 @@ export default function SharedReport({ principles, report }: SharedReportProps)
       )}
 
       {/* Strengths */}
-      {results.strengths.length > 0 && (
+      {activeResults && activeResults.strengths.length > 0 && (
         <div>
           <h3 className="text-lg font-semibold text-slate-900 mb-3">
-            Strengths ({results.strengths.length})
+            Strengths ({activeResults.strengths.length})
           </h3>
           <div className="bg-white rounded-lg border border-green-200 p-4">
             <ul className="space-y-2">
-              {results.strengths.map((s) => (
-                <li key={s.id} className="flex items-center gap-2 flex-wrap">
+              {activeResults.strengths.map((s) => (
+                <li key={s.id} className="flex items-start gap-2 flex-wrap">
                   <span className="text-green-600">&#10003;</span>
-                  <span className="text-slate-900">{s.title}</span>
-                  <span className="text-sm text-slate-500">({s.score}/5)</span>
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-slate-900">{s.title}</span>
+                      <span className="text-sm text-slate-500">({s.score}/5)</span>
+                      {'contributingSection' in s && s.contributingSection && (
+                        <span className="text-xs text-slate-400">from: {s.contributingSection}</span>
+                      )}
+                    </div>
+                    {'reasoning' in s && s.reasoning && (
+                      <p className="text-sm text-slate-500 mt-1 italic">
+                        "{s.reasoning}"
+                        <span className={`not-italic text-xs ml-1 ${confidenceColors[s.confidence]}`}>
+                          ({s.confidence} confidence)
+                        </span>
+                      </p>
+                    )}
+                    {reviewControls(s.id, s.score)}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {/* Not Applicable - only for section view */}
+      {sectionSummary && sectionSummary.notApplicable.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900 mb-3">
+            Not Applicable ({sectionSummary.notApplicable.length})
+          </h3>
+          <div className="bg-white rounded-lg border border-slate-200 p-4">
+            <p className="text-sm text-slate-500 mb-2">
+              These principles weren't applicable to the {sectionSummary.sectionName} section:
+            </p>
+            <ul className="space-y-1">
+              {sectionSummary.notApplicable.map((item) => (
+                <li key={item.id} className="text-sm text-slate-600">
+                  • {item.title}
                 </li>
               ))}
             </ul>
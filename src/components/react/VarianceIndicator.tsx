@@ -0,0 +1,23 @@
+import type { ScoreConsensus } from '../../lib/consensus';
+
+interface VarianceIndicatorProps {
+  consensus: ScoreConsensus;
+}
+
+export default function VarianceIndicator({ consensus }: VarianceIndicatorProps) {
+  const { scores, agreement, spread } = consensus;
+  const color = spread === 0
+    ? 'bg-green-50 text-green-700 border-green-200'
+    : spread === 1
+      ? 'bg-amber-50 text-amber-700 border-amber-200'
+      : 'bg-red-50 text-red-700 border-red-200';
+
+  return (
+    <span
+      className={`px-1.5 py-0.5 text-xs rounded border ${color}`}
+      title={`Scores across ${scores.length} runs: ${scores.join(', ')}`}
+    >
+      {spread === 0 ? 'consistent' : `±${spread}`} · {Math.round(agreement * 100)}% of {scores.length} runs agree
+    </span>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import type { ReportListing } from '../../lib/reports';
+import { type Workspace, type WorkspaceMember, type WorkspaceRole, WORKSPACE_ROLES, hasRole } from '../../lib/workspaces';
+
+interface WorkspacePanelProps {
+  workspace: Workspace;
+  role: WorkspaceRole;
+  email: string;
+  members: WorkspaceMember[];
+  reports: ReportListing[];
+}
+
+const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: 'Manages members and the workspace',
+  editor: 'Manages reports, resolves comments and overrides scores',
+  viewer: 'Opens reports and comments on them',
+};
+
+const inputClass =
+  'px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400';
+
+export default function WorkspacePanel({ workspace, role, email, members: initialMembers, reports }: WorkspacePanelProps) {
+  const [name, setName] = useState(workspace.name);
+  const [members, setMembers] = useState(initialMembers);
+  const [newEmail, setNewEmail] = useState('');
+  const [newRole, setNewRole] = useState<WorkspaceRole>('editor');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isOwner = hasRole(role, 'owner');
+
+  const request = async (url: string, init: RequestInit) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' } });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Request failed');
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const rename = () =>
+    request(`/api/workspaces?id=${workspace.id}`, { method: 'PATCH', body: JSON.stringify({ name }) });
+
+  const addMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await request('/api/workspace-members', {
+      method: 'POST',
+      body: JSON.stringify({ workspaceId: workspace.id, email: newEmail, role: newRole }),
+    });
+    if (!data) return;
+    setMembers((current) => [...current, data.member]);
+    setNewEmail('');
+  };
+
+  const changeRole = async (member: WorkspaceMember, memberRole: WorkspaceRole) => {
+    const data = await request('/api/workspace-members', {
+      method: 'PATCH',
+      body: JSON.stringify({ workspaceId: workspace.id, email: member.email, role: memberRole }),
+    });
+    if (data) setMembers((current) => current.map((m) => (m.email === member.email ? { ...m, role: memberRole } : m)));
+  };
+
+  const removeMember = async (member: WorkspaceMember) => {
+    const leaving = member.email === email.toLowerCase();
+    if (!window.confirm(leaving ? 'Leave this workspace?' : `Remove ${member.email} from this workspace?`)) return;
+    const data = await request(
+      `/api/workspace-members?workspaceId=${workspace.id}&email=${encodeURIComponent(member.email)}`,
+      { method: 'DELETE' }
+    );
+    if (!data) return;
+    if (leaving) window.location.href = '/dashboard';
+    else setMembers((current) => current.filter((m) => m.email !== member.email));
+  };
+
+  const deleteWorkspace = async () => {
+    if (!window.confirm('Delete this workspace? Its reports stay with their authors.')) return;
+    const data = await request(`/api/workspaces?id=${workspace.id}`, { method: 'DELETE' });
+    if (data) window.location.href = '/dashboard';
+  };
+
+  return (
+    <div className="space-y-8">
+      {error && <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>}
+
+      {/* Reports */}
+      <section>
+        <h2 className="text-lg font-semibold text-slate-900 mb-3">Reports ({reports.length})</h2>
+        {reports.length === 0 ? (
+          <div className="bg-white rounded-lg border border-slate-200 p-6 text-sm text-slate-500">
+            No reports yet. Move a report here from your dashboard to share it with the workspace.
+          </div>
+        ) : (
+          <ul className="bg-white rounded-lg border border-slate-200 divide-y divide-slate-100">
+            {reports.map((report) => (
+              <li key={report.id} className="p-4 flex items-center justify-between gap-4 flex-wrap">
+                <div>
+                  <a href={`/audit/${report.id}`} className="font-medium text-slate-900 hover:text-blue-600">
+                    {report.productName || 'Untitled audit'}
+                  </a>
+                  <div className="text-xs text-slate-500 mt-0.5">
+                    {new Date(report.createdAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}
+                    {report.tags.length > 0 && <> · {report.tags.join(', ')}</>}
+                  </div>
+                </div>
+                <span className="text-sm font-medium text-slate-700">{report.overallScore.toFixed(1)}/5</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {/* Members */}
+      <section>
+        <h2 className="text-lg font-semibold text-slate-900 mb-3">Members ({members.length})</h2>
+        <ul className="bg-white rounded-lg border border-slate-200 divide-y divide-slate-100">
+          {members.map((member) => (
+            <li key={member.email} className="p-4 flex items-center justify-between gap-4 flex-wrap">
+              <div>
+                <div className="text-sm text-slate-900">{member.email}</div>
+                <div className="text-xs text-slate-500">{ROLE_DESCRIPTIONS[member.role]}</div>
+              </div>
+              <div className="flex items-center gap-3 text-sm">
+                {isOwner ? (
+                  <select
+                    value={member.role}
+                    onChange={(e) => changeRole(member, e.target.value as WorkspaceRole)}
+                    disabled={busy}
+                    className={inputClass}
+                  >
+                    {WORKSPACE_ROLES.map((r) => (
+                      <option key={r} value={r}>
+                        {r}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-slate-600">{member.role}</span>
+                )}
+                {(isOwner || member.email === email.toLowerCase()) && (
+                  <button
+                    onClick={() => removeMember(member)}
+                    disabled={busy}
+                    className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                  >
+                    {member.email === email.toLowerCase() ? 'Leave' : 'Remove'}
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {isOwner && (
+          <form onSubmit={addMember} className="mt-3 flex items-center gap-3 flex-wrap">
+            <input
+              type="email"
+              value={newEmail}
+              onChange={(e) => setNewEmail(e.target.value)}
+              required
+              placeholder="teammate@example.com"
+              className={`w-64 ${inputClass}`}
+            />
+            <select value={newRole} onChange={(e) => setNewRole(e.target.value as WorkspaceRole)} className={inputClass}>
+              {WORKSPACE_ROLES.map((r) => (
+                <option key={r} value={r}>
+                  {r}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={busy}
+              className="px-4 py-2 bg-slate-900 text-white rounded-lg text-sm font-medium hover:bg-slate-800 disabled:bg-slate-400"
+            >
+              Add member
+            </button>
+            <span className="text-xs text-slate-500">They join by signing in with this email.</span>
+          </form>
+        )}
+      </section>
+
+      {/* Settings */}
+      {isOwner && (
+        <section className="bg-white rounded-lg border border-slate-200 p-4 space-y-3">
+          <h2 className="text-lg font-semibold text-slate-900">Settings</h2>
+          <div className="flex items-center gap-3 flex-wrap">
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={`w-64 ${inputClass}`} />
+            <button
+              onClick={rename}
+              disabled={busy || !name.trim()}
+              className="px-3 py-2 text-sm font-medium rounded-lg bg-slate-100 text-slate-700 hover:bg-slate-200 disabled:opacity-50"
+            >
+              Rename
+            </button>
+          </div>
+          <button onClick={deleteWorkspace} disabled={busy} className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50">
+            Delete workspace
+          </button>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -3,3 +3,43 @@
  * The Claude API supports up to 20 images per request, so this is a UX/cost control limit.
  */
 export const MAX_IMAGES_PER_SECTION = 10;
+
+/**
+ * Run counts offered for consensus scoring. Each run is a full, independent analysis of the
+ * section, so cost and latency grow linearly with the count.
+ */
+export const CONSENSUS_RUN_OPTIONS = [1, 3, 5];
+export const MAX_CONSENSUS_RUNS = 5;
+
+/**
+ * Sections analyzed at the same time. Each one is a separate streaming request (times the
+ * consensus run count), so this bounds concurrent model calls per audit.
+ */
+export const ANALYSIS_CONCURRENCY = 3;
+
+/**
+ * Largest report body /api/reports accepts. Reports embed screenshot thumbnails, so this is
+ * kept under the 4.5 MB request limit of serverless functions.
+ */
+export const MAX_REPORT_BYTES = 4 * 1024 * 1024;
+
+/** How long a correct report password keeps working in the same browser */
+export const REPORT_PASSWORD_GRANT_HOURS = 12;
+
+/**
+ * Most model-chosen actions the headless navigator takes in one flow before giving up on it.
+ * Each step is a model call with a screenshot, so this bounds the cost of a flow that goes nowhere.
+ */
+export const MAX_NAVIGATION_STEPS = 30;
+
+/**
+ * How long a headless navigation session waits for the user to answer a request for help before
+ * skipping the flow. The session keeps its browser open the whole time.
+ */
+export const NAVIGATION_INTERVENTION_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Headless navigation sessions one server process runs at the same time. Each one is a browser
+ * (and a stream of model calls), so further sessions are refused until one ends.
+ */
+export const MAX_LIVE_NAVIGATIONS = 3;
@@ -31,6 +31,17 @@ const principles = defineCollection({
       elearning: z.enum(['critical', 'high', 'moderate', 'low']).optional(),
       selfStudy: z.enum(['critical', 'high', 'moderate', 'low']).optional(),
     }).optional(),
+    // Audit rubric - how this principle is scored in the manual and AI-assisted audits
+    audit: z.object({
+      prompt: z.string(),
+      recommendation: z.string(),
+      // Section types this principle applies to (empty = all)
+      appliesTo: z.array(
+        z.enum(['quiz', 'pre-quiz', 'post-quiz', 'lesson', 'practice', 'review', 'onboarding', 'overall'])
+      ),
+      // Level descriptions for scores 1-5, in order
+      rubric: z.array(z.string()).length(5),
+    }).optional(),
   }),
 });
 
@@ -0,0 +1,194 @@
+/**
+ * Audit profiles: which principles make up an audit, how much each one counts
+ * toward the overall score, and where gaps and strengths begin.
+ */
+
+import {
+  type AudienceKey,
+  type ContextKey,
+  type AudienceRelevance,
+  type ContextRelevance,
+  describeRelevanceContext,
+} from './relevance';
+
+export interface AuditProfile {
+  id: string;
+  name: string;
+  description?: string;
+  /** Principles included in the audit */
+  principleIds: string[];
+  /** Relative weight per principle. Principles without an entry have a weight of 1. */
+  weights: Record<string, number>;
+  /** Scores at or below this value are reported as gaps */
+  gapThreshold: number;
+  /** Scores at or above this value are reported as strengths */
+  strengthThreshold: number;
+  /** Audience and learning context the audit is tailored to, if any */
+  audience?: AudienceKey;
+  context?: ContextKey;
+}
+
+export const DEFAULT_GAP_THRESHOLD = 3;
+export const DEFAULT_STRENGTH_THRESHOLD = 4;
+
+/** Weight choices offered in the profile editor */
+export const WEIGHT_OPTIONS = [0.5, 1, 2, 3];
+
+/**
+ * The default profile: the essential principles, equally weighted
+ */
+export function createDefaultProfile(essentialIds: string[]): AuditProfile {
+  return {
+    id: 'essentials',
+    name: 'Essential principles',
+    description: 'The foundational principles every learning experience should address, weighted equally.',
+    principleIds: essentialIds,
+    weights: {},
+    gapThreshold: DEFAULT_GAP_THRESHOLD,
+    strengthThreshold: DEFAULT_STRENGTH_THRESHOLD,
+  };
+}
+
+/**
+ * Profile for reports saved before profiles existed: the principles they rated, equally
+ * weighted, with the default thresholds
+ */
+export function createLegacyProfile(principleIds: string[]): AuditProfile {
+  return {
+    id: 'legacy',
+    name: 'Essential principles',
+    principleIds,
+    weights: {},
+    gapThreshold: DEFAULT_GAP_THRESHOLD,
+    strengthThreshold: DEFAULT_STRENGTH_THRESHOLD,
+  };
+}
+
+/**
+ * Build a profile tailored to an audience and/or learning context from each principle's
+ * relevance frontmatter. Principles rated critical or high for every chosen dimension are
+ * included; each critical rating adds 1 to the principle's weight.
+ */
+export function createRelevanceProfile(
+  principles: Array<{ id: string; audienceRelevance?: AudienceRelevance; contextRelevance?: ContextRelevance }>,
+  audience?: AudienceKey,
+  context?: ContextKey
+): AuditProfile {
+  const principleIds: string[] = [];
+  const weights: Record<string, number> = {};
+
+  for (const principle of principles) {
+    const levels = [];
+    if (audience) levels.push(principle.audienceRelevance?.[audience]);
+    if (context) levels.push(principle.contextRelevance?.[context]);
+
+    if (levels.length === 0 || !levels.every((level) => level === 'critical' || level === 'high')) continue;
+
+    principleIds.push(principle.id);
+    const weight = 1 + levels.filter((level) => level === 'critical').length;
+    if (weight !== 1) weights[principle.id] = weight;
+  }
+
+  const label = describeRelevanceContext(audience, context);
+  return {
+    id: `relevance-${audience ?? 'any'}-${context ?? 'any'}`,
+    name: `Tailored: ${label}`,
+    description: `Principles rated critical or high for ${label}, weighted by relevance.`,
+    principleIds,
+    weights,
+    gapThreshold: DEFAULT_GAP_THRESHOLD,
+    strengthThreshold: DEFAULT_STRENGTH_THRESHOLD,
+    audience,
+    context,
+  };
+}
+
+export const AUDIT_PROFILE_PRESETS: AuditProfile[] = [
+  {
+    id: 'k12-game',
+    name: 'K-12 game audit',
+    description: 'Game-based learning for school-age learners: motivation, feedback, and practice design.',
+    principleIds: [
+      'retrieval-practice',
+      'spaced-repetition',
+      'interleaving',
+      'feedback-timing',
+      'learning-from-errors',
+      'scaffolding-and-fading',
+      'cognitive-load-theory',
+      'self-efficacy',
+      'growth-mindset',
+      'interest-and-curiosity',
+      'intrinsic-extrinsic-motivation',
+      'excitement-and-arousal',
+      'goal-setting',
+      'imaginative-play',
+    ],
+    weights: {
+      'retrieval-practice': 2,
+      'feedback-timing': 2,
+      'learning-from-errors': 2,
+      'intrinsic-extrinsic-motivation': 2,
+      'excitement-and-arousal': 0.5,
+    },
+    gapThreshold: DEFAULT_GAP_THRESHOLD,
+    strengthThreshold: DEFAULT_STRENGTH_THRESHOLD,
+  },
+  {
+    id: 'corporate-compliance',
+    name: 'Corporate compliance e-learning',
+    description: 'Self-paced workplace training where on-the-job transfer and retention matter most.',
+    principleIds: [
+      'transfer-of-learning',
+      'situated-learning',
+      'retrieval-practice',
+      'spaced-repetition',
+      'worked-examples',
+      'concrete-examples',
+      'formative-assessment',
+      'feedback-timing',
+      'cognitive-load-theory',
+      'split-attention-effect',
+      'redundancy-effect',
+      'chunking',
+      'self-determination-theory',
+    ],
+    weights: {
+      'transfer-of-learning': 3,
+      'situated-learning': 2,
+      'retrieval-practice': 2,
+      'spaced-repetition': 2,
+    },
+    gapThreshold: DEFAULT_GAP_THRESHOLD,
+    strengthThreshold: 5,
+  },
+];
+
+/**
+ * Weight of a principle within a profile (defaults to 1)
+ */
+export function getPrincipleWeight(profile: AuditProfile, principleId: string): number {
+  return profile.weights[principleId] ?? 1;
+}
+
+/**
+ * Weighted average of [principleId, score] pairs using the profile's weights
+ */
+export function weightedAverage(scores: Array<[string, number]>, profile: AuditProfile): number {
+  let total = 0;
+  let totalWeight = 0;
+  for (const [id, score] of scores) {
+    const weight = getPrincipleWeight(profile, id);
+    total += score * weight;
+    totalWeight += weight;
+  }
+  return totalWeight > 0 ? total / totalWeight : 0;
+}
+
+/**
+ * How much closing a gap would move the overall score: points below a perfect 5, times weight.
+ * Used to rank top actions so heavily weighted gaps come first.
+ */
+export function gapImpact(profile: AuditProfile, principleId: string, score: number): number {
+  return (5 - score) * getPrincipleWeight(profile, principleId);
+}
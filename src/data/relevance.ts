@@ -0,0 +1,59 @@
+/**
+ * Audience and context relevance, as declared in each principle's frontmatter
+ * (see `audienceRelevance` and `contextRelevance` in content.config.ts).
+ */
+
+export type RelevanceLevel = 'critical' | 'high' | 'moderate' | 'low';
+
+export interface AudienceRelevance {
+  learningDesigners?: RelevanceLevel;
+  educators?: RelevanceLevel;
+  selfLearners?: RelevanceLevel;
+}
+
+export interface ContextRelevance {
+  gameBasedLearning?: RelevanceLevel;
+  classroomInstruction?: RelevanceLevel;
+  elearning?: RelevanceLevel;
+  selfStudy?: RelevanceLevel;
+}
+
+export type AudienceKey = keyof AudienceRelevance;
+export type ContextKey = keyof ContextRelevance;
+
+export const AUDIENCE_LABELS: Record<AudienceKey, string> = {
+  learningDesigners: 'Learning Designer',
+  educators: 'Educator/Teacher',
+  selfLearners: 'Self-directed Learner',
+};
+
+export const CONTEXT_LABELS: Record<ContextKey, string> = {
+  gameBasedLearning: 'Game-Based Learning',
+  classroomInstruction: 'Classroom Instruction',
+  elearning: 'E-Learning',
+  selfStudy: 'Self-Study',
+};
+
+export const RELEVANCE_PRIORITY: Record<RelevanceLevel, number> = {
+  critical: 4,
+  high: 3,
+  moderate: 2,
+  low: 1,
+};
+
+export function isAudienceKey(value: unknown): value is AudienceKey {
+  return typeof value === 'string' && Object.hasOwn(AUDIENCE_LABELS, value);
+}
+
+export function isContextKey(value: unknown): value is ContextKey {
+  return typeof value === 'string' && Object.hasOwn(CONTEXT_LABELS, value);
+}
+
+/**
+ * Human-readable description of an audience/context pair, e.g. "Learning Designer, Game-Based Learning"
+ */
+export function describeRelevanceContext(audience?: AudienceKey, context?: ContextKey): string {
+  return [audience && AUDIENCE_LABELS[audience], context && CONTEXT_LABELS[context]]
+    .filter(Boolean)
+    .join(', ');
+}
@@ -0,0 +1,143 @@
+/**
+ * Action items (the action_items table): a report's recommendations turned into tracked work.
+ * Each item remembers the principle's score when it was created, so the next audit of the same
+ * product can show whether finishing it actually raised the score.
+ */
+
+import type { StorageClient } from './storage';
+import type { RefinedScore } from './auditScoring';
+
+export const ACTION_STATUSES = ['open', 'in-progress', 'done'] as const;
+export const ACTION_PRIORITIES = ['high', 'medium', 'low'] as const;
+export const ACTION_EFFORTS = ['small', 'medium', 'large'] as const;
+
+export type ActionStatus = (typeof ACTION_STATUSES)[number];
+export type ActionPriority = (typeof ACTION_PRIORITIES)[number];
+export type ActionEffort = (typeof ACTION_EFFORTS)[number];
+
+/** Where an item came from: a key takeaway's top action, or a refined score's specific action */
+export type ActionSource = 'top-action' | 'refined';
+
+export interface ActionItem {
+  id: string;
+  reportId: string;
+  principleId: string;
+  title: string;
+  source: ActionSource;
+  /** Who is doing the work, as free text (a name or an email) */
+  assignee: string | null;
+  priority: ActionPriority;
+  effort: ActionEffort;
+  status: ActionStatus;
+  /** The principle's score in the report the item was created from */
+  baselineScore: number | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+/** An item not yet tracked, as offered from a report's recommendations */
+export type ActionSuggestion = Pick<ActionItem, 'principleId' | 'title' | 'source' | 'priority' | 'effort'>;
+
+export interface ActionItemRow {
+  id: string;
+  report_id: string;
+  principle_id: string;
+  title: string;
+  source: ActionSource;
+  assignee: string | null;
+  priority: ActionPriority;
+  effort: ActionEffort;
+  status: ActionStatus;
+  baseline_score: number | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export function actionItemFromRow(row: ActionItemRow): ActionItem {
+  return {
+    id: row.id,
+    reportId: row.report_id,
+    principleId: row.principle_id,
+    title: row.title,
+    source: row.source,
+    assignee: row.assignee ?? null,
+    priority: row.priority,
+    effort: row.effort,
+    status: row.status,
+    baselineScore: row.baseline_score ?? null,
+    createdAt: row.created_at,
+    completedAt: row.completed_at ?? null,
+  };
+}
+
+/** Action items created from any of these reports, oldest first */
+export async function fetchActionItems(client: StorageClient, reportIds: string[]): Promise<ActionItem[]> {
+  if (reportIds.length === 0) return [];
+  const { data, error } = await client
+    .from('action_items')
+    .select('*')
+    .in('report_id', reportIds)
+    .order('created_at', { ascending: true });
+
+  if (error || !data) return [];
+  return (data as ActionItemRow[]).map(actionItemFromRow);
+}
+
+/**
+ * Items a report's recommendations suggest: its top actions (high priority; quick wins are small
+ * efforts) and the specific actions from refined scores. Titles already tracked are left out.
+ */
+export function suggestActionItems(
+  keyTakeaways: { topActions: Array<{ id: string; recommendation: string }>; quickWins: Array<{ id: string }> } | null,
+  refinedScores: RefinedScore[] | null,
+  tracked: ActionItem[] = []
+): ActionSuggestion[] {
+  const quickWinIds = new Set(keyTakeaways?.quickWins.map((w) => w.id));
+  const suggestions: ActionSuggestion[] = [
+    ...(keyTakeaways?.topActions ?? []).map((action) => ({
+      principleId: action.id,
+      title: action.recommendation,
+      source: 'top-action' as const,
+      priority: 'high' as const,
+      effort: quickWinIds.has(action.id) ? ('small' as const) : ('medium' as const),
+    })),
+    ...(refinedScores ?? []).flatMap((refined) =>
+      refined.specificActions.map((action) => ({
+        principleId: refined.principleId,
+        title: action,
+        source: 'refined' as const,
+        priority: 'medium' as const,
+        effort: 'medium' as const,
+      }))
+    ),
+  ];
+
+  const seen = new Set(tracked.map((item) => `${item.principleId}:${item.title}`));
+  return suggestions.filter((s) => {
+    const key = `${s.principleId}:${s.title}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export type ActionVerification =
+  /** No later audit yet */
+  | { result: 'awaiting-audit' }
+  /** The principle wasn't rated in one of the two audits, so there's nothing to compare */
+  | { result: 'not-rated' }
+  | { result: 'raised' | 'unchanged' | 'lowered'; before: number; after: number };
+
+/** How the principle behind an item scored in a later audit of the same product */
+export function verifyActionItem(
+  item: Pick<ActionItem, 'principleId' | 'baselineScore'>,
+  laterRatings: Record<string, number | null> | null
+): ActionVerification {
+  if (!laterRatings) return { result: 'awaiting-audit' };
+  const before = item.baselineScore;
+  const after = laterRatings[item.principleId];
+  if (before === null || after == null) return { result: 'not-rated' };
+
+  const result = after > before ? 'raised' : after < before ? 'lowered' : 'unchanged';
+  return { result, before, after };
+}
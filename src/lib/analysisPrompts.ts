@@ -0,0 +1,299 @@
+/**
+ * Prompt builders for /api/analyze and /api/refine-analysis
+ */
+
+import type { AuditPromptData } from '../data/auditPrompts';
+import {
+  upfrontQuestions,
+  getApplicablePrincipleIds,
+  type UpfrontContextAnswers,
+  type SectionType,
+} from '../data/upfrontQuestions';
+import { LEARNER_PERSONAS, type NavigationAnalysisRequest } from '../types/navigation';
+
+export interface FollowUpAnswer {
+  principleId: string;
+  selectedOptions: string[];
+  freeText: string;
+}
+
+export interface OriginalScore {
+  principleId: string;
+  title: string;
+  score: number;
+  reasoning: string;
+}
+
+export function buildUpfrontContextSection(upfrontContext: UpfrontContextAnswers): string {
+  if (!upfrontContext || Object.keys(upfrontContext).length === 0) {
+    return '';
+  }
+
+  let section = `
+IMPORTANT CONTEXT ABOUT THE OVERALL LEARNING EXPERIENCE:
+The user has provided information about behaviors that cannot be assessed from screenshots alone. Use this context to inform your scoring of the relevant principles.
+
+`;
+
+  for (const [questionId, answer] of Object.entries(upfrontContext)) {
+    const question = upfrontQuestions.find((q) => q.id === questionId);
+    if (!question) continue;
+
+    const selectedOption = question.options.find((o) => o.value === answer.selectedOption);
+    if (selectedOption) {
+      section += `**${question.question}**
+User selected: "${selectedOption.label}"
+Scoring guidance: ${selectedOption.scoringHint}
+Affects principles: ${question.principleIds.join(', ')}
+`;
+      if (answer.freeText && answer.freeText.trim()) {
+        section += `Additional context: "${answer.freeText}"
+`;
+      }
+      section += `
+`;
+    }
+  }
+
+  section += `Use this context when scoring the affected principles. These principles may receive higher scores if the user's context indicates implementation beyond what's visible in screenshots.
+
+`;
+
+  return section;
+}
+
+// m:ss since the first thing that happened in the section
+function formatElapsed(ms: number): string {
+  const seconds = Math.max(Math.round(ms / 1000), 0);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * What happened between the screenshots of a navigated section: the flow, every interaction and
+ * capture in time order (screenshots numbered as they are sent), and what to judge from them
+ */
+export function buildNavigationContextSection(navigation: NavigationAnalysisRequest): string {
+  const { captures, interactions, flows, session } = navigation;
+  const personaLabel = (persona?: string) => LEARNER_PERSONAS.find((p) => p.persona === persona)?.label;
+
+  const events = [
+    ...captures.map((capture, i) => {
+      const details = [
+        capture.wasCorrect === true && 'after a correct answer',
+        capture.wasCorrect === false && 'after an incorrect answer',
+        capture.attemptNumber && `attempt ${capture.attemptNumber}`,
+        personaLabel(capture.activePersona) && `acting as ${personaLabel(capture.activePersona)}`,
+      ].filter(Boolean);
+      const text = `Screenshot ${i + 1} (${capture.contentType.replace(/_/g, ' ')}): ${capture.description || capture.pageTitle}${details.length > 0 ? ` [${details.join(', ')}]` : ''}`;
+      return { timestamp: capture.timestamp, text };
+    }),
+    ...interactions.map((interaction) => {
+      const value = interaction.value ? ` "${interaction.value}"` : '';
+      const outcome = interaction.success ? '' : ` (failed${interaction.error ? `: ${interaction.error}` : ''})`;
+      return { timestamp: interaction.timestamp, text: `${interaction.type} ${interaction.target}${value}${outcome}` };
+    }),
+  ].sort((a, b) => a.timestamp - b.timestamp);
+  const start = events[0]?.timestamp ?? 0;
+
+  let section = `
+HOW A LEARNER MOVED THROUGH THIS SECTION:
+These screenshots were captured by an agent navigating ${session.startUrl} as a learner (session length ${formatElapsed(session.duration)}), so you can judge what happened over time, not just the screens.
+
+`;
+
+  for (const flow of flows) {
+    section += `Flow: "${flow.description}" (${flow.status})${flow.notes ? ` - ${flow.notes}` : ''}
+`;
+  }
+
+  section += `
+Timeline (minutes:seconds from the first event):
+${events.map((event) => `- ${formatElapsed(event.timestamp - start)} ${event.text}`).join('\n')}
+
+Use this history when scoring:
+- Feedback on incorrect answers: does the screenshot after a wrong answer explain why and guide the learner, or only mark it wrong?
+- Retry behavior: when the learner tries again, does the experience respond to the repeated attempt (hints, scaffolding, a different question) or simply repeat itself?
+- Pacing: are the gaps between steps reasonable for the content, or does the experience rush or stall the learner?
+
+`;
+
+  return section;
+}
+
+export function buildAnalysisPrompt(
+  auditData: Record<string, AuditPromptData>,
+  sectionName?: string,
+  resolvedSectionType?: SectionType,
+  sectionNotes?: string,
+  upfrontContext?: UpfrontContextAnswers,
+  weights: Record<string, number> = {},
+  tailoredFor?: string,
+  navigation?: NavigationAnalysisRequest
+): string {
+  let prompt = '';
+
+  // Use resolved section type (override or detected)
+  const sectionType: SectionType = resolvedSectionType || 'overall';
+  const allPrincipleIds = Object.keys(auditData);
+
+  // Build mapping of principle ID to appliesTo array
+  const principleAppliesTo: Record<string, SectionType[]> = {};
+  for (const [id, data] of Object.entries(auditData)) {
+    principleAppliesTo[id] = data.appliesTo;
+  }
+
+  // Get only applicable principles for this section type
+  const applicablePrincipleIds = getApplicablePrincipleIds(sectionType, allPrincipleIds, principleAppliesTo);
+  const applicablePrinciples = applicablePrincipleIds.map((id) => [id, auditData[id]] as const);
+
+  if (sectionName) {
+    prompt = `You are an expert in learning science and instructional design. You are analyzing screenshots from ONE SECTION of a larger learning experience.
+
+This section is: "${sectionName}" (detected type: ${sectionType})
+`;
+
+    // Add upfront context if provided
+    if (upfrontContext && Object.keys(upfrontContext).length > 0) {
+      prompt += buildUpfrontContextSection(upfrontContext);
+    }
+
+    if (sectionNotes) {
+      prompt += `
+The user has provided additional section-specific context:
+"${sectionNotes}"
+
+Consider BOTH the screenshots AND this context when scoring.
+
+`;
+    }
+
+    prompt += `
+For each of the ${applicablePrinciples.length} learning science principles below (pre-filtered to be relevant for "${sectionType}" sections):
+1. Provide a score from 1-5 based on the rubric criteria
+2. Provide brief reasoning (1-2 sentences) explaining your score
+3. Provide confidence level: "high", "medium", or "low"
+4. Set "notApplicable" to false (these principles were pre-selected as applicable)
+
+Note: Principles not applicable to this section type have already been filtered out.
+
+`;
+  } else {
+    prompt = `You are an expert in learning science and instructional design. Analyze the provided screenshots of a learning experience and evaluate it against each of the following ${applicablePrinciples.length} learning science principles.
+
+For each principle, provide:
+1. A score from 1-5 based on the rubric criteria below
+2. A brief reasoning (1-2 sentences) explaining your score based on what you observe
+3. A confidence level: "high" if clearly visible, "medium" if partially visible, "low" if you're inferring or can't fully assess from screenshots
+
+IMPORTANT: Some principles (like spaced repetition timing or long-term transfer) may not be fully assessable from static screenshots. Use "low" confidence for these and note what you cannot determine.
+
+`;
+  }
+
+  if (navigation) {
+    prompt += buildNavigationContextSection(navigation);
+  }
+
+  if (tailoredFor) {
+    prompt += `This audit is tailored for: ${tailoredFor}. Principles marked "Priority: HIGH" matter most for this audience and learning context, so give them the closest scrutiny.
+
+`;
+  }
+
+  prompt += `Here are the ${applicablePrinciples.length} principles with their scoring rubrics:
+
+`;
+
+  for (const [id, data] of applicablePrinciples) {
+    prompt += `## ${id}\n`;
+    if ((weights[id] ?? 1) > 1) {
+      prompt += `Priority: HIGH (weighted x${weights[id]} in this audit; be especially specific in your reasoning)\n`;
+    }
+    prompt += `Question: ${data.prompt}\n`;
+    prompt += `Rubric:\n`;
+    for (let i = 1; i <= 5; i++) {
+      const level = data.rubric[i];
+      prompt += `  ${i} - ${level.label}: ${level.description}\n`;
+    }
+    prompt += `\n`;
+  }
+
+  prompt += `
+Record your assessment by calling the record_scores tool, with one entry per principle ID above. Scores must be whole numbers from 1 to 5.
+
+Ground every score in the screenshots: in "evidence", cite the numbered screenshot(s) you relied on. Where it helps a reviewer, quote the visible text exactly and give the region of the screenshot (x, y, width, height as fractions of the image) that shows it. If a score rests on missing features or on the user's context rather than anything visible, cite the screenshot(s) where you looked for it.
+
+Analyze the screenshots now and provide your assessment.`;
+
+  return prompt;
+}
+
+export function buildRefinePrompt(
+  auditData: Record<string, AuditPromptData>,
+  originalScores: OriginalScore[],
+  answers: FollowUpAnswer[]
+): string {
+  let prompt = `You are an expert in learning science. You previously analyzed a learning experience and scored it on several principles. The user has now provided additional context about features that may not have been visible in screenshots.
+
+For each principle below, consider the new information and:
+1. Decide if the score should be adjusted (it can stay the same, go up, or rarely go down)
+2. Provide updated reasoning that incorporates the new context
+3. Provide 2-3 specific, actionable recommendations for improvement
+
+Here are the principles that need refinement:
+
+`;
+
+  for (const original of originalScores) {
+    const answer = answers.find((a) => a.principleId === original.principleId);
+    const rubric = auditData[original.principleId]?.rubric;
+
+    prompt += `---
+## ${original.title} (ID: ${original.principleId})
+
+**Original Score:** ${original.score}/5
+**Original Reasoning:** "${original.reasoning}"
+
+`;
+
+    if (rubric) {
+      prompt += `**Scoring Rubric:**
+`;
+      for (let i = 1; i <= 5; i++) {
+        prompt += `  ${i} - ${rubric[i].label}: ${rubric[i].description}
+`;
+      }
+      prompt += `
+`;
+    }
+
+    if (answer) {
+      if (answer.selectedOptions.length > 0) {
+        prompt += `**User indicates the experience includes:**
+${answer.selectedOptions.map((o) => `- ${o}`).join('\n')}
+
+`;
+      }
+      if (answer.freeText.trim()) {
+        prompt += `**Additional context from user:**
+"${answer.freeText}"
+
+`;
+      }
+      if (answer.selectedOptions.length === 0 && !answer.freeText.trim()) {
+        prompt += `**User provided no additional context for this principle.**
+
+`;
+      }
+    }
+  }
+
+  prompt += `
+---
+
+Record your refinements by calling the record_refinements tool, with one entry per principle ID above. Scores must be whole numbers from 1 to 5.
+
+Be specific in your recommendations. Reference the user's context when adjusting scores. If no new information warrants a score change, keep the same score but still provide specific actions.`;
+
+  return prompt;
+}
@@ -0,0 +1,90 @@
+/**
+ * Browser side of /api/analyze-stream: per-principle scores as they arrive, and a
+ * concurrency-limited runner for analyzing several sections at once.
+ */
+
+import type { AIScore } from './auditScoring';
+import type { AnalysisResult } from './sectionAnalysis';
+import type { PrincipleFailure } from './structuredOutput';
+import { readServerSentEvents } from './serverSentEvents';
+
+interface StreamAnalysisOptions {
+  /** Called once with the principles the server will score */
+  onStart?: (principleIds: string[]) => void;
+  onScore?: (principleId: string, score: AIScore) => void;
+  signal?: AbortSignal;
+}
+
+function describeError(data: { error?: string; failures?: PrincipleFailure[] }): string {
+  const failedIds = (data.failures || []).map((f) => f.principleId);
+  return (data.error || 'Analysis failed') + (failedIds.length > 0 ? ` (${failedIds.join(', ')})` : '');
+}
+
+/**
+ * Analyze one section through the streaming endpoint. Resolves with the same result
+ * /api/analyze returns; rejects with an AbortError when the signal is aborted.
+ */
+export async function streamSectionAnalysis(
+  body: Record<string, unknown>,
+  { onStart, onScore, signal }: StreamAnalysisOptions = {}
+): Promise<AnalysisResult> {
+  const response = await fetch('/api/analyze-stream', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(describeError(await response.json()));
+  }
+
+  let result: AnalysisResult | null = null;
+  let failure: string | null = null;
+
+  await readServerSentEvents(response, ({ event, data }) => {
+    if (event === 'start') {
+      onStart?.((data as { principleIds: string[] }).principleIds);
+    } else if (event === 'score') {
+      const { principleId, score } = data as { principleId: string; score: AIScore };
+      onScore?.(principleId, score);
+    } else if (event === 'done') {
+      result = data as AnalysisResult;
+    } else if (event === 'error') {
+      failure = describeError(data as { error?: string; failures?: PrincipleFailure[] });
+    }
+  });
+
+  if (failure) throw new Error(failure);
+  if (!result) throw new Error('The analysis ended before it finished');
+  return result;
+}
+
+/**
+ * Run `task` over every item with at most `limit` running at once, keeping results in item order.
+ * Stops starting new items once one fails, and rejects with that failure.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await task(items[index], index);
+      } catch (err) {
+        failed = true;
+        throw err;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,160 @@
+/**
+ * In-progress audits saved in the browser (IndexedDB), screenshots included, so a refresh or
+ * closed tab doesn't lose work. Browser-only: every function rejects during server rendering.
+ */
+
+import { type AuditProfile, createLegacyProfile } from '../data/auditProfiles';
+import type { SectionType, UpfrontContextAnswers } from '../data/upfrontQuestions';
+import { type RefinedScore, type SectionResult, latestOverrides } from './auditScoring';
+import type { SavedReport } from './reports';
+import type { NavigationAnalysisContext } from '../types/navigation';
+
+export interface DraftSection {
+  id: string;
+  name: string;
+  notes: string;
+  typeOverride?: SectionType;
+  /** Uploaded screenshots, stored as files */
+  images: File[];
+  /** How the screenshots were navigated, for sections built from a navigation session (absent on older drafts) */
+  navigation?: NavigationAnalysisContext;
+}
+
+export interface AuditDraft {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  mode: 'manual' | 'ai' | 'navigation';
+  profile: AuditProfile;
+  ratings: Record<string, number | null>;
+  sections: DraftSection[];
+  upfrontContext: UpfrontContextAnswers;
+  sectionResults: SectionResult[];
+  refinedScores: RefinedScore[];
+  /** The auditor's reasons for changing AI scores, by principle (absent on older drafts) */
+  overrideRationales?: Record<string, string>;
+  showResults: boolean;
+  // Sharing details, carried over when a shared report is reopened (absent on older drafts)
+  productName?: string;
+  tags?: string[];
+  /** Shared report this draft re-audits; sharing it saves a new version of that report */
+  previousVersionId?: string;
+  /** Project the audit will be attached to when shared */
+  projectId?: string;
+}
+
+const DB_NAME = 'learning-audit';
+const DB_VERSION = 1;
+const STORE = 'drafts';
+
+/** Fired on window whenever drafts are saved or deleted, so other islands can refresh */
+export const DRAFTS_CHANGED_EVENT = 'audit-drafts-changed';
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('Drafts are not available in this browser'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = operation(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function notifyChanged() {
+  window.dispatchEvent(new CustomEvent(DRAFTS_CHANGED_EVENT));
+}
+
+/** Saved drafts, most recently updated first */
+export async function listDrafts(): Promise<AuditDraft[]> {
+  const drafts = await withStore('readonly', (store) => store.getAll() as IDBRequest<AuditDraft[]>);
+  return drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getDraft(id: string): Promise<AuditDraft | null> {
+  const draft = await withStore('readonly', (store) => store.get(id) as IDBRequest<AuditDraft | undefined>);
+  return draft ?? null;
+}
+
+export async function saveDraft(draft: AuditDraft): Promise<void> {
+  await withStore('readwrite', (store) => store.put(draft));
+  notifyChanged();
+}
+
+export async function deleteDraft(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+  notifyChanged();
+}
+
+/**
+ * Copy a draft under a new id, e.g. to audit a variant of the same experience
+ */
+export async function duplicateDraft(id: string): Promise<AuditDraft | null> {
+  const draft = await getDraft(id);
+  if (!draft) return null;
+
+  const now = new Date().toISOString();
+  const copy: AuditDraft = { ...draft, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+  await saveDraft(copy);
+  return copy;
+}
+
+/**
+ * A new draft that picks up where a shared report left off: its ratings, AI results, refined
+ * scores and the reasons for changed scores, with the sections it analyzed. Screenshots aren't stored with reports, so sections
+ * start without them.
+ */
+export function draftFromReport(report: SavedReport, now = new Date().toISOString()): AuditDraft {
+  const sectionResults = report.sectionResults ?? [];
+  return {
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    mode: sectionResults.length > 0 ? 'ai' : 'manual',
+    profile: report.profile ?? createLegacyProfile(Object.keys(report.ratings)),
+    ratings: report.ratings,
+    sections: sectionResults.map((result) => ({ id: result.sectionId, name: result.sectionName, notes: '', images: [] })),
+    upfrontContext: {},
+    sectionResults,
+    refinedScores: report.refinedScores ?? [],
+    overrideRationales: Object.fromEntries(
+      Object.values(latestOverrides(report.scoreOverrides))
+        .filter((o) => report.ratings[o.principleId] === o.score)
+        .map((o) => [o.principleId, o.justification])
+    ),
+    showResults: true,
+    productName: report.productName ?? undefined,
+    tags: report.tags,
+    previousVersionId: report.id,
+    projectId: report.projectId ?? undefined,
+  };
+}
+
+/** Label for a draft: its product name or section names, or the mode when it has neither */
+export function describeDraft(draft: Pick<AuditDraft, 'mode' | 'sections' | 'productName'>): string {
+  if (draft.productName) return draft.productName;
+  if (draft.sections.length > 0) return draft.sections.map((s) => s.name).join(', ');
+  return draft.mode === 'manual' ? 'Manual audit' : 'AI-assisted audit';
+}
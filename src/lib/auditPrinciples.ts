@@ -0,0 +1,38 @@
+import { getCollection } from 'astro:content';
+import { toAuditPromptData, type AuditPrinciple } from '../data/auditPrompts';
+
+/**
+ * Load every principle that declares an audit rubric in its frontmatter,
+ * sorted alphabetically by title.
+ */
+export async function getAuditPrinciples(): Promise<AuditPrinciple[]> {
+  const allPrinciples = await getCollection('principles');
+
+  return allPrinciples
+    .filter((p) => p.data.audit)
+    .sort((a, b) => a.data.title.localeCompare(b.data.title))
+    .map((p) => ({
+      id: p.id,
+      title: p.data.title,
+      category: p.data.category,
+      summary: p.data.summary,
+      essential: p.data.essential,
+      audienceRelevance: p.data.audienceRelevance,
+      contextRelevance: p.data.contextRelevance,
+      audit: toAuditPromptData(p.data.audit!),
+    }));
+}
+
+/**
+ * Resolve the principle IDs requested for an audit. Unknown IDs are dropped;
+ * when none are requested, the essential principles are used.
+ */
+export function resolveAuditPrincipleIds(
+  principles: AuditPrinciple[],
+  requestedIds?: unknown
+): string[] {
+  if (Array.isArray(requestedIds) && requestedIds.length > 0) {
+    return principles.filter((p) => requestedIds.includes(p.id)).map((p) => p.id);
+  }
+  return principles.filter((p) => p.essential).map((p) => p.id);
+}
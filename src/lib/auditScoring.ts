@@ -0,0 +1,415 @@
+/**
+ * Aggregation behind audit results: combining section scores, splitting ratings into
+ * gaps and strengths, and deriving key takeaways. Shared by the audit tool and shared reports.
+ */
+
+import { type AuditProfile, weightedAverage, gapImpact } from '../data/auditProfiles';
+import type { ScoreConsensus } from './consensus';
+
+/** What an AI score was based on */
+export interface ScoreEvidence {
+  /** Screenshot number within its section, starting at 1 */
+  image: number;
+  /** Visible text quoted from the screenshot */
+  quote?: string;
+  /** Area of the screenshot, as fractions (0-1) of its width and height */
+  region?: { x: number; y: number; width: number; height: number };
+}
+
+export interface AIScore {
+  score: number;
+  reasoning: string;
+  confidence: 'high' | 'medium' | 'low';
+  notApplicable?: boolean;
+  /** Present when the score is the consensus of several analysis runs */
+  consensus?: ScoreConsensus;
+  evidence?: ScoreEvidence[];
+}
+
+export interface SectionResult {
+  sectionId: string;
+  sectionName: string;
+  scores: Record<string, AIScore>;
+  /** Downscaled copies of the cited screenshots, keyed by screenshot number (saved with shared reports) */
+  thumbnails?: Record<number, string>;
+}
+
+/** A low score revisited after the follow-up questions */
+export interface RefinedScore {
+  principleId: string;
+  originalScore: number;
+  refinedScore: number;
+  refinedReasoning: string;
+  specificActions: string[];
+}
+
+/**
+ * A person's replacement for a principle's score, kept with their justification: the auditor
+ * changing an AI score before sharing, or a reviewer changing a shared report
+ */
+export interface ScoreOverride {
+  principleId: string;
+  /** The score before the override, or null when the principle was unrated */
+  previousScore: number | null;
+  score: number;
+  justification: string;
+  /** Email of whoever made the change, when they were signed in */
+  author: string | null;
+  createdAt: string;
+}
+
+/** Where a principle's final score came from */
+export type ScoreSource = 'ai' | 'ai-refined' | 'human';
+
+/** A final score with the AI and refined scores before it */
+export interface ScoreProvenance {
+  source: ScoreSource;
+  aiScore: number | null;
+  refinedScore: number | null;
+  finalScore: number;
+  /** The change behind a human score that replaced an AI one */
+  override: ScoreOverride | null;
+}
+
+export type CombinedScore = AIScore & { contributingSection: string; contributingSectionId: string };
+
+/** The parts of a principle needed to report on it; C narrows the category type for callers */
+export interface ScoredPrinciple<C extends string = string> {
+  id: string;
+  title: string;
+  category: C;
+  audit: { recommendation: string };
+}
+
+export interface RatingGap<C extends string = string> {
+  id: string;
+  title: string;
+  category: C;
+  score: number;
+  recommendation: string;
+  contributingSection?: string;
+}
+
+export interface RatingStrength<C extends string = string> {
+  id: string;
+  title: string;
+  category: C;
+  score: number;
+  contributingSection?: string;
+}
+
+export interface RatingSummary<C extends string = string> {
+  average: number;
+  gaps: RatingGap<C>[];
+  strengths: RatingStrength<C>[];
+  totalRated: number;
+}
+
+/** What the AI said about a principle within one section */
+interface SectionScoreDetail {
+  reasoning: string;
+  confidence: AIScore['confidence'];
+  evidence: ScoreEvidence[];
+}
+
+export interface SectionSummary<C extends string = string> {
+  sectionName: string;
+  average: number;
+  gaps: Array<Omit<RatingGap<C>, 'contributingSection'> & SectionScoreDetail>;
+  strengths: Array<Omit<RatingStrength<C>, 'contributingSection'> & SectionScoreDetail>;
+  notApplicable: Array<{ id: string; title: string }>;
+  totalRated: number;
+}
+
+export interface KeyTakeaways<C extends string = string> {
+  priorityCategory: {
+    category: string;
+    avg: number;
+    count: number;
+  };
+  topActions: RatingGap<C>[];
+  quickWins: RatingGap<C>[];
+}
+
+/**
+ * Best applicable score for each principle across sections, with the section it came from
+ */
+export function combineSectionScores(
+  sectionResults: SectionResult[],
+  principleIds: string[]
+): Record<string, CombinedScore> {
+  const combined: Record<string, CombinedScore> = {};
+
+  for (const principleId of principleIds) {
+    let bestScore: CombinedScore | null = null;
+
+    for (const result of sectionResults) {
+      const score = result.scores[principleId];
+      if (score && !score.notApplicable && score.score > 0) {
+        if (!bestScore || score.score > bestScore.score) {
+          bestScore = { ...score, contributingSection: result.sectionName, contributingSectionId: result.sectionId };
+        }
+      }
+    }
+
+    if (bestScore) {
+      combined[principleId] = bestScore;
+    }
+  }
+
+  return combined;
+}
+
+/**
+ * Overall weighted score, gaps (lowest first) and strengths (highest first) for a set of ratings.
+ * Ratings for principles not in the list are left out. Returns null when nothing has been rated.
+ */
+export function summarizeRatings<C extends string>(
+  ratings: Record<string, number | null>,
+  principles: ScoredPrinciple<C>[],
+  profile: AuditProfile,
+  combinedScores?: Record<string, CombinedScore> | null
+): RatingSummary<C> | null {
+  const byId = new Map(principles.map((p) => [p.id, p]));
+  const rated = Object.entries(ratings).filter(([id, score]) => score !== null && byId.has(id)) as Array<[string, number]>;
+  if (rated.length === 0) return null;
+
+  const average = weightedAverage(rated, profile);
+
+  const gaps = rated
+    .filter(([, score]) => score <= profile.gapThreshold)
+    .map(([id, score]) => {
+      const principle = byId.get(id)!;
+      return {
+        id,
+        title: principle.title,
+        category: principle.category,
+        score,
+        recommendation: principle.audit.recommendation,
+        contributingSection: combinedScores?.[id]?.contributingSection,
+      };
+    })
+    .sort((a, b) => a.score - b.score);
+
+  const strengths = rated
+    .filter(([, score]) => score >= profile.strengthThreshold)
+    .map(([id, score]) => {
+      const principle = byId.get(id)!;
+      return {
+        id,
+        title: principle.title,
+        category: principle.category,
+        score,
+        contributingSection: combinedScores?.[id]?.contributingSection,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  return { average, gaps, strengths, totalRated: rated.length };
+}
+
+/**
+ * Results for a single analyzed section, leaving out scores for principles not in the list.
+ * Returns null when the section has no applicable scores.
+ */
+export function summarizeSection<C extends string>(
+  section: SectionResult,
+  principles: ScoredPrinciple<C>[],
+  profile: AuditProfile
+): SectionSummary<C> | null {
+  const byId = new Map(principles.map((p) => [p.id, p]));
+  const sectionScores = Object.entries(section.scores)
+    .filter(([id, score]) => score && !score.notApplicable && score.score > 0 && byId.has(id));
+
+  if (sectionScores.length === 0) return null;
+
+  const average = weightedAverage(sectionScores.map(([id, s]) => [id, s.score]), profile);
+
+  const gaps = sectionScores
+    .filter(([, s]) => s.score <= profile.gapThreshold)
+    .map(([id, s]) => {
+      const principle = byId.get(id)!;
+      return {
+        id,
+        title: principle.title,
+        category: principle.category,
+        score: s.score,
+        reasoning: s.reasoning,
+        confidence: s.confidence,
+        evidence: s.evidence ?? [],
+        recommendation: principle.audit.recommendation,
+      };
+    })
+    .sort((a, b) => a.score - b.score);
+
+  const strengths = sectionScores
+    .filter(([, s]) => s.score >= profile.strengthThreshold)
+    .map(([id, s]) => {
+      const principle = byId.get(id)!;
+      return {
+        id,
+        title: principle.title,
+        category: principle.category,
+        score: s.score,
+        reasoning: s.reasoning,
+        confidence: s.confidence,
+        evidence: s.evidence ?? [],
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const notApplicable = Object.entries(section.scores)
+    .filter(([id, score]) => score?.notApplicable && byId.has(id))
+    .map(([id]) => ({ id, title: byId.get(id)!.title }));
+
+  return {
+    sectionName: section.sectionName,
+    average,
+    gaps,
+    strengths,
+    notApplicable,
+    totalRated: sectionScores.length,
+  };
+}
+
+/**
+ * Priority category, top actions and quick wins for a summary. Returns null when there are no gaps.
+ */
+export function buildKeyTakeaways<C extends string>(
+  results: RatingSummary<C> | null,
+  profile: AuditProfile
+): KeyTakeaways<C> | null {
+  if (!results || results.gaps.length === 0) return null;
+
+  // Group gaps by category and find lowest weighted average
+  const categoryScores: Record<string, Array<[string, number]>> = {};
+  for (const gap of results.gaps) {
+    if (!categoryScores[gap.category]) categoryScores[gap.category] = [];
+    categoryScores[gap.category].push([gap.id, gap.score]);
+  }
+
+  const priorityCategory = Object.entries(categoryScores)
+    .map(([cat, scores]) => ({
+      category: cat,
+      avg: weightedAverage(scores, profile),
+      count: scores.length,
+    }))
+    .sort((a, b) => a.avg - b.avg)[0];
+
+  // Top 3 actions: gaps whose improvement would move the weighted score most
+  const topActions = [...results.gaps]
+    .sort((a, b) => gapImpact(profile, b.id, b.score) - gapImpact(profile, a.id, a.score) || a.score - b.score)
+    .slice(0, 3);
+
+  // Quick wins: gaps just below the threshold (easier to improve than 1s)
+  const quickWins = results.gaps.filter((g) => g.score >= quickWinMinimum(profile));
+
+  return { priorityCategory, topActions, quickWins };
+}
+
+/** Lowest score that still counts as a quick win */
+export function quickWinMinimum(profile: AuditProfile): number {
+  return Math.max(2, profile.gapThreshold - 1);
+}
+
+/**
+ * Ratings pre-filled from AI analysis: the best applicable score per principle, or null
+ */
+export function ratingsFromSectionResults(
+  sectionResults: SectionResult[],
+  principleIds: string[]
+): Record<string, number | null> {
+  const combined = combineSectionScores(sectionResults, principleIds);
+  return Object.fromEntries(principleIds.map((id) => [id, combined[id]?.score ?? null]));
+}
+
+/**
+ * The latest override per principle; earlier overrides of the same principle stay in the
+ * report's history
+ */
+export function latestOverrides(overrides: ScoreOverride[]): Record<string, ScoreOverride> {
+  const latest: Record<string, ScoreOverride> = {};
+  for (const override of overrides) {
+    if (!latest[override.principleId] || override.createdAt >= latest[override.principleId].createdAt) {
+      latest[override.principleId] = override;
+    }
+  }
+  return latest;
+}
+
+/** Weighted average of the rated principles, or 0 when nothing is rated */
+export function overallScore(ratings: Record<string, number | null>, profile: AuditProfile): number {
+  const rated = Object.entries(ratings).filter(([, score]) => score !== null) as Array<[string, number]>;
+  return weightedAverage(rated, profile);
+}
+
+/** Ratings and overall score with an override applied */
+export function applyScoreOverride(
+  ratings: Record<string, number | null>,
+  override: Pick<ScoreOverride, 'principleId' | 'score'>,
+  profile: AuditProfile
+): { ratings: Record<string, number | null>; overallScore: number } {
+  const updated = { ...ratings, [override.principleId]: override.score };
+  return { ratings: updated, overallScore: overallScore(updated, profile) };
+}
+
+/**
+ * The AI's score per principle, after refinement when the follow-up questions revisited it.
+ * Principles the AI didn't score are left out.
+ */
+export function aiScoresWithRefinements(
+  sectionResults: SectionResult[],
+  refinedScores: RefinedScore[],
+  principleIds: string[]
+): Record<string, { score: number; source: Exclude<ScoreSource, 'human'> }> {
+  const combined = combineSectionScores(sectionResults, principleIds);
+  const scores: Record<string, { score: number; source: Exclude<ScoreSource, 'human'> }> = {};
+  for (const id of principleIds) {
+    const refined = refinedScores.find((r) => r.principleId === id);
+    if (refined) scores[id] = { score: refined.refinedScore, source: 'ai-refined' };
+    else if (combined[id]) scores[id] = { score: combined[id].score, source: 'ai' };
+  }
+  return scores;
+}
+
+/** Principles whose rating differs from the AI's score, each of which needs a rationale */
+export function changedFromAi(
+  ratings: Record<string, number | null>,
+  aiScores: Record<string, { score: number }>
+): string[] {
+  return Object.entries(ratings)
+    .filter(([id, score]) => score !== null && aiScores[id] !== undefined && score !== aiScores[id].score)
+    .map(([id]) => id);
+}
+
+/**
+ * Where each rated principle's final score came from. A score is the AI's (or the refined AI's)
+ * when it still matches; anything else was set by a person, with the override explaining it
+ * when one was recorded.
+ */
+export function scoreProvenance(
+  ratings: Record<string, number | null>,
+  sectionResults: SectionResult[],
+  refinedScores: RefinedScore[],
+  overrides: ScoreOverride[]
+): Record<string, ScoreProvenance> {
+  const principleIds = Object.keys(ratings);
+  const combined = combineSectionScores(sectionResults, principleIds);
+  const aiScores = aiScoresWithRefinements(sectionResults, refinedScores, principleIds);
+  const latest = latestOverrides(overrides);
+  const provenance: Record<string, ScoreProvenance> = {};
+
+  for (const [id, finalScore] of Object.entries(ratings)) {
+    if (finalScore === null) continue;
+    const override = latest[id]?.score === finalScore ? latest[id] : null;
+    const ai = aiScores[id];
+    provenance[id] = {
+      source: ai && ai.score === finalScore && !override ? ai.source : 'human',
+      aiScore: combined[id]?.score ?? null,
+      refinedScore: refinedScores.find((r) => r.principleId === id)?.refinedScore ?? null,
+      finalScore,
+      override,
+    };
+  }
+  return provenance;
+}
@@ -0,0 +1,80 @@
+/**
+ * Accounts via Supabase Auth. The session lives in HttpOnly cookies set by /api/auth/*, and every
+ * auth call uses a fresh client that keeps no session of its own, so one user's session is never
+ * held by the shared server-side client.
+ */
+
+import type { AstroCookies } from 'astro';
+import { z } from 'astro/zod';
+import { createClient, type Session, type User } from '@supabase/supabase-js';
+
+export interface SessionUser {
+  id: string;
+  email: string | null;
+}
+
+export const credentialsSchema = z.object({
+  email: z.string().email('Enter a valid email address'),
+  password: z.string().min(8, 'Password must be at least 8 characters').max(200),
+});
+
+/**
+ * The app's view of a Supabase user. Workspace membership goes by email, so an address only
+ * counts once its owner has confirmed it; until then anyone could sign up as someone else's.
+ */
+export function toSessionUser(user: Pick<User, 'id' | 'email' | 'email_confirmed_at'>): SessionUser {
+  return { id: user.id, email: user.email_confirmed_at ? (user.email ?? null) : null };
+}
+
+const ACCESS_COOKIE = 'sb-access-token';
+const REFRESH_COOKIE = 'sb-refresh-token';
+
+/** A client for one request's auth calls, or null when Supabase isn't configured */
+export function createAuthClient() {
+  const supabaseUrl = import.meta.env.SUPABASE_URL;
+  const supabaseAnonKey = import.meta.env.SUPABASE_ANON_KEY;
+  return supabaseUrl && supabaseAnonKey
+    ? createClient(supabaseUrl, supabaseAnonKey, { auth: { persistSession: false, autoRefreshToken: false } })
+    : null;
+}
+
+export function setSessionCookies(cookies: AstroCookies, session: Pick<Session, 'access_token' | 'refresh_token'>): void {
+  const options = { path: '/', httpOnly: true, sameSite: 'lax' as const, secure: import.meta.env.PROD };
+  cookies.set(ACCESS_COOKIE, session.access_token, { ...options, maxAge: 60 * 60 });
+  // The refresh token keeps the user signed in after the access token expires
+  cookies.set(REFRESH_COOKIE, session.refresh_token, { ...options, maxAge: 60 * 60 * 24 * 30 });
+}
+
+export function clearSessionCookies(cookies: AstroCookies): void {
+  cookies.delete(ACCESS_COOKIE, { path: '/' });
+  cookies.delete(REFRESH_COOKIE, { path: '/' });
+}
+
+/**
+ * The signed-in user, refreshing an expired session when possible. Returns null for visitors
+ * who aren't signed in, and clears cookies that no longer hold a valid session.
+ */
+export async function getSessionUser(cookies: AstroCookies): Promise<SessionUser | null> {
+  const accessToken = cookies.get(ACCESS_COOKIE)?.value;
+  const refreshToken = cookies.get(REFRESH_COOKIE)?.value;
+  if (!accessToken && !refreshToken) return null;
+
+  const client = createAuthClient();
+  if (!client) return null;
+
+  if (accessToken) {
+    const { data, error } = await client.auth.getUser(accessToken);
+    if (!error && data.user) return toSessionUser(data.user);
+  }
+
+  if (refreshToken) {
+    const { data, error } = await client.auth.refreshSession({ refresh_token: refreshToken });
+    if (!error && data.session && data.user) {
+      setSessionCookies(cookies, data.session);
+      return toSessionUser(data.user);
+    }
+  }
+
+  clearSessionCookies(cookies);
+  return null;
+}
@@ -0,0 +1,92 @@
+/**
+ * Consensus scoring: combine several independent analyses of the same section into one
+ * score per principle, turning disagreement between runs into lower confidence.
+ */
+
+import type { AIScore } from './auditScoring';
+
+/** How independent runs agreed on a principle's score */
+export interface ScoreConsensus {
+  /** Scores from each run that returned a valid result, in run order */
+  scores: number[];
+  /** Share of runs that gave the consensus score (0-1) */
+  agreement: number;
+  /** Highest minus lowest score across runs */
+  spread: number;
+}
+
+const CONFIDENCE_LEVELS: AIScore['confidence'][] = ['low', 'medium', 'high'];
+
+/** Median rounded to a whole rubric level (halves round up) */
+export function medianScore(scores: number[]): number {
+  const sorted = [...scores].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  return Math.round(median);
+}
+
+/**
+ * Confidence after accounting for disagreement: the runs' most common confidence,
+ * lowered one level when runs differ by 1 point, and "low" when they differ by more.
+ */
+function consensusConfidence(results: AIScore[], spread: number): AIScore['confidence'] {
+  const counts = new Map<AIScore['confidence'], number>();
+  for (const r of results) counts.set(r.confidence, (counts.get(r.confidence) ?? 0) + 1);
+  // Ties resolve to the lower confidence
+  const base = CONFIDENCE_LEVELS.reduce((best, level) =>
+    (counts.get(level) ?? 0) > (counts.get(best) ?? 0) ? level : best
+  );
+
+  if (spread === 0) return base;
+  if (spread === 1) return CONFIDENCE_LEVELS[Math.max(0, CONFIDENCE_LEVELS.indexOf(base) - 1)];
+  return 'low';
+}
+
+/**
+ * Aggregate per-principle results from several runs. Principles missing from some runs
+ * are aggregated from the runs that scored them; principles no run scored are left out.
+ */
+export function aggregateRuns(runs: Array<Record<string, AIScore>>, principleIds: string[]): Record<string, AIScore> {
+  const aggregated: Record<string, AIScore> = {};
+
+  for (const principleId of principleIds) {
+    const results = runs.map((run) => run[principleId]).filter((r): r is AIScore => r !== undefined);
+    if (results.length === 0) continue;
+
+    if (runs.length === 1) {
+      aggregated[principleId] = results[0];
+      continue;
+    }
+
+    const scores = results.map((r) => r.score);
+    const score = medianScore(scores);
+    const spread = Math.max(...scores) - Math.min(...scores);
+    const agreeing = results.filter((r) => r.score === score);
+    // An even split can produce a median no run gave; fall back to every run
+    const supporting = agreeing.length > 0 ? agreeing : results;
+
+    // Reasoning from the runs that reached the consensus score, without repeats
+    const reasoning = [...new Set(supporting.map((r) => r.reasoning))]
+      .slice(0, 2)
+      .join(' ');
+
+    // Evidence cited by those same runs, one entry per screenshot and quote
+    const evidence = supporting
+      .flatMap((r) => r.evidence ?? [])
+      .filter((e, i, all) => all.findIndex((o) => o.image === e.image && o.quote === e.quote) === i);
+
+    aggregated[principleId] = {
+      score,
+      reasoning,
+      confidence: consensusConfidence(results, spread),
+      evidence,
+      consensus: {
+        scores,
+        agreement: agreeing.length / results.length,
+        spread,
+      },
+    };
+  }
+
+  return aggregated;
+}
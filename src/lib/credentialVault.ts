@@ -0,0 +1,138 @@
+/**
+ * Test logins for audited products (the project_credentials table): a username and password per
+ * project, how to fill in its login form, and the browser storage state (cookies and local
+ * storage) from the last navigation session that used them, so later sessions skip the login.
+ * Usernames, passwords and storage state are encrypted at rest with AES-256-GCM under
+ * CREDENTIAL_VAULT_KEY, and only the navigator ever decrypts them; no endpoint sends them back.
+ */
+
+import type { StorageClient } from './storage';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+
+export interface ProjectCredential {
+  id: string;
+  projectId: string;
+  /** What the login is for, e.g. "Student account" */
+  label: string;
+  loginUrl: string;
+  /** Login form fields, as CSS selectors or labels; null uses the usual email/password/submit fields */
+  usernameTarget: string | null;
+  passwordTarget: string | null;
+  submitTarget: string | null;
+  /** When the last session's storage state was saved, or null when there is none */
+  storageStateSavedAt: string | null;
+  createdAt: string;
+}
+
+/** The decrypted parts of a credential */
+export interface CredentialSecrets {
+  username: string;
+  password: string;
+  /** Playwright storage state JSON */
+  storageState: string | null;
+}
+
+interface ProjectCredentialRow {
+  id: string;
+  project_id: string;
+  label: string;
+  login_url: string;
+  username_target: string | null;
+  password_target: string | null;
+  submit_target: string | null;
+  username_encrypted: string;
+  password_encrypted: string;
+  storage_state_encrypted: string | null;
+  storage_state_saved_at: string | null;
+  created_at: string;
+}
+
+const CREDENTIAL_COLUMNS =
+  'id, project_id, label, login_url, username_target, password_target, submit_target, storage_state_saved_at, created_at';
+
+/**
+ * The vault's 256-bit key, derived from CREDENTIAL_VAULT_KEY (any long random string), or null
+ * when it isn't set and credentials can't be stored
+ */
+export function readVaultKey(env: Record<string, string | undefined> = import.meta.env): Buffer | null {
+  const secret = env.CREDENTIAL_VAULT_KEY;
+  return secret ? createHash('sha256').update(secret).digest() : null;
+}
+
+export const vaultKey = readVaultKey();
+
+/** A secret encrypted with AES-256-GCM, as "aes-256-gcm:<iv>:<tag>:<ciphertext>" */
+export function encryptSecret(plaintext: string, key: Buffer): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return ['aes-256-gcm', iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join(':');
+}
+
+/** Throws when the secret was encrypted under another key or has been altered */
+export function decryptSecret(stored: string, key: Buffer): string {
+  const [scheme, iv, tag, ciphertext] = stored.split(':');
+  if (scheme !== 'aes-256-gcm' || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Not an encrypted secret');
+  }
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+}
+
+export function credentialFromRow(row: Omit<ProjectCredentialRow, 'username_encrypted' | 'password_encrypted' | 'storage_state_encrypted'>): ProjectCredential {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    label: row.label,
+    loginUrl: row.login_url,
+    usernameTarget: row.username_target ?? null,
+    passwordTarget: row.password_target ?? null,
+    submitTarget: row.submit_target ?? null,
+    storageStateSavedAt: row.storage_state_saved_at ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+/** A project's credentials, without their secrets, oldest first */
+export async function fetchProjectCredentials(client: StorageClient, projectId: string): Promise<ProjectCredential[]> {
+  const { data, error } = await client
+    .from('project_credentials')
+    .select(CREDENTIAL_COLUMNS)
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+  if (error || !data) return [];
+  return (data as ProjectCredentialRow[]).map(credentialFromRow);
+}
+
+export async function fetchCredential(client: StorageClient, id: string): Promise<ProjectCredential | null> {
+  const { data, error } = await client.from('project_credentials').select(CREDENTIAL_COLUMNS).eq('id', id).single();
+  if (error || !data) return null;
+  return credentialFromRow(data as ProjectCredentialRow);
+}
+
+/** A credential's username, password and saved storage state, for the navigator */
+export async function fetchCredentialSecrets(client: StorageClient, id: string, key: Buffer): Promise<CredentialSecrets | null> {
+  const { data, error } = await client
+    .from('project_credentials')
+    .select('username_encrypted, password_encrypted, storage_state_encrypted')
+    .eq('id', id)
+    .single();
+  if (error || !data) return null;
+
+  const row = data as Pick<ProjectCredentialRow, 'username_encrypted' | 'password_encrypted' | 'storage_state_encrypted'>;
+  return {
+    username: decryptSecret(row.username_encrypted, key),
+    password: decryptSecret(row.password_encrypted, key),
+    storageState: row.storage_state_encrypted ? decryptSecret(row.storage_state_encrypted, key) : null,
+  };
+}
+
+/** Keep the browser's storage state after a session, so the next one starts signed in */
+export async function saveStorageState(client: StorageClient, id: string, storageState: string, key: Buffer): Promise<void> {
+  const { error } = await client
+    .from('project_credentials')
+    .update({ storage_state_encrypted: encryptSecret(storageState, key), storage_state_saved_at: new Date().toISOString() })
+    .eq('id', id);
+  if (error) throw new Error(error.message);
+}
@@ -0,0 +1,185 @@
+/**
+ * Editable Word (DOCX) rendering of a ReportDocument
+ */
+
+import {
+  Document,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import { type ReportDocument, decodeJpegDataUrl, formatReportDate, jpegSize } from './reportExport';
+
+const THUMBNAIL_WIDTH = 160;
+const COLORS = { muted: '64748B', strength: '15803D' };
+
+function cell(text: string, bold = false): TableCell {
+  return new TableCell({ children: [new Paragraph({ children: [new TextRun({ text, bold })] })] });
+}
+
+function table(header: string[], rows: string[][]): Table {
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({ tableHeader: true, children: header.map((h) => cell(h, true)) }),
+      ...rows.map((row) => new TableRow({ children: row.map((value) => cell(value)) })),
+    ],
+  });
+}
+
+function thumbnail(dataUrl: string): ImageRun | null {
+  const data = decodeJpegDataUrl(dataUrl);
+  const size = data && jpegSize(data);
+  if (!data || !size) return null;
+  return new ImageRun({
+    type: 'jpg',
+    data,
+    transformation: { width: THUMBNAIL_WIDTH, height: Math.round((size.height / size.width) * THUMBNAIL_WIDTH) },
+  });
+}
+
+export async function renderReportDocx(doc: ReportDocument): Promise<Uint8Array<ArrayBuffer>> {
+  const children: Array<Paragraph | Table> = [
+    new Paragraph({ text: doc.title, heading: HeadingLevel.TITLE }),
+    new Paragraph({
+      children: [new TextRun({ text: `${formatReportDate(doc.createdAt)} · Profile: ${doc.profileName}`, color: COLORS.muted })],
+    }),
+    new Paragraph({
+      spacing: { before: 200 },
+      children: [new TextRun({ text: `Overall score: ${doc.overallScore.toFixed(1)} / 5.0`, bold: true, size: 32 })],
+    }),
+    new Paragraph({
+      children: [new TextRun({ text: `${doc.totalRated}/${doc.totalPrinciples} principles rated`, color: COLORS.muted })],
+    }),
+
+    new Paragraph({ text: 'Scores by category', heading: HeadingLevel.HEADING_1 }),
+    table(
+      ['Category', 'Average', 'Principles'],
+      doc.categories.map((c) => [
+        c.category,
+        c.average.toFixed(1),
+        c.principles.map((p) => `${p.title} (${p.score})`).join(', '),
+      ])
+    ),
+  ];
+
+  if (doc.keyTakeaways) {
+    const { priorityCategory, topActions, quickWins } = doc.keyTakeaways;
+    children.push(
+      new Paragraph({ text: 'Key takeaways', heading: HeadingLevel.HEADING_1 }),
+      new Paragraph({
+        children: [
+          new TextRun({ text: 'Priority focus: ', bold: true }),
+          new TextRun(`${priorityCategory.category} (avg ${priorityCategory.avg.toFixed(1)}/5)`),
+        ],
+      }),
+      ...topActions.map(
+        (action) =>
+          new Paragraph({
+            bullet: { level: 0 },
+            children: [
+              new TextRun({ text: `${action.title} (${action.score}/5): `, bold: true }),
+              new TextRun(action.recommendation),
+            ],
+          })
+      )
+    );
+    if (quickWins.length > 0) {
+      children.push(
+        new Paragraph({
+          children: [new TextRun({ text: 'Quick wins: ', bold: true }), new TextRun(quickWins.map((q) => q.title).join(', '))],
+        })
+      );
+    }
+  }
+
+  if (doc.gaps.length > 0) {
+    children.push(new Paragraph({ text: 'Areas for improvement', heading: HeadingLevel.HEADING_1 }));
+    for (const gap of doc.gaps) {
+      children.push(
+        new Paragraph({
+          text: `${gap.title} - ${gap.score}/5${gap.section ? ` (from ${gap.section})` : ''}`,
+          heading: HeadingLevel.HEADING_3,
+        })
+      );
+      if (gap.reasoning) children.push(new Paragraph({ children: [new TextRun({ text: `"${gap.reasoning}"`, italics: true })] }));
+      children.push(new Paragraph(gap.recommendation));
+    }
+  }
+
+  if (doc.strengths.length > 0) {
+    children.push(
+      new Paragraph({ text: 'Strengths', heading: HeadingLevel.HEADING_1 }),
+      ...doc.strengths.map(
+        (s) =>
+          new Paragraph({
+            bullet: { level: 0 },
+            children: [
+              new TextRun({ text: `${s.title} - ${s.score}/5`, color: COLORS.strength }),
+              ...(s.section ? [new TextRun({ text: ` (from ${s.section})`, color: COLORS.muted })] : []),
+            ],
+          })
+      )
+    );
+  }
+
+  if (doc.refined.length > 0) {
+    children.push(new Paragraph({ text: 'Refined scores', heading: HeadingLevel.HEADING_1 }));
+    for (const r of doc.refined) {
+      children.push(
+        new Paragraph({ text: `${r.title}: ${r.originalScore} → ${r.refinedScore}`, heading: HeadingLevel.HEADING_3 }),
+        new Paragraph(r.refinedReasoning),
+        ...r.specificActions.map((action) => new Paragraph({ text: action, bullet: { level: 0 } }))
+      );
+    }
+  }
+
+  // One part per analyzed section, mirroring the section tabs in the audit tool
+  for (const section of doc.sections) {
+    children.push(
+      new Paragraph({
+        text: `Section: ${section.name}${section.average !== null ? ` - ${section.average.toFixed(1)} / 5` : ''}`,
+        heading: HeadingLevel.HEADING_1,
+        pageBreakBefore: true,
+      }),
+      table(
+        ['Principle', 'Score', 'Confidence', 'Reasoning'],
+        section.rows.map((row) => [
+          row.title,
+          row.notApplicable ? 'N/A' : String(row.score ?? '-'),
+          row.notApplicable ? '' : row.confidence ?? '',
+          row.reasoning ?? '',
+        ])
+      )
+    );
+
+    // Screenshots cited as evidence, once each
+    const cited = [...new Set(section.rows.flatMap((row) => row.evidence.map((e) => e.image)))].sort((a, b) => a - b);
+    const images = cited
+      .map((n) => ({ n, run: section.thumbnails[n] ? thumbnail(section.thumbnails[n]) : null }))
+      .filter((image): image is { n: number; run: ImageRun } => image.run !== null);
+    if (images.length > 0) {
+      children.push(new Paragraph({ text: 'Cited screenshots', heading: HeadingLevel.HEADING_3 }));
+      for (const { n, run } of images) {
+        children.push(
+          new Paragraph({ children: [run] }),
+          new Paragraph({ children: [new TextRun({ text: `Screenshot ${n}`, color: COLORS.muted, size: 16 })] })
+        );
+      }
+    }
+  }
+
+  const document = new Document({
+    title: doc.title,
+    creator: 'Learning Science Library',
+    sections: [{ children }],
+  });
+
+  return new Uint8Array(await Packer.toBuffer(document));
+}
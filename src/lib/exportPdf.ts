@@ -0,0 +1,211 @@
+/**
+ * PDF rendering of a ReportDocument with pdf-lib and its built-in Helvetica fonts
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage, type RGB } from 'pdf-lib';
+import { type ReportDocument, decodeJpegDataUrl, formatReportDate } from './reportExport';
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const THUMBNAIL_WIDTH = 120;
+
+const COLORS = {
+  text: rgb(0.06, 0.09, 0.16),
+  muted: rgb(0.39, 0.45, 0.55),
+  gap: rgb(0.71, 0.33, 0.04),
+  strength: rgb(0.08, 0.5, 0.24),
+  rule: rgb(0.89, 0.91, 0.94),
+};
+
+// Characters the standard fonts can't encode, with stand-ins
+const REPLACEMENTS: Record<string, string> = { '→': '->', '←': '<-', '−': '-', '≤': '<=', '≥': '>=', '✓': 'v' };
+
+interface TextStyle {
+  font?: 'regular' | 'bold' | 'italic';
+  size?: number;
+  color?: RGB;
+  indent?: number;
+  /** Space after the paragraph */
+  after?: number;
+}
+
+/**
+ * A top-to-bottom writer that wraps text and starts new pages as needed
+ */
+function createWriter(pdf: PDFDocument, fonts: Record<'regular' | 'bold' | 'italic', PDFFont>) {
+  const charset = new Set(fonts.regular.getCharacterSet());
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const sanitize = (text: string) =>
+    [...text]
+      .map((ch) => REPLACEMENTS[ch] ?? (ch === '\n' || charset.has(ch.codePointAt(0)!) ? ch : '?'))
+      .join('');
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  const wrap = (text: string, font: PDFFont, size: number, width: number): string[] => {
+    const lines: string[] = [];
+    for (const paragraph of text.split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && font.widthOfTextAtSize(candidate, size) > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  };
+
+  const text = (value: string, { font = 'regular', size = 10, color = COLORS.text, indent = 0, after = 4 }: TextStyle = {}) => {
+    const pdfFont = fonts[font];
+    const lineHeight = size * 1.35;
+    for (const line of wrap(sanitize(value), pdfFont, size, CONTENT_WIDTH - indent)) {
+      ensureSpace(lineHeight);
+      y -= lineHeight;
+      page.drawText(line, { x: MARGIN + indent, y: y + size * 0.3, size, font: pdfFont, color });
+    }
+    y -= after;
+  };
+
+  const heading = (value: string, level: 1 | 2 | 3 = 2) => {
+    const size = level === 1 ? 20 : level === 2 ? 14 : 11;
+    // Keep a heading with at least a couple of lines of what follows
+    ensureSpace(size * 1.35 + 30);
+    y -= level === 1 ? 0 : 8;
+    text(value, { font: 'bold', size, after: level === 1 ? 6 : 4 });
+  };
+
+  const rule = () => {
+    ensureSpace(10);
+    y -= 5;
+    page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 0.5, color: COLORS.rule });
+    y -= 5;
+  };
+
+  /** A row of screenshot thumbnails with captions, wrapping onto further rows */
+  const thumbnails = async (images: Array<{ dataUrl: string; caption: string }>, indent = 0) => {
+    const perRow = Math.max(1, Math.floor((CONTENT_WIDTH - indent + 10) / (THUMBNAIL_WIDTH + 10)));
+    const embedded = [];
+    for (const image of images) {
+      const bytes = decodeJpegDataUrl(image.dataUrl);
+      if (bytes) embedded.push({ image: await pdf.embedJpg(bytes), caption: image.caption });
+    }
+
+    for (let i = 0; i < embedded.length; i += perRow) {
+      const row = embedded.slice(i, i + perRow);
+      const rowHeight = Math.max(...row.map(({ image }) => (image.height / image.width) * THUMBNAIL_WIDTH)) + 14;
+      ensureSpace(rowHeight);
+      row.forEach(({ image, caption }, j) => {
+        const height = (image.height / image.width) * THUMBNAIL_WIDTH;
+        const x = MARGIN + indent + j * (THUMBNAIL_WIDTH + 10);
+        page.drawImage(image, { x, y: y - height, width: THUMBNAIL_WIDTH, height });
+        page.drawText(sanitize(caption), { x, y: y - height - 10, size: 7, font: fonts.regular, color: COLORS.muted });
+      });
+      y -= rowHeight + 4;
+    }
+  };
+
+  return { text, heading, rule, thumbnails };
+}
+
+export async function renderReportPdf(doc: ReportDocument): Promise<Uint8Array<ArrayBuffer>> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(doc.title);
+  pdf.setCreationDate(new Date(doc.createdAt));
+
+  const w = createWriter(pdf, {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+    italic: await pdf.embedFont(StandardFonts.HelveticaOblique),
+  });
+
+  w.heading(doc.title, 1);
+  w.text(`${formatReportDate(doc.createdAt)} · Profile: ${doc.profileName}`, { color: COLORS.muted, after: 12 });
+  w.text(`Overall score: ${doc.overallScore.toFixed(1)} / 5.0`, { font: 'bold', size: 16 });
+  w.text(`${doc.totalRated}/${doc.totalPrinciples} principles rated`, { color: COLORS.muted, after: 8 });
+
+  // Category breakdown
+  w.heading('Scores by category');
+  for (const category of doc.categories) {
+    w.text(`${category.category}: ${category.average.toFixed(1)} / 5`, { font: 'bold', after: 1 });
+    w.text(category.principles.map((p) => `${p.title} (${p.score})`).join(', '), { indent: 12, color: COLORS.muted });
+  }
+
+  if (doc.keyTakeaways) {
+    const { priorityCategory, topActions, quickWins } = doc.keyTakeaways;
+    w.heading('Key takeaways');
+    w.text(`Priority focus: ${priorityCategory.category} (avg ${priorityCategory.avg.toFixed(1)}/5)`, { font: 'bold' });
+    topActions.forEach((action, i) => {
+      w.text(`${i + 1}. ${action.title} (${action.score}/5) - ${action.recommendation}`, { indent: 12 });
+    });
+    if (quickWins.length > 0) {
+      w.text(`Quick wins: ${quickWins.map((q) => q.title).join(', ')}`, { after: 6 });
+    }
+  }
+
+  if (doc.gaps.length > 0) {
+    w.heading('Areas for improvement');
+    for (const gap of doc.gaps) {
+      w.text(`${gap.title} - ${gap.score}/5${gap.section ? ` (from ${gap.section})` : ''}`, { font: 'bold', color: COLORS.gap, after: 1 });
+      if (gap.reasoning) w.text(`"${gap.reasoning}"`, { font: 'italic', indent: 12, after: 1 });
+      w.text(gap.recommendation, { indent: 12, after: 6 });
+    }
+  }
+
+  if (doc.strengths.length > 0) {
+    w.heading('Strengths');
+    for (const s of doc.strengths) {
+      w.text(`${s.title} - ${s.score}/5${s.section ? ` (from ${s.section})` : ''}`, { color: COLORS.strength, after: 2 });
+    }
+  }
+
+  if (doc.refined.length > 0) {
+    w.heading('Refined scores');
+    for (const r of doc.refined) {
+      w.text(`${r.title}: ${r.originalScore} -> ${r.refinedScore}`, { font: 'bold', after: 1 });
+      w.text(r.refinedReasoning, { indent: 12, after: 1 });
+      for (const action of r.specificActions) w.text(`• ${action}`, { indent: 24, after: 1 });
+      w.text('', { after: 4 });
+    }
+  }
+
+  // One part per analyzed section, mirroring the section tabs in the audit tool
+  for (const section of doc.sections) {
+    w.rule();
+    w.heading(`Section: ${section.name}${section.average !== null ? ` - ${section.average.toFixed(1)} / 5` : ''}`);
+    for (const row of section.rows) {
+      if (row.notApplicable) continue;
+      w.text(`${row.title}: ${row.score ?? '-'}/5${row.confidence ? ` (${row.confidence} confidence)` : ''}`, { font: 'bold', after: 1 });
+      if (row.reasoning) w.text(row.reasoning, { indent: 12, after: 2 });
+      const cited = row.evidence.filter((e) => section.thumbnails[e.image]);
+      if (cited.length > 0) {
+        await w.thumbnails(
+          cited.map((e) => ({
+            dataUrl: section.thumbnails[e.image],
+            caption: e.quote ? `Screenshot ${e.image}: "${e.quote.slice(0, 30)}"` : `Screenshot ${e.image}`,
+          })),
+          12
+        );
+      }
+    }
+    const notApplicable = section.rows.filter((r) => r.notApplicable);
+    if (notApplicable.length > 0) {
+      w.text(`Not applicable: ${notApplicable.map((r) => r.title).join(', ')}`, { color: COLORS.muted, after: 6 });
+    }
+  }
+
+  return new Uint8Array(await pdf.save());
+}
@@ -0,0 +1,177 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { LLMConfig, LLMProvider, LLMRequest, ToolInputListener } from './llm';
+
+/** A recorded model response, stored as <fixturesDir>/<prompt hash>.json */
+interface Fixture {
+  /** First few hundred characters of the prompt text, to make fixtures recognisable */
+  promptPreview: string;
+  response: Anthropic.Message;
+}
+
+/**
+ * Stable hash of everything that determines a response: messages, tools and tool choice.
+ * The model and sampling settings are left out so fixtures survive config changes.
+ */
+export function hashPrompt({ messages, tools, toolChoice }: LLMRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ messages, tools: tools ?? null, toolChoice: toolChoice ?? null }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+function promptPreview(messages: Anthropic.MessageParam[]): string {
+  const last = messages[messages.length - 1];
+  const text = typeof last.content === 'string'
+    ? last.content
+    : last.content
+        .map((block) => (block.type === 'text' ? block.text : block.type === 'tool_result' ? String(block.content) : ''))
+        .join('\n');
+  return text.slice(0, 300);
+}
+
+async function readFixture(fixturesDir: string, hash: string): Promise<Fixture | null> {
+  try {
+    return JSON.parse(await readFile(path.join(fixturesDir, `${hash}.json`), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/** Deterministic number in [0, 1) for a seed */
+function seededFraction(seed: string): number {
+  return parseInt(createHash('sha256').update(seed).digest('hex').slice(0, 8), 16) / 0x100000000;
+}
+
+/**
+ * Build a value that satisfies a (simple) JSON schema, varying deterministically with the seed
+ */
+function synthesizeFromSchema(schema: Record<string, unknown>, seed: string): unknown {
+  if (Array.isArray(schema.enum)) {
+    return schema.enum[Math.floor(seededFraction(seed) * schema.enum.length)];
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+      return Object.fromEntries(
+        Object.entries(properties).map(([key, value]) => [key, synthesizeFromSchema(value, `${seed}.${key}`)])
+      );
+    }
+    case 'array': {
+      const items = (schema.items ?? { type: 'string' }) as Record<string, unknown>;
+      return [0, 1].map((i) => synthesizeFromSchema(items, `${seed}[${i}]`));
+    }
+    case 'integer':
+    case 'number': {
+      const min = typeof schema.minimum === 'number' ? schema.minimum : 0;
+      const max = typeof schema.maximum === 'number' ? schema.maximum : 100;
+      return min + Math.floor(seededFraction(seed) * (max - min + 1));
+    }
+    case 'boolean':
+      return seededFraction(seed) < 0.5;
+    default:
+      return `Offline response for ${seed.split('.').slice(-2).join(' ')}`;
+  }
+}
+
+/**
+ * A response shaped like the real API's: a tool call when a tool is forced, otherwise text
+ */
+function synthesizeResponse(request: LLMRequest, hash: string, model: string): Anthropic.Message {
+  const forcedTool = request.toolChoice?.type === 'tool'
+    ? request.tools?.find((t) => t.name === (request.toolChoice as Anthropic.ToolChoiceTool).name)
+    : undefined;
+
+  const content: Anthropic.ContentBlock[] = forcedTool
+    ? [{
+        type: 'tool_use',
+        id: `toolu_fake_${hash}`,
+        name: forcedTool.name,
+        input: synthesizeFromSchema(forcedTool.input_schema as Record<string, unknown>, hash),
+      }]
+    : [{ type: 'text', text: `Offline response ${hash}.`, citations: null }];
+
+  return {
+    id: `msg_fake_${hash}`,
+    type: 'message',
+    role: 'assistant',
+    model,
+    content,
+    stop_reason: forcedTool ? 'tool_use' : 'end_turn',
+    stop_sequence: null,
+    usage: {
+      input_tokens: 0,
+      output_tokens: 0,
+      cache_creation_input_tokens: null,
+      cache_read_input_tokens: null,
+      server_tool_use: null,
+      service_tier: null,
+    },
+  } as Anthropic.Message;
+}
+
+/**
+ * Replay a finished response's tool input the way a stream would deliver it: each object-valued
+ * field grows one entry at a time, and the complete input comes last.
+ */
+function replayToolInput(response: Anthropic.Message, onToolInput: ToolInputListener): void {
+  const toolUse = response.content.find((block) => block.type === 'tool_use');
+  if (!toolUse || toolUse.type !== 'tool_use') return;
+
+  const input = toolUse.input as Record<string, unknown>;
+  const snapshot: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const entries = Object.entries(value);
+      for (let i = 1; i < entries.length; i++) {
+        onToolInput({ ...snapshot, [key]: Object.fromEntries(entries.slice(0, i)) });
+      }
+    }
+    snapshot[key] = value;
+  }
+  onToolInput(input);
+}
+
+/**
+ * Offline provider: replays recorded fixtures keyed by prompt hash, and synthesizes a
+ * deterministic, schema-valid response when no fixture exists.
+ */
+export function createFakeProvider(config: LLMConfig, fixturesDir: string): LLMProvider {
+  const provider: LLMProvider = {
+    name: 'fake',
+    config,
+    async createMessage(request) {
+      const hash = hashPrompt(request);
+      const fixture = await readFixture(fixturesDir, hash);
+      return fixture ? fixture.response : synthesizeResponse(request, hash, config.model);
+    },
+    async streamMessage(request, onToolInput) {
+      const response = await provider.createMessage(request);
+      replayToolInput(response, onToolInput);
+      return response;
+    },
+  };
+  return provider;
+}
+
+/**
+ * Wrap a real provider, saving every response as a fixture the fake provider can replay
+ */
+export function createRecordingProvider(provider: LLMProvider, fixturesDir: string): LLMProvider {
+  const record = async (request: LLMRequest, response: Anthropic.Message) => {
+    const fixture: Fixture = { promptPreview: promptPreview(request.messages), response };
+    await mkdir(fixturesDir, { recursive: true });
+    await writeFile(path.join(fixturesDir, `${hashPrompt(request)}.json`), JSON.stringify(fixture, null, 2));
+    return response;
+  };
+
+  return {
+    name: `record:${provider.name}`,
+    config: provider.config,
+    createMessage: async (request) => record(request, await provider.createMessage(request)),
+    streamMessage: async (request, onToolInput) => record(request, await provider.streamMessage(request, onToolInput)),
+  };
+}
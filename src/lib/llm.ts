@@ -0,0 +1,109 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { createFakeProvider, createRecordingProvider } from './fakeLLM';
+
+/**
+ * A single model call. Messages, tools and responses use the Anthropic Messages API shapes,
+ * so every provider (real or fake) speaks the same format.
+ */
+export interface LLMRequest {
+  messages: Anthropic.MessageParam[];
+  tools?: Anthropic.Tool[];
+  toolChoice?: Anthropic.ToolChoice;
+  /** Overrides the configured max tokens for this call */
+  maxTokens?: number;
+  /** Cancels the call when aborted */
+  signal?: AbortSignal;
+}
+
+/** Called with the partially parsed tool input each time more of it arrives */
+export type ToolInputListener = (snapshot: unknown) => void;
+
+export interface LLMProvider {
+  name: string;
+  config: LLMConfig;
+  createMessage(request: LLMRequest): Promise<Anthropic.Message>;
+  /** Like createMessage, but reports the tool input while it is still being generated */
+  streamMessage(request: LLMRequest, onToolInput: ToolInputListener): Promise<Anthropic.Message>;
+}
+
+export interface LLMConfig {
+  model: string;
+  temperature?: number;
+  maxTokens: number;
+  timeoutMs: number;
+}
+
+const DEFAULT_CONFIG: LLMConfig = {
+  model: 'claude-sonnet-4-20250514',
+  maxTokens: 4096,
+  timeoutMs: 120_000,
+};
+
+function readNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Model settings from the environment (LLM_MODEL, LLM_TEMPERATURE, LLM_MAX_TOKENS, LLM_TIMEOUT_MS)
+ */
+export function readLLMConfig(env: Record<string, string | undefined> = import.meta.env): LLMConfig {
+  return {
+    model: env.LLM_MODEL || DEFAULT_CONFIG.model,
+    temperature: readNumber(env.LLM_TEMPERATURE),
+    maxTokens: readNumber(env.LLM_MAX_TOKENS) ?? DEFAULT_CONFIG.maxTokens,
+    timeoutMs: readNumber(env.LLM_TIMEOUT_MS) ?? DEFAULT_CONFIG.timeoutMs,
+  };
+}
+
+export function createAnthropicProvider(apiKey: string, config: LLMConfig): LLMProvider {
+  const client = new Anthropic({ apiKey, timeout: config.timeoutMs });
+
+  const params = ({ messages, tools, toolChoice, maxTokens }: LLMRequest): Anthropic.MessageCreateParamsNonStreaming => ({
+    model: config.model,
+    max_tokens: maxTokens ?? config.maxTokens,
+    ...(config.temperature !== undefined && { temperature: config.temperature }),
+    messages,
+    ...(tools && { tools }),
+    ...(toolChoice && { tool_choice: toolChoice }),
+  });
+
+  return {
+    name: 'anthropic',
+    config,
+    createMessage: (request) => client.messages.create(params(request), { signal: request.signal }),
+    streamMessage: (request, onToolInput) =>
+      client.messages
+        .stream(params(request), { signal: request.signal })
+        .on('inputJson', (_delta, snapshot) => onToolInput(snapshot))
+        .finalMessage(),
+  };
+}
+
+/**
+ * Pick a provider from LLM_PROVIDER:
+ * - "anthropic" (default): calls the API with ANTHROPIC_API_KEY
+ * - "fake": replays fixtures from LLM_FIXTURES_DIR, synthesizing deterministic responses when none match
+ * - "record": calls the API and saves each response as a fixture for the fake provider
+ */
+function createProviderFromEnv(env: Record<string, string | undefined> = import.meta.env): LLMProvider | null {
+  const config = readLLMConfig(env);
+  const fixturesDir = env.LLM_FIXTURES_DIR || 'fixtures/llm';
+  const providerName = env.LLM_PROVIDER || 'anthropic';
+
+  if (providerName === 'fake') {
+    return createFakeProvider(config, fixturesDir);
+  }
+
+  const apiKey = env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    console.warn('Anthropic API key not configured. AI analysis will not work (set LLM_PROVIDER=fake to work offline).');
+    return null;
+  }
+
+  const anthropic = createAnthropicProvider(apiKey, config);
+  return providerName === 'record' ? createRecordingProvider(anthropic, fixturesDir) : anthropic;
+}
+
+export const llm = createProviderFromEnv();
@@ -0,0 +1,271 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * A stand-in for the Supabase client that keeps each table as a JSON file of rows
+ * (<directory>/<table>.json), for self-hosting and offline development.
+ *
+ * It supports the part of the query builder the app uses: select (columns, and one embedded parent
+ * row such as `role, workspaces(id, name)`), insert, update, delete, eq, in, order, single and
+ * maybeSingle. Like Postgres, it fills in a missing created_at. It enforces no constraints, so
+ * callers delete a row's children themselves.
+ */
+
+type Row = Record<string, unknown>;
+
+export interface LocalQueryError {
+  message: string;
+  code: string;
+}
+
+export interface LocalQueryResult {
+  data: unknown;
+  error: LocalQueryError | null;
+}
+
+const TABLE_NAME = /^[a-z_]+$/;
+
+/**
+ * The parent tables each table references and the column it does it with, as declared in
+ * supabase/migrations. Embedding a table follows these, like Supabase does.
+ */
+const FOREIGN_KEYS: Record<string, Record<string, string>> = {
+  workspace_members: { workspaces: 'workspace_id' },
+  report_comments: { audit_reports: 'report_id' },
+  projects: { workspaces: 'workspace_id' },
+  action_items: { audit_reports: 'report_id' },
+  project_credentials: { projects: 'project_id' },
+};
+
+class LocalTables {
+  // Queries run one at a time, so a read-modify-write never interleaves with another
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private directory: string) {}
+
+  private file(table: string): string {
+    if (!TABLE_NAME.test(table)) throw new Error(`Invalid table name: ${table}`);
+    return path.join(this.directory, `${table}.json`);
+  }
+
+  async read(table: string): Promise<Row[]> {
+    try {
+      return JSON.parse(await readFile(this.file(table), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  /** Replaces the table's file in one rename, so a crash never leaves it half written */
+  async write(table: string, rows: Row[]): Promise<void> {
+    const file = this.file(table);
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(`${file}.tmp`, JSON.stringify(rows, null, 2));
+    await rename(`${file}.tmp`, file);
+  }
+
+  exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/** Splits a select list on the commas outside embedded tables' parentheses */
+function splitColumns(columns: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of columns) {
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    current += char;
+  }
+  parts.push(current.trim());
+  return parts.filter(Boolean);
+}
+
+// Postgres never matches NULL with =
+const matches = (value: unknown, expected: unknown) => value !== null && value !== undefined && value === expected;
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  // Nulls sort last, as they do in Postgres for ascending order
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return (a as string | number) < (b as string | number) ? -1 : 1;
+}
+
+class LocalQuery implements PromiseLike<LocalQueryResult> {
+  private action: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private columns: string | null = null;
+  private values: Row[] = [];
+  private changes: Row = {};
+  private filters: Array<(row: Row) => boolean> = [];
+  private ordering: Array<{ column: string; ascending: boolean }> = [];
+
+  constructor(
+    private tables: LocalTables,
+    private table: string
+  ) {}
+
+  /** Columns to return; after insert, update or delete, returns the affected rows */
+  select(columns = '*'): this {
+    this.columns = columns;
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  update(changes: Row): this {
+    this.action = 'update';
+    this.changes = changes;
+    return this;
+  }
+
+  delete(): this {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push((row) => matches(row[column], value));
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push((row) => values.some((value) => matches(row[column], value)));
+    return this;
+  }
+
+  order(column: string, { ascending = true }: { ascending?: boolean } = {}): this {
+    this.ordering.push({ column, ascending });
+    return this;
+  }
+
+  async single(): Promise<LocalQueryResult> {
+    const { data, error } = await this.execute();
+    if (error) return { data: null, error };
+    const rows = data as Row[];
+    return rows.length === 1
+      ? { data: rows[0], error: null }
+      : { data: null, error: { message: `Expected one row, found ${rows.length}`, code: 'PGRST116' } };
+  }
+
+  async maybeSingle(): Promise<LocalQueryResult> {
+    const { data, error } = await this.execute();
+    if (error) return { data: null, error };
+    const rows = data as Row[];
+    return rows.length <= 1
+      ? { data: rows[0] ?? null, error: null }
+      : { data: null, error: { message: `Expected at most one row, found ${rows.length}`, code: 'PGRST116' } };
+  }
+
+  then<TResult1 = LocalQueryResult, TResult2 = never>(
+    onfulfilled?: ((value: LocalQueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+
+  private async execute(): Promise<LocalQueryResult> {
+    try {
+      const rows = await this.tables.exclusive(() => this.apply());
+      // Like Supabase, writes return their rows only when asked to with select()
+      const returning = this.action === 'select' || this.columns !== null;
+      return { data: returning ? await this.project(rows) : null, error: null };
+    } catch (error) {
+      return { data: null, error: { message: error instanceof Error ? error.message : String(error), code: 'LOCAL' } };
+    }
+  }
+
+  /** Runs the query against the table, returning the rows it read or changed */
+  private async apply(): Promise<Row[]> {
+    const rows = await this.tables.read(this.table);
+    const selected = (row: Row) => this.filters.every((filter) => filter(row));
+
+    switch (this.action) {
+      case 'select': {
+        const found = rows.filter(selected);
+        for (const { column, ascending } of [...this.ordering].reverse()) {
+          found.sort((a, b) => (ascending ? 1 : -1) * compare(a[column], b[column]));
+        }
+        return found;
+      }
+      case 'insert': {
+        const createdAt = new Date().toISOString();
+        const inserted = this.values.map((row) => ({ created_at: createdAt, ...row }));
+        await this.tables.write(this.table, [...rows, ...inserted]);
+        return inserted;
+      }
+      case 'update': {
+        const updated: Row[] = [];
+        const next = rows.map((row) => {
+          if (!selected(row)) return row;
+          const changed = { ...row, ...this.changes };
+          updated.push(changed);
+          return changed;
+        });
+        await this.tables.write(this.table, next);
+        return updated;
+      }
+      case 'delete': {
+        await this.tables.write(this.table, rows.filter((row) => !selected(row)));
+        return rows.filter(selected);
+      }
+    }
+  }
+
+  private async project(rows: Row[]): Promise<Row[]> {
+    const columns = splitColumns(this.columns ?? '*');
+    const embeds = new Map<string, Row[]>();
+    for (const column of columns) {
+      const embed = column.match(/^(\w+)\((.*)\)$/);
+      if (!embed) continue;
+      if (!FOREIGN_KEYS[this.table]?.[embed[1]]) {
+        throw new Error(`Could not find a relationship between '${this.table}' and '${embed[1]}'`);
+      }
+      embeds.set(embed[1], await this.tables.read(embed[1]));
+    }
+
+    return rows.map((row) => {
+      const projected: Row = {};
+      for (const column of columns) {
+        const embed = column.match(/^(\w+)\((.*)\)$/);
+        if (column === '*') {
+          Object.assign(projected, row);
+        } else if (embed) {
+          // An embedded table is the parent row this one references, e.g. workspaces via workspace_id
+          const [, table, embedColumns] = embed;
+          const foreignKey = FOREIGN_KEYS[this.table][table];
+          const parent = embeds.get(table)!.find((candidate) => matches(candidate.id, row[foreignKey]));
+          projected[table] = parent ? pick(parent, splitColumns(embedColumns)) : null;
+        } else {
+          projected[column] = row[column] ?? null;
+        }
+      }
+      return projected;
+    });
+  }
+}
+
+function pick(row: Row, columns: string[]): Row {
+  return columns.includes('*') ? { ...row } : Object.fromEntries(columns.map((column) => [column, row[column] ?? null]));
+}
+
+export function createLocalClient(directory: string) {
+  const tables = new LocalTables(directory);
+  return {
+    from: (table: string) => new LocalQuery(tables, table),
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * The channel between the user and a running headless navigation session. While the navigator
+ * waits for help, the user drives its browser from the screenshot (clicking, typing, scrolling)
+ * and then answers with a decision and optional guidance. Sessions are kept in this server
+ * process's memory for as long as /api/navigate is streaming them, so /api/navigation-control
+ * must reach the same server instance: see liveNavigationSupported. Only the user who started a session can control it, and
+ * what their input loads is held to the same public hosts as the navigator (launchBrowser in
+ * src/lib/playwrightBrowser.ts).
+ */
+
+import { NAVIGATION_INTERVENTION_TIMEOUT_MS } from '../config/constants';
+import type { InterventionAction, RemoteInput } from '../types/navigation';
+import type { InterventionDecision, NavigationBrowser } from './navigationRunner';
+
+interface LiveSession {
+  /** The user who started the session */
+  ownerId: string;
+  /** Attached once the session's browser has launched */
+  browser: NavigationBrowser | null;
+  /** Set while the navigator is waiting for the user */
+  waiting: { remoteInputs: number; answer: (decision: InterventionDecision) => void } | null;
+}
+
+export interface NavigationChannel {
+  attach: (browser: NavigationBrowser) => void;
+  onWaiting: () => Promise<InterventionDecision>;
+  close: () => void;
+}
+
+const liveSessions = new Map<string, LiveSession>();
+
+/**
+ * Whether this server keeps live sessions where /api/navigation-control finds them: the dev server,
+ * or the standalone Node server (ASTRO_ADAPTER=node, see astro.config.mjs). Serverless functions
+ * answer each request from whichever instance is free, so they don't.
+ */
+export function liveNavigationSupported(env: Record<string, unknown> = import.meta.env): boolean {
+  return env.DEV === true || env.ASTRO_ADAPTER === 'node';
+}
+
+export const LIVE_NAVIGATION_UNSUPPORTED =
+  'Live navigation needs a single long-lived server. Build and start the app with ASTRO_ADAPTER=node.';
+
+export function liveNavigationCount(): number {
+  return liveSessions.size;
+}
+
+/**
+ * Make a session reachable from /api/navigation-control, or null when a session with this id is
+ * already live. The session counts as live from this call on, before its browser is attached, so
+ * open the channel before anything that waits. The returned onWaiting is the runner's; an
+ * unanswered request skips the flow after timeoutMs. close() ends any wait with an abort.
+ */
+export function openNavigationChannel(
+  sessionId: string,
+  ownerId: string,
+  timeoutMs = NAVIGATION_INTERVENTION_TIMEOUT_MS
+): NavigationChannel | null {
+  if (liveSessions.has(sessionId)) return null;
+  const live: LiveSession = { ownerId, browser: null, waiting: null };
+  liveSessions.set(sessionId, live);
+
+  return {
+    attach: (browser) => {
+      live.browser = browser;
+    },
+    onWaiting: () =>
+      new Promise<InterventionDecision>((resolve) => {
+        const waiting = {
+          remoteInputs: 0,
+          answer: (decision: InterventionDecision) => {
+            clearTimeout(timer);
+            live.waiting = null;
+            resolve({ ...decision, remoteInputs: waiting.remoteInputs });
+          },
+        };
+        const timer = setTimeout(() => waiting.answer({ action: 'skip' }), timeoutMs);
+        live.waiting = waiting;
+      }),
+    close: () => {
+      liveSessions.delete(sessionId);
+      live.waiting?.answer({ action: 'abort' });
+    },
+  };
+}
+
+// Other users' sessions are reported as not found, so their ids can't be probed
+function findWaiting(
+  sessionId: string,
+  userId: string
+): { browser: NavigationBrowser; waiting: NonNullable<LiveSession['waiting']> } | { error: string; status: number } {
+  const live = liveSessions.get(sessionId);
+  if (!live || live.ownerId !== userId) {
+    return { error: 'Navigation session not found', status: 404 };
+  }
+  if (!live.waiting || !live.browser) {
+    return { error: 'The navigator is not waiting for help', status: 409 };
+  }
+  return { browser: live.browser, waiting: live.waiting };
+}
+
+/** Apply the user's input to the browser of their waiting session and return the page's new screenshot */
+export async function applyRemoteInput(
+  sessionId: string,
+  userId: string,
+  input: RemoteInput
+): Promise<{ screenshot: string } | { error: string; status: number }> {
+  const found = findWaiting(sessionId, userId);
+  if ('error' in found) return found;
+
+  found.waiting.remoteInputs++;
+  await found.browser.remote(input);
+  return { screenshot: await found.browser.screenshot() };
+}
+
+/** Answer the user's waiting session, letting its navigator carry on */
+export function answerIntervention(
+  sessionId: string,
+  userId: string,
+  action: InterventionAction,
+  guidance?: string
+): { answered: true } | { error: string; status: number } {
+  const found = findWaiting(sessionId, userId);
+  if ('error' in found) return found;
+
+  found.waiting.answer({ action, ...(guidance && { guidance }) });
+  return { answered: true };
+}
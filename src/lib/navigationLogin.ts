@@ -0,0 +1,47 @@
+/**
+ * The scripted login a navigation session runs before its flows, with a project's test
+ * credentials (src/lib/credentialVault.ts). Fields are found the way the navigator finds its
+ * targets: as a CSS selector, or else by label or text.
+ */
+
+import type { NavigationBrowser } from './navigationRunner';
+
+export interface LoginScript {
+  url: string;
+  username: string;
+  password: string;
+  usernameTarget?: string | null;
+  passwordTarget?: string | null;
+  submitTarget?: string | null;
+}
+
+/** The fields most login forms use */
+export const DEFAULT_LOGIN_TARGETS = {
+  username: 'input[type="email"], input[autocomplete="username"], input[name*="user" i], input[name*="email" i]',
+  password: 'input[type="password"]',
+  submit: 'button[type="submit"], input[type="submit"]',
+};
+
+// The outline lists password inputs as `password "…"`
+async function showsLoginForm(browser: NavigationBrowser): Promise<boolean> {
+  return (await browser.outline()).some((line) => line.startsWith('password '));
+}
+
+/**
+ * Sign in from the login page. Resolves to 'already_signed_in' when the page has no password
+ * field (a restored storage state kept the session); throws when the form is still there after
+ * submitting.
+ */
+export async function logIn(browser: NavigationBrowser, script: LoginScript): Promise<'signed_in' | 'already_signed_in'> {
+  await browser.goto(script.url);
+  if (!(await showsLoginForm(browser))) return 'already_signed_in';
+
+  await browser.type(script.usernameTarget || DEFAULT_LOGIN_TARGETS.username, script.username);
+  await browser.type(script.passwordTarget || DEFAULT_LOGIN_TARGETS.password, script.password);
+  await browser.click(script.submitTarget || DEFAULT_LOGIN_TARGETS.submit);
+
+  if (await showsLoginForm(browser)) {
+    throw new Error('Still on the login form after submitting; check the username and password');
+  }
+  return 'signed_in';
+}
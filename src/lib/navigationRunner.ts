@@ -0,0 +1,481 @@
+/**
+ * The headless navigator: drives a browser from a session's start URL through each of its flows.
+ * At every step the model sees a screenshot and the page's controls, says what it sees and picks
+ * the next action (navigation_step); the runner performs it, records the interaction and keeps the
+ * screenshots worth analyzing as captured moments. Used by /api/navigate.
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+import { z } from 'astro/zod';
+import {
+  NAVIGATION_SYSTEM_PROMPT,
+  PAGE_ANALYSIS_PROMPT,
+  PERSONA_PROMPTS,
+} from '../data/navigationPrompts';
+import { MAX_NAVIGATION_STEPS } from '../config/constants';
+import type {
+  CaptureTrigger,
+  Interaction,
+  InteractionType,
+  InterventionAction,
+  LearnerPersona,
+  NavigationConfig,
+  NavigationEvent,
+  NavigationFlow,
+  NavigationSession,
+  RemoteInput,
+  WaitingReason,
+} from '../types/navigation';
+import type { LLMProvider } from './llm';
+import { applyNavigationEvent } from './navigationStream';
+import { LEARNING_CONTENT_TYPES } from './navigationSessionFile';
+import { logIn, type LoginScript } from './navigationLogin';
+
+/** What the runner needs from a browser; src/lib/playwrightBrowser.ts drives a real one */
+export interface NavigationBrowser {
+  goto(url: string): Promise<void>;
+  click(target: string): Promise<void>;
+  type(target: string, value: string): Promise<void>;
+  select(target: string, value: string): Promise<void>;
+  hover(target: string): Promise<void>;
+  /** Scrolls down by one viewport */
+  scroll(): Promise<void>;
+  wait(ms: number): Promise<void>;
+  /** Base64-encoded PNG of the viewport */
+  screenshot(): Promise<string>;
+  url(): string;
+  title(): Promise<string>;
+  /** The page's visible controls, one line each, so the model can name its targets */
+  outline(): Promise<string[]>;
+  /** Input from the user, who drives the browser while the navigator waits for help */
+  remote(input: RemoteInput): Promise<void>;
+  /** Cookies and local storage, as Playwright storage state JSON */
+  storageState(): Promise<string>;
+  close(): Promise<void>;
+}
+
+/** The user's answer when the model asks for help */
+export interface InterventionDecision {
+  action: InterventionAction;
+  /** Guidance for the model for the rest of the flow */
+  guidance?: string;
+  /** Inputs the user made in the browser before answering */
+  remoteInputs?: number;
+}
+
+export interface NavigationRunOptions {
+  provider: LLMProvider;
+  browser: NavigationBrowser;
+  config: NavigationConfig;
+  onEvent?: (event: NavigationEvent) => void;
+  /**
+   * Called while the session is waiting for the user. Without it, a flow that needs help is
+   * skipped.
+   */
+  onWaiting?: (session: NavigationSession) => Promise<InterventionDecision>;
+  /** Defaults to MAX_NAVIGATION_STEPS */
+  maxSteps?: number;
+  /** Sign in with these credentials before the first flow */
+  login?: LoginScript;
+  signal?: AbortSignal;
+}
+
+const WAITING_REASONS = [
+  'login_required',
+  'captcha_detected',
+  'navigation_stuck',
+  'confirmation_needed',
+  'unknown_state',
+] as const;
+
+const NEXT_ACTIONS = ['click', 'type', 'select', 'hover', 'scroll', 'wait', 'navigate', 'ask_user', 'flow_complete'] as const;
+
+export const navigationStepSchema = z.object({
+  contentType: z.enum(LEARNING_CONTENT_TYPES),
+  description: z.string().min(1),
+  isKeyMoment: z.boolean(),
+  keyMomentReason: z.string().optional(),
+  nextAction: z.enum(NEXT_ACTIONS),
+  actionTarget: z.string().optional(),
+  actionValue: z.string().optional(),
+  waitingReason: z.enum(WAITING_REASONS).optional(),
+  wasCorrect: z.boolean().optional(),
+  attemptNumber: z.number().int().min(1).optional(),
+  reasoning: z.string(),
+});
+
+export type NavigationStep = z.infer<typeof navigationStepSchema>;
+
+const NAVIGATION_STEP_TOOL: Anthropic.Tool = {
+  name: 'navigation_step',
+  description: 'Describe the current page and choose the next action in the flow',
+  input_schema: {
+    type: 'object',
+    properties: {
+      contentType: { type: 'string', enum: [...LEARNING_CONTENT_TYPES] },
+      description: { type: 'string', description: "What is visible on the page, as a learner would see it" },
+      isKeyMoment: { type: 'boolean' },
+      keyMomentReason: { type: 'string' },
+      nextAction: {
+        type: 'string',
+        enum: [...NEXT_ACTIONS],
+        description: 'ask_user when you need help (login, captcha, stuck); flow_complete when the flow goal is reached',
+      },
+      actionTarget: {
+        type: 'string',
+        description: 'Element to act on: a CSS selector, or the visible text or label of a control listed below. A URL for navigate.',
+      },
+      actionValue: { type: 'string', description: 'Text to type, option to select, or milliseconds to wait' },
+      waitingReason: { type: 'string', enum: [...WAITING_REASONS], description: 'Why you need help (ask_user only)' },
+      wasCorrect: { type: 'boolean', description: 'For quiz feedback: whether the answer was correct' },
+      attemptNumber: { type: 'integer', minimum: 1, description: 'For quiz feedback: which attempt this was' },
+      reasoning: { type: 'string', description: 'Brief explanation of your decision' },
+    },
+    required: ['contentType', 'description', 'isKeyMoment', 'nextAction', 'reasoning'],
+  },
+};
+
+const RECENT_INTERACTIONS = 8;
+
+class NavigationAbortedError extends Error {
+  constructor() {
+    super('Navigation stopped');
+    this.name = 'AbortError';
+  }
+}
+
+function describeInteraction(interaction: Interaction): string {
+  const value = interaction.value ? ` "${interaction.value}"` : '';
+  const outcome = interaction.success ? 'ok' : `failed: ${interaction.error}`;
+  return `${interaction.type} ${interaction.target}${value} (${outcome})`;
+}
+
+function progressDescription(session: NavigationSession, flow: NavigationFlow, step: number, maxSteps: number): string {
+  const recent = session.interactions.filter((i) => i.flowId === flow.id).slice(-RECENT_INTERACTIONS);
+  const captured = session.captures.filter((c) => c.flowId === flow.id).length;
+  return [
+    `Step ${step} of at most ${maxSteps}; ${captured} screenshots captured in this flow.`,
+    recent.length > 0 ? `Recent actions:\n${recent.map((i) => `- ${describeInteraction(i)}`).join('\n')}` : 'No actions yet.',
+  ].join('\n');
+}
+
+function buildStepPrompt(
+  flow: NavigationFlow,
+  persona: LearnerPersona,
+  progress: string,
+  page: { url: string; title: string; outline: string[] },
+  guidance: string[]
+): string {
+  return [
+    NAVIGATION_SYSTEM_PROMPT,
+    PERSONA_PROMPTS[persona].trim(),
+    PAGE_ANALYSIS_PROMPT.replace('{flowDescription}', flow.description).replace('{progressDescription}', progress),
+    ...(guidance.length > 0
+      ? [`The user stepped in to help with this flow and said:\n${guidance.map((g) => `- ${g}`).join('\n')}`]
+      : []),
+    `Current page: ${page.title || '(untitled)'} — ${page.url}`,
+    page.outline.length > 0 ? `Controls on the page:\n${page.outline.join('\n')}` : 'No controls found on the page.',
+    `Call ${NAVIGATION_STEP_TOOL.name} with your analysis and next action.`,
+  ].join('\n\n');
+}
+
+/** Ask the model for the next step, once more with the validation errors if its answer is invalid */
+async function requestStep(
+  provider: LLMProvider,
+  screenshot: string,
+  prompt: string,
+  signal?: AbortSignal
+): Promise<NavigationStep> {
+  const messages: Anthropic.MessageParam[] = [
+    {
+      role: 'user',
+      content: [
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: screenshot } },
+        { type: 'text', text: prompt },
+      ],
+    },
+  ];
+
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    const response = await provider.createMessage({
+      messages,
+      tools: [NAVIGATION_STEP_TOOL],
+      toolChoice: { type: 'tool', name: NAVIGATION_STEP_TOOL.name },
+      signal,
+    });
+    const toolUse = response.content.find((block) => block.type === 'tool_use');
+    if (!toolUse || toolUse.type !== 'tool_use') continue;
+
+    const parsed = navigationStepSchema.safeParse(toolUse.input);
+    if (parsed.success) return parsed.data;
+
+    messages.push(
+      { role: 'assistant', content: response.content },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: toolUse.id,
+            is_error: true,
+            content: `Invalid input: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}. Call ${NAVIGATION_STEP_TOOL.name} again.`,
+          },
+        ],
+      }
+    );
+  }
+  throw new Error('The model did not choose a valid next step');
+}
+
+const ACTION_INTERACTIONS: Partial<Record<NavigationStep['nextAction'], InteractionType>> = {
+  click: 'click',
+  type: 'type',
+  select: 'select',
+  hover: 'hover',
+  scroll: 'scroll',
+  wait: 'wait',
+  navigate: 'navigate',
+};
+
+async function perform(browser: NavigationBrowser, step: NavigationStep, startUrl: string): Promise<void> {
+  const target = step.actionTarget ?? '';
+  const value = step.actionValue ?? '';
+  switch (step.nextAction) {
+    case 'click':
+      return browser.click(target);
+    case 'type':
+      return browser.type(target, value);
+    case 'select':
+      return browser.select(target, value);
+    case 'hover':
+      return browser.hover(target);
+    case 'scroll':
+      return browser.scroll();
+    case 'wait':
+      return browser.wait(Math.min(Number(value) || 1000, 10_000));
+    case 'navigate': {
+      // Relative links resolve against the start URL. The navigator stays on the start URL's site:
+      // going anywhere else is how a model talked into it would reach hosts the server can see.
+      const url = new URL(target, startUrl);
+      const { origin } = new URL(startUrl);
+      if (url.origin !== origin) throw new Error(`Only pages on ${origin} can be navigated to`);
+      return browser.goto(url.href);
+    }
+  }
+}
+
+/** Why a step's screenshot is kept, or null when it isn't worth analyzing */
+function captureTrigger(
+  step: NavigationStep,
+  { firstStep, navigated, interacted }: { firstStep: boolean; navigated: boolean; interacted: boolean },
+  config: NavigationConfig
+): CaptureTrigger | null {
+  if (firstStep) return 'flow_start';
+  if (step.nextAction === 'flow_complete') return 'flow_end';
+  if (step.isKeyMoment && config.autoDetectKeyMoments) return 'key_moment';
+  if (navigated && config.captureOnNavigation) return 'navigation';
+  if (interacted && config.captureOnInteraction) return 'interaction';
+  return null;
+}
+
+/**
+ * Run every pending flow of the session in order, returning the finished session. A flow that
+ * fails is recorded and the next one starts again from the start URL; only an abort, or the user
+ * stopping the session while it waits for them, ends it early. With `login`, the session signs in
+ * first and fails if it can't.
+ */
+export async function runNavigation(
+  initial: NavigationSession,
+  { provider, browser, config, onEvent, onWaiting, maxSteps = MAX_NAVIGATION_STEPS, login, signal }: NavigationRunOptions
+): Promise<NavigationSession> {
+  let session = initial;
+  const emit = (event: NavigationEvent) => {
+    session = applyNavigationEvent(session, event);
+    onEvent?.(event);
+  };
+  const checkAborted = () => {
+    if (signal?.aborted) throw new NavigationAbortedError();
+  };
+  const updateFlow = (flow: NavigationFlow, changes: Partial<NavigationFlow>) => {
+    const updated = { ...flow, ...changes };
+    emit({ type: 'flow', flow: updated });
+    return updated;
+  };
+  const delay = () => new Promise((resolve) => setTimeout(resolve, config.actionDelay));
+
+  // Run one flow; resolves to false when the session should end
+  const runFlow = async (pending: NavigationFlow): Promise<boolean> => {
+    const persona = pending.persona ?? session.defaultPersona ?? 'natural';
+    const flow = updateFlow(pending, { status: 'in_progress' });
+    emit({ type: 'status', status: 'navigating', currentFlowId: flow.id });
+
+    let deadline = Date.now() + config.flowTimeout;
+    const guidance: string[] = [];
+    let sequenceNumber = 0;
+    let lastCapturedUrl: string | null = null;
+    let interacted = false;
+
+    const record = (type: InteractionType, target: string, details: Partial<Interaction> = {}) => {
+      const interaction: Interaction = {
+        id: crypto.randomUUID(),
+        type,
+        timestamp: Date.now(),
+        target,
+        flowId: flow.id,
+        success: true,
+        ...details,
+      };
+      emit({ type: 'interaction', interaction });
+      return interaction;
+    };
+
+    await browser.goto(session.startUrl);
+    record('navigate', session.startUrl, { url: session.startUrl });
+
+    for (let step = 1; step <= maxSteps; step++) {
+      checkAborted();
+      if (Date.now() > deadline) {
+        updateFlow(flow, { status: 'failed', notes: 'Timed out before the flow was complete' });
+        return true;
+      }
+
+      emit({ type: 'status', status: 'capturing', currentFlowId: flow.id });
+      const screenshot = await browser.screenshot();
+      const page = { url: browser.url(), title: await browser.title(), outline: await browser.outline() };
+
+      emit({ type: 'status', status: 'navigating', currentFlowId: flow.id, currentScreenshot: screenshot });
+      const nextStep = await requestStep(
+        provider,
+        screenshot,
+        buildStepPrompt(flow, persona, progressDescription(session, flow, step, maxSteps), page, guidance),
+        signal
+      );
+
+      const trigger = captureTrigger(
+        nextStep,
+        { firstStep: step === 1, navigated: page.url !== lastCapturedUrl, interacted },
+        config
+      );
+      if (trigger) {
+        lastCapturedUrl = page.url;
+        emit({
+          type: 'capture',
+          capture: {
+            id: crypto.randomUUID(),
+            image: screenshot,
+            mediaType: 'image/png',
+            timestamp: Date.now(),
+            trigger,
+            url: page.url,
+            pageTitle: page.title,
+            description: nextStep.description,
+            contentType: nextStep.contentType,
+            flowId: flow.id,
+            sequenceNumber: ++sequenceNumber,
+            ...(nextStep.contentType === 'quiz_feedback' && {
+              wasCorrect: nextStep.wasCorrect,
+              attemptNumber: nextStep.attemptNumber,
+            }),
+            activePersona: persona,
+          },
+        });
+      }
+
+      if (nextStep.nextAction === 'flow_complete') {
+        updateFlow(flow, { status: 'completed' });
+        return true;
+      }
+
+      if (nextStep.nextAction === 'ask_user') {
+        const waitingReason: WaitingReason = nextStep.waitingReason ?? 'unknown_state';
+        emit({ type: 'status', status: 'waiting_for_user', currentFlowId: flow.id, waitingReason, currentScreenshot: screenshot });
+        if (!onWaiting) {
+          updateFlow(flow, { status: 'skipped', notes: `Needed help: ${nextStep.reasoning}` });
+          return true;
+        }
+
+        const requestedAt = Date.now();
+        const decision = await onWaiting(session);
+        checkAborted();
+        const resolvedAt = Date.now();
+        emit({
+          type: 'intervention',
+          intervention: {
+            id: crypto.randomUUID(),
+            flowId: flow.id,
+            reason: waitingReason,
+            action: decision.action,
+            ...(decision.guidance && { guidance: decision.guidance }),
+            remoteInputs: decision.remoteInputs ?? 0,
+            requestedAt,
+            resolvedAt,
+          },
+        });
+        if (decision.action === 'abort') {
+          updateFlow(flow, { status: 'skipped', notes: nextStep.reasoning });
+          return false;
+        }
+        if (decision.action === 'skip') {
+          updateFlow(flow, { status: 'skipped', notes: `Needed help: ${nextStep.reasoning}` });
+          return true;
+        }
+        // Time spent waiting for the user doesn't count against the flow
+        deadline += resolvedAt - requestedAt;
+        if (decision.guidance) guidance.push(decision.guidance);
+        emit({ type: 'status', status: 'navigating', currentFlowId: flow.id });
+        interacted = false;
+        continue;
+      }
+
+      const type = ACTION_INTERACTIONS[nextStep.nextAction]!;
+      const target = nextStep.actionTarget || 'page';
+      try {
+        await perform(browser, nextStep, session.startUrl);
+        record(type, target, {
+          ...(nextStep.actionValue && { value: nextStep.actionValue }),
+          ...(type === 'navigate' && { url: browser.url() }),
+        });
+      } catch (error) {
+        // A missed target is reported back to the model on the next step rather than ending the flow
+        record(type, target, {
+          ...(nextStep.actionValue && { value: nextStep.actionValue }),
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      interacted = true;
+      await delay();
+    }
+
+    updateFlow(flow, { status: 'failed', notes: `Not complete after ${maxSteps} steps` });
+    return true;
+  };
+
+  try {
+    emit({ type: 'status', status: 'starting' });
+    if (login) {
+      await logIn(browser, login).catch((error) => {
+        throw new Error(`Login failed: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+    for (const flow of session.flows) {
+      if (flow.status !== 'pending') continue;
+      checkAborted();
+      try {
+        if (!(await runFlow(flow))) break;
+      } catch (error) {
+        if (error instanceof NavigationAbortedError || signal?.aborted) throw error;
+        const current = session.flows.find((f) => f.id === flow.id)!;
+        updateFlow(current, { status: 'failed', notes: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    emit({ type: 'status', status: 'completed' });
+  } catch (error) {
+    if (signal?.aborted) {
+      emit({ type: 'status', status: 'completed', error: 'Navigation stopped' });
+    } else {
+      emit({ type: 'status', status: 'failed', error: error instanceof Error ? error.message : 'Navigation failed' });
+    }
+  }
+  return session;
+}
@@ -0,0 +1,347 @@
+/**
+ * The navigation session file: a versioned JSON format for a session's flows, interactions,
+ * captures, persona and config, so sessions recorded by an external agent (or downloaded from a
+ * headless run) can be imported and analyzed with their full context. A session can also come as
+ * a zip of screenshots plus a session.json manifest whose captures name their image file.
+ *
+ * Version 1:
+ *   { format: "navigation-session", version: 1, startUrl, defaultPersona?, config?,
+ *     flows: NavigationFlow[], interactions: Interaction[], captures: CapturedMoment[],
+ *     interventions?: NavigationIntervention[], startedAt?, endedAt? }
+ * Files without a version are the original `{ captures: [...] }` paste, read as version 1 with the
+ * open session's start URL and flows.
+ */
+
+import { z } from 'astro/zod';
+import JSZip from 'jszip';
+import {
+  DEFAULT_NAVIGATION_CONFIG,
+  LEARNER_PERSONAS,
+  type CaptureTrigger,
+  type InteractionType,
+  type LearnerPersona,
+  type LearningContentType,
+  type NavigationFlow,
+  type NavigationSession,
+} from '../types/navigation';
+
+export const NAVIGATION_SESSION_FORMAT = 'navigation-session';
+export const NAVIGATION_SESSION_VERSION = 1;
+/** Name of the manifest in a zipped session */
+export const NAVIGATION_MANIFEST = 'session.json';
+
+export const LEARNING_CONTENT_TYPES = [
+  'quiz_question',
+  'quiz_feedback',
+  'lesson_content',
+  'progress_indicator',
+  'error_message',
+  'help_tooltip',
+  'navigation_menu',
+  'onboarding_step',
+  'assessment_result',
+  'practice_exercise',
+  'review_summary',
+  'unknown',
+] as const satisfies readonly LearningContentType[];
+
+const CAPTURE_TRIGGERS = [
+  'navigation',
+  'interaction',
+  'content_change',
+  'key_moment',
+  'user_requested',
+  'flow_start',
+  'flow_end',
+] as const satisfies readonly CaptureTrigger[];
+
+const INTERACTION_TYPES = ['click', 'type', 'scroll', 'select', 'hover', 'wait', 'navigate'] as const satisfies readonly InteractionType[];
+
+const IMAGE_MEDIA_TYPES = ['image/png', 'image/jpeg', 'image/webp'] as const;
+
+const IMAGE_EXTENSIONS: Record<string, (typeof IMAGE_MEDIA_TYPES)[number]> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+const personaSchema = z.custom<LearnerPersona>(
+  (value) => LEARNER_PERSONAS.some((p) => p.persona === value),
+  `Expected one of ${LEARNER_PERSONAS.map((p) => p.persona).join(', ')}`
+);
+
+// Screenshots are bare base64; a data URL's prefix is dropped
+const imageSchema = z.preprocess(
+  (value) => (typeof value === 'string' ? value.replace(/^data:[^;]+;base64,/, '') : value),
+  z.string().min(1).regex(/^[A-Za-z0-9+/]+={0,2}$/, 'must be base64-encoded image data')
+);
+
+const flowSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().min(1),
+  status: z.enum(['pending', 'in_progress', 'completed', 'failed', 'skipped']),
+  notes: z.string().optional(),
+  persona: personaSchema.optional(),
+});
+
+const interactionSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(INTERACTION_TYPES),
+  timestamp: z.number(),
+  target: z.string(),
+  value: z.string().optional(),
+  duration: z.number().min(0).optional(),
+  url: z.string().optional(),
+  flowId: z.string().min(1),
+  success: z.boolean(),
+  error: z.string().optional(),
+});
+
+const interventionSchema = z.object({
+  id: z.string().min(1),
+  flowId: z.string().min(1),
+  reason: z.enum(['login_required', 'captcha_detected', 'navigation_stuck', 'confirmation_needed', 'unknown_state']),
+  action: z.enum(['continue', 'skip', 'abort']),
+  guidance: z.string().optional(),
+  remoteInputs: z.number().int().min(0),
+  requestedAt: z.number(),
+  resolvedAt: z.number(),
+});
+
+const capturedMomentSchema = z.object({
+  id: z.string().min(1),
+  image: imageSchema,
+  mediaType: z.enum(IMAGE_MEDIA_TYPES),
+  timestamp: z.number(),
+  trigger: z.enum(CAPTURE_TRIGGERS),
+  url: z.string(),
+  pageTitle: z.string(),
+  description: z.string(),
+  contentType: z.enum(LEARNING_CONTENT_TYPES),
+  flowId: z.string().min(1),
+  sequenceNumber: z.number().int().min(0),
+  wasCorrect: z.boolean().optional(),
+  attemptNumber: z.number().int().min(1).optional(),
+  activePersona: personaSchema.optional(),
+});
+
+const captureSchema = capturedMomentSchema
+  .extend({
+    image: imageSchema.optional(),
+    /** Path of the screenshot inside a zipped session, instead of `image` */
+    file: z.string().min(1).optional(),
+    mediaType: z.enum(IMAGE_MEDIA_TYPES).optional(),
+  })
+  .refine((capture) => capture.image !== undefined || capture.file !== undefined, {
+    message: 'needs image data or a file in the archive',
+    path: ['image'],
+  });
+
+const configSchema = z
+  .object({
+    pageLoadTimeout: z.number().int().positive(),
+    flowTimeout: z.number().int().positive(),
+    actionDelay: z.number().int().min(0),
+    captureOnInteraction: z.boolean(),
+    captureOnNavigation: z.boolean(),
+    autoDetectKeyMoments: z.boolean(),
+    viewport: z.object({ width: z.number().int().positive(), height: z.number().int().positive() }),
+  })
+  .partial();
+
+const sessionFileSchema = z
+  .object({
+    format: z.literal(NAVIGATION_SESSION_FORMAT),
+    version: z.literal(NAVIGATION_SESSION_VERSION),
+    startUrl: z.string().url(),
+    defaultPersona: personaSchema.optional(),
+    config: configSchema.optional(),
+    flows: z.array(flowSchema),
+    interactions: z.array(interactionSchema).default([]),
+    captures: z.array(captureSchema).min(1, 'must contain at least one capture'),
+    interventions: z.array(interventionSchema).optional(),
+    startedAt: z.number().optional(),
+    endedAt: z.number().optional(),
+  })
+  .superRefine((file, ctx) => {
+    // Everything recorded belongs to one of the session's flows
+    const flowIds = new Set(file.flows.map((flow) => flow.id));
+    for (const key of ['interactions', 'captures', 'interventions'] as const) {
+      file[key]?.forEach((entry, index) => {
+        if (!flowIds.has(entry.flowId)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key, index, 'flowId'], message: `no flow has id "${entry.flowId}"` });
+        }
+      });
+    }
+  });
+
+export type NavigationSessionFile = z.infer<typeof sessionFileSchema>;
+
+/** The body of a navigation-aware analysis (NavigationAnalysisRequest), as /api/analyze accepts it */
+export const navigationAnalysisRequestSchema = z.object({
+  captures: z.array(capturedMomentSchema).min(1),
+  interactions: z.array(interactionSchema),
+  flows: z.array(flowSchema),
+  session: z.object({ startUrl: z.string(), duration: z.number().min(0) }),
+});
+
+/** One problem with an imported file, e.g. { path: 'captures[2].trigger', message: 'Invalid enum value…' } */
+export interface NavigationImportIssue {
+  path: string;
+  message: string;
+}
+
+export type NavigationImportResult =
+  | { success: true; session: NavigationSession }
+  | { success: false; issues: NavigationImportIssue[] };
+
+function formatPath(path: Array<string | number>): string {
+  return path.reduce<string>(
+    (formatted, part) => (typeof part === 'number' ? `${formatted}[${part}]` : formatted ? `${formatted}.${part}` : part),
+    ''
+  );
+}
+
+const failure = (path: string, message: string): NavigationImportResult => ({
+  success: false,
+  issues: [{ path, message }],
+});
+
+/**
+ * Validate a parsed session file and turn it into a completed session. `current` supplies the
+ * start URL and flows for unversioned files; `images` resolves captures that name a file.
+ */
+export function readNavigationSession(
+  data: unknown,
+  current: Pick<NavigationSession, 'id' | 'startUrl' | 'flows' | 'defaultPersona'>,
+  images: Record<string, string> = {}
+): NavigationImportResult {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return failure('', 'Expected a navigation session object');
+  }
+
+  const record = data as Record<string, unknown>;
+  if (record.version === undefined) {
+    if (!Array.isArray(record.captures)) return failure('captures', 'Expected { captures: [...] }');
+    return readNavigationSession(
+      {
+        format: NAVIGATION_SESSION_FORMAT,
+        version: NAVIGATION_SESSION_VERSION,
+        startUrl: current.startUrl,
+        defaultPersona: current.defaultPersona,
+        flows: current.flows,
+        ...record,
+      },
+      current,
+      images
+    );
+  }
+  if (record.version !== NAVIGATION_SESSION_VERSION) {
+    return failure('version', `Unsupported version ${JSON.stringify(record.version)}; this app reads version ${NAVIGATION_SESSION_VERSION}`);
+  }
+
+  const parsed = sessionFileSchema.safeParse(data);
+  if (!parsed.success) {
+    return {
+      success: false,
+      issues: parsed.error.issues.map((issue) => ({ path: formatPath(issue.path), message: issue.message })),
+    };
+  }
+
+  const file = parsed.data;
+  const issues: NavigationImportIssue[] = [];
+  const captures = file.captures.map((capture, index) => {
+    const { file: imageFile, image, mediaType, ...moment } = capture;
+    const data = image ?? images[imageFile!];
+    if (data === undefined) {
+      issues.push({ path: `captures[${index}].file`, message: `"${imageFile}" is not in the archive` });
+    }
+    const extension = imageFile?.split('.').pop()?.toLowerCase() ?? '';
+    return { ...moment, image: data ?? '', mediaType: mediaType ?? IMAGE_EXTENSIONS[extension] ?? 'image/png' };
+  });
+  if (issues.length > 0) return { success: false, issues };
+
+  return {
+    success: true,
+    session: {
+      id: current.id,
+      startUrl: file.startUrl,
+      flows: file.flows as NavigationFlow[],
+      captures,
+      interactions: file.interactions,
+      status: 'completed',
+      startedAt: file.startedAt ?? Date.now(),
+      endedAt: file.endedAt ?? Date.now(),
+      defaultPersona: file.defaultPersona,
+      config: { ...DEFAULT_NAVIGATION_CONFIG, ...file.config },
+      ...(file.interventions && { interventions: file.interventions }),
+    },
+  };
+}
+
+/**
+ * Read a pasted session file, a .json file or a zipped session (screenshots plus session.json,
+ * which may sit in a single top-level folder)
+ */
+export async function importNavigationSession(
+  input: string | File,
+  current: Pick<NavigationSession, 'id' | 'startUrl' | 'flows' | 'defaultPersona'>
+): Promise<NavigationImportResult> {
+  const isArchive = typeof input !== 'string' && /\.zip$/i.test(input.name);
+  if (!isArchive) {
+    const text = typeof input === 'string' ? input : await input.text();
+    try {
+      return readNavigationSession(JSON.parse(text), current);
+    } catch {
+      return failure('', 'Not valid JSON');
+    }
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await input.arrayBuffer());
+  } catch {
+    return failure('', 'Not a valid zip archive');
+  }
+
+  const manifest = zip.file(new RegExp(`(^|/)${NAVIGATION_MANIFEST.replace('.', '\\.')}$`))
+    .sort((a, b) => a.name.length - b.name.length)[0];
+  if (!manifest) return failure('', `The archive has no ${NAVIGATION_MANIFEST}`);
+
+  // Capture file paths are relative to the manifest
+  const root = manifest.name.slice(0, -NAVIGATION_MANIFEST.length);
+  const images: Record<string, string> = {};
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir || !entry.name.startsWith(root) || !IMAGE_EXTENSIONS[entry.name.split('.').pop()!.toLowerCase()]) continue;
+    images[entry.name.slice(root.length)] = await entry.async('base64');
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await manifest.async('string'));
+  } catch {
+    return failure(NAVIGATION_MANIFEST, 'Not valid JSON');
+  }
+  return readNavigationSession(data, current, images);
+}
+
+/** A session in the current file format, with screenshots inline */
+export function serializeNavigationSession(session: NavigationSession): NavigationSessionFile {
+  return {
+    format: NAVIGATION_SESSION_FORMAT,
+    version: NAVIGATION_SESSION_VERSION,
+    startUrl: session.startUrl,
+    ...(session.defaultPersona && { defaultPersona: session.defaultPersona }),
+    config: session.config ?? DEFAULT_NAVIGATION_CONFIG,
+    flows: session.flows,
+    interactions: session.interactions,
+    captures: session.captures.map((capture) => ({
+      ...capture,
+      mediaType: capture.mediaType as (typeof IMAGE_MEDIA_TYPES)[number],
+    })),
+    ...(session.interventions && { interventions: session.interventions }),
+    startedAt: session.startedAt,
+    ...(session.endedAt && { endedAt: session.endedAt }),
+  };
+}
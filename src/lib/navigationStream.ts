@@ -0,0 +1,93 @@
+/**
+ * Browser side of /api/navigate and /api/navigation-control: a headless navigation session's
+ * events as they arrive, the reducer that applies them (the runner builds its own session with it
+ * too), and the user's side of a session waiting for help.
+ */
+
+import type {
+  InterventionAction,
+  NavigationEvent,
+  NavigationSession,
+  RemoteInput,
+} from '../types/navigation';
+import { readServerSentEvents } from './serverSentEvents';
+
+export function applyNavigationEvent(session: NavigationSession, event: NavigationEvent): NavigationSession {
+  switch (event.type) {
+    case 'status': {
+      const { type: _, ...status } = event;
+      const finished = status.status === 'completed' || status.status === 'failed';
+      return {
+        ...session,
+        ...status,
+        // The waiting reason only lasts while waiting; the latest screenshot until the session ends
+        waitingReason: status.waitingReason,
+        currentScreenshot: finished ? undefined : (status.currentScreenshot ?? session.currentScreenshot),
+        ...(finished && { endedAt: session.endedAt ?? Date.now() }),
+      };
+    }
+    case 'flow':
+      return { ...session, flows: session.flows.map((flow) => (flow.id === event.flow.id ? event.flow : flow)) };
+    case 'interaction':
+      return { ...session, interactions: [...session.interactions, event.interaction] };
+    case 'capture':
+      return { ...session, captures: [...session.captures, event.capture] };
+    case 'intervention':
+      return { ...session, interventions: [...(session.interventions ?? []), event.intervention] };
+  }
+}
+
+/**
+ * Run a session on the server's headless browser, calling onEvent for each change, signed in first
+ * with the project test login credentialId when given. Resolves when the session ends; rejects
+ * with an AbortError when the signal is aborted.
+ */
+export async function streamNavigation(
+  session: NavigationSession,
+  {
+    onEvent,
+    signal,
+    credentialId,
+  }: { onEvent: (event: NavigationEvent) => void; signal?: AbortSignal; credentialId?: string }
+): Promise<void> {
+  const response = await fetch('/api/navigate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      id: session.id,
+      startUrl: session.startUrl,
+      flows: session.flows.map(({ id, description, persona }) => ({ id, description, persona })),
+      defaultPersona: session.defaultPersona,
+      credentialId,
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error((await response.json()).error || 'Navigation failed');
+  }
+
+  await readServerSentEvents(response, ({ data }) => onEvent(data as NavigationEvent));
+}
+
+async function controlNavigation<T>(body: Record<string, unknown>): Promise<T> {
+  const response = await fetch('/api/navigation-control', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || 'The navigator did not respond');
+  return data as T;
+}
+
+/** Drive the browser of a session that is waiting for help; resolves with the page's new screenshot */
+export async function sendRemoteInput(sessionId: string, input: RemoteInput): Promise<string> {
+  const { screenshot } = await controlNavigation<{ screenshot: string }>({ type: 'input', sessionId, input });
+  return screenshot;
+}
+
+/** Answer a session that is waiting for help, with optional guidance for the navigator */
+export async function resumeNavigation(sessionId: string, action: InterventionAction, guidance?: string): Promise<void> {
+  await controlNavigation({ type: 'resume', sessionId, action, guidance });
+}
@@ -0,0 +1,159 @@
+/**
+ * Which pages the headless navigator may open. Its browser runs on the server, so a page on the
+ * server's own network (localhost, a private address, the cloud metadata service) would let anyone
+ * browse it; only hosts that resolve to public addresses are allowed. The browser fetches every
+ * request through fetchFromPublicHost, so links, redirects, scripts and the user's own input are
+ * held to this too, not just the start URL.
+ */
+
+import { lookup } from 'node:dns/promises';
+import http from 'node:http';
+import https from 'node:https';
+import { BlockList, type LookupFunction } from 'node:net';
+import { brotliDecompressSync, gunzipSync, inflateSync } from 'node:zlib';
+
+const nonPublicAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  nonPublicAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  nonPublicAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+/** Whether an IP address is on the public internet (IPv4-mapped IPv6 addresses count as IPv4) */
+export function isPublicAddress(address: string, family: 4 | 6): boolean {
+  return !nonPublicAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+type AddressCheck = (address: string, family: 4 | 6) => boolean;
+
+interface ResolvedAddress {
+  address: string;
+  family: 4 | 6;
+}
+
+// A URL's http(s) host and its addresses, when every one of them passes the check
+async function resolveAllowedHost(url: string, allowAddress: AddressCheck): Promise<{ url: URL; addresses: ResolvedAddress[] }> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('Not a URL');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Only http and https pages can be navigated');
+  }
+
+  let addresses: ResolvedAddress[];
+  try {
+    const found = await lookup(parsed.hostname.replace(/^\[|\]$/g, ''), { all: true });
+    addresses = found.map(({ address, family }) => ({ address, family: family === 4 ? 4 : 6 }));
+  } catch {
+    throw new Error(`${parsed.hostname} could not be found`);
+  }
+  if (addresses.length === 0 || addresses.some(({ address, family }) => !allowAddress(address, family))) {
+    throw new Error(`${parsed.hostname} is not a public website`);
+  }
+  return { url: parsed, addresses };
+}
+
+/** Why the navigator may not open a URL, or null when it's an http(s) page on a public host */
+export async function checkNavigationTarget(url: string, allowAddress: AddressCheck = isPublicAddress): Promise<string | null> {
+  try {
+    await resolveAllowedHost(url, allowAddress);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export interface BrowserRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: Buffer | null;
+}
+
+export interface BrowserResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: Buffer;
+}
+
+function decodeBody(body: Buffer, encoding: string | undefined): Buffer {
+  if (body.length === 0) return body;
+  switch (encoding) {
+    case 'gzip':
+      return gunzipSync(body);
+    case 'deflate':
+      return inflateSync(body);
+    case 'br':
+      return brotliDecompressSync(body);
+    default:
+      return body;
+  }
+}
+
+/**
+ * Make one of the browser's requests from the server, if its host is public. The connection goes
+ * to the addresses that were checked, so a DNS answer that changes in between (DNS rebinding)
+ * can't point it elsewhere. Redirects come back to the browser instead of being followed, and its
+ * request for the new location is checked in turn. Rejects when the host isn't allowed.
+ */
+export async function fetchFromPublicHost(
+  request: BrowserRequest,
+  { allowAddress = isPublicAddress, timeoutMs = 30_000 }: { allowAddress?: AddressCheck; timeoutMs?: number } = {}
+): Promise<BrowserResponse> {
+  const { url, addresses } = await resolveAllowedHost(request.url, allowAddress);
+  const pinnedLookup = ((_hostname, options, callback) => {
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  }) as LookupFunction;
+  // Pseudo-headers (":authority" and the like) come from HTTP/2 and can't be sent over HTTP/1.1
+  const headers = Object.fromEntries(Object.entries(request.headers).filter(([name]) => !name.startsWith(':')));
+
+  return new Promise((resolve, reject) => {
+    const outgoing = (url.protocol === 'https:' ? https : http).request(
+      url,
+      { method: request.method, headers, lookup: pinnedLookup, timeout: timeoutMs },
+      (response) => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('error', reject);
+        response.on('end', () => {
+          try {
+            const body = decodeBody(Buffer.concat(chunks), response.headers['content-encoding']);
+            const responseHeaders: Record<string, string> = {};
+            for (const [name, value] of Object.entries(response.headers)) {
+              if (value === undefined || ['content-encoding', 'content-length', 'transfer-encoding'].includes(name)) continue;
+              responseHeaders[name] = Array.isArray(value) ? value.join('\n') : value;
+            }
+            resolve({ status: response.statusCode ?? 502, headers: responseHeaders, body });
+          } catch (error) {
+            reject(error);
+          }
+        });
+      }
+    );
+    outgoing.on('timeout', () => outgoing.destroy(new Error(`${url.hostname} did not respond`)));
+    outgoing.on('error', reject);
+    outgoing.end(request.body ?? undefined);
+  });
+}
@@ -0,0 +1,14 @@
+/**
+ * Where to send the user after they sign in: the `next` query parameter when it leads somewhere on
+ * this site, else the fallback. It's parsed the way the browser would follow it, so values that
+ * only look like paths ("//evil.com", "/\evil.com") can't send the user to another site.
+ */
+export function sameSitePath(next: string | null, origin: string, fallback = '/dashboard'): string {
+  if (!next) return fallback;
+  try {
+    const url = new URL(next, origin);
+    return url.origin === origin ? url.pathname + url.search + url.hash : fallback;
+  } catch {
+    return fallback;
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * The headless navigator's browser: Chromium driven by Playwright. The browser itself is installed
+ * separately (`npx playwright install chromium`).
+ */
+
+import type { Locator, Page } from 'playwright';
+import type { NavigationConfig } from '../types/navigation';
+import type { NavigationBrowser } from './navigationRunner';
+import { checkNavigationTarget, fetchFromPublicHost, isPublicAddress } from './navigationTargets';
+
+const MAX_OUTLINE_ENTRIES = 60;
+
+/**
+ * The element a target names: a CSS selector if it is one that matches, otherwise a button or
+ * link with that name, a form field with that label, or an element with that text
+ */
+async function locate(page: Page, target: string): Promise<Locator> {
+  const candidates = [
+    () => page.locator(target),
+    () => page.getByRole('button', { name: target }),
+    () => page.getByRole('link', { name: target }),
+    () => page.getByLabel(target),
+    () => page.getByText(target),
+  ];
+  for (const candidate of candidates) {
+    try {
+      const locator = candidate();
+      if ((await locator.count()) > 0) return locator.first();
+    } catch {
+      // Not a valid CSS selector; try it as text
+    }
+  }
+  throw new Error(`Nothing on the page matches "${target}"`);
+}
+
+/** Visible controls as `role "name"` lines, e.g. `button "Next"` or `radio "Spacing" [name=answer]` */
+function outlinePage(page: Page): Promise<string[]> {
+  return page.$$eval(
+    'a[href], button, input, select, textarea, [role="button"], [role="option"], [role="radio"], [role="checkbox"]',
+    (elements, limit) =>
+      elements
+        .filter((element) => {
+          const box = element.getBoundingClientRect();
+          return box.width > 0 && box.height > 0;
+        })
+        .slice(0, limit)
+        .map((element) => {
+          const input = element as HTMLInputElement;
+          const role = element.getAttribute('role') ?? (element.tagName === 'INPUT' ? input.type || 'text' : element.tagName.toLowerCase());
+          const label = input.labels?.[0]?.textContent ?? element.getAttribute('aria-label') ?? element.textContent ?? input.placeholder ?? '';
+          const name = element.getAttribute('name');
+          return `${role} "${label.replace(/\s+/g, ' ').trim()}"${name ? ` [name=${name}]` : ''}`;
+        }),
+    MAX_OUTLINE_ENTRIES
+  );
+}
+
+/**
+ * A browser for the navigator, signed in already when given a storage state saved by an earlier
+ * session. It only reaches public hosts (src/lib/navigationTargets.ts): every request it makes,
+ * whether the navigator, the page or the user started it, is made from the server by
+ * fetchFromPublicHost, and refused when its host resolves to an address allowAddress rejects.
+ */
+export async function launchBrowser(
+  config: NavigationConfig,
+  storageState?: string | null,
+  { allowAddress = isPublicAddress }: { allowAddress?: (address: string, family: 4 | 6) => boolean } = {}
+): Promise<NavigationBrowser> {
+  const { chromium } = await import('playwright');
+  const browser = await chromium.launch({ headless: true });
+  const context = await browser.newContext({
+    viewport: config.viewport,
+    // Service workers fetch outside the routes below, and downloads would land on the server's disk
+    serviceWorkers: 'block',
+    acceptDownloads: false,
+    ...(storageState && { storageState: JSON.parse(storageState) }),
+  });
+  // Routes only see the first request of a redirect the browser follows itself, so the browser
+  // never fetches anything: redirects come back unfollowed and their next request is routed too
+  await context.route('**/*', async (route) => {
+    const request = route.request();
+    try {
+      const response = await fetchFromPublicHost(
+        { url: request.url(), method: request.method(), headers: await request.allHeaders(), body: request.postDataBuffer() },
+        { allowAddress, timeoutMs: config.pageLoadTimeout }
+      );
+      await route.fulfill(response);
+    } catch {
+      await route.abort('blockedbyclient').catch(() => undefined);
+    }
+  });
+  await context.routeWebSocket(/.*/, async (ws) => {
+    const blocked = await checkNavigationTarget(ws.url().replace(/^ws/, 'http'), allowAddress);
+    if (blocked) await ws.close({ reason: blocked });
+    else ws.connectToServer();
+  });
+  const page = await context.newPage();
+  page.setDefaultTimeout(config.pageLoadTimeout);
+
+  // Actions that change the page wait for whatever they load before the next screenshot
+  const settle = () => page.waitForLoadState('load').catch(() => undefined);
+
+  return {
+    async goto(url) {
+      await page.goto(url, { waitUntil: 'load' });
+    },
+    async click(target) {
+      await (await locate(page, target)).click();
+      await settle();
+    },
+    async type(target, value) {
+      await (await locate(page, target)).fill(value);
+    },
+    async select(target, value) {
+      const locator = await locate(page, target);
+      // Radio buttons and checkboxes are chosen by checking them; dropdowns by their option
+      if ((await locator.evaluate((element) => element.tagName)) === 'SELECT') {
+        await locator.selectOption({ label: value }).catch(() => locator.selectOption(value));
+      } else {
+        await locator.check();
+      }
+      await settle();
+    },
+    async hover(target) {
+      await (await locate(page, target)).hover();
+    },
+    async scroll() {
+      await page.mouse.wheel(0, config.viewport.height);
+    },
+    async wait(ms) {
+      await page.waitForTimeout(ms);
+    },
+    async screenshot() {
+      return (await page.screenshot({ type: 'png' })).toString('base64');
+    },
+    url: () => page.url(),
+    title: () => page.title(),
+    outline: () => outlinePage(page),
+    // Whatever the user's input loads goes through the same routes as the navigator's requests
+    async remote(input) {
+      switch (input.type) {
+        case 'click':
+          await page.mouse.click(input.x * config.viewport.width, input.y * config.viewport.height);
+          break;
+        case 'type':
+          await page.keyboard.type(input.text);
+          break;
+        case 'press':
+          await page.keyboard.press(input.key);
+          break;
+        case 'scroll':
+          await page.mouse.wheel(0, input.deltaY);
+          break;
+      }
+      await settle();
+    },
+    async storageState() {
+      return JSON.stringify(await context.storageState());
+    },
+    async close() {
+      await browser.close();
+    },
+  };
+}
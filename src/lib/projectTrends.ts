@@ -0,0 +1,109 @@
+/**
+ * How a project's scores moved across its audits: the overall and per-category trend, the gaps
+ * still open in the latest audit, and the recommendations each re-audit shows were addressed
+ */
+
+import { type AuditProfile, createLegacyProfile, weightedAverage } from '../data/auditProfiles';
+import { type RatingGap, type ScoredPrinciple, summarizeRatings } from './auditScoring';
+import { type ComparableReport, compareReports } from './reportComparison';
+
+export type ProjectAudit = ComparableReport & { id: string; createdAt: string };
+
+export interface ProjectTrendPoint {
+  reportId: string;
+  createdAt: string;
+  overallScore: number;
+  /** Weighted average per category of the principles rated in that audit */
+  categories: Record<string, number>;
+}
+
+export interface AddressedRecommendation<C extends string = string> {
+  id: string;
+  title: string;
+  category: C;
+  recommendation: string;
+  before: number;
+  after: number;
+}
+
+/** Recommendations from one audit that the next audit no longer counts as gaps */
+export interface AuditProgress<C extends string = string> {
+  fromReportId: string;
+  toReportId: string;
+  createdAt: string;
+  addressed: AddressedRecommendation<C>[];
+}
+
+function auditProfile(report: ComparableReport): AuditProfile {
+  return report.profile ?? createLegacyProfile(Object.keys(report.ratings));
+}
+
+function byDate<T extends { createdAt: string }>(reports: T[]): T[] {
+  return [...reports].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** Weighted average score per category, over the rated principles */
+export function categoryAverages<C extends string>(
+  ratings: Record<string, number | null>,
+  principles: ScoredPrinciple<C>[],
+  profile: AuditProfile
+): Record<string, number> {
+  const byCategory: Record<string, Array<[string, number]>> = {};
+  for (const [id, score] of Object.entries(ratings)) {
+    const principle = principles.find((p) => p.id === id);
+    if (score === null || !principle) continue;
+    (byCategory[principle.category] ??= []).push([id, score]);
+  }
+  return Object.fromEntries(
+    Object.entries(byCategory).map(([category, scores]) => [category, weightedAverage(scores, profile)])
+  );
+}
+
+/** One point per audit, oldest first */
+export function projectTrend<C extends string>(reports: ProjectAudit[], principles: ScoredPrinciple<C>[]): ProjectTrendPoint[] {
+  return byDate(reports).map((report) => ({
+    reportId: report.id,
+    createdAt: report.createdAt,
+    overallScore: report.overallScore,
+    categories: categoryAverages(report.ratings, principles, auditProfile(report)),
+  }));
+}
+
+/** Gaps in the most recent audit, lowest score first */
+export function openGaps<C extends string>(reports: ProjectAudit[], principles: ScoredPrinciple<C>[]): RatingGap<C>[] {
+  const latest = byDate(reports).at(-1);
+  if (!latest) return [];
+  return summarizeRatings(latest.ratings, principles, auditProfile(latest))?.gaps ?? [];
+}
+
+/** For each audit after the first, the earlier audit's recommendations it shows were addressed */
+export function addressedRecommendations<C extends string>(
+  reports: ProjectAudit[],
+  principles: ScoredPrinciple<C>[]
+): AuditProgress<C>[] {
+  const ordered = byDate(reports);
+  return ordered.slice(1).map((after, i) => {
+    const before = ordered[i];
+    const { gapsClosed } = compareReports(before, after, principles);
+    return {
+      fromReportId: before.id,
+      toReportId: after.id,
+      createdAt: after.createdAt,
+      addressed: gapsClosed.map((change) => ({
+        id: change.id,
+        title: change.title,
+        category: change.category,
+        recommendation: principles.find((p) => p.id === change.id)!.audit.recommendation,
+        before: change.before!,
+        after: change.after!,
+      })),
+    };
+  });
+}
+
+/** The audit that followed this one, or null when it is the latest */
+export function nextAudit<T extends ProjectAudit>(reports: T[], reportId: string): T | null {
+  const ordered = byDate(reports);
+  const index = ordered.findIndex((report) => report.id === reportId);
+  return index >= 0 ? ordered[index + 1] ?? null : null;
+}
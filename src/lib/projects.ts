@@ -0,0 +1,93 @@
+/**
+ * Projects (the projects table): one learning experience, tracked across the audits attached to
+ * it through audit_reports.project_id. A project belongs to the account that created it and, when
+ * it's in a workspace, is shared with the workspace's members by role.
+ */
+
+import type { StorageClient } from './storage';
+import type { SessionUser } from './auth';
+import { type WorkspaceRole, fetchMemberRole, hasRole } from './workspaces';
+
+export interface Project {
+  id: string;
+  name: string;
+  /** Where the learning experience lives */
+  url: string | null;
+  /** Who it's for, and anything else auditors should keep in mind */
+  audience: string | null;
+  context: string | null;
+  ownerId: string;
+  workspaceId: string | null;
+  createdAt: string;
+}
+
+interface ProjectRow {
+  id: string;
+  name: string;
+  url: string | null;
+  audience: string | null;
+  context: string | null;
+  user_id: string;
+  workspace_id: string | null;
+  created_at: string;
+}
+
+const PROJECT_COLUMNS = 'id, name, url, audience, context, user_id, workspace_id, created_at';
+
+export function projectFromRow(row: ProjectRow): Project {
+  return {
+    id: row.id,
+    name: row.name,
+    url: row.url ?? null,
+    audience: row.audience ?? null,
+    context: row.context ?? null,
+    ownerId: row.user_id,
+    workspaceId: row.workspace_id ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+export async function fetchProject(client: StorageClient, id: string): Promise<Project | null> {
+  const { data, error } = await client.from('projects').select(PROJECT_COLUMNS).eq('id', id).single();
+  if (error || !data) return null;
+  return projectFromRow(data as ProjectRow);
+}
+
+/** Projects an account owns or can open through its workspaces, by name */
+export async function fetchUserProjects(
+  client: StorageClient,
+  userId: string,
+  workspaceIds: string[]
+): Promise<Project[]> {
+  const owned = await client.from('projects').select(PROJECT_COLUMNS).eq('user_id', userId);
+  const shared = workspaceIds.length > 0
+    ? await client.from('projects').select(PROJECT_COLUMNS).in('workspace_id', workspaceIds)
+    : { data: [], error: null };
+
+  const rows = [...((owned.data as ProjectRow[] | null) ?? []), ...((shared.data as ProjectRow[] | null) ?? [])];
+  const byId = new Map(rows.map((row) => [row.id, projectFromRow(row)]));
+  return [...byId.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export type ProjectLookup = { project: Project; role: WorkspaceRole } | { error: string; status: number };
+
+/**
+ * A project the user may act on with at least the `needed` role, or the error and status to
+ * respond with. The project's owner holds every role; workspace members hold their workspace role.
+ */
+export async function openProject(
+  client: StorageClient,
+  id: string,
+  user: SessionUser | null,
+  needed: WorkspaceRole
+): Promise<ProjectLookup> {
+  const project = await fetchProject(client, id);
+  if (!project) return { error: 'Project not found', status: 404 };
+  if (!user) return { error: 'Sign in required', status: 401 };
+  if (project.ownerId === user.id) return { project, role: 'owner' };
+
+  const role = project.workspaceId && user.email ? await fetchMemberRole(client, project.workspaceId, user.email) : null;
+  if (!role) return { error: 'You do not have access to this project', status: 403 };
+  if (!hasRole(role, needed)) return { error: `Only project ${needed}s can do this`, status: 403 };
+  return { project, role };
+}
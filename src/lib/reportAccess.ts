@@ -0,0 +1,286 @@
+/**
+ * Who may open a shared report. Each report has an owner key (kept by the author's browser in
+ * a cookie) and, when the author was signed in, an owning account; plus an access mode, and
+ * optionally a password, an expiry and a workspace whose members can open it. Signed links and password
+ * grants are HMAC tokens scoped to one report, keyed with REPORT_TOKEN_SECRET, which only the
+ * server knows (report rows are readable with the anon key, so nothing stored in them can be the key).
+ */
+
+import type { AstroCookies } from 'astro';
+import type { StorageClient } from './storage';
+import { createHash, createHmac, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import { fetchReportWithAccess, type SavedReport } from './reports';
+import { getSessionUser } from './auth';
+import { type WorkspaceRole, fetchMemberRole, hasRole } from './workspaces';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+/**
+ * - link: anyone with the URL
+ * - password: the password, or a signed link
+ * - signed: only signed links
+ * - private: only the owner (the author's account, or the browser that created it)
+ *
+ * Members of the report's workspace can open it whatever the mode.
+ */
+export const REPORT_ACCESS_MODES = ['link', 'password', 'signed', 'private'] as const;
+
+export type ReportAccessMode = (typeof REPORT_ACCESS_MODES)[number];
+
+/** Access settings stored with a report; never sent to viewers */
+export interface ReportAccessSettings {
+  mode: ReportAccessMode;
+  /** Null for reports saved before access control, which nobody can manage */
+  ownerKeyHash: string | null;
+  /** Account of the author, when they were signed in */
+  userId: string | null;
+  /** Workspace the report belongs to, if any */
+  workspaceId: string | null;
+  passwordHash: string | null;
+  expiresAt: string | null;
+  /** Signed links and password grants issued before this are no longer accepted */
+  grantsRevokedAt: string | null;
+}
+
+/** The settings an owner sees when managing a report */
+export interface ReportAccessSummary {
+  mode: ReportAccessMode;
+  hasPassword: boolean;
+  expiresAt: string | null;
+  grantsRevokedAt: string | null;
+}
+
+/** What a viewer presented: the owner key cookie, their account, and a signed link or password grant */
+export interface ReportCredentials {
+  ownerKey?: string | null;
+  userId?: string | null;
+  email?: string | null;
+  token?: string | null;
+  /** The viewer's role in the report's workspace, looked up by openReport */
+  workspaceRole?: WorkspaceRole | null;
+}
+
+export type ReportAccessDecision =
+  | { granted: true; owner: boolean }
+  | { granted: false; reason: 'expired' | 'password' | 'forbidden' };
+
+export function summarizeAccess(settings: ReportAccessSettings): ReportAccessSummary {
+  return {
+    mode: settings.mode,
+    hasPassword: settings.passwordHash !== null,
+    expiresAt: settings.expiresAt,
+    grantsRevokedAt: settings.grantsRevokedAt,
+  };
+}
+
+/** A new random owner key */
+export function createOwnerKey(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+// Owner keys are random, so a plain hash is enough to store them
+export function hashOwnerKey(ownerKey: string): string {
+  return createHash('sha256').update(ownerKey).digest('hex');
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** Salted scrypt hash of a report password, as "scrypt:<salt>:<hash>" */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 32);
+  return `scrypt:${salt.toString('base64url')}:${hash.toString('base64url')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const candidate = await scryptAsync(password, Buffer.from(salt, 'base64url'), 32);
+  return safeEqual(candidate, Buffer.from(hash, 'base64url'));
+}
+
+/**
+ * The key signed links and password grants are signed with, from REPORT_TOKEN_SECRET (any long
+ * random string), or null when it isn't set and neither can be issued
+ */
+export function readTokenSecret(env: Record<string, string | undefined> = import.meta.env): string | null {
+  return env.REPORT_TOKEN_SECRET || null;
+}
+
+export const reportTokenSecret = readTokenSecret();
+
+function tokenSignature(secret: string, reportId: string, expiresAt: number, issuedAt: number): string {
+  return createHmac('sha256', secret).update(`${reportId}.${expiresAt}.${issuedAt}`).digest('base64url');
+}
+
+/**
+ * A token granting access to one report until `expiresAt` (ms since epoch), as
+ * "<expiresAt>.<issuedAt>.<signature>"
+ */
+export function signReportToken(reportId: string, secret: string, expiresAt: number, now = Date.now()): string {
+  return `${expiresAt}.${now}.${tokenSignature(secret, reportId, expiresAt, now)}`;
+}
+
+/** When a valid token expires, or null when it is invalid, expired or revoked (or no secret is set) */
+export function verifyReportToken(
+  token: string,
+  reportId: string,
+  settings: ReportAccessSettings,
+  now = Date.now(),
+  secret = reportTokenSecret
+): number | null {
+  if (!secret) return null;
+
+  const [expires, issued, signature] = token.split('.');
+  const expiresAt = Number(expires);
+  const issuedAt = Number(issued);
+  if (!Number.isSafeInteger(expiresAt) || !Number.isSafeInteger(issuedAt) || !signature) return null;
+
+  const expected = tokenSignature(secret, reportId, expiresAt, issuedAt);
+  if (!safeEqual(Buffer.from(signature), Buffer.from(expected))) return null;
+  if (expiresAt <= now) return null;
+  if (settings.grantsRevokedAt && issuedAt <= Date.parse(settings.grantsRevokedAt)) return null;
+  return expiresAt;
+}
+
+export function isOwner(settings: ReportAccessSettings, { ownerKey, userId }: ReportCredentials): boolean {
+  if (settings.userId && userId === settings.userId) return true;
+  if (!settings.ownerKeyHash || !ownerKey) return false;
+  return safeEqual(Buffer.from(hashOwnerKey(ownerKey)), Buffer.from(settings.ownerKeyHash));
+}
+
+/**
+ * Whether a viewer may open a report. Owners and workspace members always can, and workspace
+ * editors manage it like its owner; everyone else is turned away once the report expires, and
+ * otherwise needs whatever the access mode asks for.
+ */
+export function checkReportAccess(
+  reportId: string,
+  settings: ReportAccessSettings,
+  credentials: ReportCredentials,
+  now = Date.now()
+): ReportAccessDecision {
+  if (isOwner(settings, credentials)) return { granted: true, owner: true };
+  if (credentials.workspaceRole) return { granted: true, owner: hasRole(credentials.workspaceRole, 'editor') };
+  if (settings.expiresAt && Date.parse(settings.expiresAt) <= now) return { granted: false, reason: 'expired' };
+
+  switch (settings.mode) {
+    case 'link':
+      return { granted: true, owner: false };
+    case 'private':
+      return { granted: false, reason: 'forbidden' };
+    case 'password':
+    case 'signed':
+      if (credentials.token && verifyReportToken(credentials.token, reportId, settings, now) !== null) {
+        return { granted: true, owner: false };
+      }
+      return { granted: false, reason: settings.mode === 'password' ? 'password' : 'forbidden' };
+  }
+}
+
+/** Error message and HTTP status for a denied request */
+export function accessDeniedResponse(reason: Exclude<ReportAccessDecision, { granted: true }>['reason']): {
+  error: string;
+  status: number;
+} {
+  switch (reason) {
+    case 'expired':
+      return { error: 'This report has expired', status: 410 };
+    case 'password':
+      return { error: 'Password required', status: 401 };
+    case 'forbidden':
+      return { error: 'You do not have access to this report', status: 403 };
+  }
+}
+
+export type ReportLookup =
+  | { report: SavedReport; access: ReportAccessSettings; owner: boolean; role: WorkspaceRole | null }
+  | { error: string; status: number };
+
+// The viewer's role in the workspace a report belongs to
+async function workspaceRoleFor(
+  client: StorageClient,
+  access: ReportAccessSettings,
+  { email }: ReportCredentials
+): Promise<WorkspaceRole | null> {
+  return access.workspaceId && email ? fetchMemberRole(client, access.workspaceId, email) : null;
+}
+
+/** A report the viewer may open, or the error and status to respond with */
+export async function openReport(
+  client: StorageClient,
+  id: string,
+  credentials: ReportCredentials,
+  now = Date.now()
+): Promise<ReportLookup> {
+  const found = await fetchReportWithAccess(client, id);
+  if (!found) return { error: 'Report not found', status: 404 };
+
+  const role = await workspaceRoleFor(client, found.access, credentials);
+  const decision = checkReportAccess(id, found.access, { ...credentials, workspaceRole: role }, now);
+  if (!decision.granted) return accessDeniedResponse(decision.reason);
+  return { ...found, owner: decision.owner, role };
+}
+
+/** A report the viewer owns (or edits through its workspace), or the error and status to respond with */
+export async function openOwnedReport(
+  client: StorageClient,
+  id: string,
+  credentials: ReportCredentials
+): Promise<ReportLookup> {
+  const found = await fetchReportWithAccess(client, id);
+  if (!found) return { error: 'Report not found', status: 404 };
+
+  const role = await workspaceRoleFor(client, found.access, credentials);
+  if (!isOwner(found.access, credentials) && !hasRole(role, 'editor')) {
+    return { error: 'Only the report owner can do this', status: 403 };
+  }
+  return { ...found, owner: true, role };
+}
+
+const ownerCookie = (reportId: string) => `report-owner-${reportId}`;
+const grantCookie = (reportId: string) => `report-access-${reportId}`;
+
+/** Credentials for a report from its cookies, the session, and a signed link's `token` parameter */
+export async function readReportCredentials(
+  cookies: AstroCookies,
+  reportId: string,
+  url?: URL
+): Promise<ReportCredentials> {
+  const user = await getSessionUser(cookies);
+  return {
+    ownerKey: cookies.get(ownerCookie(reportId))?.value ?? null,
+    userId: user?.id ?? null,
+    email: user?.email ?? null,
+    token: url?.searchParams.get('token') || cookies.get(grantCookie(reportId))?.value || null,
+  };
+}
+
+export function setOwnerCookie(cookies: AstroCookies, reportId: string, ownerKey: string): void {
+  cookies.set(ownerCookie(reportId), ownerKey, {
+    path: '/',
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: import.meta.env.PROD,
+    maxAge: 60 * 60 * 24 * 365 * 5,
+  });
+}
+
+/** Remember a signed link or password grant, so exports and the API work without the link */
+export function setGrantCookie(cookies: AstroCookies, reportId: string, token: string, expiresAt: number): void {
+  cookies.set(grantCookie(reportId), token, {
+    path: '/',
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: import.meta.env.PROD,
+    expires: new Date(expiresAt),
+  });
+}
+
+export function clearReportCookies(cookies: AstroCookies, reportId: string): void {
+  cookies.delete(ownerCookie(reportId), { path: '/' });
+  cookies.delete(grantCookie(reportId), { path: '/' });
+}
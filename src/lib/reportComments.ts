@@ -0,0 +1,102 @@
+/**
+ * Reviewer comments on shared reports (the report_comments table). A comment is anchored to a
+ * principle, a section result, or a principle within a section; replies hang off the comment
+ * that starts a thread, and resolving that comment resolves the thread.
+ */
+
+import type { StorageClient } from './storage';
+import type { ReportCredentials, ReportLookup } from './reportAccess';
+
+export interface ReportComment {
+  id: string;
+  reportId: string;
+  /** The comment that starts the thread, or null when this one does */
+  parentId: string | null;
+  /** Section result the comment is about; null for the report's overall results */
+  sectionId: string | null;
+  /** Principle the comment is about; null for a whole section */
+  principleId: string | null;
+  body: string;
+  authorEmail: string;
+  createdAt: string;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+}
+
+export interface CommentThread {
+  comment: ReportComment;
+  replies: ReportComment[];
+}
+
+/** What a viewer may do with a report's comments */
+export interface CommentPermissions {
+  /** Read and write comments (workspace members and the report's owner, when signed in) */
+  comment: boolean;
+  /** Resolve threads and override scores (workspace editors and the report's owner) */
+  review: boolean;
+}
+
+/** Comments need an account to attribute them to; reviewing needs the rights to manage the report */
+export function commentPermissions(
+  lookup: Extract<ReportLookup, { owner: boolean }>,
+  credentials: ReportCredentials
+): CommentPermissions {
+  return {
+    comment: Boolean(credentials.email) && (lookup.owner || lookup.role !== null),
+    review: lookup.owner,
+  };
+}
+
+export interface CommentRow {
+  id: string;
+  report_id: string;
+  parent_id: string | null;
+  section_id: string | null;
+  principle_id: string | null;
+  body: string;
+  author_email: string;
+  created_at: string;
+  resolved_at: string | null;
+  resolved_by: string | null;
+}
+
+export function commentFromRow(row: CommentRow): ReportComment {
+  return {
+    id: row.id,
+    reportId: row.report_id,
+    parentId: row.parent_id,
+    sectionId: row.section_id,
+    principleId: row.principle_id,
+    body: row.body,
+    authorEmail: row.author_email,
+    createdAt: row.created_at,
+    resolvedAt: row.resolved_at,
+    resolvedBy: row.resolved_by,
+  };
+}
+
+/** A report's comments, oldest first */
+export async function fetchReportComments(client: StorageClient, reportId: string): Promise<ReportComment[]> {
+  const { data, error } = await client
+    .from('report_comments')
+    .select('*')
+    .eq('report_id', reportId)
+    .order('created_at', { ascending: true });
+
+  if (error || !data) return [];
+  return (data as CommentRow[]).map(commentFromRow);
+}
+
+/**
+ * Threads about one principle or section, oldest first, with their replies in order.
+ * Comments are expected oldest first, as fetchReportComments returns them.
+ */
+export function threadsFor(
+  comments: ReportComment[],
+  sectionId: string | null,
+  principleId: string | null
+): CommentThread[] {
+  return comments
+    .filter((c) => c.parentId === null && c.sectionId === sectionId && c.principleId === principleId)
+    .map((comment) => ({ comment, replies: comments.filter((c) => c.parentId === comment.id) }));
+}
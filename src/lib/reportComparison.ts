@@ -0,0 +1,129 @@
+/**
+ * Differences between two audit reports, typically an earlier audit and a re-audit after a redesign
+ */
+
+import { type AuditProfile, createLegacyProfile } from '../data/auditProfiles';
+import { type ScoredPrinciple, type SectionResult, summarizeSection } from './auditScoring';
+
+export interface ComparableReport {
+  overallScore: number;
+  ratings: Record<string, number | null>;
+  sectionResults?: SectionResult[] | null;
+  profile?: AuditProfile | null;
+}
+
+export interface ScoreChange {
+  before: number | null;
+  after: number | null;
+  /** after - before, or null when either side is missing */
+  delta: number | null;
+}
+
+export interface PrincipleChange<C extends string = string> extends ScoreChange {
+  id: string;
+  title: string;
+  category: C;
+}
+
+export interface SectionChange extends ScoreChange {
+  /** Sections are matched by name, since each audit gives its sections new ids */
+  name: string;
+  principles: Array<ScoreChange & { id: string; title: string }>;
+}
+
+export interface ReportComparison<C extends string = string> {
+  overall: ScoreChange;
+  principles: PrincipleChange<C>[];
+  sections: SectionChange[];
+  /** Gaps in the earlier report that are no longer gaps */
+  gapsClosed: PrincipleChange<C>[];
+  /** Principles that were fine in the earlier report and are gaps now */
+  gapsOpened: PrincipleChange<C>[];
+}
+
+function scoreChange(before: number | null | undefined, after: number | null | undefined): ScoreChange {
+  const b = before ?? null;
+  const a = after ?? null;
+  return { before: b, after: a, delta: b !== null && a !== null ? a - b : null };
+}
+
+function reportProfile(report: ComparableReport): AuditProfile {
+  return report.profile ?? createLegacyProfile(Object.keys(report.ratings));
+}
+
+function sectionKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/** Applicable score for a principle in a section, or null */
+function sectionScore(section: SectionResult | undefined, principleId: string): number | null {
+  const score = section?.scores[principleId];
+  return score && !score.notApplicable && score.score > 0 ? score.score : null;
+}
+
+/**
+ * Compare report `a` (before) with report `b` (after). Gaps are judged by each report's own profile.
+ */
+export function compareReports<C extends string>(
+  a: ComparableReport,
+  b: ComparableReport,
+  principles: ScoredPrinciple<C>[]
+): ReportComparison<C> {
+  const profileA = reportProfile(a);
+  const profileB = reportProfile(b);
+  const known = (id: string) => principles.find((p) => p.id === id);
+
+  // Every principle rated in either report, in library order
+  const ratedIds = new Set(
+    [...Object.entries(a.ratings), ...Object.entries(b.ratings)]
+      .filter(([, score]) => score !== null)
+      .map(([id]) => id)
+  );
+  const changes: PrincipleChange<C>[] = principles
+    .filter((p) => ratedIds.has(p.id))
+    .map((p) => ({ id: p.id, title: p.title, category: p.category, ...scoreChange(a.ratings[p.id], b.ratings[p.id]) }));
+
+  const gapsClosed = changes.filter(
+    (c) => c.before !== null && c.after !== null && c.before <= profileA.gapThreshold && c.after > profileB.gapThreshold
+  );
+  const gapsOpened = changes.filter(
+    (c) => c.before !== null && c.after !== null && c.before > profileA.gapThreshold && c.after <= profileB.gapThreshold
+  );
+
+  // Sections in the order they appear in the earlier report, then any new ones
+  const sectionsA = new Map((a.sectionResults ?? []).map((s) => [sectionKey(s.sectionName), s]));
+  const sectionsB = new Map((b.sectionResults ?? []).map((s) => [sectionKey(s.sectionName), s]));
+  const sectionNames = new Map<string, string>();
+  for (const s of [...(a.sectionResults ?? []), ...(b.sectionResults ?? [])]) {
+    if (!sectionNames.has(sectionKey(s.sectionName))) sectionNames.set(sectionKey(s.sectionName), s.sectionName);
+  }
+
+  const sections: SectionChange[] = [...sectionNames].map(([key, name]) => {
+    const before = sectionsA.get(key);
+    const after = sectionsB.get(key);
+    const principleIds = [...new Set([...Object.keys(before?.scores ?? {}), ...Object.keys(after?.scores ?? {})])];
+
+    return {
+      name,
+      ...scoreChange(
+        before ? summarizeSection(before, principles, profileA)?.average : null,
+        after ? summarizeSection(after, principles, profileB)?.average : null
+      ),
+      principles: principleIds
+        .map((id) => ({
+          id,
+          title: known(id)?.title ?? id,
+          ...scoreChange(sectionScore(before, id), sectionScore(after, id)),
+        }))
+        .filter((p) => p.before !== null || p.after !== null),
+    };
+  });
+
+  return {
+    overall: scoreChange(a.overallScore, b.overallScore),
+    principles: changes,
+    sections,
+    gapsClosed,
+    gapsOpened,
+  };
+}
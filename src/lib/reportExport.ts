@@ -0,0 +1,264 @@
+/**
+ * Audit report exports. Every format is rendered from the same ReportDocument, built here
+ * on the server, so a live audit and its shared report export identically.
+ */
+
+import { type AuditProfile, createLegacyProfile, weightedAverage } from '../data/auditProfiles';
+import {
+  type KeyTakeaways,
+  type RefinedScore,
+  type ScoreEvidence,
+  type ScoredPrinciple,
+  type SectionResult,
+  buildKeyTakeaways,
+  combineSectionScores,
+  summarizeRatings,
+} from './auditScoring';
+
+export type ExportFormat = 'pdf' | 'docx' | 'csv' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['pdf', 'docx', 'csv', 'json'];
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as string[]).includes(value);
+}
+
+/** What an export is built from: a shared report, or the same fields posted from a live audit */
+export interface ExportableReport {
+  createdAt?: string;
+  overallScore?: number;
+  ratings: Record<string, number | null>;
+  sectionResults?: SectionResult[] | null;
+  keyTakeaways?: KeyTakeaways | null;
+  profile?: AuditProfile | null;
+  refinedScores?: RefinedScore[] | null;
+}
+
+export interface ExportPrincipleRow {
+  id: string;
+  title: string;
+  category: string;
+  /** Null when the principle was not applicable or not scored */
+  score: number | null;
+  notApplicable: boolean;
+  confidence?: 'high' | 'medium' | 'low';
+  reasoning?: string;
+  evidence: ScoreEvidence[];
+}
+
+export interface ExportSection {
+  name: string;
+  average: number | null;
+  rows: ExportPrincipleRow[];
+  /** JPEG data URLs keyed by screenshot number */
+  thumbnails: Record<number, string>;
+}
+
+export interface ReportDocument {
+  title: string;
+  createdAt: string;
+  profileName: string;
+  overallScore: number;
+  totalRated: number;
+  totalPrinciples: number;
+  categories: Array<{ category: string; average: number; principles: Array<{ id: string; title: string; score: number }> }>;
+  keyTakeaways: KeyTakeaways | null;
+  gaps: Array<{ id: string; title: string; score: number; recommendation: string; reasoning?: string; section?: string }>;
+  strengths: Array<{ id: string; title: string; score: number; section?: string }>;
+  sections: ExportSection[];
+  refined: Array<RefinedScore & { title: string }>;
+}
+
+/**
+ * Normalize a report into the content every export format renders.
+ * Returns null when nothing has been rated.
+ */
+export function buildReportDocument<C extends string>(
+  report: ExportableReport,
+  principles: ScoredPrinciple<C>[]
+): ReportDocument | null {
+  const profile = report.profile ?? createLegacyProfile(Object.keys(report.ratings));
+  const sectionResults = report.sectionResults ?? [];
+  const combined = sectionResults.length > 0 ? combineSectionScores(sectionResults, Object.keys(report.ratings)) : null;
+  const summary = summarizeRatings(report.ratings, principles, profile, combined);
+  if (!summary) return null;
+
+  const titleOf = (id: string) => principles.find((p) => p.id === id)?.title ?? id;
+
+  // Category breakdown over the rated principles, in library order
+  const byCategory = new Map<string, Array<{ id: string; title: string; score: number }>>();
+  for (const p of principles) {
+    const score = report.ratings[p.id];
+    if (score === null || score === undefined) continue;
+    if (!byCategory.has(p.category)) byCategory.set(p.category, []);
+    byCategory.get(p.category)!.push({ id: p.id, title: p.title, score });
+  }
+
+  const sections: ExportSection[] = sectionResults.map((section) => {
+    const rows: ExportPrincipleRow[] = principles
+      .filter((p) => section.scores[p.id])
+      .map((p) => {
+        const s = section.scores[p.id];
+        return {
+          id: p.id,
+          title: p.title,
+          category: p.category,
+          score: s.notApplicable || s.score <= 0 ? null : s.score,
+          notApplicable: Boolean(s.notApplicable),
+          confidence: s.confidence,
+          reasoning: s.reasoning,
+          evidence: s.evidence ?? [],
+        };
+      });
+    const scored = rows.filter((r) => r.score !== null).map((r) => [r.id, r.score!] as [string, number]);
+    return {
+      name: section.sectionName,
+      average: scored.length > 0 ? weightedAverage(scored, profile) : null,
+      rows,
+      thumbnails: section.thumbnails ?? {},
+    };
+  });
+
+  return {
+    title: 'Learning Science Audit Report',
+    createdAt: report.createdAt ?? new Date().toISOString(),
+    profileName: profile.name,
+    overallScore: summary.average,
+    totalRated: summary.totalRated,
+    totalPrinciples: Object.keys(report.ratings).length,
+    categories: [...byCategory].map(([category, scored]) => ({
+      category,
+      average: weightedAverage(scored.map((s) => [s.id, s.score]), profile),
+      principles: scored,
+    })),
+    keyTakeaways: report.keyTakeaways ?? buildKeyTakeaways(summary, profile),
+    gaps: summary.gaps.map((gap) => ({
+      id: gap.id,
+      title: gap.title,
+      score: gap.score,
+      recommendation: gap.recommendation,
+      reasoning: combined?.[gap.id]?.reasoning,
+      section: gap.contributingSection,
+    })),
+    strengths: summary.strengths.map((s) => ({ id: s.id, title: s.title, score: s.score, section: s.contributingSection })),
+    sections,
+    refined: (report.refinedScores ?? []).map((r) => ({ ...r, title: titleOf(r.principleId) })),
+  };
+}
+
+/** One spreadsheet row per section and principle, plus the overall ratings */
+export interface ScoreTableRow {
+  section: string;
+  principle_id: string;
+  principle: string;
+  category: string;
+  score: number | null;
+  refined_score: number | null;
+  confidence: string;
+  not_applicable: boolean;
+  reasoning: string;
+}
+
+export function buildScoreTable(doc: ReportDocument): ScoreTableRow[] {
+  const rows: ScoreTableRow[] = [];
+
+  for (const category of doc.categories) {
+    for (const p of category.principles) {
+      const refined = doc.refined.find((r) => r.principleId === p.id);
+      rows.push({
+        section: 'Overall',
+        principle_id: p.id,
+        principle: p.title,
+        category: category.category,
+        score: p.score,
+        refined_score: refined?.refinedScore ?? null,
+        confidence: '',
+        not_applicable: false,
+        reasoning: refined?.refinedReasoning ?? doc.gaps.find((g) => g.id === p.id)?.reasoning ?? '',
+      });
+    }
+  }
+
+  for (const section of doc.sections) {
+    for (const row of section.rows) {
+      rows.push({
+        section: section.name,
+        principle_id: row.id,
+        principle: row.title,
+        category: row.category,
+        score: row.score,
+        refined_score: null,
+        confidence: row.confidence ?? '',
+        not_applicable: row.notApplicable,
+        reasoning: row.reasoning ?? '',
+      });
+    }
+  }
+
+  return rows;
+}
+
+function csvCell(value: string | number | boolean | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: ScoreTableRow[]): string {
+  const header: Array<keyof ScoreTableRow> = [
+    'section',
+    'principle_id',
+    'principle',
+    'category',
+    'score',
+    'refined_score',
+    'confidence',
+    'not_applicable',
+    'reasoning',
+  ];
+  return [header.join(','), ...rows.map((row) => header.map((key) => csvCell(row[key])).join(','))].join('\r\n') + '\r\n';
+}
+
+export function toJson(doc: ReportDocument): string {
+  return JSON.stringify(
+    {
+      title: doc.title,
+      createdAt: doc.createdAt,
+      profile: doc.profileName,
+      overallScore: doc.overallScore,
+      categories: doc.categories.map(({ category, average }) => ({ category, average })),
+      scores: buildScoreTable(doc),
+    },
+    null,
+    2
+  );
+}
+
+/** Bytes of a JPEG data URL (the format thumbnails are saved in), or null for anything else */
+export function decodeJpegDataUrl(dataUrl: string): Uint8Array | null {
+  const match = dataUrl.match(/^data:image\/jpeg;base64,(.+)$/);
+  // Copied out of Buffer's shared pool, since pdf-lib reads the underlying ArrayBuffer
+  return match ? Uint8Array.from(Buffer.from(match[1], 'base64')) : null;
+}
+
+/** Pixel size of a JPEG, read from its start-of-frame marker */
+export function jpegSize(bytes: Uint8Array): { width: number; height: number } | null {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) + bytes[offset + 3];
+    // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: (bytes[offset + 5] << 8) + bytes[offset + 6],
+        width: (bytes[offset + 7] << 8) + bytes[offset + 8],
+      };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+export function formatReportDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
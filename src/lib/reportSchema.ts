@@ -0,0 +1,202 @@
+/**
+ * Server-side validation for reports posted to /api/reports (and live audits posted to /api/export)
+ * and for changes made by their owners
+ */
+
+import { z } from 'astro/zod';
+import { REPORT_ACCESS_MODES } from './reportAccess';
+import { MAX_REPORT_BYTES } from '../config/constants';
+import { isAudienceKey, isContextKey } from '../data/relevance';
+
+const confidenceSchema = z.enum(['high', 'medium', 'low']);
+
+const aiScoreSchema = z.object({
+  score: z.number().min(0).max(5),
+  reasoning: z.string().max(5000),
+  confidence: confidenceSchema,
+  notApplicable: z.boolean().optional(),
+  consensus: z
+    .object({
+      scores: z.array(z.number().min(0).max(5)).max(10),
+      agreement: z.number().min(0).max(1),
+      spread: z.number().min(0).max(5),
+    })
+    .optional(),
+  evidence: z
+    .array(
+      z.object({
+        image: z.number().int().min(1),
+        quote: z.string().max(2000).optional(),
+        region: z
+          .object({
+            x: z.number().min(0).max(1),
+            y: z.number().min(0).max(1),
+            width: z.number().min(0).max(1),
+            height: z.number().min(0).max(1),
+          })
+          .optional(),
+      })
+    )
+    .max(20)
+    .optional(),
+});
+
+const sectionResultSchema = z.object({
+  sectionId: z.string().min(1).max(100),
+  sectionName: z.string().max(200),
+  scores: z.record(aiScoreSchema),
+  thumbnails: z.record(z.string().regex(/^data:image\/jpeg;base64,[A-Za-z0-9+/=]+$/, 'must be a JPEG data URL')).optional(),
+});
+
+const takeawayGapSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  category: z.string(),
+  score: z.number(),
+  recommendation: z.string().max(5000),
+  contributingSection: z.string().optional(),
+});
+
+const keyTakeawaysSchema = z.object({
+  priorityCategory: z.object({ category: z.string(), avg: z.number(), count: z.number().int() }),
+  topActions: z.array(takeawayGapSchema).max(10),
+  quickWins: z.array(takeawayGapSchema).max(100),
+});
+
+const profileSchema = z.object({
+  id: z.string().max(100),
+  name: z.string().max(200),
+  description: z.string().max(2000).optional(),
+  principleIds: z.array(z.string()).max(200),
+  weights: z.record(z.number().min(0)),
+  gapThreshold: z.number().min(1).max(5),
+  strengthThreshold: z.number().min(1).max(5),
+  audience: z.string().refine(isAudienceKey, 'Unknown audience').optional(),
+  context: z.string().refine(isContextKey, 'Unknown learning context').optional(),
+});
+
+const refinedScoreSchema = z.object({
+  principleId: z.string(),
+  originalScore: z.number().min(0).max(5),
+  refinedScore: z.number().min(0).max(5),
+  refinedReasoning: z.string().max(5000),
+  specificActions: z.array(z.string().max(2000)).max(20),
+});
+
+// The author fills in who made each change and when; the server records it
+const scoreOverrideSchema = z.object({
+  principleId: z.string(),
+  previousScore: z.number().min(0).max(5).nullable(),
+  score: z.number().int().min(1).max(5),
+  justification: z.string().trim().min(1, 'A rationale is required').max(2000),
+});
+
+const passwordSchema = z.string().min(8, 'Password must be at least 8 characters').max(200);
+
+const accessFields = {
+  mode: z.enum(REPORT_ACCESS_MODES),
+  password: passwordSchema.optional(),
+  /** ISO timestamp, or null for no expiry */
+  expiresAt: z.string().datetime().nullable().optional(),
+};
+
+export const reportAccessInputSchema = z
+  .object(accessFields)
+  .refine((access) => access.mode !== 'password' || access.password !== undefined, {
+    message: 'Password required for password-protected reports',
+    path: ['password'],
+  });
+
+const productNameSchema = z.string().trim().max(200);
+
+// Tags are trimmed, and blanks and repeats dropped
+const tagsSchema = z
+  .array(z.string().trim().max(40))
+  .max(20)
+  .transform((tags) => [...new Set(tags.filter(Boolean))]);
+
+/** Changes an owner can make to a report; omitted fields stay as they are */
+export const reportUpdateSchema = z.object({
+  productName: productNameSchema.nullable().optional(),
+  tags: tagsSchema.optional(),
+  /** Move the report into a workspace the owner edits, or null to take it out */
+  workspaceId: z.string().max(50).nullable().optional(),
+  /** Attach the report to a project the owner edits, or null to detach it */
+  projectId: z.string().max(50).nullable().optional(),
+  mode: accessFields.mode.optional(),
+  password: accessFields.password,
+  expiresAt: accessFields.expiresAt,
+  /** Invalidate every signed link and password grant issued so far */
+  revokeGrants: z.boolean().optional(),
+});
+
+export const reportInputSchema = z.object({
+  productName: productNameSchema.nullable().optional(),
+  tags: tagsSchema.optional(),
+  /** Ignored when saving: the server scores the ratings itself */
+  overallScore: z.number().min(0).max(5).optional(),
+  ratings: z.record(z.number().int().min(1).max(5).nullable()),
+  sectionResults: z.array(sectionResultSchema).max(50).nullable().optional(),
+  keyTakeaways: keyTakeawaysSchema.nullable().optional(),
+  profile: profileSchema.nullable().optional(),
+  refinedScores: z.array(refinedScoreSchema).max(200).nullable().optional(),
+  /** Why the author changed AI scores; every rating that differs from the AI's needs one */
+  scoreOverrides: z.array(scoreOverrideSchema).max(200).optional(),
+  previousVersionId: z.string().max(50).nullable().optional(),
+  /** Project the audit tracks; the author must be signed in and edit it */
+  projectId: z.string().max(50).nullable().optional(),
+  access: reportAccessInputSchema.optional(),
+});
+
+/** A live audit to export: a report's contents, without its sharing details */
+export const reportExportSchema = reportInputSchema
+  .pick({ overallScore: true, ratings: true, sectionResults: true, keyTakeaways: true, profile: true, refinedScores: true });
+
+export type ReportInput = z.infer<typeof reportInputSchema>;
+export type ReportUpdate = z.infer<typeof reportUpdateSchema>;
+
+/**
+ * Principle ids a report refers to that aren't in the library, without repeats. Reports render
+ * from the library, so a rating or score for anything else has nothing to show it with.
+ */
+export function unknownPrincipleIds(
+  report: Pick<ReportInput, 'ratings'> & Partial<Pick<ReportInput, 'sectionResults' | 'refinedScores' | 'scoreOverrides'>>,
+  principleIds: string[]
+): string[] {
+  const referenced = [
+    ...Object.keys(report.ratings),
+    ...(report.sectionResults ?? []).flatMap((section) => Object.keys(section.scores)),
+    ...(report.refinedScores ?? []).map((refined) => refined.principleId),
+    ...(report.scoreOverrides ?? []).map((override) => override.principleId),
+  ];
+  return [...new Set(referenced)].filter((id) => !principleIds.includes(id));
+}
+
+/** The validation issues as one message, e.g. "ratings.x: Expected number, received string" */
+export function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+/** The request body as JSON, or an error response when it is too large or not JSON */
+export async function readJsonBody(request: Request): Promise<{ body: unknown } | Response> {
+  const tooLarge = () =>
+    new Response(
+      JSON.stringify({ error: 'Report is too large' }),
+      { status: 413, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  if (Number(request.headers.get('Content-Length') ?? 0) > MAX_REPORT_BYTES) return tooLarge();
+  const text = await request.text();
+  if (new TextEncoder().encode(text).length > MAX_REPORT_BYTES) return tooLarge();
+
+  try {
+    return { body: JSON.parse(text) };
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid JSON' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
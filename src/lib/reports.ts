@@ -0,0 +1,222 @@
+/**
+ * Reading shared audit reports (the audit_reports table) and the version links between them
+ */
+
+import type { StorageClient } from './storage';
+import type { AuditProfile } from '../data/auditProfiles';
+import type { KeyTakeaways, RefinedScore, ScoreOverride, SectionResult } from './auditScoring';
+import type { ReportAccessMode, ReportAccessSettings } from './reportAccess';
+
+export interface SavedReport {
+  id: string;
+  createdAt: string;
+  /** What was audited, as named by the author */
+  productName: string | null;
+  tags: string[];
+  overallScore: number;
+  ratings: Record<string, number | null>;
+  sectionResults: SectionResult[] | null;
+  keyTakeaways: KeyTakeaways | null;
+  profile: AuditProfile | null;
+  /** Low scores revisited after the follow-up questions */
+  refinedScores: RefinedScore[] | null;
+  /** Scores changed by reviewers after the report was shared, oldest first */
+  scoreOverrides: ScoreOverride[];
+  /** The report this one is a new version of */
+  previousVersionId: string | null;
+  /** The project this audit tracks, if it was attached to one */
+  projectId: string | null;
+}
+
+interface ReportRow {
+  id: string;
+  created_at: string;
+  product_name?: string | null;
+  tags?: string[] | null;
+  overall_score: number;
+  ratings: Record<string, number | null>;
+  section_results: SectionResult[] | null;
+  key_takeaways: KeyTakeaways | null;
+  profile: AuditProfile | null;
+  refined_scores: RefinedScore[] | null;
+  score_overrides?: ScoreOverride[] | null;
+  previous_version_id: string | null;
+  project_id?: string | null;
+  // Access columns are absent from reports saved before access control
+  access_mode?: ReportAccessMode | null;
+  owner_key_hash?: string | null;
+  user_id?: string | null;
+  workspace_id?: string | null;
+  password_hash?: string | null;
+  expires_at?: string | null;
+  grants_revoked_at?: string | null;
+}
+
+export function reportFromRow(row: ReportRow): SavedReport {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    productName: row.product_name ?? null,
+    tags: row.tags ?? [],
+    overallScore: row.overall_score,
+    ratings: row.ratings,
+    sectionResults: row.section_results,
+    keyTakeaways: row.key_takeaways,
+    profile: row.profile ?? null,
+    refinedScores: row.refined_scores ?? null,
+    scoreOverrides: row.score_overrides ?? [],
+    previousVersionId: row.previous_version_id ?? null,
+    projectId: row.project_id ?? null,
+  };
+}
+
+export function accessFromRow(row: ReportRow): ReportAccessSettings {
+  return {
+    mode: row.access_mode ?? 'link',
+    ownerKeyHash: row.owner_key_hash ?? null,
+    userId: row.user_id ?? null,
+    workspaceId: row.workspace_id ?? null,
+    passwordHash: row.password_hash ?? null,
+    expiresAt: row.expires_at ?? null,
+    grantsRevokedAt: row.grants_revoked_at ?? null,
+  };
+}
+
+/** A report and its access settings by id, or null when it doesn't exist */
+export async function fetchReportWithAccess(
+  client: StorageClient,
+  id: string
+): Promise<{ report: SavedReport; access: ReportAccessSettings } | null> {
+  const { data, error } = await client
+    .from('audit_reports')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error || !data) return null;
+  return { report: reportFromRow(data as ReportRow), access: accessFromRow(data as ReportRow) };
+}
+
+/** A report by id, or null when it doesn't exist. Callers showing it to viewers must check access. */
+export async function fetchReport(client: StorageClient, id: string): Promise<SavedReport | null> {
+  return (await fetchReportWithAccess(client, id))?.report ?? null;
+}
+
+/**
+ * Reports saved as new versions of this one, oldest first. A report can have several when
+ * more than one re-audit started from it.
+ */
+export async function fetchNextVersionIds(client: StorageClient, id: string): Promise<string[]> {
+  const { data, error } = await client
+    .from('audit_reports')
+    .select('id')
+    .eq('previous_version_id', id)
+    .order('created_at', { ascending: true });
+
+  if (error || !data) return [];
+  return (data as Array<{ id: string }>).map((row) => row.id);
+}
+
+/** A report as listed on its author's dashboard */
+export interface ReportListing {
+  id: string;
+  createdAt: string;
+  productName: string | null;
+  tags: string[];
+  overallScore: number;
+  accessMode: ReportAccessMode;
+  previousVersionId: string | null;
+  workspaceId: string | null;
+  projectId: string | null;
+}
+
+const LISTING_COLUMNS =
+  'id, created_at, product_name, tags, overall_score, access_mode, previous_version_id, workspace_id, project_id';
+
+function listingFromRow(row: ReportRow): ReportListing {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    productName: row.product_name ?? null,
+    tags: row.tags ?? [],
+    overallScore: row.overall_score,
+    accessMode: row.access_mode ?? 'link',
+    previousVersionId: row.previous_version_id ?? null,
+    workspaceId: row.workspace_id ?? null,
+    projectId: row.project_id ?? null,
+  };
+}
+
+/** Reports saved by an account, newest first */
+export async function fetchUserReports(client: StorageClient, userId: string): Promise<ReportListing[]> {
+  const { data, error } = await client
+    .from('audit_reports')
+    .select(LISTING_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error || !data) return [];
+  return (data as ReportRow[]).map(listingFromRow);
+}
+
+/** Reports belonging to a workspace, newest first */
+export async function fetchWorkspaceReports(client: StorageClient, workspaceId: string): Promise<ReportListing[]> {
+  const { data, error } = await client
+    .from('audit_reports')
+    .select(LISTING_COLUMNS)
+    .eq('workspace_id', workspaceId)
+    .order('created_at', { ascending: false });
+
+  if (error || !data) return [];
+  return (data as ReportRow[]).map(listingFromRow);
+}
+
+/**
+ * Audits attached to a project, oldest first. Callers showing them must check the project's access;
+ * attaching a report to a project is what shares it with the project's viewers.
+ */
+export async function fetchProjectReports(client: StorageClient, projectId: string): Promise<SavedReport[]> {
+  const { data, error } = await client
+    .from('audit_reports')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+
+  if (error || !data) return [];
+  return (data as ReportRow[]).map(reportFromRow);
+}
+
+/**
+ * Report id from a pasted share link (…/audit/<id>) or a bare id
+ */
+export function parseReportId(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+  const match = trimmed.match(/\/audit\/([A-Za-z0-9_-]+)\/?(?:[?#].*)?$/);
+  if (match) return match[1];
+  return /^[A-Za-z0-9_-]+$/.test(trimmed) ? trimmed : null;
+}
+
+export interface ReportFilter {
+  /** Matched against product names, tags and ids, ignoring case */
+  query?: string;
+  tag?: string | null;
+  /** Lowest and highest overall score to include */
+  minScore?: number;
+  maxScore?: number;
+}
+
+/** Listings matching every part of a filter */
+export function filterReports(reports: ReportListing[], { query, tag, minScore = 0, maxScore = 5 }: ReportFilter): ReportListing[] {
+  const needle = query?.trim().toLowerCase();
+  return reports.filter(
+    (report) =>
+      (!needle ||
+        report.productName?.toLowerCase().includes(needle) ||
+        report.tags.some((t) => t.toLowerCase().includes(needle)) ||
+        report.id.toLowerCase().includes(needle)) &&
+      (!tag || report.tags.includes(tag)) &&
+      report.overallScore >= minScore &&
+      report.overallScore <= maxScore
+  );
+}
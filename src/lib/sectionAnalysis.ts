@@ -0,0 +1,286 @@
+/**
+ * Scoring one audit section: request validation, the record_scores tool call (repeated for
+ * consensus runs) and assembling the result. Shared by /api/analyze and /api/analyze-stream.
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+import { z } from 'astro/zod';
+import { getAuditDataById } from '../data/auditPrompts';
+import { getAuditPrinciples, resolveAuditPrincipleIds } from './auditPrinciples';
+import {
+  detectSectionType,
+  getApplicablePrincipleIds,
+  type SectionType,
+  type UpfrontContextAnswers,
+} from '../data/upfrontQuestions';
+import { isAudienceKey, isContextKey, describeRelevanceContext } from '../data/relevance';
+import { MAX_IMAGES_PER_SECTION, MAX_CONSENSUS_RUNS } from '../config/constants';
+import type { LLMProvider } from './llm';
+import { buildAnalysisPrompt } from './analysisPrompts';
+import { navigationAnalysisRequestSchema } from './navigationSessionFile';
+import { describeIssues } from './reportSchema';
+import type { NavigationAnalysisRequest } from '../types/navigation';
+import { aggregateRuns } from './consensus';
+import type { AIScore } from './auditScoring';
+import {
+  requestPrincipleEntries,
+  StructuredOutputError,
+  type PrincipleFailure,
+} from './structuredOutput';
+
+// Scores must cite the screenshots (numbered from 1) that justify them
+export function createScoreResultSchema(imageCount: number) {
+  return z.object({
+    score: z.number().int().min(1).max(5),
+    reasoning: z.string().min(1),
+    confidence: z.enum(['high', 'medium', 'low']),
+    notApplicable: z.boolean().optional(),
+    evidence: z.array(
+      z.object({
+        image: z.number().int().min(1).max(imageCount),
+        quote: z.string().optional(),
+        region: z.object({
+          x: z.number().min(0).max(1),
+          y: z.number().min(0).max(1),
+          width: z.number().min(0).max(1),
+          height: z.number().min(0).max(1),
+        }).optional(),
+      })
+    ),
+  });
+}
+
+// Shape of one principle's entry in the record_scores tool input
+export function createScoreResultJsonSchema(imageCount: number) {
+  return {
+    type: 'object',
+    properties: {
+      score: { type: 'integer', minimum: 1, maximum: 5 },
+      reasoning: { type: 'string', description: 'Brief explanation (1-2 sentences)' },
+      confidence: { type: 'string', enum: ['high', 'medium', 'low'] },
+      evidence: {
+        type: 'array',
+        description: 'The screenshots this score is based on',
+        items: {
+          type: 'object',
+          properties: {
+            image: { type: 'integer', minimum: 1, maximum: imageCount, description: 'Screenshot number' },
+            quote: { type: 'string', description: 'Visible text that supports the score, quoted exactly' },
+            region: {
+              type: 'object',
+              description: 'Area of the screenshot that supports the score, as fractions (0-1) of its width and height',
+              properties: {
+                x: { type: 'number', minimum: 0, maximum: 1 },
+                y: { type: 'number', minimum: 0, maximum: 1 },
+                width: { type: 'number', minimum: 0, maximum: 1 },
+                height: { type: 'number', minimum: 0, maximum: 1 },
+              },
+              required: ['x', 'y', 'width', 'height'],
+            },
+          },
+          required: ['image'],
+        },
+      },
+    },
+    required: ['score', 'reasoning', 'confidence', 'evidence'],
+  };
+}
+
+export interface AnalysisResult {
+  scores: Record<string, AIScore>;
+  /** Principles the model failed to score validly; the rest of the section is still returned */
+  failures?: PrincipleFailure[];
+}
+
+/** Raised for requests that cannot be analyzed as sent (a 400 response) */
+export class AnalysisRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnalysisRequestError';
+  }
+}
+
+/** A validated analysis request, ready to send to the model */
+export interface SectionAnalysis {
+  imageCount: number;
+  messages: Anthropic.MessageParam[];
+  sectionType: SectionType;
+  /** Every selected principle */
+  principleIds: string[];
+  /** The selected principles that apply to this section type; only these are scored */
+  applicablePrincipleIds: string[];
+  runCount: number;
+}
+
+/**
+ * Validate an analysis request body and build the prompt for it. A navigated section sends
+ * `navigation` (a NavigationAnalysisRequest): its captures are the first screenshots, followed by
+ * any `images` uploaded to the section since, and the interactions and flows around the captures
+ * go into the prompt.
+ */
+export async function prepareSectionAnalysis(body: {
+  images?: Array<{ data: string; mediaType: string }>;
+  sectionName?: string;
+  sectionType?: SectionType;
+  sectionNotes?: string;
+  upfrontContext?: UpfrontContextAnswers;
+  principleIds?: string[];
+  profile?: {
+    principleIds?: string[];
+    weights?: Record<string, number>;
+    audience?: string;
+    context?: string;
+  };
+  runs?: number;
+  navigation?: unknown;
+}): Promise<SectionAnalysis> {
+  const { sectionName, sectionType, sectionNotes, upfrontContext, principleIds, profile, runs } = body;
+
+  let navigation: NavigationAnalysisRequest | undefined;
+  if (body.navigation !== undefined) {
+    const parsed = navigationAnalysisRequestSchema.safeParse(body.navigation);
+    if (!parsed.success) {
+      throw new AnalysisRequestError(`Invalid navigation context: ${describeIssues(parsed.error)}`);
+    }
+    navigation = parsed.data;
+  }
+  const images = navigation
+    ? [
+        ...navigation.captures.map((capture) => ({ data: capture.image, mediaType: capture.mediaType })),
+        ...(Array.isArray(body.images) ? body.images : []),
+      ]
+    : body.images;
+
+  if (!images || !Array.isArray(images) || images.length === 0) {
+    throw new AnalysisRequestError('No images provided');
+  }
+
+  if (images.length > MAX_IMAGES_PER_SECTION) {
+    throw new AnalysisRequestError(`Maximum ${MAX_IMAGES_PER_SECTION} images allowed per section`);
+  }
+
+  const principles = await getAuditPrinciples();
+  // An audit profile's principle list takes precedence over a bare principleIds list
+  const selectedIds = resolveAuditPrincipleIds(principles, profile?.principleIds ?? principleIds);
+  const weights: Record<string, number> =
+    profile?.weights && typeof profile.weights === 'object' ? profile.weights : {};
+  const tailoredFor = describeRelevanceContext(
+    isAudienceKey(profile?.audience) ? profile.audience : undefined,
+    isContextKey(profile?.context) ? profile.context : undefined
+  );
+  if (selectedIds.length === 0) {
+    throw new AnalysisRequestError('No valid principles selected');
+  }
+  const auditData = getAuditDataById(principles, selectedIds);
+
+  // Use override if provided, otherwise detect from name
+  const resolvedSectionType: SectionType = sectionType || (sectionName ? detectSectionType(sectionName) : 'overall');
+
+  // Number each screenshot so scores can cite them
+  const imageContent: Anthropic.ContentBlockParam[] = images.flatMap((img, i) => [
+    { type: 'text' as const, text: `Screenshot ${i + 1}:` },
+    {
+      type: 'image' as const,
+      source: {
+        type: 'base64' as const,
+        media_type: img.mediaType as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp',
+        data: img.data,
+      },
+    },
+  ]);
+
+  // Only applicable principles are sent to the model; the rest are marked not applicable
+  const allPrincipleIds = Object.keys(auditData);
+  const principleAppliesTo: Record<string, SectionType[]> = {};
+  for (const [id, data] of Object.entries(auditData)) {
+    principleAppliesTo[id] = data.appliesTo;
+  }
+  const applicablePrincipleIds = getApplicablePrincipleIds(resolvedSectionType, allPrincipleIds, principleAppliesTo);
+
+  const prompt = buildAnalysisPrompt(auditData, sectionName, resolvedSectionType, sectionNotes, upfrontContext, weights, tailoredFor, navigation);
+
+  return {
+    imageCount: images.length,
+    messages: [{ role: 'user', content: [...imageContent, { type: 'text', text: prompt }] }],
+    sectionType: resolvedSectionType,
+    principleIds: allPrincipleIds,
+    applicablePrincipleIds,
+    // Consensus scoring: independent runs over the same prompt, aggregated per principle
+    runCount: Math.min(Math.max(Math.floor(Number(runs)) || 1, 1), MAX_CONSENSUS_RUNS),
+  };
+}
+
+interface RunAnalysisOptions {
+  /** Streams the runs and reports each principle's score once every run has scored it */
+  onScore?: (principleId: string, score: AIScore) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Score a prepared section. Throws StructuredOutputError when no principle could be scored.
+ */
+export async function runSectionAnalysis(
+  provider: LLMProvider,
+  analysis: SectionAnalysis,
+  { onScore, signal }: RunAnalysisOptions = {}
+): Promise<AnalysisResult> {
+  const { applicablePrincipleIds, runCount } = analysis;
+
+  // Valid entries per principle across runs, so a consensus can be reported as soon as it is known
+  const runEntries: Record<string, AIScore[]> = {};
+  const onEntry = onScore
+    ? (principleId: string, entry: AIScore) => {
+        const received = (runEntries[principleId] ??= []);
+        received.push(entry);
+        if (received.length === runCount) {
+          onScore(principleId, aggregateRuns(received.map((e) => ({ [principleId]: e })), [principleId])[principleId]);
+        }
+      }
+    : undefined;
+
+  const runResults = await Promise.all(
+    Array.from({ length: runCount }, () =>
+      requestPrincipleEntries({
+        provider,
+        messages: analysis.messages,
+        toolName: 'record_scores',
+        toolDescription: 'Record the score, reasoning, and confidence for each learning science principle.',
+        key: 'scores',
+        entryJsonSchema: createScoreResultJsonSchema(analysis.imageCount),
+        entrySchema: createScoreResultSchema(analysis.imageCount),
+        principleIds: applicablePrincipleIds,
+        onEntry,
+        signal,
+      })
+    )
+  );
+
+  const entries = aggregateRuns(runResults.map((r) => r.entries), applicablePrincipleIds);
+  // A principle only fails when no run produced a valid score for it
+  const failures = runResults
+    .flatMap((r) => r.failures)
+    .filter((f, i, all) => !entries[f.principleId] && all.findIndex((o) => o.principleId === f.principleId) === i);
+
+  if (applicablePrincipleIds.length > 0 && Object.keys(entries).length === 0) {
+    throw new StructuredOutputError('The model did not return valid scores for any principle', failures);
+  }
+
+  const result: AnalysisResult = { scores: { ...entries } };
+  if (failures.length > 0) {
+    result.failures = failures;
+  }
+
+  // Mark non-applicable principles so the UI can display them properly
+  for (const principleId of analysis.principleIds) {
+    if (!applicablePrincipleIds.includes(principleId)) {
+      result.scores[principleId] = {
+        score: 0,
+        reasoning: `Not applicable to ${analysis.sectionType} sections`,
+        confidence: 'high',
+        notApplicable: true,
+      };
+    }
+  }
+
+  return result;
+}
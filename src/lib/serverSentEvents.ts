@@ -0,0 +1,52 @@
+/**
+ * Minimal server-sent events over fetch: EventSource only supports GET, and analysis
+ * requests carry their screenshots in a POST body.
+ */
+
+export interface ServerSentEvent {
+  event: string;
+  data: unknown;
+}
+
+/** Encode one event with a JSON payload */
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function parseEvent(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+  }
+  return data.length > 0 ? { event, data: JSON.parse(data.join('\n')) } : null;
+}
+
+/**
+ * Read a streamed response, calling onEvent for each event as it arrives. Resolves when the stream ends.
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  if (!response.body) return;
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value.replace(/\r\n/g, '\n');
+
+    let boundary;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const parsed = parseEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (parsed) onEvent(parsed);
+    }
+  }
+
+  const last = parseEvent(buffer);
+  if (last) onEvent(last);
+}
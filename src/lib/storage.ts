@@ -0,0 +1,74 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createLocalClient } from './localStore';
+import { supabase } from './supabase';
+
+export interface StorageResult {
+  data: unknown;
+  error: { message: string } | null;
+}
+
+/** A query on a table, filtered and ordered, that resolves to its rows (or, after a write, to nothing) */
+export interface StorageQuery extends PromiseLike<StorageResult> {
+  eq(column: string, value: unknown): this;
+  in(column: string, values: readonly unknown[]): this;
+  order(column: string, options?: { ascending?: boolean }): this;
+  single(): PromiseLike<StorageResult>;
+  maybeSingle(): PromiseLike<StorageResult>;
+}
+
+export interface StorageTable {
+  select(columns?: string): StorageQuery;
+  insert(values: Record<string, unknown> | Record<string, unknown>[]): StorageQuery;
+  update(changes: Record<string, unknown>): StorageQuery;
+  delete(): StorageQuery;
+}
+
+/**
+ * The part of the Supabase client the app uses, which the local backend (src/lib/localStore.ts)
+ * implements too. Code that stores data takes a StorageClient, so a query builder method only
+ * Supabase has doesn't type-check.
+ */
+export interface StorageClient {
+  from(table: string): StorageTable;
+}
+
+/**
+ * Supabase's query builder is a StorageTable as it is, except that select() infers its rows from
+ * the column list; with a column list only known at runtime that inference never finishes.
+ */
+function supabaseStorage(client: SupabaseClient): StorageClient {
+  return {
+    from(table) {
+      const query = client.from(table);
+      return {
+        select: (columns = '*') => query.select<string, Record<string, unknown>>(columns),
+        insert: (values) => query.insert(values),
+        update: (changes) => query.update(changes),
+        delete: () => query.delete(),
+      };
+    },
+  };
+}
+
+/**
+ * Pick where reports (and everything attached to them) are stored from STORAGE_BACKEND:
+ * - "supabase" (default): the project in SUPABASE_URL, with the server-only SUPABASE_SERVICE_ROLE_KEY
+ * - "local": JSON files in LOCAL_STORAGE_DIR (default .data), for self-hosting and offline development
+ *
+ * Accounts always use Supabase Auth, so signing in needs Supabase whichever backend is selected.
+ * Returns null when Supabase is selected but not configured.
+ */
+function createStorageFromEnv(env: Record<string, string | undefined> = import.meta.env): StorageClient | null {
+  const backend = env.STORAGE_BACKEND || 'supabase';
+
+  if (backend === 'local') {
+    return createLocalClient(env.LOCAL_STORAGE_DIR || '.data');
+  }
+
+  if (backend !== 'supabase') {
+    console.warn(`Unknown STORAGE_BACKEND "${backend}". Using Supabase.`);
+  }
+  return supabase && supabaseStorage(supabase);
+}
+
+export const storage = createStorageFromEnv();
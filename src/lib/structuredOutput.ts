@@ -0,0 +1,186 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import type { z } from 'astro/zod';
+import type { LLMProvider } from './llm';
+
+/** A principle whose result was missing or invalid in the model's output */
+export interface PrincipleFailure {
+  principleId: string;
+  reason: string;
+}
+
+/**
+ * Raised when the model's structured output could not be validated for any of
+ * the requested principles, even after repair attempts.
+ */
+export class StructuredOutputError extends Error {
+  failures: PrincipleFailure[];
+
+  constructor(message: string, failures: PrincipleFailure[]) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.failures = failures;
+  }
+}
+
+interface PrincipleToolRequest<T> {
+  provider: LLMProvider;
+  messages: Anthropic.MessageParam[];
+  /** Tool the model is required to call; its input holds one entry per principle under `key` */
+  toolName: string;
+  toolDescription: string;
+  key: string;
+  /** JSON schema for a single principle's entry, sent to the model */
+  entryJsonSchema: Record<string, unknown>;
+  /** Zod schema each entry is validated against */
+  entrySchema: z.ZodType<T>;
+  principleIds: string[];
+  /** Total model calls, including the first (default 3) */
+  maxAttempts?: number;
+  /** Streams the response and reports each principle's entry as soon as it is complete and valid */
+  onEntry?: (principleId: string, entry: T) => void;
+  signal?: AbortSignal;
+}
+
+interface PrincipleToolResult<T> {
+  entries: Record<string, T>;
+  /** Principles that still failed validation after the last attempt */
+  failures: PrincipleFailure[];
+}
+
+/**
+ * Validate the entries for the given principles, splitting them into valid results and failures
+ */
+export function validatePrincipleEntries<T>(
+  raw: unknown,
+  principleIds: string[],
+  entrySchema: z.ZodType<T>
+): PrincipleToolResult<T> {
+  const entries: Record<string, T> = {};
+  const failures: PrincipleFailure[] = [];
+  const record = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+
+  for (const principleId of principleIds) {
+    if (!(principleId in record)) {
+      failures.push({ principleId, reason: 'missing from response' });
+      continue;
+    }
+    const parsed = entrySchema.safeParse(record[principleId]);
+    if (parsed.success) {
+      entries[principleId] = parsed.data;
+    } else {
+      const reason = parsed.error.issues
+        .map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+        .join('; ');
+      failures.push({ principleId, reason });
+    }
+  }
+
+  return { entries, failures };
+}
+
+/**
+ * Ask the model for per-principle results through a forced tool call and validate them.
+ * Missing or invalid entries are returned to the model as a tool error and re-requested,
+ * keeping the entries that already passed, until every principle validates or attempts run out.
+ * With `onEntry`, responses are streamed and each entry is reported once, as soon as it validates.
+ */
+export async function requestPrincipleEntries<T>({
+  provider,
+  messages,
+  toolName,
+  toolDescription,
+  key,
+  entryJsonSchema,
+  entrySchema,
+  principleIds,
+  maxAttempts = 3,
+  onEntry,
+  signal,
+}: PrincipleToolRequest<T>): Promise<PrincipleToolResult<T>> {
+  const tool: Anthropic.Tool = {
+    name: toolName,
+    description: toolDescription,
+    input_schema: {
+      type: 'object',
+      properties: {
+        [key]: {
+          type: 'object',
+          properties: Object.fromEntries(principleIds.map((id) => [id, entryJsonSchema])),
+          required: principleIds,
+        },
+      },
+      required: [key],
+    },
+  };
+
+  const conversation = [...messages];
+  const entries: Record<string, T> = {};
+  let pending = principleIds;
+  let failures: PrincipleFailure[] = [];
+
+  const reported = new Set<string>();
+  const report = (valid: Record<string, T>) => {
+    for (const [principleId, entry] of Object.entries(valid)) {
+      if (reported.has(principleId)) continue;
+      reported.add(principleId);
+      onEntry?.(principleId, entry);
+    }
+  };
+
+  for (let attempt = 1; attempt <= maxAttempts && pending.length > 0; attempt++) {
+    const request = {
+      messages: conversation,
+      tools: [tool],
+      toolChoice: { type: 'tool', name: toolName } as const,
+      signal,
+    };
+    const requested = pending;
+    const response = onEntry
+      ? await provider.streamMessage(request, (snapshot) => {
+          // An entry is complete once the model has moved on to the next one
+          const partial = (snapshot as Record<string, unknown> | undefined)?.[key];
+          if (!partial || typeof partial !== 'object') return;
+          const started = Object.keys(partial).slice(0, -1).filter((id) => requested.includes(id));
+          report(validatePrincipleEntries(partial, started, entrySchema).entries);
+        })
+      : await provider.createMessage(request);
+
+    const toolUse = response.content.find((block) => block.type === 'tool_use');
+    if (!toolUse || toolUse.type !== 'tool_use') {
+      failures = pending.map((principleId) => ({ principleId, reason: 'no structured response' }));
+      continue;
+    }
+
+    const input = toolUse.input as Record<string, unknown>;
+    const result = validatePrincipleEntries(input?.[key], pending, entrySchema);
+    Object.assign(entries, result.entries);
+    report(result.entries);
+    failures = result.failures;
+    if (failures.length === 0) break;
+
+    if (response.stop_reason === 'max_tokens') {
+      failures = failures.map((f) => ({ ...f, reason: `${f.reason} (response truncated)` }));
+    }
+
+    // Ask for just the failed principles, explaining what was wrong
+    conversation.push(
+      { role: 'assistant', content: response.content },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: toolUse.id,
+            is_error: true,
+            content: `These principles were missing or invalid:\n${failures
+              .map((f) => `- ${f.principleId}: ${f.reason}`)
+              .join('\n')}\n\nCall ${toolName} again with entries for only these principles.`,
+          },
+        ],
+      }
+    );
+    pending = failures.map((f) => f.principleId);
+  }
+
+  return { entries, failures };
+}
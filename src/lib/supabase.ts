@@ -1,12 +1,17 @@
 import { createClient } from '@supabase/supabase-js';
 
+// Stored data is read and written with the service-role key, which bypasses row level security;
+// the tables deny the anon key, and the server checks who may see what. Never expose this key
+// to the browser. Accounts use the anon key (src/lib/auth.ts).
 const supabaseUrl = import.meta.env.SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.SUPABASE_ANON_KEY;
+const supabaseServiceRoleKey = import.meta.env.SUPABASE_SERVICE_ROLE_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  console.warn('Supabase credentials not configured. Report sharing will not work.');
+if ((!supabaseUrl || !supabaseServiceRoleKey) && import.meta.env.STORAGE_BACKEND !== 'local') {
+  console.warn(
+    'Supabase credentials not configured. Report sharing will not work (set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, or STORAGE_BACKEND=local to store reports on disk).'
+  );
 }
 
-export const supabase = supabaseUrl && supabaseAnonKey
-  ? createClient(supabaseUrl, supabaseAnonKey)
+export const supabase = supabaseUrl && supabaseServiceRoleKey
+  ? createClient(supabaseUrl, supabaseServiceRoleKey, { auth: { persistSession: false, autoRefreshToken: false } })
   : null;
@@ -0,0 +1,46 @@
+import type { ScoreEvidence, SectionResult } from './auditScoring';
+
+const THUMBNAIL_MAX_SIZE = 480;
+
+/**
+ * Downscale an image file to a JPEG data URL, for embedding in shared reports
+ */
+export async function createThumbnail(file: File, maxSize = THUMBNAIL_MAX_SIZE): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', 0.7);
+}
+
+/** Screenshot numbers cited by any score in a section */
+export function citedImages(result: SectionResult): number[] {
+  const cited = new Set<number>();
+  for (const score of Object.values(result.scores)) {
+    for (const e of score.evidence ?? ([] as ScoreEvidence[])) cited.add(e.image);
+  }
+  return [...cited].sort((a, b) => a - b);
+}
+
+/**
+ * Attach thumbnails of the cited screenshots to each section result
+ */
+export async function withEvidenceThumbnails(
+  results: SectionResult[],
+  filesBySection: Record<string, File[]>
+): Promise<SectionResult[]> {
+  return Promise.all(
+    results.map(async (result) => {
+      const files = filesBySection[result.sectionId] ?? [];
+      const thumbnails: Record<number, string> = {};
+      for (const image of citedImages(result)) {
+        const file = files[image - 1];
+        if (file) thumbnails[image] = await createThumbnail(file);
+      }
+      return { ...result, thumbnails };
+    })
+  );
+}
@@ -0,0 +1,130 @@
+/**
+ * Team workspaces (the workspaces and workspace_members tables). A workspace owns the reports
+ * moved into it, and its members open them according to their role. Members are recorded by
+ * email, so someone can be added before they create an account.
+ */
+
+import type { StorageClient } from './storage';
+
+/**
+ * - owner: everything an editor can do, plus managing members and the workspace itself
+ * - editor: manage the workspace's reports, resolve comments and override scores
+ * - viewer: open the workspace's reports and comment on them
+ */
+export const WORKSPACE_ROLES = ['owner', 'editor', 'viewer'] as const;
+
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number];
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface WorkspaceMember {
+  email: string;
+  role: WorkspaceRole;
+  addedAt: string;
+}
+
+/** A workspace as listed for one of its members */
+export interface WorkspaceMembership extends Workspace {
+  role: WorkspaceRole;
+}
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+/** Whether a role grants at least what `needed` does */
+export function hasRole(role: WorkspaceRole | null | undefined, needed: WorkspaceRole): boolean {
+  return role != null && ROLE_RANK[role] >= ROLE_RANK[needed];
+}
+
+// Emails are compared as Supabase Auth stores them, lowercased
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+interface WorkspaceRow {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+function workspaceFromRow(row: WorkspaceRow): Workspace {
+  return { id: row.id, name: row.name, createdAt: row.created_at };
+}
+
+export async function fetchWorkspace(client: StorageClient, id: string): Promise<Workspace | null> {
+  const { data, error } = await client.from('workspaces').select('id, name, created_at').eq('id', id).single();
+  if (error || !data) return null;
+  return workspaceFromRow(data as WorkspaceRow);
+}
+
+/** A member's role in a workspace, or null when they aren't a member */
+export async function fetchMemberRole(
+  client: StorageClient,
+  workspaceId: string,
+  email: string
+): Promise<WorkspaceRole | null> {
+  const { data, error } = await client
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('email', normalizeEmail(email))
+    .maybeSingle();
+
+  if (error || !data) return null;
+  return (data as { role: WorkspaceRole }).role;
+}
+
+/** Members of a workspace, owners first */
+export async function fetchWorkspaceMembers(client: StorageClient, workspaceId: string): Promise<WorkspaceMember[]> {
+  const { data, error } = await client
+    .from('workspace_members')
+    .select('email, role, created_at')
+    .eq('workspace_id', workspaceId)
+    .order('created_at', { ascending: true });
+
+  if (error || !data) return [];
+  return (data as Array<{ email: string; role: WorkspaceRole; created_at: string }>)
+    .map((row) => ({ email: row.email, role: row.role, addedAt: row.created_at }))
+    .sort((a, b) => ROLE_RANK[b.role] - ROLE_RANK[a.role]);
+}
+
+/** Workspaces an account belongs to, by name */
+export async function fetchUserWorkspaces(client: StorageClient, email: string): Promise<WorkspaceMembership[]> {
+  const { data, error } = await client
+    .from('workspace_members')
+    .select('role, workspaces(id, name, created_at)')
+    .eq('email', normalizeEmail(email));
+
+  if (error || !data) return [];
+  return (data as Array<{ role: WorkspaceRole; workspaces: WorkspaceRow | null }>)
+    .filter((row) => row.workspaces)
+    .map((row) => ({ ...workspaceFromRow(row.workspaces!), role: row.role }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Whether removing or demoting this member would leave the workspace without an owner */
+export function isLastOwner(members: WorkspaceMember[], email: string): boolean {
+  const owners = members.filter((m) => m.role === 'owner');
+  return owners.length === 1 && owners[0].email === normalizeEmail(email);
+}
+
+export type WorkspaceLookup = { workspace: Workspace; role: WorkspaceRole } | { error: string; status: number };
+
+/** A workspace the member holds at least the `needed` role in, or the error and status to respond with */
+export async function openWorkspace(
+  client: StorageClient,
+  id: string,
+  email: string | null,
+  needed: WorkspaceRole
+): Promise<WorkspaceLookup> {
+  const workspace = await fetchWorkspace(client, id);
+  if (!workspace) return { error: 'Workspace not found', status: 404 };
+
+  const role = email ? await fetchMemberRole(client, id, email) : null;
+  if (!role) return { error: 'You are not a member of this workspace', status: 403 };
+  if (!hasRole(role, needed)) return { error: `Only workspace ${needed}s can do this`, status: 403 };
+  return { workspace, role };
+}
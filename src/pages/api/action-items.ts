@@ -0,0 +1,306 @@
+import type { APIRoute, AstroCookies } from 'astro';
+import { z } from 'astro/zod';
+import { nanoid } from 'nanoid';
+import { type StorageClient, storage } from '../../lib/storage';
+import { openOwnedReport, openReport, readReportCredentials } from '../../lib/reportAccess';
+import {
+  type ActionItem,
+  type ActionItemRow,
+  ACTION_EFFORTS,
+  ACTION_PRIORITIES,
+  ACTION_STATUSES,
+  actionItemFromRow,
+  fetchActionItems,
+} from '../../lib/actionItems';
+import { describeIssues } from '../../lib/reportSchema';
+
+export const prerender = false;
+
+const assigneeSchema = z.string().trim().max(200).nullable().optional();
+
+const actionInputSchema = z.object({
+  reportId: z.string().min(1),
+  items: z
+    .array(
+      z.object({
+        principleId: z.string().min(1),
+        title: z.string().trim().min(1, 'Title is required').max(2000),
+        source: z.enum(['top-action', 'refined']),
+        priority: z.enum(ACTION_PRIORITIES).default('medium'),
+        effort: z.enum(ACTION_EFFORTS).default('medium'),
+        assignee: assigneeSchema,
+      })
+    )
+    .min(1)
+    .max(50),
+});
+
+const actionUpdateSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(2000).optional(),
+  assignee: assigneeSchema,
+  priority: z.enum(ACTION_PRIORITIES).optional(),
+  effort: z.enum(ACTION_EFFORTS).optional(),
+  status: z.enum(ACTION_STATUSES).optional(),
+});
+
+/** The item by id with its report opened for editing, or the error response */
+async function openOwnedItem(
+  client: StorageClient,
+  id: string | null,
+  cookies: AstroCookies
+): Promise<{ item: ActionItem } | Response> {
+  if (!id) {
+    return new Response(
+      JSON.stringify({ error: 'Action item ID required' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { data, error } = await client.from('action_items').select('*').eq('id', id).single();
+  if (error || !data) {
+    return new Response(
+      JSON.stringify({ error: 'Action item not found' }),
+      { status: 404, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const item = actionItemFromRow(data as ActionItemRow);
+  const owned = await openOwnedReport(client, item.reportId, await readReportCredentials(cookies, item.reportId));
+  if ('error' in owned) {
+    return new Response(
+      JSON.stringify({ error: owned.error }),
+      { status: owned.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+  return { item };
+}
+
+// A report's action items, for anyone who can open the report
+export const GET: APIRoute = async ({ url, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const reportId = url.searchParams.get('reportId');
+  if (!reportId) {
+    return new Response(
+      JSON.stringify({ error: 'Report ID required' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const lookup = await openReport(storage, reportId, await readReportCredentials(cookies, reportId));
+    if ('error' in lookup) {
+      return new Response(
+        JSON.stringify({ error: lookup.error }),
+        { status: lookup.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ items: await fetchActionItems(storage, [reportId]) }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Action item fetch error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to fetch action items' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+// Track recommendations from a report (its owner and workspace editors)
+export const POST: APIRoute = async ({ request, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const parsed = actionInputSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: describeIssues(parsed.error) }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { reportId, items: inputs } = parsed.data;
+    const owned = await openOwnedReport(storage, reportId, await readReportCredentials(cookies, reportId));
+    if ('error' in owned) {
+      return new Response(
+        JSON.stringify({ error: owned.error }),
+        { status: owned.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { ratings } = owned.report;
+    if (inputs.some((input) => !(input.principleId in ratings))) {
+      return new Response(
+        JSON.stringify({ error: 'Principle is not part of this report' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const createdAt = new Date().toISOString();
+    const items: ActionItem[] = inputs.map((input) => ({
+      id: nanoid(10),
+      reportId,
+      principleId: input.principleId,
+      title: input.title,
+      source: input.source,
+      assignee: input.assignee || null,
+      priority: input.priority,
+      effort: input.effort,
+      status: 'open',
+      baselineScore: ratings[input.principleId],
+      createdAt,
+      completedAt: null,
+    }));
+
+    const { error } = await storage.from('action_items').insert(
+      items.map((item) => ({
+        id: item.id,
+        report_id: item.reportId,
+        principle_id: item.principleId,
+        title: item.title,
+        source: item.source,
+        assignee: item.assignee,
+        priority: item.priority,
+        effort: item.effort,
+        status: item.status,
+        baseline_score: item.baselineScore,
+        created_at: item.createdAt,
+        completed_at: null,
+      }))
+    );
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to save action items' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ items }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Action item save error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to save action items' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+// Update an item's status, owner, priority or effort (the report's owner and workspace editors)
+export const PATCH: APIRoute = async ({ request, url, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const opened = await openOwnedItem(storage, url.searchParams.get('id'), cookies);
+    if (opened instanceof Response) return opened;
+
+    const parsed = actionUpdateSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: describeIssues(parsed.error) }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const changes = parsed.data;
+    const { item } = opened;
+    const status = changes.status ?? item.status;
+    const updated: ActionItem = {
+      ...item,
+      title: changes.title ?? item.title,
+      assignee: changes.assignee !== undefined ? changes.assignee || null : item.assignee,
+      priority: changes.priority ?? item.priority,
+      effort: changes.effort ?? item.effort,
+      status,
+      // Reopening an item clears when it was finished
+      completedAt: status === 'done' ? item.completedAt ?? new Date().toISOString() : null,
+    };
+
+    const { error } = await storage
+      .from('action_items')
+      .update({
+        title: updated.title,
+        assignee: updated.assignee,
+        priority: updated.priority,
+        effort: updated.effort,
+        status: updated.status,
+        completed_at: updated.completedAt,
+      })
+      .eq('id', item.id);
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to update action item' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ item: updated }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Action item update error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to update action item' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+export const DELETE: APIRoute = async ({ url, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const opened = await openOwnedItem(storage, url.searchParams.get('id'), cookies);
+    if (opened instanceof Response) return opened;
+
+    const { error } = await storage.from('action_items').delete().eq('id', opened.item.id);
+    if (error) {
+      console.error('Supabase error:', error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to delete action item' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ deleted: true }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Action item delete error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to delete action item' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,87 @@
+import type { APIRoute } from 'astro';
+import { llm } from '../../lib/llm';
+import { StructuredOutputError } from '../../lib/structuredOutput';
+import { formatServerSentEvent } from '../../lib/serverSentEvents';
+import {
+  AnalysisRequestError,
+  prepareSectionAnalysis,
+  runSectionAnalysis,
+  type SectionAnalysis,
+} from '../../lib/sectionAnalysis';
+
+export const prerender = false;
+
+/**
+ * Streaming variant of /api/analyze. Responds with server-sent events:
+ * - `start`: { principleIds, runs } — the principles that will be scored
+ * - `score`: { principleId, score } — one principle's (consensus) score, as soon as it is known
+ * - `done`: the same body /api/analyze returns
+ * - `error`: { error, failures? }
+ * Closing the connection cancels the analysis.
+ */
+export const POST: APIRoute = async ({ request }) => {
+  if (!llm) {
+    return new Response(
+      JSON.stringify({ error: 'API key not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  let analysis: SectionAnalysis;
+  try {
+    analysis = await prepareSectionAnalysis(await request.json());
+  } catch (error) {
+    if (error instanceof AnalysisRequestError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    console.error('Analysis error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Analysis failed' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const provider = llm;
+  const abort = new AbortController();
+  request.signal.addEventListener('abort', () => abort.abort());
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (abort.signal.aborted) return;
+        controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+      };
+
+      try {
+        send('start', { principleIds: analysis.applicablePrincipleIds, runs: analysis.runCount });
+        const result = await runSectionAnalysis(provider, analysis, {
+          signal: abort.signal,
+          onScore: (principleId, score) => send('score', { principleId, score }),
+        });
+        send('done', result);
+      } catch (error) {
+        if (!abort.signal.aborted) {
+          console.error('Analysis error:', error);
+          send('error', {
+            error: error instanceof Error ? error.message : 'Analysis failed',
+            ...(error instanceof StructuredOutputError && { failures: error.failures }),
+          });
+        }
+      } finally {
+        if (!abort.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  });
+};
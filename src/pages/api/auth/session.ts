@@ -0,0 +1,44 @@
+import type { APIRoute } from 'astro';
+import { z } from 'astro/zod';
+import { createAuthClient, setSessionCookies, toSessionUser } from '../../../lib/auth';
+
+export const prerender = false;
+
+const sessionSchema = z.object({
+  accessToken: z.string().min(1),
+  refreshToken: z.string().min(1),
+});
+
+// Store a session handed to the browser by an email link (tokens arrive in the URL fragment)
+export const POST: APIRoute = async ({ request, cookies }) => {
+  const client = createAuthClient();
+  if (!client) {
+    return new Response(
+      JSON.stringify({ error: 'Accounts are not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const parsed = sessionSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return new Response(
+      JSON.stringify({ error: 'Session tokens required' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Only keep tokens Supabase vouches for
+  const { data, error } = await client.auth.getUser(parsed.data.accessToken);
+  if (error || !data.user) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid session' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  setSessionCookies(cookies, { access_token: parsed.data.accessToken, refresh_token: parsed.data.refreshToken });
+  return new Response(
+    JSON.stringify({ user: toSessionUser(data.user) }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+};
@@ -0,0 +1,36 @@
+import type { APIRoute } from 'astro';
+import { createAuthClient, credentialsSchema, setSessionCookies, toSessionUser } from '../../../lib/auth';
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request, cookies }) => {
+  const client = createAuthClient();
+  if (!client) {
+    return new Response(
+      JSON.stringify({ error: 'Accounts are not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const parsed = credentialsSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return new Response(
+      JSON.stringify({ error: 'Email and password required' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { data, error } = await client.auth.signInWithPassword(parsed.data);
+  if (error || !data.session) {
+    return new Response(
+      JSON.stringify({ error: error?.message || 'Sign in failed' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  setSessionCookies(cookies, data.session);
+  return new Response(
+    JSON.stringify({ user: toSessionUser(data.user) }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+};
@@ -0,0 +1,12 @@
+import type { APIRoute } from 'astro';
+import { clearSessionCookies } from '../../../lib/auth';
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ cookies }) => {
+  clearSessionCookies(cookies);
+  return new Response(
+    JSON.stringify({ signedOut: true }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+};
@@ -0,0 +1,50 @@
+import type { APIRoute } from 'astro';
+import { createAuthClient, credentialsSchema, setSessionCookies, toSessionUser } from '../../../lib/auth';
+import { describeIssues } from '../../../lib/reportSchema';
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request, cookies, url }) => {
+  const client = createAuthClient();
+  if (!client) {
+    return new Response(
+      JSON.stringify({ error: 'Accounts are not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const parsed = credentialsSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return new Response(
+      JSON.stringify({ error: describeIssues(parsed.error) }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { data, error } = await client.auth.signUp({
+    ...parsed.data,
+    // The confirmation email links back to the sign-in page, which finishes signing in
+    options: { emailRedirectTo: `${url.origin}/login` },
+  });
+  if (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Without a session the project requires email confirmation first. A session for an address
+  // nobody has confirmed isn't kept either: the account couldn't use its workspaces yet.
+  if (!data.session || !data.user?.email_confirmed_at) {
+    return new Response(
+      JSON.stringify({ confirmationRequired: true }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  setSessionCookies(cookies, data.session);
+  return new Response(
+    JSON.stringify({ user: toSessionUser(data.user) }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+};
@@ -0,0 +1,250 @@
+import type { APIRoute } from 'astro';
+import { z } from 'astro/zod';
+import { nanoid } from 'nanoid';
+import { storage } from '../../lib/storage';
+import { openReport, readReportCredentials } from '../../lib/reportAccess';
+import { type CommentRow, type ReportComment, commentFromRow, commentPermissions, fetchReportComments } from '../../lib/reportComments';
+import { describeIssues } from '../../lib/reportSchema';
+
+export const prerender = false;
+
+const commentInputSchema = z.object({
+  reportId: z.string().min(1),
+  /** Replying to a thread; the reply takes the thread's principle and section */
+  parentId: z.string().nullable().optional(),
+  sectionId: z.string().nullable().optional(),
+  principleId: z.string().nullable().optional(),
+  body: z.string().trim().min(1, 'Comment cannot be empty').max(5000),
+});
+
+const commentUpdateSchema = z.object({
+  resolved: z.boolean(),
+});
+
+export const GET: APIRoute = async ({ url, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const reportId = url.searchParams.get('reportId');
+  if (!reportId) {
+    return new Response(
+      JSON.stringify({ error: 'Report ID required' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const credentials = await readReportCredentials(cookies, reportId);
+    const lookup = await openReport(storage, reportId, credentials);
+    if ('error' in lookup) {
+      return new Response(
+        JSON.stringify({ error: lookup.error }),
+        { status: lookup.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!commentPermissions(lookup, credentials).comment) {
+      return new Response(
+        JSON.stringify({ error: 'Only workspace members can see comments' }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ comments: await fetchReportComments(storage, reportId) }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Comment fetch error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to fetch comments' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+export const POST: APIRoute = async ({ request, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const parsed = commentInputSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: describeIssues(parsed.error) }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const input = parsed.data;
+    const credentials = await readReportCredentials(cookies, input.reportId);
+    const lookup = await openReport(storage, input.reportId, credentials);
+    if ('error' in lookup) {
+      return new Response(
+        JSON.stringify({ error: lookup.error }),
+        { status: lookup.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!commentPermissions(lookup, credentials).comment) {
+      return new Response(
+        JSON.stringify({ error: 'Only workspace members can comment' }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let sectionId = input.sectionId ?? null;
+    let principleId = input.principleId ?? null;
+
+    if (input.parentId) {
+      const { data } = await storage.from('report_comments').select('*').eq('id', input.parentId).single();
+      const parent = data as CommentRow | null;
+      if (!parent || parent.report_id !== input.reportId || parent.parent_id !== null) {
+        return new Response(
+          JSON.stringify({ error: 'Thread not found' }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+      sectionId = parent.section_id;
+      principleId = parent.principle_id;
+    } else {
+      const { report } = lookup;
+      const section = sectionId ? report.sectionResults?.find((sr) => sr.sectionId === sectionId) : null;
+      const knownPrinciple = !principleId || (section ? principleId in section.scores : principleId in report.ratings);
+      if ((sectionId && !section) || !knownPrinciple || (!sectionId && !principleId)) {
+        return new Response(
+          JSON.stringify({ error: 'Comments must be about a principle or section in this report' }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const comment: ReportComment = {
+      id: nanoid(10),
+      reportId: input.reportId,
+      parentId: input.parentId || null,
+      sectionId,
+      principleId,
+      body: input.body,
+      authorEmail: credentials.email!,
+      createdAt: new Date().toISOString(),
+      resolvedAt: null,
+      resolvedBy: null,
+    };
+
+    const { error } = await storage.from('report_comments').insert({
+      id: comment.id,
+      report_id: comment.reportId,
+      parent_id: comment.parentId,
+      section_id: comment.sectionId,
+      principle_id: comment.principleId,
+      body: comment.body,
+      author_email: comment.authorEmail,
+      created_at: comment.createdAt,
+    });
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to save comment' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ comment }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Comment save error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to save comment' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+// Resolve or reopen a thread (workspace editors and the report's owner)
+export const PATCH: APIRoute = async ({ request, url, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const id = url.searchParams.get('id');
+    if (!id) {
+      return new Response(
+        JSON.stringify({ error: 'Comment ID required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const parsed = commentUpdateSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: describeIssues(parsed.error) }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data } = await storage.from('report_comments').select('*').eq('id', id).single();
+    const row = data as CommentRow | null;
+    if (!row || row.parent_id !== null) {
+      return new Response(
+        JSON.stringify({ error: 'Thread not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const credentials = await readReportCredentials(cookies, row.report_id);
+    const lookup = await openReport(storage, row.report_id, credentials);
+    if ('error' in lookup) {
+      return new Response(
+        JSON.stringify({ error: lookup.error }),
+        { status: lookup.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!commentPermissions(lookup, credentials).review) {
+      return new Response(
+        JSON.stringify({ error: 'Only editors can resolve comments' }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const resolution = parsed.data.resolved
+      ? { resolved_at: new Date().toISOString(), resolved_by: credentials.email ?? null }
+      : { resolved_at: null, resolved_by: null };
+
+    const { error } = await storage.from('report_comments').update(resolution).eq('id', id);
+    if (error) {
+      console.error('Supabase error:', error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to update comment' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ comment: commentFromRow({ ...row, ...resolution }) }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Comment update error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to update comment' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,135 @@
+import type { APIRoute } from 'astro';
+import { storage } from '../../lib/storage';
+import { openReport, readReportCredentials } from '../../lib/reportAccess';
+import { getAuditPrinciples } from '../../lib/auditPrinciples';
+import type { AuditPrinciple } from '../../data/auditPrompts';
+import {
+  type ExportFormat,
+  type ExportableReport,
+  EXPORT_FORMATS,
+  buildReportDocument,
+  buildScoreTable,
+  isExportFormat,
+  toCsv,
+  toJson,
+} from '../../lib/reportExport';
+import { renderReportPdf } from '../../lib/exportPdf';
+import { renderReportDocx } from '../../lib/exportDocx';
+import { describeIssues, readJsonBody, reportExportSchema, unknownPrincipleIds } from '../../lib/reportSchema';
+
+export const prerender = false;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json',
+};
+
+async function exportReport(
+  report: ExportableReport,
+  format: ExportFormat,
+  filename: string,
+  principles: AuditPrinciple[]
+): Promise<Response> {
+  const doc = buildReportDocument(report, principles);
+  if (!doc) {
+    return new Response(
+      JSON.stringify({ error: 'Report has no ratings to export' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const body =
+    format === 'pdf' ? await renderReportPdf(doc)
+    : format === 'docx' ? await renderReportDocx(doc)
+    : format === 'csv' ? toCsv(buildScoreTable(doc))
+    : toJson(doc);
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${filename}.${format}"`,
+    },
+  });
+}
+
+function formatError(): Response {
+  return new Response(
+    JSON.stringify({ error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` }),
+    { status: 400, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+// Export a live audit: the body has the same fields as a report posted to /api/reports
+export const POST: APIRoute = async ({ request, url }) => {
+  const format = url.searchParams.get('format');
+  if (!isExportFormat(format)) return formatError();
+
+  try {
+    const read = await readJsonBody(request);
+    if (read instanceof Response) return read;
+
+    const parsed = reportExportSchema.safeParse(read.body);
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: `Invalid report: ${describeIssues(parsed.error)}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    const principles = await getAuditPrinciples();
+    const unknown = unknownPrincipleIds(parsed.data, principles.map((p) => p.id));
+    if (unknown.length > 0) {
+      return new Response(
+        JSON.stringify({ error: `Invalid report: unknown principles: ${unknown.join(', ')}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    return await exportReport(parsed.data, format, 'learning-audit', principles);
+  } catch (error) {
+    console.error('Export error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Export failed' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+// Export a shared report by id
+export const GET: APIRoute = async ({ url, cookies }) => {
+  const format = url.searchParams.get('format');
+  if (!isExportFormat(format)) return formatError();
+
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const id = url.searchParams.get('id');
+  if (!id) {
+    return new Response(
+      JSON.stringify({ error: 'Report ID required' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const lookup = await openReport(storage, id, await readReportCredentials(cookies, id, url));
+    if ('error' in lookup) {
+      return new Response(
+        JSON.stringify({ error: lookup.error }),
+        { status: lookup.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    return await exportReport(lookup.report, format, `learning-audit-${id}`, await getAuditPrinciples());
+  } catch (error) {
+    console.error('Export error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Export failed' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
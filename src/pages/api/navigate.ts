@@ -0,0 +1,270 @@
+import type { APIRoute } from 'astro';
+import { z } from 'astro/zod';
+import { llm } from '../../lib/llm';
+import { formatServerSentEvent } from '../../lib/serverSentEvents';
+import { runNavigation, type NavigationBrowser } from '../../lib/navigationRunner';
+import { launchBrowser } from '../../lib/playwrightBrowser';
+import {
+  LIVE_NAVIGATION_UNSUPPORTED,
+  liveNavigationCount,
+  liveNavigationSupported,
+  openNavigationChannel,
+} from '../../lib/navigationControl';
+import { checkNavigationTarget } from '../../lib/navigationTargets';
+import type { LoginScript } from '../../lib/navigationLogin';
+import { storage } from '../../lib/storage';
+import { type SessionUser, getSessionUser } from '../../lib/auth';
+import { openProject } from '../../lib/projects';
+import { fetchCredential, fetchCredentialSecrets, saveStorageState, vaultKey } from '../../lib/credentialVault';
+import { describeIssues } from '../../lib/reportSchema';
+import { MAX_LIVE_NAVIGATIONS } from '../../config/constants';
+import {
+  DEFAULT_NAVIGATION_CONFIG,
+  LEARNER_PERSONAS,
+  type LearnerPersona,
+  type NavigationSession,
+} from '../../types/navigation';
+
+export const prerender = false;
+
+const personaSchema = z.custom<LearnerPersona>(
+  (value) => LEARNER_PERSONAS.some((p) => p.persona === value),
+  'Unknown learner persona'
+);
+
+const navigationRequestSchema = z.object({
+  /** The client's session id, which /api/navigation-control addresses it by */
+  id: z.string().uuid().optional(),
+  startUrl: z
+    .string()
+    .url()
+    .refine((url) => /^https?:/.test(url), 'Start URL must be http or https'),
+  flows: z
+    .array(
+      z.object({
+        id: z.string().min(1).max(100),
+        description: z.string().trim().min(1).max(500),
+        persona: personaSchema.optional(),
+      })
+    )
+    .min(1)
+    .max(20),
+  defaultPersona: personaSchema.optional(),
+  /** A project test login to sign in with before the flows (project editors) */
+  credentialId: z.string().min(1).max(50).optional(),
+});
+
+interface SessionLogin {
+  credentialId: string;
+  script: LoginScript;
+  /** Storage state saved by the last session with this login */
+  storageState: string | null;
+}
+
+/** The login for a stored credential the user may use, or the error response */
+async function openLogin(credentialId: string, user: SessionUser): Promise<SessionLogin | Response> {
+  if (!storage || !vaultKey) {
+    return new Response(
+      JSON.stringify({ error: 'Credential vault not configured (set CREDENTIAL_VAULT_KEY)' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const credential = await fetchCredential(storage, credentialId);
+  if (!credential) {
+    return new Response(
+      JSON.stringify({ error: 'Credential not found' }),
+      { status: 404, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const opened = await openProject(storage, credential.projectId, user, 'editor');
+  if ('error' in opened) {
+    return new Response(
+      JSON.stringify({ error: opened.error }),
+      { status: opened.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const secrets = await fetchCredentialSecrets(storage, credentialId, vaultKey);
+    if (!secrets) throw new Error('Credential secrets missing');
+    return {
+      credentialId,
+      script: {
+        url: credential.loginUrl,
+        username: secrets.username,
+        password: secrets.password,
+        usernameTarget: credential.usernameTarget,
+        passwordTarget: credential.passwordTarget,
+        submitTarget: credential.submitTarget,
+      },
+      storageState: secrets.storageState,
+    };
+  } catch (error) {
+    console.error('Credential decrypt error:', error);
+    return new Response(
+      JSON.stringify({ error: 'The stored login could not be decrypted. Was CREDENTIAL_VAULT_KEY changed?' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Runs a navigation session on a headless browser, for signed-in users and only on public
+ * websites (src/lib/navigationTargets.ts). Responds with server-sent events, one per
+ * NavigationEvent and named after its type (`status`, `flow`, `interaction`, `capture`); the session
+ * is over after a `status` of completed or failed. Closing the connection stops the browser.
+ * While the session waits for help, /api/navigation-control drives its browser and answers it
+ * for the same user.
+ * With a credentialId, the browser starts from that login's saved storage state, signs in if it
+ * still needs to, and saves its storage state again when the session completes.
+ */
+export const POST: APIRoute = async ({ request, cookies }) => {
+  if (!llm) {
+    return new Response(
+      JSON.stringify({ error: 'API key not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  if (!liveNavigationSupported()) {
+    return new Response(
+      JSON.stringify({ error: LIVE_NAVIGATION_UNSUPPORTED }),
+      { status: 501, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const user = await getSessionUser(cookies);
+  if (!user) {
+    return new Response(
+      JSON.stringify({ error: 'Sign in required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const parsed = navigationRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return new Response(
+      JSON.stringify({ error: describeIssues(parsed.error) }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const blocked = await checkNavigationTarget(parsed.data.startUrl);
+  if (blocked) {
+    return new Response(
+      JSON.stringify({ error: `Start URL not allowed: ${blocked}` }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  let login: SessionLogin | null = null;
+  if (parsed.data.credentialId) {
+    const opened = await openLogin(parsed.data.credentialId, user);
+    if (opened instanceof Response) return opened;
+    const loginBlocked = await checkNavigationTarget(opened.script.url);
+    if (loginBlocked) {
+      return new Response(
+        JSON.stringify({ error: `Login URL not allowed: ${loginBlocked}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    login = opened;
+  }
+
+  // Counting the live sessions and claiming the id happen with nothing awaited in between, so
+  // requests arriving together can't both get past the cap or share an id
+  if (liveNavigationCount() >= MAX_LIVE_NAVIGATIONS) {
+    return new Response(
+      JSON.stringify({ error: 'Too many navigation sessions are running. Try again when one has finished.' }),
+      { status: 429, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+  const id = parsed.data.id ?? crypto.randomUUID();
+  const channel = openNavigationChannel(id, user.id);
+  if (!channel) {
+    return new Response(
+      JSON.stringify({ error: 'This navigation session is already running' }),
+      { status: 409, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const config = DEFAULT_NAVIGATION_CONFIG;
+  let browser: NavigationBrowser;
+  try {
+    browser = await launchBrowser(config, login?.storageState);
+    channel.attach(browser);
+  } catch (error) {
+    channel.close();
+    console.error('Browser launch error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Headless browser not available. Install it with `npx playwright install chromium`.' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const session: NavigationSession = {
+    id,
+    startUrl: parsed.data.startUrl,
+    flows: parsed.data.flows.map((flow) => ({ ...flow, status: 'pending' })),
+    captures: [],
+    interactions: [],
+    status: 'starting',
+    startedAt: Date.now(),
+    defaultPersona: parsed.data.defaultPersona,
+    config,
+  };
+
+  const provider = llm;
+  const abort = new AbortController();
+  request.signal.addEventListener('abort', () => abort.abort());
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // The browser's storage state is only worth keeping once every flow ran to the end: after a
+      // failed login it holds a half-finished sign-in, after a stop or abort whatever it had reached
+      let keepStorageState = false;
+      try {
+        const finished = await runNavigation(session, {
+          provider,
+          browser,
+          config,
+          signal: abort.signal,
+          onWaiting: channel.onWaiting,
+          ...(login && { login: login.script }),
+          onEvent: (event) => {
+            if (!abort.signal.aborted) controller.enqueue(encoder.encode(formatServerSentEvent(event.type, event)));
+          },
+        });
+        keepStorageState =
+          !abort.signal.aborted &&
+          finished.status === 'completed' &&
+          !finished.error &&
+          finished.flows.every((flow) => flow.status === 'completed');
+      } finally {
+        channel.close();
+        if (login && keepStorageState && storage && vaultKey) {
+          try {
+            await saveStorageState(storage, login.credentialId, await browser.storageState(), vaultKey);
+          } catch (error) {
+            console.error('Storage state save error:', error);
+          }
+        }
+        await browser.close().catch((error) => console.error('Browser close error:', error));
+        if (!abort.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      abort.abort();
+      // Release a navigator waiting for the user so the run can end
+      channel.close();
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  });
+};
@@ -0,0 +1,83 @@
+import type { APIRoute } from 'astro';
+import { z } from 'astro/zod';
+import {
+  LIVE_NAVIGATION_UNSUPPORTED,
+  answerIntervention,
+  applyRemoteInput,
+  liveNavigationSupported,
+} from '../../lib/navigationControl';
+import { getSessionUser } from '../../lib/auth';
+import { describeIssues } from '../../lib/reportSchema';
+
+export const prerender = false;
+
+const remoteInputSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('click'), x: z.number().min(0).max(1), y: z.number().min(0).max(1) }),
+  z.object({ type: z.literal('type'), text: z.string().min(1).max(1000) }),
+  z.object({ type: z.literal('press'), key: z.string().min(1).max(50) }),
+  z.object({ type: z.literal('scroll'), deltaY: z.number().min(-10_000).max(10_000) }),
+]);
+
+const controlRequestSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('input'), sessionId: z.string().min(1), input: remoteInputSchema }),
+  z.object({
+    type: z.literal('resume'),
+    sessionId: z.string().min(1),
+    action: z.enum(['continue', 'skip', 'abort']),
+    guidance: z.string().trim().max(2000).optional(),
+  }),
+]);
+
+/**
+ * The user's side of a headless navigation session they started, while it waits for help:
+ * - `input`: click, type, press a key or scroll in its browser; responds with { screenshot }
+ * - `resume`: answer it with continue, skip or abort, and optional guidance for the navigator
+ */
+export const POST: APIRoute = async ({ request, cookies }) => {
+  if (!liveNavigationSupported()) {
+    return new Response(
+      JSON.stringify({ error: LIVE_NAVIGATION_UNSUPPORTED }),
+      { status: 501, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const user = await getSessionUser(cookies);
+  if (!user) {
+    return new Response(
+      JSON.stringify({ error: 'Sign in required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const parsed = controlRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return new Response(
+      JSON.stringify({ error: describeIssues(parsed.error) }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const result =
+      parsed.data.type === 'input'
+        ? await applyRemoteInput(parsed.data.sessionId, user.id, parsed.data.input)
+        : answerIntervention(parsed.data.sessionId, user.id, parsed.data.action, parsed.data.guidance || undefined);
+    if ('error' in result) {
+      return new Response(
+        JSON.stringify({ error: result.error }),
+        { status: result.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Navigation control error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'The browser did not respond' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
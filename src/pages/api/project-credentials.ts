@@ -0,0 +1,307 @@
+import type { APIRoute, AstroCookies } from 'astro';
+import { z } from 'astro/zod';
+import { nanoid } from 'nanoid';
+import { type StorageClient, storage } from '../../lib/storage';
+import { getSessionUser } from '../../lib/auth';
+import { openProject } from '../../lib/projects';
+import {
+  type ProjectCredential,
+  encryptSecret,
+  fetchCredential,
+  fetchProjectCredentials,
+  vaultKey,
+} from '../../lib/credentialVault';
+import { describeIssues } from '../../lib/reportSchema';
+
+export const prerender = false;
+
+const targetSchema = z.string().trim().max(500).nullable().optional();
+
+const credentialFields = {
+  label: z.string().trim().min(1, 'Label is required').max(200),
+  loginUrl: z.string().trim().url('Enter the full login page URL, e.g. https://example.com/login').max(500),
+  username: z.string().min(1, 'Username is required').max(500),
+  password: z.string().min(1, 'Password is required').max(500),
+  usernameTarget: targetSchema,
+  passwordTarget: targetSchema,
+  submitTarget: targetSchema,
+};
+
+const credentialInputSchema = z.object({ projectId: z.string().min(1), ...credentialFields });
+const credentialUpdateSchema = z
+  .object({
+    ...credentialFields,
+    /** Drop the saved storage state, so the next session signs in again */
+    forgetSession: z.literal(true),
+  })
+  .partial();
+
+const vaultMissing = () =>
+  new Response(
+    JSON.stringify({ error: 'Credential vault not configured (set CREDENTIAL_VAULT_KEY)' }),
+    { status: 500, headers: { 'Content-Type': 'application/json' } }
+  );
+
+/** The credential by id with its project opened for editing, or the error response */
+async function openEditableCredential(
+  client: StorageClient,
+  id: string | null,
+  cookies: AstroCookies
+): Promise<{ credential: ProjectCredential } | Response> {
+  if (!id) {
+    return new Response(
+      JSON.stringify({ error: 'Credential ID required' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const credential = await fetchCredential(client, id);
+  if (!credential) {
+    return new Response(
+      JSON.stringify({ error: 'Credential not found' }),
+      { status: 404, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const opened = await openProject(client, credential.projectId, await getSessionUser(cookies), 'editor');
+  if ('error' in opened) {
+    return new Response(
+      JSON.stringify({ error: opened.error }),
+      { status: opened.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+  return { credential };
+}
+
+// A project's test logins, without their secrets (editors)
+export const GET: APIRoute = async ({ url, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const projectId = url.searchParams.get('projectId');
+  if (!projectId) {
+    return new Response(
+      JSON.stringify({ error: 'Project ID required' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const opened = await openProject(storage, projectId, await getSessionUser(cookies), 'editor');
+    if ('error' in opened) {
+      return new Response(
+        JSON.stringify({ error: opened.error }),
+        { status: opened.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ credentials: await fetchProjectCredentials(storage, projectId) }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Credential fetch error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to fetch credentials' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+// Store a test login for a project (editors)
+export const POST: APIRoute = async ({ request, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+  if (!vaultKey) return vaultMissing();
+
+  try {
+    const parsed = credentialInputSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: describeIssues(parsed.error) }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const input = parsed.data;
+    const opened = await openProject(storage, input.projectId, await getSessionUser(cookies), 'editor');
+    if ('error' in opened) {
+      return new Response(
+        JSON.stringify({ error: opened.error }),
+        { status: opened.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const credential: ProjectCredential = {
+      id: nanoid(10),
+      projectId: input.projectId,
+      label: input.label,
+      loginUrl: input.loginUrl,
+      usernameTarget: input.usernameTarget || null,
+      passwordTarget: input.passwordTarget || null,
+      submitTarget: input.submitTarget || null,
+      storageStateSavedAt: null,
+      createdAt: new Date().toISOString(),
+    };
+
+    const { error } = await storage.from('project_credentials').insert({
+      id: credential.id,
+      project_id: credential.projectId,
+      label: credential.label,
+      login_url: credential.loginUrl,
+      username_target: credential.usernameTarget,
+      password_target: credential.passwordTarget,
+      submit_target: credential.submitTarget,
+      username_encrypted: encryptSecret(input.username, vaultKey),
+      password_encrypted: encryptSecret(input.password, vaultKey),
+      storage_state_encrypted: null,
+      storage_state_saved_at: null,
+      created_at: credential.createdAt,
+    });
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to save credential' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ credential }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Credential save error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to save credential' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+// Change a login's details or secrets, or forget its saved session (editors)
+export const PATCH: APIRoute = async ({ request, url, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+  if (!vaultKey) return vaultMissing();
+
+  try {
+    const opened = await openEditableCredential(storage, url.searchParams.get('id'), cookies);
+    if (opened instanceof Response) return opened;
+
+    const parsed = credentialUpdateSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: describeIssues(parsed.error) }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const changes = parsed.data;
+    const { credential } = opened;
+    // The stored secrets are typed wherever the login page and targets point, so moving either
+    // needs them entered again; otherwise an editor could send them to a page of their choosing
+    const movesSecrets =
+      (changes.loginUrl !== undefined && new URL(changes.loginUrl).origin !== new URL(credential.loginUrl).origin) ||
+      (['usernameTarget', 'passwordTarget', 'submitTarget'] as const).some(
+        (field) => changes[field] !== undefined && (changes[field] || null) !== credential[field]
+      );
+    if (movesSecrets && (changes.username === undefined || changes.password === undefined)) {
+      return new Response(
+        JSON.stringify({ error: 'Enter the username and password again to change the login page or its fields' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    // A new login URL or username makes the saved session someone else's
+    const forgetSession = changes.forgetSession || changes.loginUrl !== undefined || changes.username !== undefined;
+    const updated: ProjectCredential = {
+      ...credential,
+      label: changes.label ?? credential.label,
+      loginUrl: changes.loginUrl ?? credential.loginUrl,
+      usernameTarget: changes.usernameTarget !== undefined ? changes.usernameTarget || null : credential.usernameTarget,
+      passwordTarget: changes.passwordTarget !== undefined ? changes.passwordTarget || null : credential.passwordTarget,
+      submitTarget: changes.submitTarget !== undefined ? changes.submitTarget || null : credential.submitTarget,
+      storageStateSavedAt: forgetSession ? null : credential.storageStateSavedAt,
+    };
+
+    const { error } = await storage
+      .from('project_credentials')
+      .update({
+        label: updated.label,
+        login_url: updated.loginUrl,
+        username_target: updated.usernameTarget,
+        password_target: updated.passwordTarget,
+        submit_target: updated.submitTarget,
+        ...(changes.username !== undefined && { username_encrypted: encryptSecret(changes.username, vaultKey) }),
+        ...(changes.password !== undefined && { password_encrypted: encryptSecret(changes.password, vaultKey) }),
+        ...(forgetSession && { storage_state_encrypted: null, storage_state_saved_at: null }),
+      })
+      .eq('id', credential.id);
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to update credential' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ credential: updated }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Credential update error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to update credential' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+export const DELETE: APIRoute = async ({ url, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const opened = await openEditableCredential(storage, url.searchParams.get('id'), cookies);
+    if (opened instanceof Response) return opened;
+
+    const { error } = await storage.from('project_credentials').delete().eq('id', opened.credential.id);
+    if (error) {
+      console.error('Supabase error:', error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to delete credential' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ deleted: true }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Credential delete error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to delete credential' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,277 @@
+import type { APIRoute } from 'astro';
+import { z } from 'astro/zod';
+import { nanoid } from 'nanoid';
+import { storage } from '../../lib/storage';
+import { getSessionUser } from '../../lib/auth';
+import { type Project, fetchUserProjects, openProject } from '../../lib/projects';
+import { fetchUserWorkspaces, openWorkspace } from '../../lib/workspaces';
+import { describeIssues } from '../../lib/reportSchema';
+
+export const prerender = false;
+
+const optionalText = (max: number) => z.string().trim().max(max).nullable().optional();
+
+const projectFields = {
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  url: z.string().trim().url('Enter a full URL, e.g. https://example.com').max(500).or(z.literal('')).nullable().optional(),
+  audience: optionalText(500),
+  context: optionalText(5000),
+  /** Share the project with a workspace the user edits, or null to keep it personal */
+  workspaceId: z.string().max(50).nullable().optional(),
+};
+
+const projectInputSchema = z.object(projectFields);
+const projectUpdateSchema = z.object(projectFields).partial();
+
+export const GET: APIRoute = async ({ cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const user = await getSessionUser(cookies);
+  if (!user) {
+    return new Response(
+      JSON.stringify({ error: 'Sign in required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const workspaces = user.email ? await fetchUserWorkspaces(storage, user.email) : [];
+  return new Response(
+    JSON.stringify({ projects: await fetchUserProjects(storage, user.id, workspaces.map((w) => w.id)) }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+};
+
+// Create a project, owned by its creator
+export const POST: APIRoute = async ({ request, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const user = await getSessionUser(cookies);
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Sign in required' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const parsed = projectInputSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: describeIssues(parsed.error) }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const input = parsed.data;
+    if (input.workspaceId) {
+      const workspace = await openWorkspace(storage, input.workspaceId, user.email, 'editor');
+      if ('error' in workspace) {
+        return new Response(
+          JSON.stringify({ error: workspace.error }),
+          { status: workspace.status, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const project: Project = {
+      id: nanoid(10),
+      name: input.name,
+      url: input.url || null,
+      audience: input.audience || null,
+      context: input.context || null,
+      ownerId: user.id,
+      workspaceId: input.workspaceId || null,
+      createdAt: new Date().toISOString(),
+    };
+
+    const { error } = await storage.from('projects').insert({
+      id: project.id,
+      name: project.name,
+      url: project.url,
+      audience: project.audience,
+      context: project.context,
+      user_id: project.ownerId,
+      workspace_id: project.workspaceId,
+      created_at: project.createdAt,
+    });
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to create project' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ project, url: `/projects/${project.id}` }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Project create error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to create project' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+// Update a project's details (editors); only its owner can move it between workspaces
+export const PATCH: APIRoute = async ({ request, url, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const id = url.searchParams.get('id');
+    if (!id) {
+      return new Response(
+        JSON.stringify({ error: 'Project ID required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const user = await getSessionUser(cookies);
+    const opened = await openProject(storage, id, user, 'editor');
+    if ('error' in opened) {
+      return new Response(
+        JSON.stringify({ error: opened.error }),
+        { status: opened.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const parsed = projectUpdateSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: describeIssues(parsed.error) }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const changes = parsed.data;
+    const { project } = opened;
+    const workspaceId = changes.workspaceId !== undefined ? changes.workspaceId || null : project.workspaceId;
+    if (workspaceId !== project.workspaceId) {
+      if (project.ownerId !== user!.id) {
+        return new Response(
+          JSON.stringify({ error: 'Only the project owner can move it between workspaces' }),
+          { status: 403, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+      const workspace = workspaceId ? await openWorkspace(storage, workspaceId, user!.email, 'editor') : null;
+      if (workspace && 'error' in workspace) {
+        return new Response(
+          JSON.stringify({ error: workspace.error }),
+          { status: workspace.status, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const updated: Project = {
+      ...project,
+      name: changes.name ?? project.name,
+      url: changes.url !== undefined ? changes.url || null : project.url,
+      audience: changes.audience !== undefined ? changes.audience || null : project.audience,
+      context: changes.context !== undefined ? changes.context || null : project.context,
+      workspaceId,
+    };
+
+    const { error } = await storage
+      .from('projects')
+      .update({
+        name: updated.name,
+        url: updated.url,
+        audience: updated.audience,
+        context: updated.context,
+        workspace_id: updated.workspaceId,
+      })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to update project' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ project: updated }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Project update error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to update project' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+// Delete a project (owners only) with its test logins. Its audits are kept and detached from it.
+export const DELETE: APIRoute = async ({ url, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const id = url.searchParams.get('id');
+    if (!id) {
+      return new Response(
+        JSON.stringify({ error: 'Project ID required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const opened = await openProject(storage, id, await getSessionUser(cookies), 'owner');
+    if ('error' in opened) {
+      return new Response(
+        JSON.stringify({ error: opened.error }),
+        { status: opened.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { error: unlinkError } = await storage
+      .from('audit_reports')
+      .update({ project_id: null })
+      .eq('project_id', id);
+    // The local backend has no foreign keys to cascade the delete
+    const { error: credentialsError } = await storage.from('project_credentials').delete().eq('project_id', id);
+    const { error } = await storage.from('projects').delete().eq('id', id);
+
+    if (unlinkError || credentialsError || error) {
+      console.error('Supabase error:', unlinkError || credentialsError || error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to delete project' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ deleted: true }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Project delete error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to delete project' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -1,116 +1,38 @@
 import type { APIRoute } from 'astro';
-import Anthropic from '@anthropic-ai/sdk';
-import { auditData } from '../../data/auditPrompts';
+import { z } from 'astro/zod';
+import { getAuditDataById } from '../../data/auditPrompts';
+import { getAuditPrinciples } from '../../lib/auditPrinciples';
+import { llm } from '../../lib/llm';
+import { buildRefinePrompt, type OriginalScore } from '../../lib/analysisPrompts';
+import { requestPrincipleEntries, StructuredOutputError } from '../../lib/structuredOutput';
 
 export const prerender = false;
 
-interface FollowUpAnswer {
-  principleId: string;
-  selectedOptions: string[];
-  freeText: string;
-}
-
-interface OriginalScore {
-  principleId: string;
-  title: string;
-  score: number;
-  reasoning: string;
-}
+const refinementSchema = z.object({
+  refinedScore: z.number().int().min(1).max(5),
+  refinedReasoning: z.string().min(1),
+  specificActions: z.array(z.string()).min(1),
+});
+
+// Shape of one principle's entry in the record_refinements tool input
+const refinementJsonSchema = {
+  type: 'object',
+  properties: {
+    refinedScore: { type: 'integer', minimum: 1, maximum: 5 },
+    refinedReasoning: { type: 'string', description: 'Updated reasoning incorporating the new context' },
+    specificActions: { type: 'array', items: { type: 'string' }, description: '2-3 specific, actionable recommendations' },
+  },
+  required: ['refinedScore', 'refinedReasoning', 'specificActions'],
+};
 
-interface RefinedScore {
+interface RefinedScore extends z.infer<typeof refinementSchema> {
   principleId: string;
   originalScore: number;
-  refinedScore: number;
-  refinedReasoning: string;
-  specificActions: string[];
-}
-
-function buildRefinePrompt(
-  originalScores: OriginalScore[],
-  answers: FollowUpAnswer[]
-): string {
-  let prompt = `You are an expert in learning science. You previously analyzed a learning experience and scored it on several principles. The user has now provided additional context about features that may not have been visible in screenshots.
-
-For each principle below, consider the new information and:
-1. Decide if the score should be adjusted (it can stay the same, go up, or rarely go down)
-2. Provide updated reasoning that incorporates the new context
-3. Provide 2-3 specific, actionable recommendations for improvement
-
-Here are the principles that need refinement:
-
-`;
-
-  for (const original of originalScores) {
-    const answer = answers.find((a) => a.principleId === original.principleId);
-    const rubric = auditData[original.principleId]?.rubric;
-
-    prompt += `---
-## ${original.title} (ID: ${original.principleId})
-
-**Original Score:** ${original.score}/5
-**Original Reasoning:** "${original.reasoning}"
-
-`;
-
-    if (rubric) {
-      prompt += `**Scoring Rubric:**
-`;
-      for (let i = 1; i <= 5; i++) {
-        prompt += `  ${i} - ${rubric[i].label}: ${rubric[i].description}
-`;
-      }
-      prompt += `
-`;
-    }
-
-    if (answer) {
-      if (answer.selectedOptions.length > 0) {
-        prompt += `**User indicates the experience includes:**
-${answer.selectedOptions.map((o) => `- ${o}`).join('\n')}
-
-`;
-      }
-      if (answer.freeText.trim()) {
-        prompt += `**Additional context from user:**
-"${answer.freeText}"
-
-`;
-      }
-      if (answer.selectedOptions.length === 0 && !answer.freeText.trim()) {
-        prompt += `**User provided no additional context for this principle.**
-
-`;
-      }
-    }
-  }
-
-  prompt += `
----
-
-Respond in valid JSON format only, with no additional text:
-{
-  "refinedScores": [
-    {
-      "principleId": "<principle-id>",
-      "originalScore": <1-5>,
-      "refinedScore": <1-5>,
-      "refinedReasoning": "<updated reasoning incorporating new context>",
-      "specificActions": ["<action 1>", "<action 2>", "<action 3>"]
-    },
-    ...
-  ]
-}
-
-Be specific in your recommendations. Reference the user's context when adjusting scores. If no new information warrants a score change, keep the same score but still provide specific actions.`;
-
-  return prompt;
 }
 
 export const POST: APIRoute = async ({ request }) => {
   try {
-    const apiKey = import.meta.env.ANTHROPIC_API_KEY;
-
-    if (!apiKey) {
+    if (!llm) {
       return new Response(
         JSON.stringify({ error: 'API key not configured' }),
         { status: 500, headers: { 'Content-Type': 'application/json' } }
@@ -126,31 +48,41 @@ export const POST: APIRoute = async ({ request }) => {
       );
     }
 
-    const client = new Anthropic({ apiKey });
+    const auditData = getAuditDataById(
+      await getAuditPrinciples(),
+      originalScores.map((s: OriginalScore) => s.principleId)
+    );
 
-    const response = await client.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 4096,
+    const principleIds: string[] = originalScores.map((s: OriginalScore) => s.principleId);
+    const { entries, failures } = await requestPrincipleEntries({
+      provider: llm,
       messages: [
         {
           role: 'user',
-          content: buildRefinePrompt(originalScores, answers || []),
+          content: buildRefinePrompt(auditData, originalScores, answers || []),
         },
       ],
+      toolName: 'record_refinements',
+      toolDescription: 'Record the refined score, reasoning, and specific actions for each principle.',
+      key: 'refinedScores',
+      entryJsonSchema: refinementJsonSchema,
+      entrySchema: refinementSchema,
+      principleIds,
     });
 
-    const textContent = response.content.find((block) => block.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
-      throw new Error('No text response from API');
+    if (Object.keys(entries).length === 0) {
+      throw new StructuredOutputError('The model did not return valid refinements for any principle', failures);
     }
 
-    // Parse the JSON response
-    const jsonMatch = textContent.text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('Could not parse JSON from response');
-    }
+    const refinedScores: RefinedScore[] = (originalScores as OriginalScore[])
+      .filter((original) => entries[original.principleId])
+      .map((original) => ({
+        principleId: original.principleId,
+        originalScore: original.score,
+        ...entries[original.principleId],
+      }));
 
-    const result = JSON.parse(jsonMatch[0]);
+    const result = failures.length > 0 ? { refinedScores, failures } : { refinedScores };
 
     return new Response(JSON.stringify(result), {
       status: 200,
@@ -158,6 +90,12 @@ export const POST: APIRoute = async ({ request }) => {
     });
   } catch (error) {
     console.error('Refine analysis error:', error);
+    if (error instanceof StructuredOutputError) {
+      return new Response(
+        JSON.stringify({ error: error.message, failures: error.failures }),
+        { status: 502, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'Analysis failed' }),
       { status: 500, headers: { 'Content-Type': 'application/json' } }
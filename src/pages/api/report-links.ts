@@ -0,0 +1,71 @@
+import type { APIRoute } from 'astro';
+import { z } from 'astro/zod';
+import { storage } from '../../lib/storage';
+import { openOwnedReport, readReportCredentials, reportTokenSecret, signReportToken } from '../../lib/reportAccess';
+import { describeIssues } from '../../lib/reportSchema';
+
+export const prerender = false;
+
+const linkRequestSchema = z.object({
+  id: z.string().min(1),
+  /** How long the link works, up to 90 days */
+  expiresInHours: z.number().positive().max(24 * 90),
+});
+
+// Create a signed, expiring link to a report (owner only)
+export const POST: APIRoute = async ({ request, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+  if (!reportTokenSecret) {
+    return new Response(
+      JSON.stringify({ error: 'Signed links not configured (set REPORT_TOKEN_SECRET)' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const parsed = linkRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: describeIssues(parsed.error) }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { id, expiresInHours } = parsed.data;
+    const owned = await openOwnedReport(storage, id, await readReportCredentials(cookies, id));
+    if ('error' in owned) {
+      return new Response(
+        JSON.stringify({ error: owned.error }),
+        { status: owned.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (owned.access.mode === 'private') {
+      return new Response(
+        JSON.stringify({ error: 'Private reports can only be opened by their owner' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // A link never outlives the report
+    const reportExpiry = owned.access.expiresAt ? Date.parse(owned.access.expiresAt) : Infinity;
+    const expiresAt = Math.min(Date.now() + expiresInHours * 60 * 60 * 1000, reportExpiry);
+    const token = signReportToken(id, reportTokenSecret, expiresAt);
+
+    return new Response(
+      JSON.stringify({ url: `/audit/${id}?token=${encodeURIComponent(token)}`, expiresAt: new Date(expiresAt).toISOString() }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Report link error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to create link' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
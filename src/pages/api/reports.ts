@@ -1,11 +1,37 @@
 import type { APIRoute } from 'astro';
-import { supabase } from '../../lib/supabase';
+import { storage } from '../../lib/storage';
+import { fetchNextVersionIds } from '../../lib/reports';
+import {
+  type ReportAccessSettings,
+  createOwnerKey,
+  hashOwnerKey,
+  hashPassword,
+  openOwnedReport,
+  openReport,
+  readReportCredentials,
+  setOwnerCookie,
+  clearReportCookies,
+  summarizeAccess,
+} from '../../lib/reportAccess';
+import {
+  describeIssues,
+  readJsonBody,
+  reportInputSchema,
+  reportUpdateSchema,
+  unknownPrincipleIds,
+} from '../../lib/reportSchema';
+import { getAuditPrinciples } from '../../lib/auditPrinciples';
+import { getSessionUser } from '../../lib/auth';
+import { openWorkspace } from '../../lib/workspaces';
+import { openProject } from '../../lib/projects';
+import { type ScoreOverride, aiScoresWithRefinements, changedFromAi, overallScore } from '../../lib/auditScoring';
+import { createLegacyProfile } from '../../data/auditProfiles';
 import { nanoid } from 'nanoid';
 
 export const prerender = false;
 
-export const POST: APIRoute = async ({ request }) => {
-  if (!supabase) {
+export const POST: APIRoute = async ({ request, cookies }) => {
+  if (!storage) {
     return new Response(
       JSON.stringify({ error: 'Database not configured' }),
       { status: 500, headers: { 'Content-Type': 'application/json' } }
@@ -13,17 +39,106 @@ export const POST: APIRoute = async ({ request }) => {
   }
 
   try {
-    const report = await request.json();
+    const read = await readJsonBody(request);
+    if (read instanceof Response) return read;
+
+    const parsed = reportInputSchema.safeParse(read.body);
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: `Invalid report: ${describeIssues(parsed.error)}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const report = parsed.data;
+    const unknown = unknownPrincipleIds(report, (await getAuditPrinciples()).map((p) => p.id));
+    if (unknown.length > 0) {
+      return new Response(
+        JSON.stringify({ error: `Invalid report: unknown principles: ${unknown.join(', ')}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
     const id = nanoid(10);
 
-    const { error } = await supabase
+    // Every score that no longer matches the AI's (or its refinement) needs the author's rationale
+    const aiScores = aiScoresWithRefinements(
+      report.sectionResults ?? [],
+      report.refinedScores ?? [],
+      Object.keys(report.ratings)
+    );
+    const unexplained = changedFromAi(report.ratings, aiScores).filter(
+      (principleId) =>
+        !report.scoreOverrides?.some((o) => o.principleId === principleId && o.score === report.ratings[principleId])
+    );
+    if (unexplained.length > 0) {
+      return new Response(
+        JSON.stringify({ error: `Rationale required for changed AI scores: ${unexplained.join(', ')}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // A re-audit can be saved as a new version of an earlier report its author manages
+    const previousVersionId: string | null = report.previousVersionId || null;
+    if (previousVersionId) {
+      const previous = await openReport(storage, previousVersionId, await readReportCredentials(cookies, previousVersionId));
+      if ('error' in previous && previous.status === 404) {
+        return new Response(
+          JSON.stringify({ error: 'Previous version not found' }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+      if ('error' in previous || !previous.owner) {
+        return new Response(
+          JSON.stringify({ error: 'Only the owner of the previous version can save a new version of it' }),
+          { status: 403, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    // The author's browser keeps the owner key; only its hash is stored. Signed-in authors
+    // also own the report through their account, which lists it on their dashboard.
+    const ownerKey = createOwnerKey();
+    const user = await getSessionUser(cookies);
+
+    const projectId: string | null = report.projectId || null;
+    if (projectId) {
+      const project = await openProject(storage, projectId, user, 'editor');
+      if ('error' in project) {
+        return new Response(
+          JSON.stringify({ error: project.error }),
+          { status: project.status, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+    const access = report.access ?? { mode: 'link' as const };
+    const createdAt = new Date().toISOString();
+    const scoreOverrides: ScoreOverride[] = (report.scoreOverrides ?? []).map((override) => ({
+      ...override,
+      author: user?.email ?? null,
+      createdAt,
+    }));
+
+    const { error } = await storage
       .from('audit_reports')
       .insert({
         id,
-        overall_score: report.overallScore,
+        user_id: user?.id ?? null,
+        product_name: report.productName || null,
+        tags: report.tags ?? [],
+        // Scored here rather than trusted from the client, so it always matches the ratings
+        overall_score: overallScore(report.ratings, report.profile ?? createLegacyProfile(Object.keys(report.ratings))),
         ratings: report.ratings,
-        section_results: report.sectionResults,
-        key_takeaways: report.keyTakeaways,
+        section_results: report.sectionResults ?? null,
+        key_takeaways: report.keyTakeaways ?? null,
+        profile: report.profile ?? null,
+        refined_scores: report.refinedScores?.length ? report.refinedScores : null,
+        score_overrides: scoreOverrides,
+        previous_version_id: previousVersionId,
+        project_id: projectId,
+        access_mode: access.mode,
+        owner_key_hash: hashOwnerKey(ownerKey),
+        password_hash: access.mode === 'password' && access.password ? await hashPassword(access.password) : null,
+        expires_at: access.expiresAt ?? null,
       });
 
     if (error) {
@@ -34,6 +149,8 @@ export const POST: APIRoute = async ({ request }) => {
       );
     }
 
+    setOwnerCookie(cookies, id, ownerKey);
+
     return new Response(
       JSON.stringify({ id, url: `/audit/${id}` }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
@@ -47,8 +164,8 @@ export const POST: APIRoute = async ({ request }) => {
   }
 };
 
-export const GET: APIRoute = async ({ url }) => {
-  if (!supabase) {
+export const GET: APIRoute = async ({ url, cookies }) => {
+  if (!storage) {
     return new Response(
       JSON.stringify({ error: 'Database not configured' }),
       { status: 500, headers: { 'Content-Type': 'application/json' } }
@@ -64,27 +181,21 @@ export const GET: APIRoute = async ({ url }) => {
   }
 
   try {
-    const { data, error } = await supabase
-      .from('audit_reports')
-      .select('*')
-      .eq('id', id)
-      .single();
+    const lookup = await openReport(storage, id, await readReportCredentials(cookies, id, url));
 
-    if (error || !data) {
+    if ('error' in lookup) {
       return new Response(
-        JSON.stringify({ error: 'Report not found' }),
-        { status: 404, headers: { 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: lookup.error }),
+        { status: lookup.status, headers: { 'Content-Type': 'application/json' } }
       );
     }
 
     return new Response(
       JSON.stringify({
-        id: data.id,
-        createdAt: data.created_at,
-        overallScore: data.overall_score,
-        ratings: data.ratings,
-        sectionResults: data.section_results,
-        keyTakeaways: data.key_takeaways,
+        ...lookup.report,
+        nextVersionIds: await fetchNextVersionIds(storage, id),
+        // Only the owner sees how the report is protected
+        ...(lookup.owner && { access: summarizeAccess(lookup.access) }),
       }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
     );
@@ -96,3 +207,190 @@ export const GET: APIRoute = async ({ url }) => {
     );
   }
 };
+
+// Rename, retag, move or change who can open a report (owner and workspace editors only)
+export const PATCH: APIRoute = async ({ request, url, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const id = url.searchParams.get('id');
+    if (!id) {
+      return new Response(
+        JSON.stringify({ error: 'Report ID required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const credentials = await readReportCredentials(cookies, id);
+    const owned = await openOwnedReport(storage, id, credentials);
+    if ('error' in owned) {
+      return new Response(
+        JSON.stringify({ error: owned.error }),
+        { status: owned.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    const { access } = owned;
+
+    const read = await readJsonBody(request);
+    if (read instanceof Response) return read;
+
+    const parsed = reportUpdateSchema.safeParse(read.body);
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: `Invalid changes: ${describeIssues(parsed.error)}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const changes = parsed.data;
+    const mode = changes.mode ?? access.mode;
+    // Leaving password mode discards the password
+    const passwordHash = mode !== 'password'
+      ? null
+      : changes.password
+        ? await hashPassword(changes.password)
+        : access.passwordHash;
+
+    if (mode === 'password' && !passwordHash) {
+      return new Response(
+        JSON.stringify({ error: 'Password required for password-protected reports' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Reports can only be moved into workspaces the mover edits
+    const workspaceId = changes.workspaceId !== undefined ? changes.workspaceId : access.workspaceId;
+    if (workspaceId && workspaceId !== access.workspaceId) {
+      const target = await openWorkspace(storage, workspaceId, credentials.email ?? null, 'editor');
+      if ('error' in target) {
+        return new Response(
+          JSON.stringify({ error: target.error }),
+          { status: target.status, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    // ...and attached only to projects they edit
+    const projectId = changes.projectId !== undefined ? changes.projectId : owned.report.projectId;
+    if (projectId && projectId !== owned.report.projectId) {
+      const user = credentials.userId ? { id: credentials.userId, email: credentials.email ?? null } : null;
+      const project = await openProject(storage, projectId, user, 'editor');
+      if ('error' in project) {
+        return new Response(
+          JSON.stringify({ error: project.error }),
+          { status: project.status, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const updated: ReportAccessSettings = {
+      ...access,
+      mode,
+      workspaceId,
+      passwordHash,
+      expiresAt: changes.expiresAt !== undefined ? changes.expiresAt : access.expiresAt,
+      grantsRevokedAt: changes.revokeGrants ? new Date().toISOString() : access.grantsRevokedAt,
+    };
+
+    const productName = changes.productName !== undefined ? changes.productName || null : owned.report.productName;
+    const tags = changes.tags ?? owned.report.tags;
+
+    const { error } = await storage
+      .from('audit_reports')
+      .update({
+        product_name: productName,
+        tags,
+        workspace_id: workspaceId,
+        project_id: projectId,
+        access_mode: updated.mode,
+        password_hash: updated.passwordHash,
+        expires_at: updated.expiresAt,
+        grants_revoked_at: updated.grantsRevokedAt,
+      })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to update report' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ productName, tags, workspaceId, projectId, access: summarizeAccess(updated) }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Report update error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to update report' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+// Delete a report (owner only)
+export const DELETE: APIRoute = async ({ url, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const id = url.searchParams.get('id');
+    if (!id) {
+      return new Response(
+        JSON.stringify({ error: 'Report ID required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const owned = await openOwnedReport(storage, id, await readReportCredentials(cookies, id));
+    if ('error' in owned) {
+      return new Response(
+        JSON.stringify({ error: owned.error }),
+        { status: owned.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Later versions skip over the deleted report to the one before it
+    await storage
+      .from('audit_reports')
+      .update({ previous_version_id: owned.report.previousVersionId })
+      .eq('previous_version_id', id);
+
+    // The local backend has no foreign keys to cascade the delete
+    const { error: commentsError } = await storage.from('report_comments').delete().eq('report_id', id);
+    const { error: actionItemsError } = await storage.from('action_items').delete().eq('report_id', id);
+    const { error } = await storage.from('audit_reports').delete().eq('id', id);
+
+    if (commentsError || actionItemsError || error) {
+      console.error('Supabase error:', commentsError || actionItemsError || error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to delete report' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    clearReportCookies(cookies, id);
+
+    return new Response(
+      JSON.stringify({ id }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Report delete error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to delete report' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,90 @@
+import type { APIRoute } from 'astro';
+import { z } from 'astro/zod';
+import { storage } from '../../lib/storage';
+import { openOwnedReport, readReportCredentials } from '../../lib/reportAccess';
+import { type ScoreOverride, applyScoreOverride } from '../../lib/auditScoring';
+import { createLegacyProfile } from '../../data/auditProfiles';
+import { describeIssues } from '../../lib/reportSchema';
+
+export const prerender = false;
+
+const overrideRequestSchema = z.object({
+  reportId: z.string().min(1),
+  principleId: z.string().min(1),
+  score: z.number().int().min(1).max(5),
+  justification: z.string().trim().min(1, 'A justification is required').max(2000),
+});
+
+// Replace a principle's score, recording who changed it and why (workspace editors and the report's owner)
+export const POST: APIRoute = async ({ request, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const parsed = overrideRequestSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: describeIssues(parsed.error) }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { reportId, principleId, score, justification } = parsed.data;
+    const credentials = await readReportCredentials(cookies, reportId);
+    const owned = await openOwnedReport(storage, reportId, credentials);
+    if ('error' in owned) {
+      return new Response(
+        JSON.stringify({ error: owned.error }),
+        { status: owned.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { report } = owned;
+    if (!(principleId in report.ratings)) {
+      return new Response(
+        JSON.stringify({ error: 'Principle is not part of this report' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const override: ScoreOverride = {
+      principleId,
+      previousScore: report.ratings[principleId],
+      score,
+      justification,
+      author: credentials.email ?? null,
+      createdAt: new Date().toISOString(),
+    };
+    const profile = report.profile ?? createLegacyProfile(Object.keys(report.ratings));
+    const { ratings, overallScore } = applyScoreOverride(report.ratings, override, profile);
+    const scoreOverrides = [...report.scoreOverrides, override];
+
+    const { error } = await storage
+      .from('audit_reports')
+      .update({ ratings, overall_score: overallScore, score_overrides: scoreOverrides })
+      .eq('id', reportId);
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to save override' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ ratings, overallScore, scoreOverrides }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Score override error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to save override' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
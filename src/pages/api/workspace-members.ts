@@ -0,0 +1,214 @@
+import type { APIRoute } from 'astro';
+import { z } from 'astro/zod';
+import { storage } from '../../lib/storage';
+import { getSessionUser } from '../../lib/auth';
+import {
+  WORKSPACE_ROLES,
+  fetchWorkspaceMembers,
+  isLastOwner,
+  normalizeEmail,
+  openWorkspace,
+} from '../../lib/workspaces';
+import { describeIssues } from '../../lib/reportSchema';
+
+export const prerender = false;
+
+const memberInputSchema = z.object({
+  workspaceId: z.string().min(1),
+  email: z.string().email('Enter a valid email address').transform(normalizeEmail),
+  role: z.enum(WORKSPACE_ROLES),
+});
+
+// Add a member, who can sign in with this email to join (owners only)
+export const POST: APIRoute = async ({ request, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const parsed = memberInputSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: describeIssues(parsed.error) }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { workspaceId, email, role } = parsed.data;
+    const user = await getSessionUser(cookies);
+    const opened = await openWorkspace(storage, workspaceId, user?.email ?? null, 'owner');
+    if ('error' in opened) {
+      return new Response(
+        JSON.stringify({ error: opened.error }),
+        { status: opened.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const members = await fetchWorkspaceMembers(storage, workspaceId);
+    if (members.some((m) => m.email === email)) {
+      return new Response(
+        JSON.stringify({ error: 'Already a member of this workspace' }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const addedAt = new Date().toISOString();
+    const { error } = await storage
+      .from('workspace_members')
+      .insert({ workspace_id: workspaceId, email, role, created_at: addedAt });
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to add member' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ member: { email, role, addedAt } }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Member add error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to add member' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+// Change a member's role (owners only); a workspace always keeps at least one owner
+export const PATCH: APIRoute = async ({ request, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const parsed = memberInputSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: describeIssues(parsed.error) }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { workspaceId, email, role } = parsed.data;
+    const user = await getSessionUser(cookies);
+    const opened = await openWorkspace(storage, workspaceId, user?.email ?? null, 'owner');
+    if ('error' in opened) {
+      return new Response(
+        JSON.stringify({ error: opened.error }),
+        { status: opened.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const members = await fetchWorkspaceMembers(storage, workspaceId);
+    if (!members.some((m) => m.email === email)) {
+      return new Response(
+        JSON.stringify({ error: 'Member not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    if (role !== 'owner' && isLastOwner(members, email)) {
+      return new Response(
+        JSON.stringify({ error: 'A workspace needs at least one owner' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { error } = await storage
+      .from('workspace_members')
+      .update({ role })
+      .eq('workspace_id', workspaceId)
+      .eq('email', email);
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to update member' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ email, role }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Member update error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to update member' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+// Remove a member (owners), or leave a workspace (any member)
+export const DELETE: APIRoute = async ({ url, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const workspaceId = url.searchParams.get('workspaceId');
+    const email = normalizeEmail(url.searchParams.get('email') ?? '');
+    if (!workspaceId || !email) {
+      return new Response(
+        JSON.stringify({ error: 'Workspace ID and email required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const user = await getSessionUser(cookies);
+    const leaving = user?.email != null && normalizeEmail(user.email) === email;
+    const opened = await openWorkspace(storage, workspaceId, user?.email ?? null, leaving ? 'viewer' : 'owner');
+    if ('error' in opened) {
+      return new Response(
+        JSON.stringify({ error: opened.error }),
+        { status: opened.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (isLastOwner(await fetchWorkspaceMembers(storage, workspaceId), email)) {
+      return new Response(
+        JSON.stringify({ error: 'A workspace needs at least one owner' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { error } = await storage
+      .from('workspace_members')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('email', email);
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to remove member' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ removed: email }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Member remove error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to remove member' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,205 @@
+import type { APIRoute } from 'astro';
+import { z } from 'astro/zod';
+import { nanoid } from 'nanoid';
+import { storage } from '../../lib/storage';
+import { getSessionUser } from '../../lib/auth';
+import { fetchUserWorkspaces, normalizeEmail, openWorkspace } from '../../lib/workspaces';
+import { describeIssues } from '../../lib/reportSchema';
+
+export const prerender = false;
+
+const workspaceInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+});
+
+export const GET: APIRoute = async ({ cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const user = await getSessionUser(cookies);
+  if (!user?.email) {
+    return new Response(
+      JSON.stringify({ error: 'Sign in required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ workspaces: await fetchUserWorkspaces(storage, user.email) }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+};
+
+// Create a workspace, owned by its creator
+export const POST: APIRoute = async ({ request, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const user = await getSessionUser(cookies);
+    if (!user?.email) {
+      return new Response(
+        JSON.stringify({ error: 'Sign in required' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const parsed = workspaceInputSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: describeIssues(parsed.error) }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const id = nanoid(10);
+    const createdAt = new Date().toISOString();
+    const { error } = await storage
+      .from('workspaces')
+      .insert({ id, name: parsed.data.name, created_by: user.id, created_at: createdAt });
+    const { error: memberError } = error
+      ? { error }
+      : await storage
+          .from('workspace_members')
+          .insert({ workspace_id: id, email: normalizeEmail(user.email), role: 'owner', created_at: createdAt });
+
+    if (error || memberError) {
+      console.error('Supabase error:', error || memberError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to create workspace' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ workspace: { id, name: parsed.data.name, createdAt, role: 'owner' }, url: `/workspaces/${id}` }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Workspace create error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to create workspace' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+// Rename a workspace (owners only)
+export const PATCH: APIRoute = async ({ request, url, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const id = url.searchParams.get('id');
+    if (!id) {
+      return new Response(
+        JSON.stringify({ error: 'Workspace ID required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const user = await getSessionUser(cookies);
+    const opened = await openWorkspace(storage, id, user?.email ?? null, 'owner');
+    if ('error' in opened) {
+      return new Response(
+        JSON.stringify({ error: opened.error }),
+        { status: opened.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const parsed = workspaceInputSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: describeIssues(parsed.error) }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { error } = await storage.from('workspaces').update({ name: parsed.data.name }).eq('id', id);
+    if (error) {
+      console.error('Supabase error:', error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to update workspace' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ workspace: { ...opened.workspace, name: parsed.data.name } }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Workspace update error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to update workspace' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+// Delete a workspace (owners only). Its reports stay with their authors.
+export const DELETE: APIRoute = async ({ url, cookies }) => {
+  if (!storage) {
+    return new Response(
+      JSON.stringify({ error: 'Database not configured' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const id = url.searchParams.get('id');
+    if (!id) {
+      return new Response(
+        JSON.stringify({ error: 'Workspace ID required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const user = await getSessionUser(cookies);
+    const opened = await openWorkspace(storage, id, user?.email ?? null, 'owner');
+    if ('error' in opened) {
+      return new Response(
+        JSON.stringify({ error: opened.error }),
+        { status: opened.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { error: unlinkError } = await storage
+      .from('audit_reports')
+      .update({ workspace_id: null })
+      .eq('workspace_id', id);
+    const { error: membersError } = await storage.from('workspace_members').delete().eq('workspace_id', id);
+    const { error } = await storage.from('workspaces').delete().eq('id', id);
+
+    if (unlinkError || membersError || error) {
+      console.error('Supabase error:', unlinkError || membersError || error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to delete workspace' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ deleted: true }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Workspace delete error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to delete workspace' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -181,6 +181,33 @@ export type WaitingReason =
   | 'confirmation_needed'
   | 'unknown_state';
 
+/** What the user chose when the navigator asked for help: carry on, skip the flow, or end the session */
+export type InterventionAction = 'continue' | 'skip' | 'abort';
+
+/** One time the navigator asked for help and how the user answered */
+export interface NavigationIntervention {
+  id: string;
+  flowId: string;
+  reason: WaitingReason;
+  action: InterventionAction;
+  /** Guidance the user gave the navigator for the rest of the flow */
+  guidance?: string;
+  /** Clicks, typing and scrolling the user did in the remote browser view */
+  remoteInputs: number;
+  requestedAt: number;
+  resolvedAt: number;
+}
+
+/**
+ * Input from the user driving the navigator's browser while it waits for help. Click positions
+ * are fractions (0-1) of the screenshot's width and height.
+ */
+export type RemoteInput =
+  | { type: 'click'; x: number; y: number }
+  | { type: 'type'; text: string }
+  | { type: 'press'; key: string }
+  | { type: 'scroll'; deltaY: number };
+
 /** Complete navigation session data */
 export interface NavigationSession {
   id: string;
@@ -208,6 +235,10 @@ export interface NavigationSession {
   error?: string;
   /** Default learner persona for all flows (can be overridden per-flow) */
   defaultPersona?: LearnerPersona;
+  /** Settings the session was recorded with */
+  config?: NavigationConfig;
+  /** Times the user stepped in to help (absent on sessions recorded before they were logged) */
+  interventions?: NavigationIntervention[];
 }
 
 /** Configuration for navigation session */
@@ -245,6 +276,24 @@ export const DEFAULT_NAVIGATION_CONFIG: NavigationConfig = {
   },
 };
 
+/**
+ * One change to a running session, streamed by /api/navigate as a server-sent event named after
+ * its type. Applying them in order to the session that was started rebuilds the runner's session.
+ */
+export type NavigationEvent =
+  | {
+      type: 'status';
+      status: NavigationSessionStatus;
+      currentFlowId?: string;
+      waitingReason?: WaitingReason;
+      currentScreenshot?: string;
+      error?: string;
+    }
+  | { type: 'flow'; flow: NavigationFlow }
+  | { type: 'interaction'; interaction: Interaction }
+  | { type: 'capture'; capture: CapturedMoment }
+  | { type: 'intervention'; intervention: NavigationIntervention };
+
 /** Props for the NavigationMode component */
 export interface NavigationModeProps {
   /** Callback when navigation session completes with captures */
@@ -267,3 +316,8 @@ export interface NavigationAnalysisRequest {
     duration: number; // ms
   };
 }
+
+/** A NavigationAnalysisRequest without its screenshots, kept with a section whose images are the captures in order */
+export type NavigationAnalysisContext = Omit<NavigationAnalysisRequest, 'captures'> & {
+  captures: Omit<CapturedMoment, 'image'>[];
+};
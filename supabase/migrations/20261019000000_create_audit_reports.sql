@@ -0,0 +1,52 @@
+-- Shared audit reports (src/lib/reports.ts). Safe to run more than once.
+--
+-- The server queries with the service-role key and checks access itself (src/lib/reportAccess.ts);
+-- row level security keeps the anon key out (20261019020000_enable_row_level_security.sql).
+
+create table if not exists audit_reports (
+  id text primary key,
+  created_at timestamptz not null default now(),
+  product_name text,
+  tags text[] not null default '{}',
+  overall_score numeric not null,
+  ratings jsonb not null,
+  section_results jsonb,
+  key_takeaways jsonb,
+  profile jsonb,
+  refined_scores jsonb,
+  score_overrides jsonb not null default '[]',
+  -- The report this one is a new version of
+  previous_version_id text references audit_reports (id) on delete set null,
+  project_id text,
+  -- Access control: see REPORT_ACCESS_MODES
+  access_mode text not null default 'link' check (access_mode in ('link', 'password', 'signed', 'private')),
+  owner_key_hash text,
+  user_id uuid,
+  workspace_id text,
+  password_hash text,
+  expires_at timestamptz,
+  grants_revoked_at timestamptz
+);
+
+-- Tables created before these columns existed (only id, created_at, overall_score, ratings,
+-- section_results and key_takeaways) gain them here
+alter table audit_reports add column if not exists product_name text;
+alter table audit_reports add column if not exists tags text[] not null default '{}';
+alter table audit_reports add column if not exists profile jsonb;
+alter table audit_reports add column if not exists refined_scores jsonb;
+alter table audit_reports add column if not exists score_overrides jsonb not null default '[]';
+alter table audit_reports add column if not exists previous_version_id text references audit_reports (id) on delete set null;
+alter table audit_reports add column if not exists project_id text;
+alter table audit_reports add column if not exists access_mode text not null default 'link'
+  check (access_mode in ('link', 'password', 'signed', 'private'));
+alter table audit_reports add column if not exists owner_key_hash text;
+alter table audit_reports add column if not exists user_id uuid;
+alter table audit_reports add column if not exists workspace_id text;
+alter table audit_reports add column if not exists password_hash text;
+alter table audit_reports add column if not exists expires_at timestamptz;
+alter table audit_reports add column if not exists grants_revoked_at timestamptz;
+
+create index if not exists audit_reports_user_id_idx on audit_reports (user_id);
+create index if not exists audit_reports_workspace_id_idx on audit_reports (workspace_id);
+create index if not exists audit_reports_project_id_idx on audit_reports (project_id);
+create index if not exists audit_reports_previous_version_id_idx on audit_reports (previous_version_id);
@@ -0,0 +1,37 @@
+-- Team workspaces and their members (src/lib/workspaces.ts), and comments on shared reports
+-- (src/lib/reportComments.ts). Safe to run more than once.
+--
+-- Like audit_reports, these tables are queried with the service-role key and the server checks roles itself.
+
+create table if not exists workspaces (
+  id text primary key,
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+-- Members are recorded by email, so someone can be added before they create an account
+create table if not exists workspace_members (
+  workspace_id text not null references workspaces (id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, email)
+);
+
+create index if not exists workspace_members_email_idx on workspace_members (email);
+
+create table if not exists report_comments (
+  id text primary key,
+  report_id text not null references audit_reports (id) on delete cascade,
+  -- Replies belong to a top-level comment
+  parent_id text references report_comments (id) on delete cascade,
+  section_id text,
+  principle_id text,
+  body text not null,
+  author_email text not null,
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  resolved_by text
+);
+
+create index if not exists report_comments_report_id_idx on report_comments (report_id);
@@ -0,0 +1,18 @@
+-- Projects that track one learning experience across audits (src/lib/projects.ts). Safe to run
+-- more than once.
+
+create table if not exists projects (
+  id text primary key,
+  name text not null,
+  url text,
+  audience text,
+  context text,
+  -- The account that created the project, which holds every role on it
+  user_id uuid not null,
+  -- Shared with the workspace's members by role
+  workspace_id text references workspaces (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists projects_user_id_idx on projects (user_id);
+create index if not exists projects_workspace_id_idx on projects (workspace_id);
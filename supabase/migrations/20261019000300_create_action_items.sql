@@ -0,0 +1,20 @@
+-- Recommendations tracked as work on a shared report (src/lib/actionItems.ts). Safe to run more
+-- than once.
+
+create table if not exists action_items (
+  id text primary key,
+  report_id text not null references audit_reports (id) on delete cascade,
+  principle_id text not null,
+  title text not null,
+  source text not null check (source in ('top-action', 'refined')),
+  assignee text,
+  priority text not null default 'medium' check (priority in ('high', 'medium', 'low')),
+  effort text not null default 'medium' check (effort in ('small', 'medium', 'large')),
+  status text not null default 'open' check (status in ('open', 'in-progress', 'done')),
+  -- The principle's score when the item was created, to compare with the next audit's
+  baseline_score numeric,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists action_items_report_id_idx on action_items (report_id);
@@ -0,0 +1,23 @@
+-- Test logins for audited products (src/lib/credentialVault.ts). Safe to run more than once.
+--
+-- Usernames, passwords and saved browser storage state are encrypted by the server with
+-- CREDENTIAL_VAULT_KEY before they are stored; the database only ever sees ciphertext.
+
+create table if not exists project_credentials (
+  id text primary key,
+  project_id text not null references projects (id) on delete cascade,
+  label text not null,
+  login_url text not null,
+  -- Login form fields, as CSS selectors or labels; null uses the usual email/password/submit fields
+  username_target text,
+  password_target text,
+  submit_target text,
+  username_encrypted text not null,
+  password_encrypted text not null,
+  -- Cookies and local storage from the last navigation session that used these credentials
+  storage_state_encrypted text,
+  storage_state_saved_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists project_credentials_project_id_idx on project_credentials (project_id);
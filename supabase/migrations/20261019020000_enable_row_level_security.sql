@@ -0,0 +1,17 @@
+-- Keep every table away from the anon key, which is public in the sense that anyone who finds it
+-- can call the REST API with it. Safe to run more than once.
+--
+-- The server stores data with the service-role key (SUPABASE_SERVICE_ROLE_KEY, src/lib/supabase.ts),
+-- which bypasses row level security, and checks access itself (src/lib/reportAccess.ts and the
+-- like). No policies are created, so the anon and authenticated roles can read and write nothing.
+
+alter table audit_reports enable row level security;
+alter table workspaces enable row level security;
+alter table workspace_members enable row level security;
+alter table report_comments enable row level security;
+alter table projects enable row level security;
+alter table action_items enable row level security;
+alter table project_credentials enable row level security;
+
+revoke all on audit_reports, workspaces, workspace_members, report_comments, projects, action_items, project_credentials
+  from anon, authenticated;
@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCookies, jsonRequest } from '../helpers/api';
+import { createOwnerKey, hashOwnerKey } from '../../src/lib/reportAccess';
+
+const db = await vi.hoisted(async () => (await import('../helpers/supabase')).createSupabaseMock());
+const auth = vi.hoisted(() => ({ getSessionUser: vi.fn() }));
+
+vi.mock('../../src/lib/supabase', () => ({ supabase: db.client }));
+vi.mock('../../src/lib/auth', () => auth);
+
+const { POST, PATCH } = await import('../../src/pages/api/action-items');
+
+const ownerKey = createOwnerKey();
+const ownerCookies = () => createCookies({ 'report-owner-abc': ownerKey });
+const report = {
+  data: {
+    id: 'abc',
+    created_at: '2025-01-01T00:00:00Z',
+    overall_score: 3,
+    ratings: { 'retrieval-practice': 2, spacing: 4 },
+    section_results: null,
+    key_takeaways: null,
+    profile: null,
+    refined_scores: null,
+    previous_version_id: null,
+    owner_key_hash: hashOwnerKey(ownerKey),
+    workspace_id: null,
+  },
+  error: null,
+};
+const itemRow = {
+  id: 'item1',
+  report_id: 'abc',
+  principle_id: 'retrieval-practice',
+  title: 'Add a quiz after each lesson',
+  source: 'top-action',
+  assignee: null,
+  priority: 'high',
+  effort: 'small',
+  status: 'open',
+  baseline_score: 2,
+  created_at: '2025-01-02T00:00:00Z',
+  completed_at: null,
+};
+const suggestion = { principleId: 'retrieval-practice', title: 'Add a quiz after each lesson', source: 'top-action', priority: 'high' };
+
+beforeEach(() => {
+  db.reset();
+  auth.getSessionUser.mockReset();
+  auth.getSessionUser.mockResolvedValue(null);
+});
+
+describe('POST /api/action-items', () => {
+  it('tracks recommendations with the current score as their baseline', async () => {
+    db.respond('audit_reports', report);
+
+    const response = await POST(
+      jsonRequest('http://localhost/api/action-items', { reportId: 'abc', items: [{ ...suggestion, assignee: ' ' }] }, { cookies: ownerCookies() })
+    );
+
+    expect(response.status).toBe(200);
+    const { items } = await response.json();
+    expect(items).toMatchObject([
+      { reportId: 'abc', principleId: 'retrieval-practice', status: 'open', priority: 'high', effort: 'medium', assignee: null, baselineScore: 2 },
+    ]);
+    expect(db.callsTo('action_items', 'insert')[0][0]).toMatchObject([{ report_id: 'abc', baseline_score: 2, completed_at: null }]);
+  });
+
+  it('is limited to the report owner', async () => {
+    db.respond('audit_reports', report);
+
+    const response = await POST(jsonRequest('http://localhost/api/action-items', { reportId: 'abc', items: [suggestion] }));
+
+    expect(response.status).toBe(403);
+    expect(db.callsTo('action_items', 'insert')).toHaveLength(0);
+  });
+
+  it('rejects principles the report did not rate', async () => {
+    db.respond('audit_reports', report);
+
+    const response = await POST(
+      jsonRequest(
+        'http://localhost/api/action-items',
+        { reportId: 'abc', items: [{ ...suggestion, principleId: 'interleaving' }] },
+        { cookies: ownerCookies() }
+      )
+    );
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('PATCH /api/action-items', () => {
+  const patch = (body: unknown, cookies = ownerCookies()) =>
+    PATCH(jsonRequest('http://localhost/api/action-items?id=item1', body, { method: 'PATCH', cookies }));
+
+  it('records when an item is finished and clears it when reopened', async () => {
+    db.respond('action_items', { data: itemRow, error: null });
+    db.respond('audit_reports', report);
+
+    const done = await patch({ status: 'done', assignee: 'Sam' });
+    expect(done.status).toBe(200);
+    const { item } = await done.json();
+    expect(item).toMatchObject({ status: 'done', assignee: 'Sam' });
+    expect(item.completedAt).toEqual(expect.any(String));
+
+    db.respond('action_items', { data: { ...itemRow, status: 'done', completed_at: item.completedAt }, error: null });
+    db.respond('audit_reports', report);
+
+    const reopened = await patch({ status: 'in-progress' });
+    expect((await reopened.json()).item).toMatchObject({ status: 'in-progress', completedAt: null });
+  });
+
+  it('is limited to the report owner', async () => {
+    db.respond('action_items', { data: itemRow, error: null });
+    db.respond('audit_reports', report);
+
+    const response = await patch({ status: 'done' }, createCookies());
+
+    expect(response.status).toBe(403);
+    expect(db.callsTo('action_items', 'update')).toHaveLength(0);
+  });
+});
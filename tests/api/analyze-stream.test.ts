@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { jsonRequest, toolUseMessage } from '../helpers/api';
+import { readServerSentEvents, type ServerSentEvent } from '../../src/lib/serverSentEvents';
+import type { ToolInputListener } from '../../src/lib/llm';
+
+const streamMessage = vi.hoisted(() => vi.fn());
+vi.mock('../../src/lib/llm', () => ({
+  llm: { name: 'mock', config: { model: 'test-model', maxTokens: 1000, timeoutMs: 1000 }, streamMessage },
+}));
+
+const { POST } = await import('../../src/pages/api/analyze-stream');
+
+const image = { data: 'aGVsbG8=', mediaType: 'image/png' };
+const valid = (score: number) => ({ score, reasoning: 'Seen in screenshot', confidence: 'high', evidence: [{ image: 1 }] });
+
+/** A streamed response that reveals the scores one principle at a time */
+function streamScores(scores: Record<string, unknown>) {
+  return async (_request: unknown, onToolInput: ToolInputListener) => {
+    const entries = Object.entries(scores);
+    for (let i = 1; i <= entries.length; i++) {
+      onToolInput({ scores: Object.fromEntries(entries.slice(0, i)) });
+    }
+    return toolUseMessage('record_scores', { scores });
+  };
+}
+
+async function collectEvents(response: Response): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = [];
+  await readServerSentEvents(response, (event) => events.push(event));
+  return events;
+}
+
+beforeEach(() => {
+  streamMessage.mockReset();
+});
+
+describe('POST /api/analyze-stream', () => {
+  it('rejects invalid requests before streaming', async () => {
+    const response = await POST(jsonRequest('http://localhost/api/analyze-stream', { images: [] }));
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'No images provided' });
+  });
+
+  it('emits each score once the model has moved past it, then the full result', async () => {
+    streamMessage.mockImplementationOnce(
+      streamScores({ 'cognitive-load-theory': valid(2), 'retrieval-practice': valid(4) })
+    );
+
+    const response = await POST(
+      jsonRequest('http://localhost/api/analyze-stream', { images: [image], sectionName: 'Knowledge check' })
+    );
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    const events = await collectEvents(response);
+
+    expect(events.map((e) => e.event)).toEqual(['start', 'score', 'score', 'done']);
+    expect(events[0].data).toEqual({ principleIds: ['cognitive-load-theory', 'retrieval-practice'], runs: 1 });
+    expect(events[1].data).toMatchObject({ principleId: 'cognitive-load-theory', score: { score: 2 } });
+    expect(events[2].data).toMatchObject({ principleId: 'retrieval-practice', score: { score: 4 } });
+    expect((events[3].data as { scores: Record<string, unknown> }).scores['spaced-repetition']).toMatchObject({
+      notApplicable: true,
+    });
+  });
+
+  it('reports consensus scores once every run has scored the principle', async () => {
+    streamMessage
+      .mockImplementationOnce(streamScores({ 'cognitive-load-theory': valid(2), 'retrieval-practice': valid(4) }))
+      .mockImplementationOnce(streamScores({ 'cognitive-load-theory': valid(3), 'retrieval-practice': valid(4) }))
+      .mockImplementationOnce(streamScores({ 'cognitive-load-theory': valid(3), 'retrieval-practice': valid(5) }));
+
+    const response = await POST(
+      jsonRequest('http://localhost/api/analyze-stream', { images: [image], sectionName: 'Knowledge check', runs: 3 })
+    );
+    const scores = (await collectEvents(response)).filter((e) => e.event === 'score');
+
+    expect(scores).toHaveLength(2);
+    expect(scores.find((e) => (e.data as { principleId: string }).principleId === 'cognitive-load-theory')?.data)
+      .toMatchObject({ score: { score: 3, consensus: { scores: [2, 3, 3] } } });
+  });
+
+  it('sends an error event when no principle could be scored', async () => {
+    streamMessage.mockImplementation(streamScores({}));
+
+    const response = await POST(
+      jsonRequest('http://localhost/api/analyze-stream', { images: [image], sectionName: 'Knowledge check' })
+    );
+    const events = await collectEvents(response);
+
+    expect(events.at(-1)).toMatchObject({
+      event: 'error',
+      data: { error: 'The model did not return valid scores for any principle' },
+    });
+    expect((events.at(-1)!.data as { failures: unknown[] }).failures).toHaveLength(2);
+  });
+});
@@ -0,0 +1,258 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { jsonRequest, toolUseMessage } from '../helpers/api';
+
+const createMessage = vi.hoisted(() => vi.fn());
+vi.mock('../../src/lib/llm', () => ({
+  llm: { name: 'mock', config: { model: 'test-model', maxTokens: 1000, timeoutMs: 1000 }, createMessage },
+}));
+
+const { POST } = await import('../../src/pages/api/analyze');
+
+const image = { data: 'aGVsbG8=', mediaType: 'image/png' };
+const analyze = (body: Record<string, unknown>) =>
+  POST(jsonRequest('http://localhost/api/analyze', { images: [image], ...body }));
+
+const valid = (score: number) => ({ score, reasoning: 'Seen in screenshot', confidence: 'high', evidence: [{ image: 1 }] });
+
+beforeEach(() => {
+  createMessage.mockReset();
+});
+
+describe('POST /api/analyze', () => {
+  it('rejects requests without images', async () => {
+    const response = await POST(jsonRequest('http://localhost/api/analyze', { images: [] }));
+    expect(response.status).toBe(400);
+    expect(createMessage).not.toHaveBeenCalled();
+  });
+
+  it('rejects a selection with no known principles', async () => {
+    const response = await analyze({ principleIds: ['not-a-principle'] });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'No valid principles selected' });
+  });
+
+  it('scores applicable principles and marks the rest not applicable', async () => {
+    createMessage.mockResolvedValueOnce(
+      toolUseMessage('record_scores', {
+        scores: { 'retrieval-practice': valid(4), 'cognitive-load-theory': valid(2) },
+      })
+    );
+
+    const response = await analyze({ sectionName: 'Knowledge check' });
+    expect(response.status).toBe(200);
+    const data = await response.json();
+
+    expect(data.scores['retrieval-practice']).toMatchObject({ score: 4 });
+    expect(data.scores['cognitive-load-theory']).toMatchObject({ score: 2 });
+    expect(data.scores['spaced-repetition']).toMatchObject({ notApplicable: true, score: 0 });
+    expect(data.failures).toBeUndefined();
+
+    const request = createMessage.mock.calls[0][0];
+    expect(request.toolChoice).toEqual({ type: 'tool', name: 'record_scores' });
+    expect(request.tools[0].input_schema.properties.scores.required).toEqual([
+      'cognitive-load-theory',
+      'retrieval-practice',
+    ]);
+  });
+
+  it('uses the principles and weights from the audit profile', async () => {
+    createMessage.mockResolvedValueOnce(
+      toolUseMessage('record_scores', { scores: { 'self-efficacy': valid(3) } })
+    );
+
+    const response = await analyze({
+      sectionName: 'Knowledge check',
+      profile: { principleIds: ['self-efficacy'], weights: { 'self-efficacy': 2 } },
+    });
+    expect(response.status).toBe(200);
+    expect(Object.keys((await response.json()).scores)).toEqual(['self-efficacy']);
+
+    const prompt = createMessage.mock.calls[0][0].messages[0].content.at(-1).text;
+    expect(prompt).toContain('## self-efficacy\nPriority: HIGH');
+  });
+
+  it('re-requests only the invalid principles and merges the repaired entries', async () => {
+    createMessage
+      .mockResolvedValueOnce(
+        toolUseMessage('record_scores', {
+          scores: { 'retrieval-practice': valid(4), 'cognitive-load-theory': { ...valid(2), score: 7 } },
+        })
+      )
+      .mockResolvedValueOnce(
+        toolUseMessage('record_scores', { scores: { 'cognitive-load-theory': valid(3) } })
+      );
+
+    const response = await analyze({ sectionName: 'Knowledge check' });
+    const data = await response.json();
+    expect(data.scores['retrieval-practice'].score).toBe(4);
+    expect(data.scores['cognitive-load-theory'].score).toBe(3);
+
+    const repair = createMessage.mock.calls[1][0].messages.at(-1).content[0];
+    expect(repair.type).toBe('tool_result');
+    expect(repair.is_error).toBe(true);
+    expect(repair.content).toContain('cognitive-load-theory');
+    expect(repair.content).not.toContain('retrieval-practice');
+  });
+
+  it('returns the valid scores and lists principles that never validated', async () => {
+    createMessage.mockResolvedValue(
+      toolUseMessage('record_scores', { scores: { 'retrieval-practice': valid(4) } })
+    );
+
+    const response = await analyze({ sectionName: 'Knowledge check' });
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data.scores['retrieval-practice'].score).toBe(4);
+    expect(data.failures).toEqual([{ principleId: 'cognitive-load-theory', reason: 'missing from response' }]);
+    expect(createMessage).toHaveBeenCalledTimes(3);
+  });
+
+  it('numbers the screenshots and rejects evidence citing one that was not sent', async () => {
+    createMessage
+      .mockResolvedValueOnce(
+        toolUseMessage('record_scores', {
+          scores: {
+            'retrieval-practice': { ...valid(4), evidence: [{ image: 1, quote: 'Quiz: question 1 of 5' }] },
+            'cognitive-load-theory': { ...valid(2), evidence: [{ image: 3 }] },
+          },
+        })
+      )
+      .mockResolvedValueOnce(toolUseMessage('record_scores', { scores: { 'cognitive-load-theory': valid(2) } }));
+
+    const response = await analyze({ sectionName: 'Knowledge check', images: [image, image] });
+    const data = await response.json();
+    expect(data.scores['retrieval-practice'].evidence).toEqual([{ image: 1, quote: 'Quiz: question 1 of 5' }]);
+    expect(createMessage).toHaveBeenCalledTimes(2);
+
+    const content = createMessage.mock.calls[0][0].messages[0].content;
+    expect(content.filter((block: { type: string }) => block.type === 'text').slice(0, 2)).toEqual([
+      { type: 'text', text: 'Screenshot 1:' },
+      { type: 'text', text: 'Screenshot 2:' },
+    ]);
+    const repair = createMessage.mock.calls[1][0].messages.at(-1).content[0];
+    expect(repair.content).toContain('evidence.0.image');
+  });
+
+  it('aggregates several runs into consensus scores', async () => {
+    createMessage
+      .mockResolvedValueOnce(toolUseMessage('record_scores', { scores: { 'retrieval-practice': valid(4), 'cognitive-load-theory': valid(2) } }))
+      .mockResolvedValueOnce(toolUseMessage('record_scores', { scores: { 'retrieval-practice': valid(4), 'cognitive-load-theory': valid(4) } }))
+      .mockResolvedValueOnce(toolUseMessage('record_scores', { scores: { 'retrieval-practice': valid(5), 'cognitive-load-theory': valid(3) } }));
+
+    const response = await analyze({ sectionName: 'Knowledge check', runs: 3 });
+    const { scores } = await response.json();
+
+    expect(createMessage).toHaveBeenCalledTimes(3);
+    expect(scores['retrieval-practice']).toMatchObject({ score: 4, confidence: 'medium' });
+    expect(scores['cognitive-load-theory']).toMatchObject({ score: 3, confidence: 'low' });
+    expect(scores['cognitive-load-theory'].consensus).toMatchObject({ spread: 2 });
+  });
+
+  it('caps the number of runs', async () => {
+    createMessage.mockResolvedValue(
+      toolUseMessage('record_scores', { scores: { 'retrieval-practice': valid(4), 'cognitive-load-theory': valid(2) } })
+    );
+    await analyze({ sectionName: 'Knowledge check', runs: 50 });
+    expect(createMessage).toHaveBeenCalledTimes(5);
+  });
+
+  it('returns a typed error when no principle could be scored', async () => {
+    createMessage.mockResolvedValue(toolUseMessage('record_scores', { scores: {} }));
+
+    const response = await analyze({ sectionName: 'Knowledge check' });
+    expect(response.status).toBe(502);
+    const data = await response.json();
+    expect(data.failures.map((f: { principleId: string }) => f.principleId)).toEqual([
+      'cognitive-load-theory',
+      'retrieval-practice',
+    ]);
+  });
+
+  it('analyzes a navigated section from its captures, with the interactions around them', async () => {
+    createMessage.mockResolvedValueOnce(
+      toolUseMessage('record_scores', { scores: { 'retrieval-practice': valid(4), 'cognitive-load-theory': valid(2) } })
+    );
+    const capture = {
+      id: 'c-1',
+      image: 'cG5n',
+      mediaType: 'image/jpeg',
+      timestamp: 5000,
+      trigger: 'key_moment',
+      url: 'https://learn.test/quiz',
+      pageTitle: 'Quiz',
+      description: 'Feedback after a wrong answer',
+      contentType: 'quiz_feedback',
+      flowId: 'flow-1',
+      sequenceNumber: 0,
+      wasCorrect: false,
+      attemptNumber: 1,
+    };
+
+    const response = await POST(
+      jsonRequest('http://localhost/api/analyze', {
+        sectionName: 'Knowledge check',
+        navigation: {
+          captures: [capture],
+          interactions: [{ id: 'i-1', type: 'click', timestamp: 4000, target: 'Submit', flowId: 'flow-1', success: true }],
+          flows: [{ id: 'flow-1', description: 'Take a lesson quiz', status: 'completed' }],
+          session: { startUrl: 'https://learn.test/', duration: 6000 },
+        },
+      })
+    );
+    expect(response.status).toBe(200);
+
+    const [screenshot, image, ...rest] = createMessage.mock.calls[0][0].messages[0].content;
+    expect(screenshot.text).toBe('Screenshot 1:');
+    expect(image.source).toMatchObject({ media_type: 'image/jpeg', data: 'cG5n' });
+    expect(rest.at(-1).text).toContain('- 0:01 Screenshot 1 (quiz feedback): Feedback after a wrong answer [after an incorrect answer, attempt 1]');
+  });
+
+  it('numbers screenshots uploaded after navigating after the captures', async () => {
+    createMessage.mockResolvedValueOnce(
+      toolUseMessage('record_scores', { scores: { 'retrieval-practice': valid(4), 'cognitive-load-theory': valid(2) } })
+    );
+    const capture = {
+      id: 'cap-1',
+      image: 'cG5n',
+      mediaType: 'image/png',
+      timestamp: 1000,
+      trigger: 'flow_start',
+      url: 'https://learn.test/',
+      pageTitle: 'Lesson',
+      description: 'The lesson',
+      contentType: 'lesson_content',
+      flowId: 'flow-1',
+      sequenceNumber: 0,
+    };
+
+    const response = await POST(
+      jsonRequest('http://localhost/api/analyze', {
+        sectionName: 'Lesson',
+        navigation: {
+          captures: [capture],
+          interactions: [],
+          flows: [{ id: 'flow-1', description: 'Read a lesson', status: 'completed' }],
+          session: { startUrl: 'https://learn.test/', duration: 2000 },
+        },
+        images: [{ data: 'dXBsb2Fk', mediaType: 'image/png' }],
+      })
+    );
+    expect(response.status).toBe(200);
+
+    const [, first, second, upload] = createMessage.mock.calls[0][0].messages[0].content;
+    expect(first.source.data).toBe('cG5n');
+    expect(second.text).toBe('Screenshot 2:');
+    expect(upload.source.data).toBe('dXBsb2Fk');
+  });
+
+  it('rejects navigation context that does not match the format', async () => {
+    const response = await POST(
+      jsonRequest('http://localhost/api/analyze', {
+        navigation: { captures: [], interactions: [], flows: [], session: { startUrl: 'https://learn.test/', duration: 0 } },
+      })
+    );
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/^Invalid navigation context: captures:/);
+    expect(createMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCookies, jsonRequest } from '../helpers/api';
+
+const authApi = vi.hoisted(() => ({
+  signInWithPassword: vi.fn(),
+  signUp: vi.fn(),
+  getUser: vi.fn(),
+  refreshSession: vi.fn(),
+}));
+
+vi.mock('@supabase/supabase-js', () => ({ createClient: () => ({ auth: authApi }) }));
+
+vi.stubEnv('SUPABASE_URL', 'http://supabase.test');
+vi.stubEnv('SUPABASE_ANON_KEY', 'anon');
+
+const { POST: signIn } = await import('../../src/pages/api/auth/sign-in');
+const { POST: signUp } = await import('../../src/pages/api/auth/sign-up');
+const { getSessionUser } = await import('../../src/lib/auth');
+
+const session = { access_token: 'access', refresh_token: 'refresh' };
+const user = { id: 'user-1', email: 'a@example.com', email_confirmed_at: '2025-01-01T00:00:00Z' };
+const sessionUser = { id: 'user-1', email: 'a@example.com' };
+
+beforeEach(() => {
+  Object.values(authApi).forEach((fn) => fn.mockReset());
+});
+
+describe('POST /api/auth/sign-in', () => {
+  it('stores the session in cookies', async () => {
+    authApi.signInWithPassword.mockResolvedValueOnce({ data: { session, user }, error: null });
+    const cookies = createCookies();
+
+    const response = await signIn(
+      jsonRequest('http://localhost/api/auth/sign-in', { email: 'a@example.com', password: 'correct horse' }, { cookies })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ user: sessionUser });
+    expect(cookies.values.get('sb-access-token')).toBe('access');
+    expect(cookies.values.get('sb-refresh-token')).toBe('refresh');
+  });
+
+  it('rejects wrong credentials', async () => {
+    authApi.signInWithPassword.mockResolvedValueOnce({ data: { session: null, user: null }, error: { message: 'Invalid login credentials' } });
+    const cookies = createCookies();
+
+    const response = await signIn(
+      jsonRequest('http://localhost/api/auth/sign-in', { email: 'a@example.com', password: 'wrong password' }, { cookies })
+    );
+
+    expect(response.status).toBe(401);
+    expect(cookies.values.size).toBe(0);
+  });
+});
+
+describe('POST /api/auth/sign-up', () => {
+  it('validates credentials before creating an account', async () => {
+    const response = await signUp(jsonRequest('http://localhost/api/auth/sign-up', { email: 'nope', password: 'short' }));
+    expect(response.status).toBe(400);
+    expect(authApi.signUp).not.toHaveBeenCalled();
+  });
+
+  it('asks for email confirmation when no session is returned', async () => {
+    authApi.signUp.mockResolvedValueOnce({ data: { session: null, user }, error: null });
+
+    const response = await signUp(
+      jsonRequest('http://localhost/api/auth/sign-up', { email: 'a@example.com', password: 'correct horse' })
+    );
+
+    expect(await response.json()).toEqual({ confirmationRequired: true });
+    expect(authApi.signUp).toHaveBeenCalledWith(
+      expect.objectContaining({ options: { emailRedirectTo: 'http://localhost/login' } })
+    );
+  });
+
+  it('keeps no session for an address nobody has confirmed', async () => {
+    authApi.signUp.mockResolvedValueOnce({ data: { session, user: { ...user, email_confirmed_at: undefined } }, error: null });
+    const cookies = createCookies();
+
+    const response = await signUp(
+      jsonRequest('http://localhost/api/auth/sign-up', { email: 'a@example.com', password: 'correct horse' }, { cookies })
+    );
+
+    expect(await response.json()).toEqual({ confirmationRequired: true });
+    expect(cookies.values.size).toBe(0);
+  });
+});
+
+describe('getSessionUser', () => {
+  it('refreshes an expired session and clears one that cannot be refreshed', async () => {
+    authApi.getUser.mockResolvedValue({ data: { user: null }, error: { message: 'expired' } });
+    authApi.refreshSession.mockResolvedValueOnce({
+      data: { session: { access_token: 'new-access', refresh_token: 'new-refresh' }, user },
+      error: null,
+    });
+    const cookies = createCookies({ 'sb-access-token': 'old', 'sb-refresh-token': 'refresh' });
+
+    expect(await getSessionUser(cookies as never)).toEqual(sessionUser);
+    expect(cookies.values.get('sb-access-token')).toBe('new-access');
+
+    authApi.refreshSession.mockResolvedValueOnce({ data: { session: null, user: null }, error: { message: 'revoked' } });
+    expect(await getSessionUser(cookies as never)).toBeNull();
+    expect(cookies.values.size).toBe(0);
+  });
+
+  it('leaves out an email address until it is confirmed, so it grants no memberships', async () => {
+    authApi.getUser.mockResolvedValueOnce({ data: { user: { ...user, email_confirmed_at: undefined } }, error: null });
+
+    expect(await getSessionUser(createCookies({ 'sb-access-token': 'access' }) as never)).toEqual({ id: 'user-1', email: null });
+  });
+
+  it('skips the auth service for visitors without a session', async () => {
+    expect(await getSessionUser(createCookies() as never)).toBeNull();
+    expect(authApi.getUser).not.toHaveBeenCalled();
+  });
+});
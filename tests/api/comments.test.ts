@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCookies, getRequest, jsonRequest } from '../helpers/api';
+import { createOwnerKey, hashOwnerKey } from '../../src/lib/reportAccess';
+
+const db = await vi.hoisted(async () => (await import('../helpers/supabase')).createSupabaseMock());
+const auth = vi.hoisted(() => ({ getSessionUser: vi.fn() }));
+
+vi.mock('../../src/lib/supabase', () => ({ supabase: db.client }));
+vi.mock('../../src/lib/auth', () => auth);
+
+const { GET, POST, PATCH } = await import('../../src/pages/api/comments');
+
+const ownerKey = createOwnerKey();
+const report = (overrides: Record<string, unknown> = {}) => ({
+  data: {
+    id: 'abc',
+    created_at: '2025-01-01T00:00:00Z',
+    overall_score: 3,
+    ratings: { 'retrieval-practice': 2 },
+    section_results: [{ sectionId: 'home', sectionName: 'Home', scores: {} }],
+    key_takeaways: null,
+    profile: null,
+    refined_scores: null,
+    previous_version_id: null,
+    access_mode: 'private',
+    owner_key_hash: hashOwnerKey(ownerKey),
+    workspace_id: 'team',
+    ...overrides,
+  },
+  error: null,
+});
+const member = (role: string) => ({ data: { role }, error: null });
+const thread = {
+  id: 'c1',
+  report_id: 'abc',
+  parent_id: null,
+  section_id: null,
+  principle_id: 'retrieval-practice',
+  body: 'Is this right?',
+  author_email: 'lead@example.com',
+  created_at: '2025-01-02T00:00:00Z',
+  resolved_at: null,
+  resolved_by: null,
+};
+
+const signIn = (email: string) => auth.getSessionUser.mockResolvedValue({ id: email, email });
+
+beforeEach(() => {
+  db.reset();
+  auth.getSessionUser.mockReset();
+  auth.getSessionUser.mockResolvedValue(null);
+});
+
+describe('GET /api/comments', () => {
+  it('lists comments for workspace members only', async () => {
+    signIn('viewer@example.com');
+    db.respond('audit_reports', report(), report());
+    db.respond('workspace_members', member('viewer'), { data: null, error: null });
+    db.respond('report_comments', { data: [thread], error: null });
+
+    const response = await GET(getRequest('http://localhost/api/comments?reportId=abc'));
+    expect(response.status).toBe(200);
+    expect((await response.json()).comments).toMatchObject([{ id: 'c1', principleId: 'retrieval-practice' }]);
+
+    const outsider = await GET(getRequest('http://localhost/api/comments?reportId=abc'));
+    expect(outsider.status).toBe(403);
+  });
+});
+
+describe('POST /api/comments', () => {
+  it('lets a viewer start a thread on a principle', async () => {
+    signIn('Viewer@Example.com');
+    db.respond('audit_reports', report());
+    db.respond('workspace_members', member('viewer'));
+
+    const response = await POST(
+      jsonRequest('http://localhost/api/comments', { reportId: 'abc', principleId: 'retrieval-practice', body: ' Looks low ' })
+    );
+
+    expect(response.status).toBe(200);
+    const { comment } = await response.json();
+    expect(comment).toMatchObject({ principleId: 'retrieval-practice', sectionId: null, body: 'Looks low', authorEmail: 'Viewer@Example.com' });
+    expect(db.callsTo('workspace_members', 'eq')).toContainEqual(['email', 'viewer@example.com']);
+    expect(db.callsTo('report_comments', 'insert')[0][0]).toMatchObject({ report_id: 'abc', principle_id: 'retrieval-practice' });
+  });
+
+  it('files replies under the thread they answer', async () => {
+    signIn('editor@example.com');
+    db.respond('audit_reports', report());
+    db.respond('workspace_members', member('editor'));
+    db.respond('report_comments', { data: thread, error: null }, { error: null });
+
+    const response = await POST(
+      jsonRequest('http://localhost/api/comments', { reportId: 'abc', parentId: 'c1', sectionId: 'home', body: 'Agreed' })
+    );
+
+    expect((await response.json()).comment).toMatchObject({ parentId: 'c1', principleId: 'retrieval-practice', sectionId: null });
+  });
+
+  it('rejects comments about things the report does not contain', async () => {
+    signIn('editor@example.com');
+    db.respond('audit_reports', report(), report());
+    db.respond('workspace_members', member('editor'), member('editor'));
+
+    const unknownSection = await POST(
+      jsonRequest('http://localhost/api/comments', { reportId: 'abc', sectionId: 'checkout', body: 'Hmm' })
+    );
+    const noTarget = await POST(jsonRequest('http://localhost/api/comments', { reportId: 'abc', body: 'Hmm' }));
+
+    expect(unknownSection.status).toBe(400);
+    expect(noTarget.status).toBe(400);
+    expect(db.callsTo('report_comments', 'insert')).toHaveLength(0);
+  });
+
+  it('requires an account, even for the owner', async () => {
+    db.respond('audit_reports', report());
+
+    const response = await POST(
+      jsonRequest(
+        'http://localhost/api/comments',
+        { reportId: 'abc', principleId: 'retrieval-practice', body: 'Hi' },
+        { cookies: createCookies({ 'report-owner-abc': ownerKey }) }
+      )
+    );
+    expect(response.status).toBe(403);
+  });
+});
+
+describe('PATCH /api/comments', () => {
+  it('lets editors resolve threads, but not viewers', async () => {
+    signIn('viewer@example.com');
+    db.respond('report_comments', { data: thread, error: null });
+    db.respond('audit_reports', report());
+    db.respond('workspace_members', member('viewer'));
+
+    const viewer = await PATCH(jsonRequest('http://localhost/api/comments?id=c1', { resolved: true }, { method: 'PATCH' }));
+    expect(viewer.status).toBe(403);
+
+    signIn('editor@example.com');
+    db.respond('report_comments', { data: thread, error: null }, { error: null });
+    db.respond('audit_reports', report());
+    db.respond('workspace_members', member('editor'));
+
+    const editor = await PATCH(jsonRequest('http://localhost/api/comments?id=c1', { resolved: true }, { method: 'PATCH' }));
+    expect(editor.status).toBe(200);
+    expect((await editor.json()).comment).toMatchObject({ id: 'c1', resolvedBy: 'editor@example.com' });
+    expect(db.callsTo('report_comments', 'update')[0][0]).toMatchObject({ resolved_by: 'editor@example.com' });
+  });
+});
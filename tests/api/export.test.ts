@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getRequest } from '../helpers/api';
+import type { APIContext } from 'astro';
+import { TINY_JPEG_DATA_URL } from '../helpers/images';
+
+const single = vi.hoisted(() => vi.fn());
+vi.mock('../../src/lib/supabase', () => ({
+  supabase: { from: () => ({ select: () => ({ eq: () => ({ single }) }) }) },
+}));
+
+const { GET, POST } = await import('../../src/pages/api/export');
+
+const report = {
+  overallScore: 3,
+  ratings: { 'retrieval-practice': 2, 'cognitive-load-theory': 4 },
+  sectionResults: [
+    {
+      sectionId: 's1',
+      sectionName: 'Quiz',
+      scores: { 'retrieval-practice': { score: 2, reasoning: 'One question → shallow', confidence: 'high', evidence: [{ image: 1 }] } },
+      thumbnails: { 1: TINY_JPEG_DATA_URL },
+    },
+  ],
+  keyTakeaways: null,
+  profile: null,
+};
+
+const exportLive = (format: string, body: unknown = report) => {
+  const url = `http://localhost/api/export?format=${format}`;
+  const request = new Request(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+  return POST({ request, url: new URL(url) } as unknown as APIContext);
+};
+
+const bytes = async (response: Response) => new Uint8Array(await response.arrayBuffer());
+
+describe('POST /api/export', () => {
+  it('rejects unknown formats', async () => {
+    const response = await exportLive('xls');
+    expect(response.status).toBe(400);
+  });
+
+  it('renders a PDF with the cited screenshots', async () => {
+    const response = await exportLive('pdf');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/pdf');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="learning-audit.pdf"');
+    const pdf = new TextDecoder('latin1').decode(await bytes(response));
+    expect(pdf.startsWith('%PDF-')).toBe(true);
+    expect(pdf).toContain('/DCTDecode');
+  });
+
+  it('renders a DOCX package', async () => {
+    const response = await exportLive('docx');
+    expect(response.status).toBe(200);
+    // DOCX files are zip archives
+    expect([...(await bytes(response)).slice(0, 2)]).toEqual([0x50, 0x4b]);
+  });
+
+  it('renders CSV and JSON score tables', async () => {
+    const csv = await (await exportLive('csv')).text();
+    expect(csv.split('\r\n')[0]).toContain('section,principle_id');
+
+    const json = await (await exportLive('json')).json();
+    expect(json.overallScore).toBe(3);
+    expect(json.scores).toContainEqual(expect.objectContaining({ section: 'Quiz', principle_id: 'retrieval-practice', score: 2 }));
+  });
+
+  it('validates the report and caps its size like shared reports', async () => {
+    const invalid = await exportLive('csv', { ...report, ratings: { 'retrieval-practice': 'high' } });
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).error).toMatch(/^Invalid report: ratings\.retrieval-practice/);
+
+    const huge = await exportLive('csv', { ...report, keyTakeaways: { padding: 'x'.repeat(5 * 1024 * 1024) } });
+    expect(huge.status).toBe(413);
+  });
+
+  it('rejects ratings for principles not in the library', async () => {
+    const response = await exportLive('csv', { ...report, ratings: { ...report.ratings, 'made-up': 2 } });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Invalid report: unknown principles: made-up' });
+  });
+
+  it('rejects reports with nothing rated', async () => {
+    const response = await exportLive('csv', { ratings: { 'retrieval-practice': null } });
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('GET /api/export', () => {
+  it('exports a shared report by id', async () => {
+    single.mockResolvedValueOnce({
+      data: {
+        id: 'abc',
+        created_at: '2025-01-01T00:00:00Z',
+        overall_score: 3,
+        ratings: report.ratings,
+        section_results: null,
+        key_takeaways: null,
+        profile: null,
+        previous_version_id: null,
+      },
+      error: null,
+    });
+
+    const response = await GET(getRequest('http://localhost/api/export?id=abc&format=csv'));
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="learning-audit-abc.csv"');
+  });
+
+  it('refuses reports the viewer cannot open', async () => {
+    single.mockResolvedValueOnce({
+      data: { id: 'abc', created_at: '2025-01-01T00:00:00Z', overall_score: 3, ratings: report.ratings, access_mode: 'private', owner_key_hash: 'hash' },
+      error: null,
+    });
+
+    const response = await GET(getRequest('http://localhost/api/export?id=abc&format=csv'));
+    expect(response.status).toBe(403);
+  });
+
+  it('returns 404 for unknown reports', async () => {
+    single.mockResolvedValueOnce({ data: null, error: { message: 'not found' } });
+    const response = await GET(getRequest('http://localhost/api/export?id=missing&format=pdf'));
+    expect(response.status).toBe(404);
+  });
+});
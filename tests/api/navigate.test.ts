@@ -0,0 +1,289 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { jsonRequest, toolUseMessage } from '../helpers/api';
+import { readServerSentEvents, type ServerSentEvent } from '../../src/lib/serverSentEvents';
+
+const createMessage = vi.hoisted(() => vi.fn());
+const launchBrowser = vi.hoisted(() => vi.fn());
+const db = await vi.hoisted(async () => (await import('../helpers/supabase')).createSupabaseMock());
+const auth = vi.hoisted(() => ({ getSessionUser: vi.fn() }));
+vi.mock('../../src/lib/llm', () => ({
+  llm: { name: 'mock', config: { model: 'test-model', maxTokens: 1000, timeoutMs: 1000 }, createMessage },
+}));
+vi.mock('../../src/lib/playwrightBrowser', () => ({ launchBrowser }));
+vi.mock('../../src/lib/supabase', () => ({ supabase: db.client }));
+vi.mock('../../src/lib/auth', () => auth);
+// The sites the tests navigate are public; anything else resolves as it would on the server
+vi.mock('node:dns/promises', async (importOriginal) => {
+  const dns = await importOriginal<typeof import('node:dns/promises')>();
+  return {
+    ...dns,
+    lookup: (hostname: string, options: { all: true }) =>
+      hostname === 'learn.test' ? Promise.resolve([{ address: '93.184.216.34', family: 4 }]) : dns.lookup(hostname, options),
+  };
+});
+
+vi.stubEnv('CREDENTIAL_VAULT_KEY', 'test vault key');
+
+const { POST } = await import('../../src/pages/api/navigate');
+const { answerIntervention, openNavigationChannel } = await import('../../src/lib/navigationControl');
+const { decryptSecret, encryptSecret, readVaultKey } = await import('../../src/lib/credentialVault');
+
+const key = readVaultKey({ CREDENTIAL_VAULT_KEY: 'test vault key' })!;
+
+const browser = {
+  goto: vi.fn(),
+  click: vi.fn(),
+  type: vi.fn(),
+  select: vi.fn(),
+  hover: vi.fn(),
+  scroll: vi.fn(),
+  wait: vi.fn(),
+  screenshot: async () => 'cG5n',
+  url: () => 'https://learn.test/',
+  title: async () => 'Lesson',
+  outline: async () => [],
+  remote: vi.fn(),
+  storageState: async () => '{"cookies":[],"origins":[]}',
+  close: vi.fn(async () => undefined),
+};
+
+const navigate = (body: Record<string, unknown>) =>
+  POST(
+    jsonRequest('http://localhost/api/navigate', {
+      startUrl: 'https://learn.test/',
+      flows: [{ id: 'f1', description: 'Read a lesson' }],
+      ...body,
+    })
+  );
+
+beforeEach(() => {
+  createMessage.mockReset();
+  launchBrowser.mockReset();
+  browser.close.mockClear();
+  browser.goto.mockClear();
+  db.reset();
+  auth.getSessionUser.mockReset();
+  auth.getSessionUser.mockResolvedValue({ id: 'u1', email: 'lead@example.com' });
+});
+
+const flowComplete = toolUseMessage('navigation_step', {
+  contentType: 'lesson_content',
+  description: 'A lesson',
+  isKeyMoment: true,
+  nextAction: 'flow_complete',
+  reasoning: 'Done',
+});
+
+/** Responses for the stored login c1 of project p1, which u1 owns */
+function respondWithStoredLogin() {
+  db.respond(
+    'project_credentials',
+    {
+      data: {
+        id: 'c1',
+        project_id: 'p1',
+        label: 'Student account',
+        login_url: 'https://learn.test/login',
+        username_target: null,
+        password_target: null,
+        submit_target: null,
+        storage_state_saved_at: '2025-02-01T00:00:00Z',
+        created_at: '2025-01-01T00:00:00Z',
+      },
+      error: null,
+    },
+    {
+      data: {
+        username_encrypted: encryptSecret('student@example.com', key),
+        password_encrypted: encryptSecret('correct horse', key),
+        storage_state_encrypted: encryptSecret('{"cookies":["saved"],"origins":[]}', key),
+      },
+      error: null,
+    }
+  );
+  db.respond('projects', { data: { id: 'p1', name: 'Onboarding', user_id: 'u1', workspace_id: null, created_at: '2025-01-01T00:00:00Z' }, error: null });
+}
+
+describe('POST /api/navigate', () => {
+  it('is turned off where /api/navigation-control could reach another instance', async () => {
+    vi.stubEnv('DEV', false);
+    try {
+      const response = await navigate({});
+      expect(response.status).toBe(501);
+      expect(launchBrowser).not.toHaveBeenCalled();
+    } finally {
+      vi.stubEnv('DEV', true);
+    }
+  });
+
+  it('requires a signed-in user', async () => {
+    auth.getSessionUser.mockResolvedValue(null);
+    const response = await navigate({});
+    expect(response.status).toBe(401);
+    expect(launchBrowser).not.toHaveBeenCalled();
+  });
+
+  it('rejects start URLs that are not web pages', async () => {
+    const response = await navigate({ startUrl: 'file:///etc/passwd' });
+    expect(response.status).toBe(400);
+    expect(launchBrowser).not.toHaveBeenCalled();
+  });
+
+  it("rejects start URLs on the server's own network", async () => {
+    for (const startUrl of ['http://localhost:4321/', 'http://169.254.169.254/latest/meta-data/', 'http://10.0.0.1/']) {
+      const response = await navigate({ startUrl });
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toMatch(/^Start URL not allowed: .* is not a public website$/);
+    }
+    expect(launchBrowser).not.toHaveBeenCalled();
+  });
+
+  it('refuses new sessions while the most it runs at once are live', async () => {
+    const channels = [1, 2, 3].map((n) => openNavigationChannel(`running-${n}`, 'u2')!);
+    try {
+      const response = await navigate({});
+      expect(response.status).toBe(429);
+      expect(launchBrowser).not.toHaveBeenCalled();
+    } finally {
+      channels.forEach((channel) => channel.close());
+    }
+  });
+
+  it('claims the session id before launching the browser', async () => {
+    let launched!: (value: typeof browser) => void;
+    launchBrowser.mockReturnValue(new Promise((resolve) => (launched = resolve)));
+    createMessage.mockResolvedValue(flowComplete);
+    const id = crypto.randomUUID();
+
+    const first = navigate({ id });
+    await vi.waitFor(() => expect(launchBrowser).toHaveBeenCalled());
+    const second = await navigate({ id });
+    expect(second.status).toBe(409);
+
+    launched(browser);
+    await readServerSentEvents(await first, () => undefined);
+    expect(launchBrowser).toHaveBeenCalledTimes(1);
+  });
+
+  it('frees the session id when the browser fails to launch', async () => {
+    launchBrowser.mockRejectedValue(new Error("Executable doesn't exist"));
+    const id = crypto.randomUUID();
+
+    expect((await navigate({ id })).status).toBe(500);
+    expect((await navigate({ id })).status).toBe(500);
+  });
+
+  it('explains when the browser is not installed', async () => {
+    launchBrowser.mockRejectedValue(new Error("Executable doesn't exist"));
+    const response = await navigate({});
+    expect(response.status).toBe(500);
+    expect((await response.json()).error).toMatch(/playwright install/);
+  });
+
+  it('streams the session and closes the browser when it ends', async () => {
+    launchBrowser.mockResolvedValue(browser);
+    createMessage.mockResolvedValue(
+      toolUseMessage('navigation_step', {
+        contentType: 'lesson_content',
+        description: 'A lesson',
+        isKeyMoment: true,
+        nextAction: 'flow_complete',
+        reasoning: 'Done',
+      })
+    );
+
+    const response = await navigate({ defaultPersona: 'proficient' });
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+    const events: ServerSentEvent[] = [];
+    await readServerSentEvents(response, (event) => events.push(event));
+
+    expect(events.map((e) => e.event)).toEqual(['status', 'flow', 'status', 'interaction', 'status', 'status', 'capture', 'flow', 'status']);
+    expect(events.at(-1)?.data).toEqual({ type: 'status', status: 'completed' });
+    expect(events[6].data).toMatchObject({ capture: { trigger: 'flow_start', activePersona: 'proficient' } });
+    expect(browser.close).toHaveBeenCalled();
+  });
+
+  it("starts from a stored login's saved session and saves the new one when it ends", async () => {
+    respondWithStoredLogin();
+    launchBrowser.mockResolvedValue(browser);
+    createMessage.mockResolvedValue(flowComplete);
+
+    const response = await navigate({ credentialId: 'c1' });
+    await readServerSentEvents(response, () => undefined);
+
+    expect(launchBrowser).toHaveBeenCalledWith(expect.anything(), '{"cookies":["saved"],"origins":[]}');
+    // The outline shows no password field, so the saved session is still signed in
+    expect(browser.goto.mock.calls[0]).toEqual(['https://learn.test/login']);
+    const saved = db.callsTo('project_credentials', 'update')[0][0] as Record<string, string>;
+    expect(decryptSecret(saved.storage_state_encrypted, key)).toBe('{"cookies":[],"origins":[]}');
+  });
+
+  it('keeps the saved session when the login fails', async () => {
+    respondWithStoredLogin();
+    launchBrowser.mockResolvedValue(browser);
+    browser.goto.mockRejectedValueOnce(new Error('net::ERR_CONNECTION_REFUSED'));
+
+    const events: ServerSentEvent[] = [];
+    await readServerSentEvents(await navigate({ credentialId: 'c1' }), (event) => events.push(event));
+
+    expect(events.at(-1)?.data).toMatchObject({ status: 'failed', error: expect.stringMatching(/^Login failed/) });
+    expect(db.callsTo('project_credentials', 'update')).toHaveLength(0);
+    expect(browser.close).toHaveBeenCalled();
+  });
+
+  it('keeps the saved session when the user stops the session', async () => {
+    respondWithStoredLogin();
+    launchBrowser.mockResolvedValue(browser);
+    // The model request in flight when the user stops fails, as the real one is aborted
+    let fail!: () => void;
+    createMessage.mockReturnValue(new Promise((_, reject) => (fail = () => reject(new Error('Request was aborted.')))));
+
+    const reader = (await navigate({ credentialId: 'c1' })).body!.getReader();
+    await vi.waitFor(() => expect(createMessage).toHaveBeenCalled());
+    await reader.cancel();
+    fail();
+    await vi.waitFor(() => expect(browser.close).toHaveBeenCalled());
+
+    expect(db.callsTo('project_credentials', 'update')).toHaveLength(0);
+  });
+
+  it('keeps the saved session when the user aborts while the navigator waits for help', async () => {
+    respondWithStoredLogin();
+    launchBrowser.mockResolvedValue(browser);
+    createMessage.mockResolvedValue(
+      toolUseMessage('navigation_step', {
+        contentType: 'error_message',
+        description: 'A captcha',
+        isKeyMoment: false,
+        nextAction: 'ask_user',
+        waitingReason: 'captcha_detected',
+        reasoning: 'Needs a person',
+      })
+    );
+
+    const id = '5d3f6c1e-8a2b-4c7d-9e0f-1a2b3c4d5e6f';
+    const events: ServerSentEvent[] = [];
+    await readServerSentEvents(await navigate({ id, credentialId: 'c1' }), (event) => {
+      events.push(event);
+      if ((event.data as { status?: string }).status === 'waiting_for_user') answerIntervention(id, 'u1', 'abort');
+    });
+
+    expect(events.at(-1)?.data).toEqual({ type: 'status', status: 'completed' });
+    expect(db.callsTo('project_credentials', 'update')).toHaveLength(0);
+    expect(browser.close).toHaveBeenCalled();
+  });
+
+  it('refuses logins from projects the user cannot edit, before launching a browser', async () => {
+    db.respond('project_credentials', {
+      data: { id: 'c1', project_id: 'p1', label: 'Student account', login_url: 'https://learn.test/login', created_at: '2025-01-01T00:00:00Z' },
+      error: null,
+    });
+    db.respond('projects', { data: { id: 'p1', name: 'Onboarding', user_id: 'u2', workspace_id: null, created_at: '2025-01-01T00:00:00Z' }, error: null });
+
+    const response = await navigate({ credentialId: 'c1' });
+
+    expect(response.status).toBe(403);
+    expect(launchBrowser).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { jsonRequest } from '../helpers/api';
+import { openNavigationChannel } from '../../src/lib/navigationControl';
+import type { NavigationBrowser } from '../../src/lib/navigationRunner';
+
+const auth = vi.hoisted(() => ({ getSessionUser: vi.fn() }));
+vi.mock('../../src/lib/auth', () => auth);
+
+const { POST } = await import('../../src/pages/api/navigation-control');
+
+const control = (body: Record<string, unknown>) => POST(jsonRequest('http://localhost/api/navigation-control', body));
+
+beforeEach(() => {
+  auth.getSessionUser.mockReset();
+  auth.getSessionUser.mockResolvedValue({ id: 'u1', email: 'lead@example.com' });
+});
+
+describe('POST /api/navigation-control', () => {
+  it('is turned off where sessions may live on another instance', async () => {
+    vi.stubEnv('DEV', false);
+    try {
+      const response = await control({ type: 'resume', sessionId: 'live', action: 'continue' });
+      expect(response.status).toBe(501);
+      expect((await response.json()).error).toMatch(/ASTRO_ADAPTER=node/);
+    } finally {
+      vi.stubEnv('DEV', true);
+    }
+  });
+
+  it('requires a signed-in user', async () => {
+    auth.getSessionUser.mockResolvedValue(null);
+    const response = await control({ type: 'resume', sessionId: 'live', action: 'continue' });
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects clicks outside the screenshot', async () => {
+    const response = await control({ type: 'input', sessionId: 's1', input: { type: 'click', x: 1.5, y: 0 } });
+    expect(response.status).toBe(400);
+  });
+
+  it('reports sessions that are not running', async () => {
+    const response = await control({ type: 'resume', sessionId: 'gone', action: 'continue' });
+    expect(response.status).toBe(404);
+  });
+
+  it('drives a waiting session and resumes it', async () => {
+    const browser = { remote: vi.fn(), screenshot: async () => 'bmV3' } as unknown as NavigationBrowser;
+    const channel = openNavigationChannel('live', 'u1')!;
+    channel.attach(browser);
+    const decision = channel.onWaiting();
+
+    const input = await control({ type: 'input', sessionId: 'live', input: { type: 'press', key: 'Enter' } });
+    expect(await input.json()).toEqual({ screenshot: 'bmV3' });
+
+    const resume = await control({ type: 'resume', sessionId: 'live', action: 'skip', guidance: '  ' });
+    expect(resume.status).toBe(200);
+    expect(await decision).toEqual({ action: 'skip', remoteInputs: 1 });
+    channel.close();
+  });
+
+  it("won't let another user drive or answer the session", async () => {
+    const browser = { remote: vi.fn(), screenshot: async () => 'bmV3' } as unknown as NavigationBrowser;
+    const channel = openNavigationChannel('theirs', 'u2')!;
+    channel.attach(browser);
+    const decision = channel.onWaiting();
+
+    const input = await control({ type: 'input', sessionId: 'theirs', input: { type: 'press', key: 'Enter' } });
+    const resume = await control({ type: 'resume', sessionId: 'theirs', action: 'abort' });
+
+    expect([input.status, resume.status]).toEqual([404, 404]);
+    expect(browser.remote).not.toHaveBeenCalled();
+    channel.close();
+    expect(await decision).toEqual({ action: 'abort', remoteInputs: 0 });
+  });
+});
@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getRequest, jsonRequest } from '../helpers/api';
+
+const db = await vi.hoisted(async () => (await import('../helpers/supabase')).createSupabaseMock());
+const auth = vi.hoisted(() => ({ getSessionUser: vi.fn() }));
+
+vi.mock('../../src/lib/supabase', () => ({ supabase: db.client }));
+vi.mock('../../src/lib/auth', () => auth);
+
+vi.stubEnv('CREDENTIAL_VAULT_KEY', 'test vault key');
+
+const { GET, POST, PATCH, DELETE } = await import('../../src/pages/api/project-credentials');
+const { decryptSecret, readVaultKey } = await import('../../src/lib/credentialVault');
+
+const key = readVaultKey({ CREDENTIAL_VAULT_KEY: 'test vault key' })!;
+
+const project = (overrides: Record<string, unknown> = {}) => ({
+  data: {
+    id: 'p1',
+    name: 'Onboarding',
+    url: null,
+    audience: null,
+    context: null,
+    user_id: 'u1',
+    workspace_id: null,
+    created_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  },
+  error: null,
+});
+const credentialRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'c1',
+  project_id: 'p1',
+  label: 'Student account',
+  login_url: 'https://learn.example.com/login',
+  username_target: null,
+  password_target: null,
+  submit_target: null,
+  storage_state_saved_at: '2025-02-01T00:00:00Z',
+  created_at: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const login = {
+  projectId: 'p1',
+  label: 'Student account',
+  loginUrl: 'https://learn.example.com/login',
+  username: 'student@example.com',
+  password: 'correct horse',
+};
+
+beforeEach(() => {
+  db.reset();
+  auth.getSessionUser.mockReset();
+  auth.getSessionUser.mockResolvedValue({ id: 'u1', email: 'lead@example.com' });
+});
+
+describe('POST /api/project-credentials', () => {
+  it('stores the username and password encrypted and never sends them back', async () => {
+    db.respond('projects', project());
+
+    const response = await POST(jsonRequest('http://localhost/api/project-credentials', login));
+
+    expect(response.status).toBe(200);
+    const body = await response.text();
+    expect(body).not.toContain('student@example.com');
+    expect(body).not.toContain('correct horse');
+    expect(JSON.parse(body).credential).toMatchObject({ projectId: 'p1', label: 'Student account', storageStateSavedAt: null });
+
+    const row = db.callsTo('project_credentials', 'insert')[0][0] as Record<string, string>;
+    expect(row.username_encrypted).not.toContain('student');
+    expect(decryptSecret(row.username_encrypted, key)).toBe('student@example.com');
+    expect(decryptSecret(row.password_encrypted, key)).toBe('correct horse');
+  });
+
+  it('only lets project editors add logins', async () => {
+    db.respond('projects', project({ user_id: 'u2', workspace_id: 'team' }));
+    db.respond('workspace_members', { data: { role: 'viewer' }, error: null });
+
+    const response = await POST(jsonRequest('http://localhost/api/project-credentials', login));
+
+    expect(response.status).toBe(403);
+    expect(db.callsTo('project_credentials', 'insert')).toHaveLength(0);
+  });
+
+  it('requires a login URL', async () => {
+    const response = await POST(jsonRequest('http://localhost/api/project-credentials', { ...login, loginUrl: 'login' }));
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('GET /api/project-credentials', () => {
+  it("lists a project's logins without selecting their secrets", async () => {
+    db.respond('projects', project());
+    db.respond('project_credentials', { data: [credentialRow()], error: null });
+
+    const response = await GET(getRequest('http://localhost/api/project-credentials?projectId=p1'));
+
+    expect((await response.json()).credentials).toEqual([
+      expect.objectContaining({ id: 'c1', label: 'Student account', storageStateSavedAt: '2025-02-01T00:00:00Z' }),
+    ]);
+    expect(db.callsTo('project_credentials', 'select')[0][0]).not.toContain('encrypted');
+  });
+});
+
+describe('PATCH /api/project-credentials', () => {
+  it('forgets the saved session when the username changes', async () => {
+    db.respond('project_credentials', { data: credentialRow(), error: null });
+    db.respond('projects', project());
+
+    const response = await PATCH(
+      jsonRequest('http://localhost/api/project-credentials?id=c1', { username: 'teacher@example.com' }, { method: 'PATCH' })
+    );
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).credential.storageStateSavedAt).toBeNull();
+    const update = db.callsTo('project_credentials', 'update')[0][0] as Record<string, string | null>;
+    expect(update).toMatchObject({ storage_state_encrypted: null, storage_state_saved_at: null });
+    expect(decryptSecret(update.username_encrypted!, key)).toBe('teacher@example.com');
+    expect(update).not.toHaveProperty('password_encrypted');
+  });
+
+  it('requires the username and password again to move the login to another site or field', async () => {
+    for (const changes of [
+      { loginUrl: 'https://attacker.example.net/login' },
+      { passwordTarget: 'Search' },
+      { loginUrl: 'https://attacker.example.net/login', password: 'correct horse' },
+    ]) {
+      db.respond('project_credentials', { data: credentialRow(), error: null });
+      db.respond('projects', project());
+
+      const response = await PATCH(jsonRequest('http://localhost/api/project-credentials?id=c1', changes, { method: 'PATCH' }));
+
+      expect(response.status, JSON.stringify(changes)).toBe(400);
+      expect((await response.json()).error).toBe('Enter the username and password again to change the login page or its fields');
+    }
+    expect(db.callsTo('project_credentials', 'update')).toHaveLength(0);
+  });
+
+  it('moves the login when the username and password come with it', async () => {
+    db.respond('project_credentials', { data: credentialRow(), error: null });
+    db.respond('projects', project());
+
+    const response = await PATCH(
+      jsonRequest(
+        'http://localhost/api/project-credentials?id=c1',
+        { loginUrl: 'https://accounts.example.com/login', passwordTarget: 'Secret', username: 'student@example.com', password: 'new pass' },
+        { method: 'PATCH' }
+      )
+    );
+
+    expect(response.status).toBe(200);
+    expect(db.callsTo('project_credentials', 'update')[0][0]).toMatchObject({
+      login_url: 'https://accounts.example.com/login',
+      password_target: 'Secret',
+    });
+  });
+
+  it('keeps the saved session when only the label changes', async () => {
+    db.respond('project_credentials', { data: credentialRow(), error: null });
+    db.respond('projects', project());
+
+    await PATCH(jsonRequest('http://localhost/api/project-credentials?id=c1', { label: 'Learner' }, { method: 'PATCH' }));
+
+    expect(db.callsTo('project_credentials', 'update')[0][0]).not.toHaveProperty('storage_state_encrypted');
+  });
+});
+
+describe('DELETE /api/project-credentials', () => {
+  it("deletes the login once the project's editor is confirmed", async () => {
+    db.respond('project_credentials', { data: credentialRow(), error: null });
+    db.respond('projects', project());
+
+    const response = await DELETE(getRequest('http://localhost/api/project-credentials?id=c1', { method: 'DELETE' }));
+
+    expect(await response.json()).toEqual({ deleted: true });
+    expect(db.callsTo('project_credentials', 'eq')).toContainEqual(['id', 'c1']);
+  });
+
+  it('responds 404 for unknown logins', async () => {
+    const response = await DELETE(getRequest('http://localhost/api/project-credentials?id=missing', { method: 'DELETE' }));
+    expect(response.status).toBe(404);
+  });
+});
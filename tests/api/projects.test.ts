@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getRequest, jsonRequest } from '../helpers/api';
+
+const db = await vi.hoisted(async () => (await import('../helpers/supabase')).createSupabaseMock());
+const auth = vi.hoisted(() => ({ getSessionUser: vi.fn() }));
+
+vi.mock('../../src/lib/supabase', () => ({ supabase: db.client }));
+vi.mock('../../src/lib/auth', () => auth);
+
+const { GET, POST, PATCH, DELETE } = await import('../../src/pages/api/projects');
+
+const projectRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'p1',
+  name: 'Onboarding',
+  url: null,
+  audience: null,
+  context: null,
+  user_id: 'u1',
+  workspace_id: null,
+  created_at: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+const project = (overrides: Record<string, unknown> = {}) => ({ data: projectRow(overrides), error: null });
+const workspace = { data: { id: 'team', name: 'Design team', created_at: '2025-01-01T00:00:00Z' }, error: null };
+const role = (r: string) => ({ data: { role: r }, error: null });
+
+beforeEach(() => {
+  db.reset();
+  auth.getSessionUser.mockReset();
+  auth.getSessionUser.mockResolvedValue({ id: 'u1', email: 'lead@example.com' });
+});
+
+describe('GET /api/projects', () => {
+  it('lists owned projects and those shared through workspaces, once each', async () => {
+    db.respond('workspace_members', { data: [{ role: 'viewer', workspaces: workspace.data }], error: null });
+    db.respond(
+      'projects',
+      { data: [projectRow({ name: 'Safety' })], error: null },
+      { data: [projectRow({ name: 'Safety' }), projectRow({ id: 'p2', name: 'Compliance', user_id: 'u2', workspace_id: 'team' })], error: null }
+    );
+
+    const response = await GET(getRequest('http://localhost/api/projects'));
+
+    expect((await response.json()).projects.map((p: { name: string }) => p.name)).toEqual(['Compliance', 'Safety']);
+    expect(db.callsTo('projects', 'in')).toEqual([['workspace_id', ['team']]]);
+  });
+});
+
+describe('POST /api/projects', () => {
+  it('creates a project owned by its creator', async () => {
+    const response = await POST(
+      jsonRequest('http://localhost/api/projects', { name: ' Onboarding ', url: 'https://learn.example.com', audience: 'New hires' })
+    );
+
+    expect(response.status).toBe(200);
+    const { project: created, url } = await response.json();
+    expect(created).toMatchObject({ name: 'Onboarding', url: 'https://learn.example.com', audience: 'New hires', ownerId: 'u1' });
+    expect(url).toBe(`/projects/${created.id}`);
+    expect(db.callsTo('projects', 'insert')[0][0]).toMatchObject({ id: created.id, user_id: 'u1', workspace_id: null });
+  });
+
+  it('shares a project only with workspaces the creator edits', async () => {
+    db.respond('workspaces', workspace);
+    db.respond('workspace_members', role('viewer'));
+
+    const response = await POST(jsonRequest('http://localhost/api/projects', { name: 'Onboarding', workspaceId: 'team' }));
+
+    expect(response.status).toBe(403);
+    expect(db.callsTo('projects', 'insert')).toHaveLength(0);
+  });
+
+  it('requires an account and a valid URL', async () => {
+    expect((await POST(jsonRequest('http://localhost/api/projects', { name: 'Onboarding', url: 'not a url' }))).status).toBe(400);
+
+    auth.getSessionUser.mockResolvedValue(null);
+    expect((await POST(jsonRequest('http://localhost/api/projects', { name: 'Onboarding' }))).status).toBe(401);
+  });
+});
+
+describe('PATCH /api/projects', () => {
+  it('lets workspace editors update details, but not move the project', async () => {
+    auth.getSessionUser.mockResolvedValue({ id: 'u2', email: 'dev@example.com' });
+    db.respond('projects', project({ workspace_id: 'team' }), { error: null });
+    db.respond('workspace_members', role('editor'));
+
+    const response = await PATCH(
+      jsonRequest('http://localhost/api/projects?id=p1', { context: 'Redesigned in March' }, { method: 'PATCH' })
+    );
+    expect(response.status).toBe(200);
+    expect((await response.json()).project).toMatchObject({ name: 'Onboarding', context: 'Redesigned in March', workspaceId: 'team' });
+
+    db.respond('projects', project({ workspace_id: 'team' }));
+    db.respond('workspace_members', role('editor'));
+    const move = await PATCH(jsonRequest('http://localhost/api/projects?id=p1', { workspaceId: null }, { method: 'PATCH' }));
+    expect(move.status).toBe(403);
+  });
+
+  it('turns away viewers and outsiders', async () => {
+    auth.getSessionUser.mockResolvedValue({ id: 'u2', email: 'dev@example.com' });
+    db.respond('projects', project({ workspace_id: 'team' }), project());
+    db.respond('workspace_members', role('viewer'));
+
+    expect((await PATCH(jsonRequest('http://localhost/api/projects?id=p1', { name: 'X' }, { method: 'PATCH' }))).status).toBe(403);
+    expect((await PATCH(jsonRequest('http://localhost/api/projects?id=p1', { name: 'X' }, { method: 'PATCH' }))).status).toBe(403);
+  });
+});
+
+describe('DELETE /api/projects', () => {
+  it('keeps the audits and detaches them', async () => {
+    db.respond('projects', project(), { error: null });
+    db.respond('audit_reports', { error: null });
+
+    const response = await DELETE(getRequest('http://localhost/api/projects?id=p1', { method: 'DELETE' }));
+
+    expect(response.status).toBe(200);
+    expect(db.callsTo('audit_reports', 'update')).toEqual([[{ project_id: null }]]);
+    expect(db.callsTo('audit_reports', 'eq')).toEqual([['project_id', 'p1']]);
+  });
+
+  it("deletes the project's test logins with it", async () => {
+    db.respond('projects', project(), { error: null });
+    db.respond('audit_reports', { error: null });
+    db.respond('project_credentials', { error: null });
+
+    const response = await DELETE(getRequest('http://localhost/api/projects?id=p1', { method: 'DELETE' }));
+
+    expect(response.status).toBe(200);
+    expect(db.callsTo('project_credentials', 'delete')).toHaveLength(1);
+    expect(db.callsTo('project_credentials', 'eq')).toEqual([['project_id', 'p1']]);
+  });
+
+  it('only lets the owner delete it', async () => {
+    db.respond('projects', project({ user_id: 'u2', workspace_id: 'team' }));
+    db.respond('workspace_members', role('editor'));
+
+    const response = await DELETE(getRequest('http://localhost/api/projects?id=p1', { method: 'DELETE' }));
+
+    expect(response.status).toBe(403);
+    expect(db.callsTo('project_credentials', 'delete')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { jsonRequest, toolUseMessage } from '../helpers/api';
+
+const createMessage = vi.hoisted(() => vi.fn());
+vi.mock('../../src/lib/llm', () => ({
+  llm: { name: 'mock', config: { model: 'test-model', maxTokens: 1000, timeoutMs: 1000 }, createMessage },
+}));
+
+const { POST } = await import('../../src/pages/api/refine-analysis');
+
+const originalScores = [
+  { principleId: 'retrieval-practice', title: 'Retrieval Practice', score: 2, reasoning: 'Recognition only' },
+  { principleId: 'spaced-repetition', title: 'Spaced Repetition', score: 1, reasoning: 'Single session' },
+];
+
+const refine = (body: Record<string, unknown>) =>
+  POST(jsonRequest('http://localhost/api/refine-analysis', body));
+
+beforeEach(() => {
+  createMessage.mockReset();
+});
+
+describe('POST /api/refine-analysis', () => {
+  it('rejects requests without scores', async () => {
+    const response = await refine({ originalScores: [] });
+    expect(response.status).toBe(400);
+  });
+
+  it('returns refined scores in the original order with their original scores', async () => {
+    createMessage.mockResolvedValueOnce(
+      toolUseMessage('record_refinements', {
+        refinedScores: {
+          'spaced-repetition': { refinedScore: 3, refinedReasoning: 'Reminders exist', specificActions: ['Adapt intervals'] },
+          'retrieval-practice': { refinedScore: 2, refinedReasoning: 'Unchanged', specificActions: ['Add recall'] },
+        },
+      })
+    );
+
+    const response = await refine({ originalScores, answers: [] });
+    expect(response.status).toBe(200);
+    const { refinedScores, failures } = await response.json();
+    expect(refinedScores.map((r: { principleId: string }) => r.principleId)).toEqual([
+      'retrieval-practice',
+      'spaced-repetition',
+    ]);
+    expect(refinedScores[1]).toMatchObject({ originalScore: 1, refinedScore: 3, specificActions: ['Adapt intervals'] });
+    expect(failures).toBeUndefined();
+  });
+
+  it('reports principles whose refinements stayed invalid', async () => {
+    createMessage.mockResolvedValue(
+      toolUseMessage('record_refinements', {
+        refinedScores: {
+          'retrieval-practice': { refinedScore: 3, refinedReasoning: 'Better', specificActions: ['Add recall'] },
+          'spaced-repetition': { refinedScore: 2.5, refinedReasoning: 'Half', specificActions: [] },
+        },
+      })
+    );
+
+    const response = await refine({ originalScores, answers: [] });
+    const { refinedScores, failures } = await response.json();
+    expect(refinedScores).toHaveLength(1);
+    expect(failures[0].principleId).toBe('spaced-repetition');
+    expect(failures[0].reason).toContain('refinedScore');
+  });
+});
@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCookies, jsonRequest } from '../helpers/api';
+import { checkReportAccess, createOwnerKey, hashOwnerKey } from '../../src/lib/reportAccess';
+import { accessFromRow } from '../../src/lib/reports';
+
+vi.hoisted(() => vi.stubEnv('REPORT_TOKEN_SECRET', 'test token secret'));
+
+const single = vi.hoisted(() => vi.fn());
+vi.mock('../../src/lib/supabase', () => ({
+  supabase: { from: () => ({ select: () => ({ eq: () => ({ single }) }) }) },
+}));
+
+const { POST } = await import('../../src/pages/api/report-links');
+
+const ownerKey = createOwnerKey();
+const row = (overrides: Record<string, unknown> = {}) => ({
+  id: 'abc',
+  created_at: '2025-01-01T00:00:00Z',
+  overall_score: 3,
+  ratings: {},
+  access_mode: 'signed',
+  owner_key_hash: hashOwnerKey(ownerKey),
+  ...overrides,
+});
+
+const createLink = (body: unknown, cookies = createCookies({ 'report-owner-abc': ownerKey })) =>
+  POST(jsonRequest('http://localhost/api/report-links', body, { cookies }));
+
+beforeEach(() => {
+  single.mockReset();
+});
+
+describe('POST /api/report-links', () => {
+  it('creates a signed link that opens the report until it expires', async () => {
+    single.mockResolvedValueOnce({ data: row(), error: null });
+
+    const response = await createLink({ id: 'abc', expiresInHours: 24 });
+    expect(response.status).toBe(200);
+
+    const { url, expiresAt } = await response.json();
+    const token = new URL(url, 'http://localhost').searchParams.get('token');
+    const access = accessFromRow(row() as Parameters<typeof accessFromRow>[0]);
+    expect(checkReportAccess('abc', access, { token })).toEqual({ granted: true, owner: false });
+    expect(checkReportAccess('abc', access, { token }, Date.parse(expiresAt) + 1)).toMatchObject({ granted: false });
+  });
+
+  it('never outlives the report', async () => {
+    const reportExpiry = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    single.mockResolvedValueOnce({ data: row({ expires_at: reportExpiry }), error: null });
+
+    const { expiresAt } = await (await createLink({ id: 'abc', expiresInHours: 24 * 90 })).json();
+    expect(expiresAt).toBe(reportExpiry);
+  });
+
+  it('is only available to the owner', async () => {
+    single.mockResolvedValueOnce({ data: row(), error: null });
+    const response = await createLink({ id: 'abc', expiresInHours: 24 }, createCookies());
+    expect(response.status).toBe(403);
+  });
+
+  it('refuses private reports and invalid durations', async () => {
+    single.mockResolvedValueOnce({ data: row({ access_mode: 'private' }), error: null });
+    expect((await createLink({ id: 'abc', expiresInHours: 24 })).status).toBe(400);
+    expect((await createLink({ id: 'abc', expiresInHours: 24 * 365 })).status).toBe(400);
+  });
+});
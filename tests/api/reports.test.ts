@@ -0,0 +1,523 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCookies, getRequest, jsonRequest } from '../helpers/api';
+import { createOwnerKey, hashOwnerKey } from '../../src/lib/reportAccess';
+
+const db = vi.hoisted(() => ({
+  insert: vi.fn(),
+  single: vi.fn(),
+  order: vi.fn(),
+  eq: vi.fn(),
+  update: vi.fn(),
+  remove: vi.fn(),
+}));
+
+vi.mock('../../src/lib/supabase', () => ({
+  supabase: {
+    from: (table: string) => ({
+      insert: db.insert,
+      select: () => ({ eq: (...args: unknown[]) => (db.eq(...args), { single: db.single, order: db.order }) }),
+      update: (values: unknown) => ({ eq: (...args: unknown[]) => db.update(values, ...args) }),
+      delete: () => ({ eq: (...args: unknown[]) => db.remove(table, ...args) }),
+    }),
+  },
+}));
+
+const auth = vi.hoisted(() => ({ getSessionUser: vi.fn() }));
+
+vi.mock('../../src/lib/auth', () => auth);
+
+const workspaces = vi.hoisted(() => ({ openWorkspace: vi.fn() }));
+
+vi.mock('../../src/lib/workspaces', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/lib/workspaces')>()),
+  openWorkspace: workspaces.openWorkspace,
+}));
+
+const projects = vi.hoisted(() => ({ openProject: vi.fn() }));
+
+vi.mock('../../src/lib/projects', () => projects);
+
+const { GET, POST, PATCH, DELETE } = await import('../../src/pages/api/reports');
+
+const refined = {
+  principleId: 'retrieval-practice',
+  originalScore: 2,
+  refinedScore: 3,
+  refinedReasoning: 'Weekly quizzes were mentioned.',
+  specificActions: ['Add a recall prompt to each lesson'],
+};
+
+beforeEach(() => {
+  db.insert.mockReset();
+  db.single.mockReset();
+  db.order.mockReset();
+  db.order.mockResolvedValue({ data: [], error: null });
+  db.eq.mockReset();
+  db.update.mockReset();
+  db.update.mockResolvedValue({ error: null });
+  db.remove.mockReset();
+  db.remove.mockResolvedValue({ error: null });
+  auth.getSessionUser.mockReset();
+  auth.getSessionUser.mockResolvedValue(null);
+});
+
+const ownerKey = createOwnerKey();
+const ownerCookies = () => createCookies({ 'report-owner-abc': ownerKey });
+
+const row = (overrides: Record<string, unknown> = {}) => ({
+  id: 'abc',
+  created_at: '2025-01-01T00:00:00Z',
+  overall_score: 4,
+  ratings: { 'retrieval-practice': 4 },
+  section_results: null,
+  key_takeaways: null,
+  profile: null,
+  refined_scores: null,
+  previous_version_id: null,
+  owner_key_hash: hashOwnerKey(ownerKey),
+  ...overrides,
+});
+
+describe('POST /api/reports', () => {
+  it('saves the report and returns its URL', async () => {
+    db.insert.mockResolvedValueOnce({ error: null });
+    const profile = { id: 'essentials', name: 'Essential principles', principleIds: [], weights: {}, gapThreshold: 3, strengthThreshold: 4 };
+
+    const response = await POST(
+      jsonRequest('http://localhost/api/reports', {
+        overallScore: 3.5,
+        ratings: { 'retrieval-practice': 3 },
+        sectionResults: null,
+        keyTakeaways: null,
+        profile,
+      })
+    );
+
+    expect(response.status).toBe(200);
+    const { id, url } = await response.json();
+    expect(url).toBe(`/audit/${id}`);
+    expect(db.insert).toHaveBeenCalledWith(
+      expect.objectContaining({ id, overall_score: 3, ratings: { 'retrieval-practice': 3 }, profile })
+    );
+  });
+
+  it('scores the ratings with the profile weights instead of trusting the posted score', async () => {
+    db.insert.mockResolvedValueOnce({ error: null });
+    const profile = {
+      id: 'custom',
+      name: 'Custom',
+      principleIds: ['retrieval-practice', 'spaced-repetition'],
+      weights: { 'retrieval-practice': 3 },
+      gapThreshold: 3,
+      strengthThreshold: 4,
+    };
+
+    await POST(
+      jsonRequest('http://localhost/api/reports', {
+        overallScore: 5,
+        ratings: { 'retrieval-practice': 1, 'spaced-repetition': 5, 'cognitive-load-theory': null },
+        profile,
+      })
+    );
+
+    expect(db.insert).toHaveBeenCalledWith(expect.objectContaining({ overall_score: 2 }));
+  });
+
+  it('links a new version to a report the author owns', async () => {
+    db.single.mockResolvedValueOnce({ data: row({ id: 'v1' }), error: null });
+    db.insert.mockResolvedValueOnce({ error: null });
+
+    const response = await POST(
+      jsonRequest(
+        'http://localhost/api/reports',
+        { overallScore: 4, ratings: {}, previousVersionId: 'v1' },
+        { cookies: createCookies({ 'report-owner-v1': ownerKey }) }
+      )
+    );
+
+    expect(response.status).toBe(200);
+    expect(db.eq).toHaveBeenCalledWith('id', 'v1');
+    expect(db.insert).toHaveBeenCalledWith(expect.objectContaining({ previous_version_id: 'v1' }));
+  });
+
+  it('refuses to link a new version to a report the author does not own', async () => {
+    // A link report anyone can open, and a private one
+    db.single
+      .mockResolvedValueOnce({ data: row({ id: 'v1' }), error: null })
+      .mockResolvedValueOnce({ data: row({ id: 'v1', access_mode: 'private' }), error: null });
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const response = await POST(
+        jsonRequest('http://localhost/api/reports', { overallScore: 4, ratings: {}, previousVersionId: 'v1' })
+      );
+      expect(response.status).toBe(403);
+    }
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+
+  it('rejects a previous version that does not exist', async () => {
+    db.single.mockResolvedValueOnce({ data: null, error: { message: 'not found' } });
+
+    const response = await POST(
+      jsonRequest('http://localhost/api/reports', { overallScore: 4, ratings: {}, previousVersionId: 'missing' })
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Previous version not found' });
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+
+  it('saves refined scores with the report', async () => {
+    db.insert.mockResolvedValue({ error: null });
+
+    await POST(jsonRequest('http://localhost/api/reports', { overallScore: 2, ratings: {}, refinedScores: [refined] }));
+    await POST(jsonRequest('http://localhost/api/reports', { overallScore: 2, ratings: {}, refinedScores: [] }));
+
+    expect(db.insert).toHaveBeenNthCalledWith(1, expect.objectContaining({ refined_scores: [refined] }));
+    expect(db.insert).toHaveBeenNthCalledWith(2, expect.objectContaining({ refined_scores: null }));
+  });
+
+  it('requires a rationale for each rating that differs from the AI score', async () => {
+    db.insert.mockResolvedValue({ error: null });
+    auth.getSessionUser.mockResolvedValue({ id: 'user-1', email: 'author@example.com' });
+    const sectionResults = [
+      {
+        sectionId: 'home',
+        sectionName: 'Home',
+        scores: { 'retrieval-practice': { score: 2, reasoning: 'Few quizzes', confidence: 'high' } },
+      },
+    ];
+    const report = { overallScore: 4, ratings: { 'retrieval-practice': 4 }, sectionResults };
+
+    const missing = await POST(jsonRequest('http://localhost/api/reports', report));
+    expect(missing.status).toBe(400);
+    expect((await missing.json()).error).toContain('retrieval-practice');
+
+    const explained = await POST(
+      jsonRequest('http://localhost/api/reports', {
+        ...report,
+        scoreOverrides: [{ principleId: 'retrieval-practice', previousScore: 2, score: 4, justification: 'Quizzes are in the app' }],
+      })
+    );
+    expect(explained.status).toBe(200);
+    expect(db.insert).toHaveBeenCalledTimes(1);
+    expect(db.insert.mock.calls[0][0].score_overrides).toMatchObject([
+      { principleId: 'retrieval-practice', score: 4, justification: 'Quizzes are in the app', author: 'author@example.com' },
+    ]);
+  });
+
+  it('accepts refined scores without a rationale', async () => {
+    db.insert.mockResolvedValueOnce({ error: null });
+    const sectionResults = [
+      {
+        sectionId: 'home',
+        sectionName: 'Home',
+        scores: { 'retrieval-practice': { score: 2, reasoning: 'Few quizzes', confidence: 'high' } },
+      },
+    ];
+
+    const response = await POST(
+      jsonRequest('http://localhost/api/reports', {
+        overallScore: 3,
+        ratings: { 'retrieval-practice': 3 },
+        sectionResults,
+        refinedScores: [refined],
+      })
+    );
+    expect(response.status).toBe(200);
+  });
+
+  it('attaches the report to a project the author edits', async () => {
+    projects.openProject.mockResolvedValueOnce({ error: 'Only project editors can do this', status: 403 });
+    const denied = await POST(jsonRequest('http://localhost/api/reports', { overallScore: 3, ratings: {}, projectId: 'p1' }));
+    expect(denied.status).toBe(403);
+    expect(db.insert).not.toHaveBeenCalled();
+
+    projects.openProject.mockResolvedValueOnce({ project: { id: 'p1' }, role: 'editor' });
+    db.insert.mockResolvedValueOnce({ error: null });
+    const response = await POST(jsonRequest('http://localhost/api/reports', { overallScore: 3, ratings: {}, projectId: 'p1' }));
+    expect(response.status).toBe(200);
+    expect(db.insert).toHaveBeenCalledWith(expect.objectContaining({ project_id: 'p1' }));
+  });
+
+  it('sets an owner cookie and stores only hashes of the owner key and password', async () => {
+    db.insert.mockResolvedValueOnce({ error: null });
+    const cookies = createCookies();
+
+    const response = await POST(
+      jsonRequest(
+        'http://localhost/api/reports',
+        { overallScore: 2, ratings: {}, access: { mode: 'password', password: 'correct horse' } },
+        { cookies }
+      )
+    );
+
+    const { id } = await response.json();
+    const ownerKeyCookie = cookies.values.get(`report-owner-${id}`)!;
+    const saved = db.insert.mock.calls[0][0];
+    expect(saved).toMatchObject({ access_mode: 'password', owner_key_hash: hashOwnerKey(ownerKeyCookie) });
+    expect(saved.password_hash).toMatch(/^scrypt:/);
+    expect(JSON.stringify(saved)).not.toContain('correct horse');
+  });
+
+  it('saves the product name and tags, and the signed-in author', async () => {
+    db.insert.mockResolvedValue({ error: null });
+
+    await POST(jsonRequest('http://localhost/api/reports', { overallScore: 2, ratings: {} }));
+    auth.getSessionUser.mockResolvedValue({ id: 'user-1', email: 'a@example.com' });
+    await POST(
+      jsonRequest('http://localhost/api/reports', {
+        overallScore: 2,
+        ratings: {},
+        productName: '  Onboarding Course ',
+        tags: ['sales', ' sales', '', 'Q3'],
+      })
+    );
+
+    expect(db.insert).toHaveBeenNthCalledWith(1, expect.objectContaining({ user_id: null, product_name: null, tags: [] }));
+    expect(db.insert).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ user_id: 'user-1', product_name: 'Onboarding Course', tags: ['sales', 'Q3'] })
+    );
+  });
+
+  it('rejects reports that do not match the expected shape', async () => {
+    const response = await POST(
+      jsonRequest('http://localhost/api/reports', { overallScore: 'high', ratings: { 'retrieval-practice': 9 } })
+    );
+
+    expect(response.status).toBe(400);
+    const { error } = await response.json();
+    expect(error).toContain('overallScore');
+    expect(error).toContain('ratings.retrieval-practice');
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+
+  it('rejects ratings and scores for principles not in the library', async () => {
+    const response = await POST(
+      jsonRequest('http://localhost/api/reports', {
+        overallScore: 3,
+        ratings: { 'retrieval-practice': 3, 'made-up': 2 },
+        sectionResults: [
+          { sectionId: 's1', sectionName: 'Quiz', scores: { 'also-made-up': { score: 2, reasoning: 'x', confidence: 'high' } } },
+        ],
+      })
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Invalid report: unknown principles: made-up, also-made-up' });
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+
+  it('requires a password for password-protected reports', async () => {
+    const response = await POST(
+      jsonRequest('http://localhost/api/reports', { overallScore: 2, ratings: {}, access: { mode: 'password' } })
+    );
+    expect(response.status).toBe(400);
+  });
+
+  it('rejects reports over the size limit', async () => {
+    const response = await POST(
+      jsonRequest('http://localhost/api/reports', { overallScore: 2, ratings: {}, padding: 'x'.repeat(5 * 1024 * 1024) })
+    );
+    expect(response.status).toBe(413);
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+
+  it('reports database errors', async () => {
+    db.insert.mockResolvedValueOnce({ error: { message: 'boom' } });
+    const response = await POST(jsonRequest('http://localhost/api/reports', { overallScore: 1, ratings: {} }));
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to save report' });
+  });
+});
+
+describe('GET /api/reports', () => {
+  it('requires an id', async () => {
+    const response = await GET(getRequest('http://localhost/api/reports'));
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 404 for unknown reports', async () => {
+    db.single.mockResolvedValueOnce({ data: null, error: { message: 'not found' } });
+    const response = await GET(getRequest('http://localhost/api/reports?id=missing'));
+    expect(response.status).toBe(404);
+  });
+
+  it('maps database columns to the report shape', async () => {
+    db.single.mockResolvedValueOnce({
+      data: {
+        id: 'abc',
+        created_at: '2025-01-01T00:00:00Z',
+        overall_score: 4,
+        ratings: { 'retrieval-practice': 4 },
+        section_results: null,
+        key_takeaways: null,
+        profile: null,
+        refined_scores: [refined],
+        previous_version_id: 'v0',
+        owner_key_hash: hashOwnerKey(ownerKey),
+      },
+      error: null,
+    });
+    db.order.mockResolvedValueOnce({ data: [{ id: 'v2' }], error: null });
+
+    const response = await GET(getRequest('http://localhost/api/reports?id=abc'));
+    expect(db.eq).toHaveBeenCalledWith('id', 'abc');
+    expect(db.eq).toHaveBeenCalledWith('previous_version_id', 'abc');
+    expect(await response.json()).toEqual({
+      id: 'abc',
+      createdAt: '2025-01-01T00:00:00Z',
+      overallScore: 4,
+      ratings: { 'retrieval-practice': 4 },
+      sectionResults: null,
+      keyTakeaways: null,
+      profile: null,
+      refinedScores: [refined],
+      scoreOverrides: [],
+      productName: null,
+      tags: [],
+      previousVersionId: 'v0',
+      projectId: null,
+      nextVersionIds: ['v2'],
+    });
+  });
+});
+
+describe('report access', () => {
+  it('turns away viewers of private and expired reports', async () => {
+    db.single.mockResolvedValueOnce({ data: row({ access_mode: 'private' }), error: null });
+    expect((await GET(getRequest('http://localhost/api/reports?id=abc'))).status).toBe(403);
+
+    db.single.mockResolvedValueOnce({ data: row({ expires_at: '2020-01-01T00:00:00Z' }), error: null });
+    expect((await GET(getRequest('http://localhost/api/reports?id=abc'))).status).toBe(410);
+
+    db.single.mockResolvedValueOnce({ data: row({ access_mode: 'password', password_hash: 'scrypt:a:b' }), error: null });
+    expect((await GET(getRequest('http://localhost/api/reports?id=abc'))).status).toBe(401);
+  });
+
+  it('shows the owner their report and its access settings', async () => {
+    db.single.mockResolvedValueOnce({ data: row({ access_mode: 'private' }), error: null });
+
+    const response = await GET(getRequest('http://localhost/api/reports?id=abc', { cookies: ownerCookies() }));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).access).toEqual({
+      mode: 'private',
+      hasPassword: false,
+      expiresAt: null,
+      grantsRevokedAt: null,
+    });
+  });
+
+  it('lets only the owner change access', async () => {
+    db.single.mockResolvedValue({ data: row(), error: null });
+
+    const stranger = await PATCH(
+      jsonRequest('http://localhost/api/reports?id=abc', { mode: 'private' }, { method: 'PATCH' })
+    );
+    expect(stranger.status).toBe(403);
+    expect(db.update).not.toHaveBeenCalled();
+
+    const owner = await PATCH(
+      jsonRequest(
+        'http://localhost/api/reports?id=abc',
+        { mode: 'signed', expiresAt: '2030-01-01T00:00:00Z', revokeGrants: true },
+        { method: 'PATCH', cookies: ownerCookies() }
+      )
+    );
+    expect(owner.status).toBe(200);
+    expect(db.update).toHaveBeenCalledWith(
+      expect.objectContaining({ access_mode: 'signed', expires_at: '2030-01-01T00:00:00Z', grants_revoked_at: expect.any(String) }),
+      'id',
+      'abc'
+    );
+  });
+
+  it('treats the signed-in author as the owner', async () => {
+    db.single.mockResolvedValue({ data: row({ access_mode: 'private', user_id: 'user-1' }), error: null });
+    auth.getSessionUser.mockResolvedValue({ id: 'user-1', email: 'a@example.com' });
+
+    const response = await GET(getRequest('http://localhost/api/reports?id=abc'));
+    expect(response.status).toBe(200);
+    expect((await response.json()).access.mode).toBe('private');
+
+    auth.getSessionUser.mockResolvedValue({ id: 'user-2', email: 'b@example.com' });
+    expect((await GET(getRequest('http://localhost/api/reports?id=abc'))).status).toBe(403);
+  });
+
+  it('renames and retags a report for its owner', async () => {
+    db.single.mockResolvedValue({ data: row(), error: null });
+
+    const response = await PATCH(
+      jsonRequest(
+        'http://localhost/api/reports?id=abc',
+        { productName: 'Safety Training', tags: ['compliance'] },
+        { method: 'PATCH', cookies: ownerCookies() }
+      )
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ productName: 'Safety Training', tags: ['compliance'] });
+    expect(db.update).toHaveBeenCalledWith(
+      expect.objectContaining({ product_name: 'Safety Training', tags: ['compliance'] }),
+      'id',
+      'abc'
+    );
+  });
+
+  it('moves a report only into workspaces the owner edits', async () => {
+    db.single.mockResolvedValue({ data: row(), error: null });
+    auth.getSessionUser.mockResolvedValue({ id: 'user-1', email: 'a@example.com' });
+    workspaces.openWorkspace.mockResolvedValueOnce({ error: 'Only workspace editors can do this', status: 403 });
+
+    const viewer = await PATCH(
+      jsonRequest('http://localhost/api/reports?id=abc', { workspaceId: 'team' }, { method: 'PATCH', cookies: ownerCookies() })
+    );
+    expect(viewer.status).toBe(403);
+    expect(workspaces.openWorkspace).toHaveBeenCalledWith(expect.anything(), 'team', 'a@example.com', 'editor');
+
+    workspaces.openWorkspace.mockResolvedValueOnce({ workspace: { id: 'team' }, role: 'editor' });
+    const editor = await PATCH(
+      jsonRequest('http://localhost/api/reports?id=abc', { workspaceId: 'team' }, { method: 'PATCH', cookies: ownerCookies() })
+    );
+    expect(editor.status).toBe(200);
+    expect(db.update).toHaveBeenCalledWith(expect.objectContaining({ workspace_id: 'team' }), 'id', 'abc');
+  });
+
+  it('will not switch to password mode without a password', async () => {
+    db.single.mockResolvedValueOnce({ data: row(), error: null });
+
+    const response = await PATCH(
+      jsonRequest('http://localhost/api/reports?id=abc', { mode: 'password' }, { method: 'PATCH', cookies: ownerCookies() })
+    );
+
+    expect(response.status).toBe(400);
+    expect(db.update).not.toHaveBeenCalled();
+  });
+
+  it('deletes a report for its owner and relinks later versions', async () => {
+    db.single.mockResolvedValue({ data: row({ previous_version_id: 'v0' }), error: null });
+
+    expect((await DELETE(getRequest('http://localhost/api/reports?id=abc', { method: 'DELETE' }))).status).toBe(403);
+    expect(db.remove).not.toHaveBeenCalled();
+
+    const cookies = ownerCookies();
+    const response = await DELETE(getRequest('http://localhost/api/reports?id=abc', { method: 'DELETE', cookies }));
+
+    expect(response.status).toBe(200);
+    expect(db.update).toHaveBeenCalledWith({ previous_version_id: 'v0' }, 'previous_version_id', 'abc');
+    expect(db.remove).toHaveBeenCalledWith('audit_reports', 'id', 'abc');
+    expect(cookies.values.has('report-owner-abc')).toBe(false);
+  });
+
+  it("deletes the report's comments and action items with it", async () => {
+    db.single.mockResolvedValue({ data: row(), error: null });
+
+    const response = await DELETE(getRequest('http://localhost/api/reports?id=abc', { method: 'DELETE', cookies: ownerCookies() }));
+
+    expect(response.status).toBe(200);
+    expect(db.remove).toHaveBeenCalledWith('report_comments', 'report_id', 'abc');
+    expect(db.remove).toHaveBeenCalledWith('action_items', 'report_id', 'abc');
+  });
+});
@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCookies, jsonRequest } from '../helpers/api';
+import { createOwnerKey, hashOwnerKey } from '../../src/lib/reportAccess';
+
+const db = await vi.hoisted(async () => (await import('../helpers/supabase')).createSupabaseMock());
+const auth = vi.hoisted(() => ({ getSessionUser: vi.fn() }));
+
+vi.mock('../../src/lib/supabase', () => ({ supabase: db.client }));
+vi.mock('../../src/lib/auth', () => auth);
+
+const { POST } = await import('../../src/pages/api/score-overrides');
+
+const ownerKey = createOwnerKey();
+const profile = {
+  id: 'custom',
+  name: 'Custom',
+  principleIds: ['retrieval-practice', 'spacing'],
+  weights: { 'retrieval-practice': 3 },
+  gapThreshold: 3,
+  strengthThreshold: 4,
+};
+const report = {
+  data: {
+    id: 'abc',
+    created_at: '2025-01-01T00:00:00Z',
+    overall_score: 2.5,
+    ratings: { 'retrieval-practice': 2, spacing: 4 },
+    section_results: null,
+    key_takeaways: null,
+    profile,
+    refined_scores: null,
+    previous_version_id: null,
+    owner_key_hash: hashOwnerKey(ownerKey),
+    workspace_id: 'team',
+  },
+  error: null,
+};
+
+const override = (body: Record<string, unknown>, cookies = createCookies()) =>
+  POST(jsonRequest('http://localhost/api/score-overrides', { reportId: 'abc', principleId: 'retrieval-practice', ...body }, { cookies }));
+
+beforeEach(() => {
+  db.reset();
+  auth.getSessionUser.mockReset();
+  auth.getSessionUser.mockResolvedValue(null);
+});
+
+describe('POST /api/score-overrides', () => {
+  it('replaces the score, rescoring the report and recording the justification', async () => {
+    auth.getSessionUser.mockResolvedValue({ id: 'u1', email: 'editor@example.com' });
+    db.respond('audit_reports', report, { error: null });
+    db.respond('workspace_members', { data: { role: 'editor' }, error: null });
+
+    const response = await override({ score: 4, justification: 'Quizzes follow every lesson' });
+
+    expect(response.status).toBe(200);
+    const { ratings, overallScore, scoreOverrides } = await response.json();
+    expect(ratings).toEqual({ 'retrieval-practice': 4, spacing: 4 });
+    expect(overallScore).toBe(4);
+    expect(scoreOverrides).toEqual([
+      expect.objectContaining({ principleId: 'retrieval-practice', previousScore: 2, score: 4, author: 'editor@example.com' }),
+    ]);
+    expect(db.callsTo('audit_reports', 'update')[0][0]).toMatchObject({ overall_score: 4, score_overrides: scoreOverrides });
+  });
+
+  it('lets the owner override without an account', async () => {
+    db.respond('audit_reports', report, { error: null });
+
+    const response = await override(
+      { score: 3, justification: 'Partly covered' },
+      createCookies({ 'report-owner-abc': ownerKey })
+    );
+
+    expect(response.status).toBe(200);
+    // Weighted by the profile: (3 * 3 + 4) / 4
+    expect((await response.json()).overallScore).toBe(3.25);
+  });
+
+  it('turns away viewers and requires a justification', async () => {
+    auth.getSessionUser.mockResolvedValue({ id: 'u2', email: 'viewer@example.com' });
+    db.respond('audit_reports', report);
+    db.respond('workspace_members', { data: { role: 'viewer' }, error: null });
+
+    expect((await override({ score: 5, justification: 'Great' })).status).toBe(403);
+    expect((await override({ score: 5, justification: '  ' })).status).toBe(400);
+    expect(db.callsTo('audit_reports', 'update')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getRequest, jsonRequest } from '../helpers/api';
+
+const db = await vi.hoisted(async () => (await import('../helpers/supabase')).createSupabaseMock());
+const auth = vi.hoisted(() => ({ getSessionUser: vi.fn() }));
+
+vi.mock('../../src/lib/supabase', () => ({ supabase: db.client }));
+vi.mock('../../src/lib/auth', () => auth);
+
+const workspaces = await import('../../src/pages/api/workspaces');
+const members = await import('../../src/pages/api/workspace-members');
+
+const workspace = { data: { id: 'team', name: 'Design team', created_at: '2025-01-01T00:00:00Z' }, error: null };
+const role = (r: string) => ({ data: { role: r }, error: null });
+const memberList = (...entries: Array<[string, string]>) => ({
+  data: entries.map(([email, r]) => ({ email, role: r, created_at: '2025-01-01T00:00:00Z' })),
+  error: null,
+});
+
+beforeEach(() => {
+  db.reset();
+  auth.getSessionUser.mockReset();
+  auth.getSessionUser.mockResolvedValue({ id: 'u1', email: 'lead@example.com' });
+});
+
+describe('POST /api/workspaces', () => {
+  it('makes the creator its owner', async () => {
+    const response = await workspaces.POST(jsonRequest('http://localhost/api/workspaces', { name: ' Design team ' }));
+
+    expect(response.status).toBe(200);
+    const { workspace: created, url } = await response.json();
+    expect(created).toMatchObject({ name: 'Design team', role: 'owner' });
+    expect(url).toBe(`/workspaces/${created.id}`);
+    expect(db.callsTo('workspace_members', 'insert')[0][0]).toMatchObject({
+      workspace_id: created.id,
+      email: 'lead@example.com',
+      role: 'owner',
+    });
+  });
+
+  it('requires an account', async () => {
+    auth.getSessionUser.mockResolvedValue(null);
+    const response = await workspaces.POST(jsonRequest('http://localhost/api/workspaces', { name: 'Team' }));
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('DELETE /api/workspaces', () => {
+  it('is limited to owners and leaves reports with their authors', async () => {
+    db.respond('workspaces', workspace);
+    db.respond('workspace_members', role('editor'));
+    expect((await workspaces.DELETE(getRequest('http://localhost/api/workspaces?id=team', { method: 'DELETE' }))).status).toBe(403);
+
+    db.respond('workspaces', workspace, { error: null });
+    db.respond('workspace_members', role('owner'), { error: null });
+    db.respond('audit_reports', { error: null });
+    const response = await workspaces.DELETE(getRequest('http://localhost/api/workspaces?id=team', { method: 'DELETE' }));
+
+    expect(response.status).toBe(200);
+    expect(db.callsTo('audit_reports', 'update')).toEqual([[{ workspace_id: null }]]);
+  });
+});
+
+describe('workspace members', () => {
+  it('lets owners add members by email', async () => {
+    db.respond('workspaces', workspace);
+    db.respond('workspace_members', role('owner'), memberList(['lead@example.com', 'owner']), { error: null });
+
+    const response = await members.POST(
+      jsonRequest('http://localhost/api/workspace-members', { workspaceId: 'team', email: 'New@Example.com', role: 'viewer' })
+    );
+
+    expect(response.status).toBe(200);
+    expect(db.callsTo('workspace_members', 'insert')[0][0]).toMatchObject({ email: 'new@example.com', role: 'viewer' });
+  });
+
+  it('keeps at least one owner', async () => {
+    db.respond('workspaces', workspace, workspace);
+    db.respond(
+      'workspace_members',
+      role('owner'),
+      memberList(['lead@example.com', 'owner'], ['dev@example.com', 'editor']),
+      role('owner'),
+      memberList(['lead@example.com', 'owner'], ['dev@example.com', 'editor'])
+    );
+
+    const demote = await members.PATCH(
+      jsonRequest(
+        'http://localhost/api/workspace-members',
+        { workspaceId: 'team', email: 'lead@example.com', role: 'editor' },
+        { method: 'PATCH' }
+      )
+    );
+    const leave = await members.DELETE(
+      getRequest('http://localhost/api/workspace-members?workspaceId=team&email=lead@example.com', { method: 'DELETE' })
+    );
+
+    expect(demote.status).toBe(400);
+    expect(leave.status).toBe(400);
+    expect(db.callsTo('workspace_members', 'update')).toHaveLength(0);
+    expect(db.callsTo('workspace_members', 'delete')).toHaveLength(0);
+  });
+
+  it('lets any member leave, but only owners remove others', async () => {
+    auth.getSessionUser.mockResolvedValue({ id: 'u2', email: 'dev@example.com' });
+    db.respond('workspaces', workspace, workspace);
+    db.respond('workspace_members', role('editor'), role('editor'), memberList(['lead@example.com', 'owner'], ['dev@example.com', 'editor']), { error: null });
+
+    const removeOther = await members.DELETE(
+      getRequest('http://localhost/api/workspace-members?workspaceId=team&email=lead@example.com', { method: 'DELETE' })
+    );
+    const leave = await members.DELETE(
+      getRequest('http://localhost/api/workspace-members?workspaceId=team&email=dev@example.com', { method: 'DELETE' })
+    );
+
+    expect(removeOther.status).toBe(403);
+    expect(leave.status).toBe(200);
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { getRelevantFollowUpPrinciples } from '../../src/data/followUpQuestions';
+
+describe('getRelevantFollowUpPrinciples', () => {
+  it('keeps principles with follow-up questions for the analyzed section types', () => {
+    expect(
+      getRelevantFollowUpPrinciples(['retrieval-practice', 'chunking', 'spaced-repetition'], ['Knowledge check'])
+    ).toEqual(['retrieval-practice']);
+  });
+
+  it('drops principles that have no follow-up questions', () => {
+    expect(getRelevantFollowUpPrinciples(['not-a-principle'], ['Practice'])).toEqual([]);
+  });
+
+  it('includes overall follow-ups when several section types are analyzed', () => {
+    expect(
+      getRelevantFollowUpPrinciples(['spaced-repetition', 'chunking'], ['Video lesson', 'Knowledge check'])
+    ).toEqual(['spaced-repetition', 'chunking']);
+  });
+});
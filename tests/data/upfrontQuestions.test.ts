@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectSectionType,
+  getApplicablePrincipleIds,
+  getRelevantQuestions,
+  type SectionType,
+} from '../../src/data/upfrontQuestions';
+
+describe('detectSectionType', () => {
+  it.each([
+    ['Pre-lesson quiz', 'pre-quiz'],
+    ['Diagnostic', 'pre-quiz'],
+    ['Final Exam', 'post-quiz'],
+    ['Post test', 'post-quiz'],
+    ['Knowledge check', 'quiz'],
+    ['Practice round', 'practice'],
+    ['Mini game', 'practice'],
+    ['Weekly recap', 'review'],
+    ['Welcome screen', 'onboarding'],
+    ['Video lecture', 'lesson'],
+  ])('detects "%s" as %s', (name, expected) => {
+    expect(detectSectionType(name)).toBe(expected);
+  });
+
+  it('checks pre- and post-quiz patterns before the generic quiz pattern', () => {
+    expect(detectSectionType('Pre-quiz')).toBe('pre-quiz');
+    expect(detectSectionType('Post-quiz')).toBe('post-quiz');
+  });
+
+  it('falls back to lesson for unrecognized names', () => {
+    expect(detectSectionType('Screen 7')).toBe('lesson');
+  });
+});
+
+describe('getApplicablePrincipleIds', () => {
+  const appliesTo: Record<string, SectionType[]> = {
+    'retrieval-practice': ['quiz', 'practice'],
+    chunking: ['lesson'],
+    'growth-mindset': [],
+  };
+
+  it('keeps principles that apply to the section type', () => {
+    expect(getApplicablePrincipleIds('quiz', Object.keys(appliesTo), appliesTo)).toEqual([
+      'retrieval-practice',
+      'growth-mindset',
+    ]);
+  });
+
+  it('treats principles with no appliesTo as applying everywhere', () => {
+    expect(getApplicablePrincipleIds('review', ['unknown'], {})).toEqual(['unknown']);
+  });
+});
+
+describe('getRelevantQuestions', () => {
+  it('returns only questions for the detected section types', () => {
+    const ids = getRelevantQuestions(['Knowledge check']).map((q) => q.id);
+    expect(ids).toContain('quiz-feedback');
+    expect(ids).not.toContain('lesson-pacing');
+    expect(ids).not.toContain('spaced-learning');
+  });
+
+  it('includes overall questions when several section types are audited', () => {
+    const ids = getRelevantQuestions(['Video lesson', 'Knowledge check']).map((q) => q.id);
+    expect(ids).toContain('spaced-learning');
+    expect(ids).toContain('lesson-pacing');
+    expect(ids).toContain('quiz-feedback');
+  });
+});
@@ -0,0 +1,47 @@
+import type { APIContext } from 'astro';
+import type Anthropic from '@anthropic-ai/sdk';
+
+/** In-memory stand-in for Astro's cookies, enough for route handlers that read and set them */
+export function createCookies(initial: Record<string, string> = {}) {
+  const values = new Map(Object.entries(initial));
+  return {
+    values,
+    get: (name: string) => (values.has(name) ? { value: values.get(name)! } : undefined),
+    has: (name: string) => values.has(name),
+    set: (name: string, value: string) => void values.set(name, value),
+    delete: (name: string) => void values.delete(name),
+  };
+}
+
+interface RequestOptions {
+  method?: string;
+  cookies?: ReturnType<typeof createCookies>;
+}
+
+/** Minimal API context for calling a route handler directly */
+export function jsonRequest(url: string, body: unknown, { method = 'POST', cookies = createCookies() }: RequestOptions = {}): APIContext {
+  const request = new Request(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return { request, url: new URL(url), cookies } as unknown as APIContext;
+}
+
+export function getRequest(url: string, { method = 'GET', cookies = createCookies() }: RequestOptions = {}): APIContext {
+  return { request: new Request(url, { method }), url: new URL(url), cookies } as unknown as APIContext;
+}
+
+/** A model response containing a single tool call */
+export function toolUseMessage(name: string, input: unknown, stopReason: Anthropic.StopReason = 'tool_use'): Anthropic.Message {
+  return {
+    id: 'msg_test',
+    type: 'message',
+    role: 'assistant',
+    model: 'test-model',
+    content: [{ type: 'tool_use', id: 'toolu_test', name, input }],
+    stop_reason: stopReason,
+    stop_sequence: null,
+    usage: { input_tokens: 0, output_tokens: 0 },
+  } as Anthropic.Message;
+}
@@ -0,0 +1,26 @@
+import { vi } from 'vitest';
+import { samplePrinciples } from './principles';
+import { RUBRIC_LEVEL_LABELS } from '../../src/data/auditPrompts';
+
+/**
+ * Stand-in for the `astro:content` virtual module, serving the sample principles
+ * as entries of the `principles` collection.
+ */
+export const getCollection = vi.fn(async (collection: string) => {
+  if (collection !== 'principles') return [];
+  return samplePrinciples.map((p) => ({
+    id: p.id,
+    data: {
+      title: p.title,
+      category: p.category,
+      summary: p.summary,
+      essential: p.essential,
+      audit: {
+        prompt: p.audit.prompt,
+        recommendation: p.audit.recommendation,
+        appliesTo: p.audit.appliesTo,
+        rubric: Object.keys(RUBRIC_LEVEL_LABELS).map((level) => p.audit.rubric[Number(level)].description),
+      },
+    },
+  }));
+});
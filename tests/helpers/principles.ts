@@ -0,0 +1,32 @@
+import { toAuditPromptData, type AuditPrinciple } from '../../src/data/auditPrompts';
+import type { SectionType } from '../../src/data/upfrontQuestions';
+
+const rubric = ['None', 'Minimal', 'Partial', 'Good', 'Excellent'];
+
+export function makePrinciple(
+  id: string,
+  overrides: Partial<Omit<AuditPrinciple, 'audit'>> & { appliesTo?: SectionType[] } = {}
+): AuditPrinciple {
+  const { appliesTo = [], ...rest } = overrides;
+  return {
+    id,
+    title: id.split('-').map((w) => w[0].toUpperCase() + w.slice(1)).join(' '),
+    category: 'Memory & Retention',
+    summary: `Summary of ${id}`,
+    essential: true,
+    audit: toAuditPromptData({
+      prompt: `Does the experience use ${id}?`,
+      recommendation: `Add more ${id}.`,
+      appliesTo,
+      rubric: rubric.map((level) => `${level} ${id}`),
+    }),
+    ...rest,
+  };
+}
+
+export const samplePrinciples: AuditPrinciple[] = [
+  makePrinciple('retrieval-practice', { appliesTo: ['quiz', 'practice', 'review'] }),
+  makePrinciple('spaced-repetition', { appliesTo: ['review', 'overall'] }),
+  makePrinciple('cognitive-load-theory', { category: 'Cognitive Load', appliesTo: ['lesson', 'quiz'] }),
+  makePrinciple('self-efficacy', { category: 'Motivation & Engagement', essential: false }),
+];
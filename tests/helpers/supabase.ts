@@ -0,0 +1,41 @@
+/**
+ * Chainable stand-in for the Supabase client. Every query on a table resolves to the next
+ * response queued for that table (or empty data), and each call is recorded for assertions.
+ */
+export function createSupabaseMock() {
+  const queues = new Map<string, unknown[]>();
+  const calls: Array<{ table: string; method: string; args: unknown[] }> = [];
+
+  const next = async (table: string) => queues.get(table)?.shift() ?? { data: null, error: null };
+
+  const query = (table: string) => {
+    const chain: Record<string, unknown> = {};
+    for (const method of ['select', 'insert', 'update', 'delete', 'eq', 'in', 'order']) {
+      chain[method] = (...args: unknown[]) => {
+        calls.push({ table, method, args });
+        return chain;
+      };
+    }
+    chain.single = chain.maybeSingle = () => next(table);
+    chain.then = (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+      next(table).then(resolve, reject);
+    return chain;
+  };
+
+  return {
+    client: { from: (table: string) => query(table) },
+    calls,
+    /** Queue responses for the next queries on a table, in order */
+    respond(table: string, ...responses: unknown[]) {
+      queues.set(table, [...(queues.get(table) ?? []), ...responses]);
+    },
+    /** Arguments of every call of one method on one table */
+    callsTo(table: string, method: string) {
+      return calls.filter((c) => c.table === table && c.method === method).map((c) => c.args);
+    },
+    reset() {
+      queues.clear();
+      calls.length = 0;
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { type ActionItem, suggestActionItems, verifyActionItem } from '../../src/lib/actionItems';
+
+const tracked = (overrides: Partial<ActionItem>): ActionItem => ({
+  id: 'item1',
+  reportId: 'abc',
+  principleId: 'retrieval-practice',
+  title: 'Add a quiz after each lesson',
+  source: 'top-action',
+  assignee: null,
+  priority: 'high',
+  effort: 'small',
+  status: 'open',
+  baselineScore: 2,
+  createdAt: '2025-01-02T00:00:00Z',
+  completedAt: null,
+  ...overrides,
+});
+
+describe('suggestActionItems', () => {
+  const keyTakeaways = {
+    topActions: [
+      { id: 'retrieval-practice', recommendation: 'Add a quiz after each lesson' },
+      { id: 'spacing', recommendation: 'Schedule reviews' },
+    ],
+    quickWins: [{ id: 'retrieval-practice' }],
+  };
+  const refinedScores = [
+    {
+      principleId: 'spacing',
+      originalScore: 2,
+      refinedScore: 3,
+      refinedReasoning: '',
+      specificActions: ['Email a review a week later', 'Schedule reviews'],
+    },
+  ];
+
+  it('prioritises top actions and sizes quick wins as small', () => {
+    expect(suggestActionItems(keyTakeaways, refinedScores)).toEqual([
+      { principleId: 'retrieval-practice', title: 'Add a quiz after each lesson', source: 'top-action', priority: 'high', effort: 'small' },
+      { principleId: 'spacing', title: 'Schedule reviews', source: 'top-action', priority: 'high', effort: 'medium' },
+      { principleId: 'spacing', title: 'Email a review a week later', source: 'refined', priority: 'medium', effort: 'medium' },
+    ]);
+  });
+
+  it('leaves out what is already tracked', () => {
+    const suggestions = suggestActionItems(keyTakeaways, null, [tracked({})]);
+    expect(suggestions.map((s) => s.title)).toEqual(['Schedule reviews']);
+  });
+});
+
+describe('verifyActionItem', () => {
+  it('compares the baseline with the later audit', () => {
+    expect(verifyActionItem(tracked({}), { 'retrieval-practice': 4 })).toEqual({ result: 'raised', before: 2, after: 4 });
+    expect(verifyActionItem(tracked({}), { 'retrieval-practice': 2 })).toEqual({ result: 'unchanged', before: 2, after: 2 });
+    expect(verifyActionItem(tracked({}), { 'retrieval-practice': 1 })).toEqual({ result: 'lowered', before: 2, after: 1 });
+  });
+
+  it('waits for a later audit that rated the principle', () => {
+    expect(verifyActionItem(tracked({}), null)).toEqual({ result: 'awaiting-audit' });
+    expect(verifyActionItem(tracked({}), { spacing: 3 })).toEqual({ result: 'not-rated' });
+    expect(verifyActionItem(tracked({ baselineScore: null }), { 'retrieval-practice': 3 })).toEqual({ result: 'not-rated' });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildAnalysisPrompt,
+  buildNavigationContextSection,
+  buildRefinePrompt,
+  buildUpfrontContextSection,
+} from '../../src/lib/analysisPrompts';
+import { getAuditDataById } from '../../src/data/auditPrompts';
+import { samplePrinciples } from '../helpers/principles';
+
+const auditData = getAuditDataById(samplePrinciples);
+
+describe('buildUpfrontContextSection', () => {
+  it('returns nothing when no context was given', () => {
+    expect(buildUpfrontContextSection({})).toBe('');
+  });
+
+  it('includes the selected option, scoring hint, and free text', () => {
+    const section = buildUpfrontContextSection({
+      'spaced-learning': { selectedOption: 'reminders', freeText: 'Weekly emails' },
+    });
+    expect(section).toContain('The system sends reminders or notifications to return and practice');
+    expect(section).toContain('Some spaced repetition via reminders - score 3');
+    expect(section).toContain('Affects principles: spaced-repetition');
+    expect(section).toContain('Additional context: "Weekly emails"');
+  });
+
+  it('skips unknown questions and options', () => {
+    const section = buildUpfrontContextSection({
+      'not-a-question': { selectedOption: 'x', freeText: '' },
+      'spaced-learning': { selectedOption: 'not-an-option', freeText: '' },
+    });
+    expect(section).not.toContain('User selected');
+  });
+});
+
+describe('buildNavigationContextSection', () => {
+  const capture = {
+    id: 'c-1',
+    image: 'cG5n',
+    mediaType: 'image/png',
+    timestamp: 10_000,
+    trigger: 'key_moment' as const,
+    url: 'https://learn.test/quiz',
+    pageTitle: 'Quiz',
+    description: 'Question about spacing',
+    contentType: 'quiz_question' as const,
+    flowId: 'flow-1',
+    sequenceNumber: 0,
+  };
+
+  it('orders captures and interactions into one timeline with answer outcomes', () => {
+    const section = buildNavigationContextSection({
+      captures: [
+        capture,
+        { ...capture, id: 'c-2', timestamp: 75_000, description: 'Marked wrong', contentType: 'quiz_feedback', wasCorrect: false, attemptNumber: 2, activePersona: 'struggling' },
+      ],
+      interactions: [
+        { id: 'i-1', type: 'select', timestamp: 70_000, target: 'Massed practice', flowId: 'flow-1', success: true },
+        { id: 'i-2', type: 'click', timestamp: 72_000, target: 'Submit', flowId: 'flow-1', success: false, error: 'Button disabled' },
+      ],
+      flows: [{ id: 'flow-1', description: 'Take a lesson quiz', status: 'completed' }],
+      session: { startUrl: 'https://learn.test/', duration: 90_000 },
+    });
+
+    expect(section).toContain('navigating https://learn.test/ as a learner (session length 1:30)');
+    expect(section).toContain('Flow: "Take a lesson quiz" (completed)');
+    expect(section).toContain(
+      [
+        '- 0:00 Screenshot 1 (quiz question): Question about spacing',
+        '- 1:00 select Massed practice',
+        '- 1:02 click Submit (failed: Button disabled)',
+        '- 1:05 Screenshot 2 (quiz feedback): Marked wrong [after an incorrect answer, attempt 2, acting as Struggling Learner]',
+      ].join('\n')
+    );
+    expect(section).toContain('Retry behavior');
+  });
+});
+
+describe('buildAnalysisPrompt', () => {
+  it('includes only principles that apply to the section type', () => {
+    const prompt = buildAnalysisPrompt(auditData, 'Knowledge check', 'quiz');
+    expect(prompt).toContain('This section is: "Knowledge check" (detected type: quiz)');
+    expect(prompt).toContain('## retrieval-practice');
+    expect(prompt).toContain('## cognitive-load-theory');
+    // Empty appliesTo means the principle applies everywhere
+    expect(prompt).toContain('## self-efficacy');
+    expect(prompt).not.toContain('## spaced-repetition');
+    expect(prompt).toContain('each of the 3 learning science principles');
+  });
+
+  it('lists every rubric level', () => {
+    const prompt = buildAnalysisPrompt(auditData, 'Knowledge check', 'quiz');
+    expect(prompt).toContain('1 - Not implemented: None retrieval-practice');
+    expect(prompt).toContain('5 - Fully integrated: Excellent retrieval-practice');
+  });
+
+  it('uses the full-experience prompt when there is no section name', () => {
+    const prompt = buildAnalysisPrompt(auditData);
+    expect(prompt).toContain('Analyze the provided screenshots of a learning experience');
+    expect(prompt).not.toContain('ONE SECTION');
+  });
+
+  it('includes section notes and upfront context', () => {
+    const prompt = buildAnalysisPrompt(auditData, 'Weekly recap', 'review', 'Shown after each unit', {
+      'spaced-learning': { selectedOption: 'none', freeText: '' },
+    });
+    expect(prompt).toContain('"Shown after each unit"');
+    expect(prompt).toContain('IMPORTANT CONTEXT ABOUT THE OVERALL LEARNING EXPERIENCE');
+  });
+
+  it('marks heavily weighted principles as high priority and names the tailored context', () => {
+    const prompt = buildAnalysisPrompt(
+      auditData,
+      'Knowledge check',
+      'quiz',
+      undefined,
+      undefined,
+      { 'retrieval-practice': 2, 'cognitive-load-theory': 0.5 },
+      'Learning Designer, Game-Based Learning'
+    );
+    expect(prompt).toContain('## retrieval-practice\nPriority: HIGH (weighted x2');
+    expect(prompt).not.toContain('## cognitive-load-theory\nPriority');
+    expect(prompt).toContain('tailored for: Learning Designer, Game-Based Learning');
+  });
+
+  it('asks for scores through the record_scores tool', () => {
+    expect(buildAnalysisPrompt(auditData, 'Quiz', 'quiz')).toContain('calling the record_scores tool');
+  });
+});
+
+describe('buildRefinePrompt', () => {
+  const originalScores = [
+    { principleId: 'retrieval-practice', title: 'Retrieval Practice', score: 2, reasoning: 'Only recognition' },
+    { principleId: 'spaced-repetition', title: 'Spaced Repetition', score: 1, reasoning: 'Single session' },
+  ];
+
+  it('includes original scores, rubrics, and user answers', () => {
+    const prompt = buildRefinePrompt(auditData, originalScores, [
+      { principleId: 'retrieval-practice', selectedOptions: ['Flashcards are available'], freeText: 'Typed answers' },
+    ]);
+    expect(prompt).toContain('## Retrieval Practice (ID: retrieval-practice)');
+    expect(prompt).toContain('**Original Score:** 2/5');
+    expect(prompt).toContain('3 - Partial: Partial retrieval-practice');
+    expect(prompt).toContain('- Flashcards are available');
+    expect(prompt).toContain('"Typed answers"');
+    expect(prompt).toContain('calling the record_refinements tool');
+  });
+
+  it('notes when the user gave no context for a principle', () => {
+    const prompt = buildRefinePrompt(auditData, originalScores, [
+      { principleId: 'spaced-repetition', selectedOptions: [], freeText: '  ' },
+    ]);
+    expect(prompt).toContain('**User provided no additional context for this principle.**');
+  });
+});
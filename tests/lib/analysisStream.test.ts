@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { mapWithConcurrency } from '../../src/lib/analysisStream';
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('mapWithConcurrency', () => {
+  it('keeps results in item order and never exceeds the limit', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 0], 2, async (n) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, n));
+      running--;
+      return n * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40, 0]);
+    expect(peak).toBe(2);
+  });
+
+  it('stops starting items after a failure', async () => {
+    const started: number[] = [];
+    await expect(
+      mapWithConcurrency([1, 2, 3, 4], 1, async (n) => {
+        started.push(n);
+        await tick();
+        if (n === 2) throw new Error('failed');
+        return n;
+      })
+    ).rejects.toThrow('failed');
+    expect(started).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,139 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLegacyProfile } from '../../src/data/auditProfiles';
+import {
+  type AuditDraft,
+  DRAFTS_CHANGED_EVENT,
+  deleteDraft,
+  describeDraft,
+  draftFromReport,
+  duplicateDraft,
+  getDraft,
+  listDrafts,
+  saveDraft,
+} from '../../src/lib/auditDrafts';
+import type { SavedReport } from '../../src/lib/reports';
+
+const report: SavedReport = {
+  id: 'abc',
+  createdAt: '2025-01-01T00:00:00Z',
+  overallScore: 3,
+  ratings: { 'retrieval-practice': 3 },
+  sectionResults: null,
+  keyTakeaways: null,
+  profile: null,
+  refinedScores: null,
+  scoreOverrides: [],
+  productName: 'Onboarding Course',
+  tags: ['sales'],
+  previousVersionId: null,
+  projectId: null,
+};
+
+describe('draftFromReport', () => {
+  it('reopens a report as a new version of it', () => {
+    const draft = draftFromReport(report, '2025-02-01T00:00:00Z');
+
+    expect(draft).toMatchObject({
+      createdAt: '2025-02-01T00:00:00Z',
+      mode: 'manual',
+      ratings: { 'retrieval-practice': 3 },
+      sections: [],
+      showResults: true,
+      productName: 'Onboarding Course',
+      tags: ['sales'],
+      previousVersionId: 'abc',
+    });
+    expect(draft.id).not.toBe('abc');
+    expect(draft.profile.principleIds).toEqual(['retrieval-practice']);
+    expect(describeDraft(draft)).toBe('Onboarding Course');
+  });
+
+  it('keeps the rationale for scores a person changed', () => {
+    const override = (score: number, justification: string, createdAt: string) => ({
+      principleId: 'retrieval-practice',
+      previousScore: 2,
+      score,
+      justification,
+      author: null,
+      createdAt,
+    });
+    const draft = draftFromReport({
+      ...report,
+      scoreOverrides: [override(4, 'Superseded', '2025-01-01T00:00:00Z'), override(3, 'Quizzes are weekly', '2025-01-02T00:00:00Z')],
+    });
+
+    expect(draft.overrideRationales).toEqual({ 'retrieval-practice': 'Quizzes are weekly' });
+  });
+});
+
+const events = new EventTarget();
+vi.stubGlobal('window', events);
+
+const draft = (overrides: Partial<AuditDraft> = {}): AuditDraft => ({
+  id: 'd1',
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+  mode: 'ai',
+  profile: createLegacyProfile(['retrieval-practice']),
+  ratings: { 'retrieval-practice': 4 },
+  sections: [{ id: 's1', name: 'Quiz', notes: 'Second attempt', images: [new File(['png bytes'], 'quiz.png')] }],
+  upfrontContext: {},
+  sectionResults: [],
+  refinedScores: [],
+  showResults: false,
+  ...overrides,
+});
+
+beforeEach(() => {
+  // A fresh database for each test
+  vi.stubGlobal('indexedDB', new IDBFactory());
+});
+
+describe('draft storage', () => {
+  it('restores a saved draft with its screenshots, and tells other islands it changed', async () => {
+    const changed = vi.fn();
+    events.addEventListener(DRAFTS_CHANGED_EVENT, changed);
+
+    await saveDraft(draft());
+    const restored = await getDraft('d1');
+
+    expect(restored).toMatchObject({ id: 'd1', ratings: { 'retrieval-practice': 4 }, sections: [{ name: 'Quiz', notes: 'Second attempt' }] });
+    expect(await restored!.sections[0].images[0].text()).toBe('png bytes');
+    expect(changed).toHaveBeenCalledTimes(1);
+    events.removeEventListener(DRAFTS_CHANGED_EVENT, changed);
+  });
+
+  it('overwrites a draft saved again under the same id', async () => {
+    await saveDraft(draft());
+    await saveDraft(draft({ ratings: { 'retrieval-practice': 2 }, updatedAt: '2025-01-02T00:00:00Z' }));
+
+    expect(await listDrafts()).toEqual([expect.objectContaining({ ratings: { 'retrieval-practice': 2 } })]);
+  });
+
+  it('lists the most recently updated drafts first', async () => {
+    await saveDraft(draft({ id: 'old', updatedAt: '2025-01-01T00:00:00Z' }));
+    await saveDraft(draft({ id: 'new', updatedAt: '2025-03-01T00:00:00Z' }));
+    await saveDraft(draft({ id: 'middle', updatedAt: '2025-02-01T00:00:00Z' }));
+
+    expect((await listDrafts()).map((d) => d.id)).toEqual(['new', 'middle', 'old']);
+  });
+
+  it('duplicates a draft under a new id and deletes drafts', async () => {
+    await saveDraft(draft());
+
+    const copy = await duplicateDraft('d1');
+    expect(copy).toMatchObject({ ratings: { 'retrieval-practice': 4 } });
+    expect(copy!.id).not.toBe('d1');
+    expect(await duplicateDraft('missing')).toBeNull();
+
+    await deleteDraft('d1');
+    expect(await getDraft('d1')).toBeNull();
+    expect((await listDrafts()).map((d) => d.id)).toEqual([copy!.id]);
+  });
+
+  it('rejects where IndexedDB is not available, as during server rendering', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    await expect(listDrafts()).rejects.toThrow('Drafts are not available in this browser');
+  });
+});
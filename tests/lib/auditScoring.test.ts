@@ -0,0 +1,253 @@
+import { describe, expect, it } from 'vitest';
+import {
+  aiScoresWithRefinements,
+  applyScoreOverride,
+  buildKeyTakeaways,
+  combineSectionScores,
+  latestOverrides,
+  ratingsFromSectionResults,
+  changedFromAi,
+  scoreProvenance,
+  summarizeRatings,
+  summarizeSection,
+  type SectionResult,
+} from '../../src/lib/auditScoring';
+import { createDefaultProfile, type AuditProfile } from '../../src/data/auditProfiles';
+import { samplePrinciples } from '../helpers/principles';
+
+const ids = samplePrinciples.map((p) => p.id);
+const profile = createDefaultProfile(ids);
+
+const score = (value: number, reasoning = 'because') => ({ score: value, reasoning, confidence: 'high' as const });
+
+const sections: SectionResult[] = [
+  {
+    sectionId: 'a',
+    sectionName: 'Lesson',
+    scores: {
+      'retrieval-practice': score(2),
+      'cognitive-load-theory': score(4),
+      'spaced-repetition': { score: 0, reasoning: 'n/a', confidence: 'high', notApplicable: true },
+    },
+  },
+  {
+    sectionId: 'b',
+    sectionName: 'Quiz',
+    scores: {
+      'retrieval-practice': score(3),
+      'cognitive-load-theory': score(1),
+    },
+  },
+];
+
+describe('combineSectionScores', () => {
+  it('keeps the best applicable score per principle and the section it came from', () => {
+    const combined = combineSectionScores(sections, ids);
+    expect(combined['retrieval-practice']).toMatchObject({ score: 3, contributingSection: 'Quiz' });
+    expect(combined['cognitive-load-theory']).toMatchObject({ score: 4, contributingSection: 'Lesson' });
+  });
+
+  it('omits principles that were not applicable or not scored', () => {
+    const combined = combineSectionScores(sections, ids);
+    expect(combined).not.toHaveProperty('spaced-repetition');
+    expect(combined).not.toHaveProperty('self-efficacy');
+  });
+});
+
+describe('ratingsFromSectionResults', () => {
+  it('pre-fills every principle, with null where there is no score', () => {
+    expect(ratingsFromSectionResults(sections, ids)).toEqual({
+      'retrieval-practice': 3,
+      'spaced-repetition': null,
+      'cognitive-load-theory': 4,
+      'self-efficacy': null,
+    });
+  });
+});
+
+describe('summarizeRatings', () => {
+  it('returns null when nothing is rated', () => {
+    expect(summarizeRatings({ 'retrieval-practice': null }, samplePrinciples, profile)).toBeNull();
+  });
+
+  it('splits ratings into sorted gaps and strengths', () => {
+    const summary = summarizeRatings(
+      { 'retrieval-practice': 3, 'spaced-repetition': 1, 'cognitive-load-theory': 4, 'self-efficacy': 5 },
+      samplePrinciples,
+      profile
+    )!;
+    expect(summary.average).toBe(3.25);
+    expect(summary.totalRated).toBe(4);
+    expect(summary.gaps.map((g) => g.id)).toEqual(['spaced-repetition', 'retrieval-practice']);
+    expect(summary.gaps[0].recommendation).toBe('Add more spaced-repetition.');
+    expect(summary.strengths.map((s) => s.id)).toEqual(['self-efficacy', 'cognitive-load-theory']);
+  });
+
+  it('applies profile weights and thresholds', () => {
+    const weighted: AuditProfile = {
+      ...profile,
+      weights: { 'retrieval-practice': 3 },
+      gapThreshold: 2,
+      strengthThreshold: 5,
+    };
+    const summary = summarizeRatings({ 'retrieval-practice': 1, 'self-efficacy': 5 }, samplePrinciples, weighted)!;
+    expect(summary.average).toBe(2);
+    expect(summary.gaps.map((g) => g.id)).toEqual(['retrieval-practice']);
+    expect(summary.strengths.map((s) => s.id)).toEqual(['self-efficacy']);
+  });
+
+  it('attaches the contributing section from combined AI scores', () => {
+    const combined = combineSectionScores(sections, ids);
+    const summary = summarizeRatings({ 'retrieval-practice': 3 }, samplePrinciples, profile, combined)!;
+    expect(summary.gaps[0].contributingSection).toBe('Quiz');
+  });
+
+  it('leaves out ratings for principles it does not know', () => {
+    const summary = summarizeRatings({ 'retrieval-practice': 3, 'made-up': 1, 'also-made-up': 5 }, samplePrinciples, profile)!;
+    expect(summary.average).toBe(3);
+    expect(summary.totalRated).toBe(1);
+    expect(summary.gaps.map((g) => g.id)).toEqual(['retrieval-practice']);
+    expect(summary.strengths).toEqual([]);
+    expect(summarizeRatings({ 'made-up': 2 }, samplePrinciples, profile)).toBeNull();
+  });
+});
+
+describe('summarizeSection', () => {
+  it('summarizes one section, listing not-applicable principles separately', () => {
+    const summary = summarizeSection(sections[0], samplePrinciples, profile)!;
+    expect(summary.sectionName).toBe('Lesson');
+    expect(summary.average).toBe(3);
+    expect(summary.gaps.map((g) => g.id)).toEqual(['retrieval-practice']);
+    expect(summary.gaps[0]).toMatchObject({ reasoning: 'because', confidence: 'high', evidence: [] });
+    expect(summary.strengths.map((s) => s.id)).toEqual(['cognitive-load-theory']);
+    expect(summary.notApplicable).toEqual([{ id: 'spaced-repetition', title: 'Spaced Repetition' }]);
+    expect(summary.totalRated).toBe(2);
+  });
+
+  it('returns null when no principle was applicable', () => {
+    const empty: SectionResult = { sectionId: 'c', sectionName: 'Empty', scores: {} };
+    expect(summarizeSection(empty, samplePrinciples, profile)).toBeNull();
+  });
+
+  it('leaves out scores for principles it does not know', () => {
+    const section: SectionResult = {
+      ...sections[0],
+      scores: { ...sections[0].scores, 'made-up': score(1), 'made-up-too': { ...score(0), notApplicable: true } },
+    };
+    const summary = summarizeSection(section, samplePrinciples, profile)!;
+    expect(summary.gaps.map((g) => g.id)).toEqual(['retrieval-practice']);
+    expect(summary.notApplicable.map((p) => p.id)).toEqual(['spaced-repetition']);
+    expect(summary.totalRated).toBe(2);
+  });
+});
+
+describe('buildKeyTakeaways', () => {
+  it('returns null when there are no gaps', () => {
+    const summary = summarizeRatings({ 'self-efficacy': 5 }, samplePrinciples, profile);
+    expect(buildKeyTakeaways(summary, profile)).toBeNull();
+  });
+
+  it('finds the weakest category, top actions, and quick wins', () => {
+    const summary = summarizeRatings(
+      { 'retrieval-practice': 3, 'spaced-repetition': 2, 'cognitive-load-theory': 1, 'self-efficacy': 3 },
+      samplePrinciples,
+      profile
+    );
+    const takeaways = buildKeyTakeaways(summary, profile)!;
+    expect(takeaways.priorityCategory).toEqual({ category: 'Cognitive Load', avg: 1, count: 1 });
+    expect(takeaways.topActions.map((a) => a.id)).toEqual([
+      'cognitive-load-theory',
+      'spaced-repetition',
+      'retrieval-practice',
+    ]);
+    expect(takeaways.quickWins.map((w) => w.id)).toEqual(['spaced-repetition', 'retrieval-practice', 'self-efficacy']);
+  });
+
+  it('ranks top actions by weighted impact', () => {
+    const weighted: AuditProfile = { ...profile, weights: { 'retrieval-practice': 3 } };
+    const summary = summarizeRatings({ 'retrieval-practice': 3, 'spaced-repetition': 1 }, samplePrinciples, weighted);
+    expect(buildKeyTakeaways(summary, weighted)!.topActions.map((a) => a.id)).toEqual([
+      'retrieval-practice',
+      'spaced-repetition',
+    ]);
+  });
+});
+
+describe('score overrides', () => {
+  const override = (score: number, createdAt: string) => ({
+    principleId: 'retrieval-practice',
+    previousScore: 2,
+    score,
+    justification: 'Reviewed',
+    author: null,
+    createdAt,
+  });
+
+  it('keeps the latest override per principle', () => {
+    const latest = latestOverrides([override(4, '2025-01-02T00:00:00Z'), override(3, '2025-01-01T00:00:00Z')]);
+    expect(latest['retrieval-practice'].score).toBe(4);
+  });
+
+  it('rescores the report with the profile weights', () => {
+    const weighted = { ...profile, weights: { 'retrieval-practice': 3 } };
+    const result = applyScoreOverride({ 'retrieval-practice': 2, 'cognitive-load-theory': 4, 'spaced-repetition': null }, override(4, ''), weighted);
+    expect(result.ratings['retrieval-practice']).toBe(4);
+    expect(result.overallScore).toBe(4);
+  });
+});
+
+describe('score provenance', () => {
+  const refined = {
+    principleId: 'cognitive-load-theory',
+    originalScore: 4,
+    refinedScore: 5,
+    refinedReasoning: 'Clear layout',
+    specificActions: [],
+  };
+  const override = {
+    principleId: 'retrieval-practice',
+    previousScore: 3,
+    score: 1,
+    justification: 'The quiz only repeats the lesson text',
+    author: 'lead@example.com',
+    createdAt: '2025-01-02T00:00:00Z',
+  };
+
+  it('prefers refined scores over the original AI scores', () => {
+    expect(aiScoresWithRefinements(sections, [refined], ids)).toEqual({
+      'retrieval-practice': { score: 3, source: 'ai' },
+      'cognitive-load-theory': { score: 5, source: 'ai-refined' },
+    });
+  });
+
+  it('lists ratings that differ from the AI', () => {
+    const aiScores = aiScoresWithRefinements(sections, [refined], ids);
+    expect(changedFromAi({ 'retrieval-practice': 1, 'cognitive-load-theory': 5, 'spaced-repetition': 2 }, aiScores)).toEqual([
+      'retrieval-practice',
+    ]);
+  });
+
+  it('traces each final score to the AI, its refinement or a person', () => {
+    const provenance = scoreProvenance(
+      { 'retrieval-practice': 1, 'cognitive-load-theory': 5, 'spaced-repetition': null },
+      sections,
+      [refined],
+      [override]
+    );
+
+    expect(provenance['retrieval-practice']).toEqual({
+      source: 'human',
+      aiScore: 3,
+      refinedScore: null,
+      finalScore: 1,
+      override,
+    });
+    expect(provenance['cognitive-load-theory']).toMatchObject({ source: 'ai-refined', aiScore: 4, refinedScore: 5 });
+    expect(provenance['spaced-repetition']).toBeUndefined();
+  });
+
+  it('credits a person who set a score back to the AI value', () => {
+    const provenance = scoreProvenance({ 'retrieval-practice': 3 }, sections, [], [{ ...override, previousScore: 1, score: 3 }]);
+    expect(provenance['retrieval-practice'].source).toBe('human');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { aggregateRuns, medianScore } from '../../src/lib/consensus';
+import type { AIScore } from '../../src/lib/auditScoring';
+
+const run = (score: number, confidence: AIScore['confidence'] = 'high', reasoning = `Scored ${score}`): AIScore => ({
+  score,
+  reasoning,
+  confidence,
+});
+
+describe('medianScore', () => {
+  it('takes the middle score of an odd number of runs', () => {
+    expect(medianScore([5, 2, 3])).toBe(3);
+  });
+
+  it('rounds the median of an even number of runs up to a whole level', () => {
+    expect(medianScore([2, 3])).toBe(3);
+    expect(medianScore([1, 2, 4, 5])).toBe(3);
+  });
+});
+
+describe('aggregateRuns', () => {
+  it('passes a single run through unchanged', () => {
+    const single = { a: run(4) };
+    expect(aggregateRuns([single], ['a'])).toEqual(single);
+  });
+
+  it('keeps confidence when every run agrees', () => {
+    const result = aggregateRuns([{ a: run(4) }, { a: run(4) }, { a: run(4, 'medium') }], ['a']).a;
+    expect(result).toMatchObject({ score: 4, confidence: 'high' });
+    expect(result.consensus).toEqual({ scores: [4, 4, 4], agreement: 1, spread: 0 });
+  });
+
+  it('lowers confidence one level when runs differ by a point', () => {
+    const result = aggregateRuns([{ a: run(3) }, { a: run(4) }, { a: run(3) }], ['a']).a;
+    expect(result.score).toBe(3);
+    expect(result.confidence).toBe('medium');
+    expect(result.consensus?.agreement).toBeCloseTo(2 / 3);
+  });
+
+  it('drops to low confidence when runs differ by more than a point', () => {
+    const result = aggregateRuns([{ a: run(1) }, { a: run(3) }, { a: run(5) }], ['a']).a;
+    expect(result).toMatchObject({ score: 3, confidence: 'low' });
+    expect(result.consensus?.spread).toBe(4);
+  });
+
+  it('merges distinct reasoning from the runs that reached the consensus score', () => {
+    const result = aggregateRuns(
+      [{ a: run(3, 'high', 'First.') }, { a: run(3, 'high', 'First.') }, { a: run(4, 'high', 'Other.') }, { a: run(3, 'high', 'Second.') }],
+      ['a']
+    ).a;
+    expect(result.reasoning).toBe('First. Second.');
+  });
+
+  it('keeps one copy of the evidence cited by the runs that reached the consensus score', () => {
+    const result = aggregateRuns(
+      [
+        { a: { ...run(3), evidence: [{ image: 1, quote: 'Try again' }] } },
+        { a: { ...run(3), evidence: [{ image: 1, quote: 'Try again' }, { image: 2 }] } },
+        { a: { ...run(5), evidence: [{ image: 4 }] } },
+      ],
+      ['a']
+    ).a;
+    expect(result.evidence).toEqual([{ image: 1, quote: 'Try again' }, { image: 2 }]);
+  });
+
+  it('aggregates from the runs that scored a principle and skips unscored ones', () => {
+    const result = aggregateRuns([{ a: run(2), b: run(5) }, { a: run(2) }], ['a', 'b', 'c']);
+    expect(result.b.consensus?.scores).toEqual([5]);
+    expect(result).not.toHaveProperty('c');
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { decryptSecret, encryptSecret, readVaultKey } from '../../src/lib/credentialVault';
+
+const key = readVaultKey({ CREDENTIAL_VAULT_KEY: 'a long random vault key' })!;
+
+describe('readVaultKey', () => {
+  it('derives a 256-bit key, or none without CREDENTIAL_VAULT_KEY', () => {
+    expect(key).toHaveLength(32);
+    expect(readVaultKey({})).toBeNull();
+  });
+});
+
+describe('encryptSecret', () => {
+  it('round-trips with a fresh IV each time', () => {
+    const first = encryptSecret('correct horse', key);
+
+    expect(first).toMatch(/^aes-256-gcm:/);
+    expect(first).not.toContain('correct horse');
+    expect(encryptSecret('correct horse', key)).not.toBe(first);
+    expect(decryptSecret(first, key)).toBe('correct horse');
+  });
+
+  it('refuses another key and altered secrets', () => {
+    const stored = encryptSecret('correct horse', key);
+    const [scheme, iv, tag, ciphertext] = stored.split(':');
+    const altered = [scheme, iv, tag, Buffer.from('incorrect horse').toString('base64url')].join(':');
+
+    expect(() => decryptSecret(stored, readVaultKey({ CREDENTIAL_VAULT_KEY: 'another key' })!)).toThrow();
+    expect(() => decryptSecret(altered, key)).toThrow();
+    expect(() => decryptSecret(ciphertext, key)).toThrow('Not an encrypted secret');
+  });
+});
@@ -0,0 +1,85 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createLocalClient } from '../../src/lib/localStore';
+
+let directory: string;
+let client: ReturnType<typeof createLocalClient>;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'local-store-'));
+  client = createLocalClient(directory);
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('createLocalClient', () => {
+  it('stores rows as a JSON file per table, filling in created_at', async () => {
+    const { data, error } = await client.from('audit_reports').insert({ id: 'abc', overall_score: 3 });
+    expect(error).toBeNull();
+    expect(data).toBeNull();
+
+    const rows = JSON.parse(await readFile(path.join(directory, 'audit_reports.json'), 'utf-8'));
+    expect(rows).toEqual([{ id: 'abc', overall_score: 3, created_at: expect.any(String) }]);
+  });
+
+  it('filters, orders and picks columns', async () => {
+    await client.from('audit_reports').insert([
+      { id: 'a', created_at: '2025-01-02', user_id: 'u1', overall_score: 3 },
+      { id: 'b', created_at: '2025-01-03', user_id: 'u1', overall_score: 4 },
+      { id: 'c', created_at: '2025-01-01', user_id: 'u2', overall_score: 2 },
+    ]);
+
+    const { data } = await client.from('audit_reports').select('id, overall_score').eq('user_id', 'u1').order('created_at', { ascending: false });
+    expect(data).toEqual([
+      { id: 'b', overall_score: 4 },
+      { id: 'a', overall_score: 3 },
+    ]);
+
+    const { data: some } = await client.from('audit_reports').select('id').in('id', ['a', 'c']).order('created_at');
+    expect(some).toEqual([{ id: 'c' }, { id: 'a' }]);
+  });
+
+  it('returns one row with single, and an error when there is not exactly one', async () => {
+    await client.from('audit_reports').insert({ id: 'abc', previous_version_id: null });
+
+    expect((await client.from('audit_reports').select('*').eq('id', 'abc').single()).data).toMatchObject({ id: 'abc' });
+    expect((await client.from('audit_reports').select('*').eq('id', 'missing').single()).error).toMatchObject({ code: 'PGRST116' });
+    expect(await client.from('audit_reports').select('*').eq('id', 'missing').maybeSingle()).toEqual({ data: null, error: null });
+    // Like SQL, null never equals null
+    expect((await client.from('audit_reports').select('id').eq('previous_version_id', null)).data).toEqual([]);
+  });
+
+  it('updates and deletes the matching rows', async () => {
+    await client.from('audit_reports').insert([{ id: 'a', tags: [] }, { id: 'b', tags: [] }]);
+
+    await client.from('audit_reports').update({ tags: ['onboarding'] }).eq('id', 'a');
+    await client.from('audit_reports').delete().eq('id', 'b');
+
+    const { data } = await client.from('audit_reports').select('id, tags');
+    expect(data).toEqual([{ id: 'a', tags: ['onboarding'] }]);
+  });
+
+  it('embeds the parent row a column references', async () => {
+    await client.from('workspaces').insert({ id: 'team', name: 'Team', created_at: '2025-01-01' });
+    await client.from('workspace_members').insert({ workspace_id: 'team', email: 'a@example.com', role: 'editor' });
+
+    const { data } = await client.from('workspace_members').select('role, workspaces(id, name)').eq('email', 'a@example.com');
+    expect(data).toEqual([{ role: 'editor', workspaces: { id: 'team', name: 'Team' } }]);
+  });
+
+  it('embeds a table by the foreign key the migrations declare, and refuses tables it does not reference', async () => {
+    await client.from('audit_reports').insert({ id: 'r1', product_name: 'Onboarding' });
+    await client.from('action_items').insert({ id: 'i1', report_id: 'r1', title: 'Add recall prompts' });
+
+    const { data } = await client.from('action_items').select('id, audit_reports(product_name)');
+    expect(data).toEqual([{ id: 'i1', audit_reports: { product_name: 'Onboarding' } }]);
+
+    const { data: unrelated, error } = await client.from('action_items').select('id, workspaces(name)');
+    expect(unrelated).toBeNull();
+    expect(error?.message).toBe("Could not find a relationship between 'action_items' and 'workspaces'");
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  answerIntervention,
+  applyRemoteInput,
+  liveNavigationSupported,
+  openNavigationChannel,
+} from '../../src/lib/navigationControl';
+import type { NavigationBrowser } from '../../src/lib/navigationRunner';
+
+const fakeBrowser = () =>
+  ({
+    remote: vi.fn(async () => undefined),
+    screenshot: vi.fn(async () => 'bmV3'),
+  }) as unknown as NavigationBrowser & { remote: ReturnType<typeof vi.fn> };
+
+/** A channel for u1's session with its browser attached */
+function open(sessionId: string, browser: NavigationBrowser, timeoutMs?: number) {
+  const channel = openNavigationChannel(sessionId, 'u1', timeoutMs)!;
+  channel.attach(browser);
+  return channel;
+}
+
+describe('navigation channel', () => {
+  it('only takes input while the navigator is waiting', async () => {
+    const browser = fakeBrowser();
+    const channel = open('s1', browser);
+
+    expect(await applyRemoteInput('nope', 'u1', { type: 'press', key: 'Enter' })).toEqual({
+      error: 'Navigation session not found',
+      status: 404,
+    });
+    expect(await applyRemoteInput('s1', 'u1', { type: 'press', key: 'Enter' })).toEqual({
+      error: 'The navigator is not waiting for help',
+      status: 409,
+    });
+    expect(browser.remote).not.toHaveBeenCalled();
+    channel.close();
+  });
+
+  it('claims the id before the browser launches and hides sessions from other users', async () => {
+    const channel = openNavigationChannel('s5', 'u1')!;
+
+    expect(openNavigationChannel('s5', 'u2')).toBeNull();
+    const decision = channel.onWaiting();
+    expect(await applyRemoteInput('s5', 'u1', { type: 'press', key: 'Enter' })).toMatchObject({ status: 409 });
+
+    const browser = fakeBrowser();
+    channel.attach(browser);
+    expect(await applyRemoteInput('s5', 'u2', { type: 'press', key: 'Enter' })).toEqual({
+      error: 'Navigation session not found',
+      status: 404,
+    });
+    expect(answerIntervention('s5', 'u2', 'abort')).toMatchObject({ status: 404 });
+    expect(browser.remote).not.toHaveBeenCalled();
+
+    expect(answerIntervention('s5', 'u1', 'skip')).toEqual({ answered: true });
+    expect(await decision).toEqual({ action: 'skip', remoteInputs: 0 });
+    channel.close();
+  });
+
+  it('drives the browser and resumes with the guidance and input count', async () => {
+    const browser = fakeBrowser();
+    const channel = open('s2', browser);
+    const decision = channel.onWaiting();
+
+    expect(await applyRemoteInput('s2', 'u1', { type: 'click', x: 0.5, y: 0.25 })).toEqual({ screenshot: 'bmV3' });
+    await applyRemoteInput('s2', 'u1', { type: 'type', text: 'learner@example.com' });
+    expect(browser.remote).toHaveBeenLastCalledWith({ type: 'type', text: 'learner@example.com' });
+
+    expect(answerIntervention('s2', 'u1', 'continue', 'Use the second course')).toEqual({ answered: true });
+    expect(await decision).toEqual({ action: 'continue', guidance: 'Use the second course', remoteInputs: 2 });
+    expect(answerIntervention('s2', 'u1', 'continue')).toMatchObject({ status: 409 });
+    channel.close();
+  });
+
+  it('skips the flow when nobody answers in time', async () => {
+    vi.useFakeTimers();
+    const channel = open('s3', fakeBrowser(), 1000);
+    const decision = channel.onWaiting();
+
+    vi.advanceTimersByTime(1000);
+    expect(await decision).toEqual({ action: 'skip', remoteInputs: 0 });
+    channel.close();
+    vi.useRealTimers();
+  });
+
+  it('aborts a wait when the session closes', async () => {
+    const channel = open('s4', fakeBrowser());
+    const decision = channel.onWaiting();
+
+    channel.close();
+    expect(await decision).toEqual({ action: 'abort', remoteInputs: 0 });
+    expect(answerIntervention('s4', 'u1', 'continue')).toMatchObject({ status: 404 });
+  });
+});
+
+describe('liveNavigationSupported', () => {
+  it('runs on the dev server and the standalone Node server, not on serverless functions', () => {
+    expect(liveNavigationSupported({ DEV: true })).toBe(true);
+    expect(liveNavigationSupported({ DEV: false, ASTRO_ADAPTER: 'node' })).toBe(true);
+    expect(liveNavigationSupported({ DEV: false })).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LOGIN_TARGETS, logIn } from '../../src/lib/navigationLogin';
+import type { NavigationBrowser } from '../../src/lib/navigationRunner';
+
+/** A login page that signs in with one password, or a dashboard when already signed in */
+function loginSite(signedIn = false): NavigationBrowser & { calls: string[] } {
+  const calls: string[] = [];
+  let password = '';
+  const unused = async () => undefined;
+  return {
+    calls,
+    goto: async (url) => void calls.push(`goto ${url}`),
+    type: async (target, text) => {
+      calls.push(`type ${target}`);
+      if (target === DEFAULT_LOGIN_TARGETS.password || target === '#pw') password = text;
+    },
+    click: async (target) => {
+      calls.push(`click ${target}`);
+      signedIn = password === 'correct horse';
+    },
+    outline: async () => (signedIn ? ['link "Dashboard"'] : ['textbox "Email"', 'password "Password"', 'button "Sign in"']),
+    select: unused,
+    hover: unused,
+    scroll: unused,
+    wait: unused,
+    remote: unused,
+    screenshot: async () => 'cG5n',
+    url: () => 'https://learn.test/login',
+    title: async () => 'Sign in',
+    storageState: async () => '{}',
+    close: unused,
+  };
+}
+
+const script = { url: 'https://learn.test/login', username: 'student@example.com', password: 'correct horse' };
+
+describe('logIn', () => {
+  it('fills in the usual fields and submits', async () => {
+    const browser = loginSite();
+
+    expect(await logIn(browser, script)).toBe('signed_in');
+    expect(browser.calls).toEqual([
+      'goto https://learn.test/login',
+      `type ${DEFAULT_LOGIN_TARGETS.username}`,
+      `type ${DEFAULT_LOGIN_TARGETS.password}`,
+      `click ${DEFAULT_LOGIN_TARGETS.submit}`,
+    ]);
+  });
+
+  it("uses the credential's own field targets", async () => {
+    const browser = loginSite();
+
+    await logIn(browser, { ...script, usernameTarget: '#user', passwordTarget: '#pw', submitTarget: 'Sign in' });
+
+    expect(browser.calls.slice(1)).toEqual(['type #user', 'type #pw', 'click Sign in']);
+  });
+
+  it('skips the form when a restored session is still signed in', async () => {
+    const browser = loginSite(true);
+
+    expect(await logIn(browser, script)).toBe('already_signed_in');
+    expect(browser.calls).toEqual(['goto https://learn.test/login']);
+  });
+
+  it('throws when the form is still there after submitting', async () => {
+    await expect(logIn(loginSite(), { ...script, password: 'wrong' })).rejects.toThrow('Still on the login form');
+  });
+});
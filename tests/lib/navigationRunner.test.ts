@@ -0,0 +1,266 @@
+import { describe, expect, it, vi } from 'vitest';
+import { toolUseMessage } from '../helpers/api';
+import { runNavigation, type NavigationBrowser } from '../../src/lib/navigationRunner';
+import type { LLMProvider } from '../../src/lib/llm';
+import { DEFAULT_NAVIGATION_CONFIG, type NavigationEvent, type NavigationSession } from '../../src/types/navigation';
+
+const config = { ...DEFAULT_NAVIGATION_CONFIG, actionDelay: 0 };
+
+/** A two-page site in memory: a lesson linking to a quiz */
+function fakeBrowser(): NavigationBrowser & { calls: string[] } {
+  const pages: Record<string, { title: string; links: Record<string, string> }> = {
+    'https://learn.test/': { title: 'Lesson 1', links: { 'Take the quiz': 'https://learn.test/quiz' } },
+    'https://learn.test/quiz': { title: 'Quiz', links: {} },
+  };
+  let current = '';
+  const calls: string[] = [];
+  return {
+    calls,
+    goto: async (url) => {
+      calls.push(`goto ${url}`);
+      current = url;
+    },
+    click: async (target) => {
+      calls.push(`click ${target}`);
+      const next = pages[current].links[target];
+      if (target === 'Submit') return;
+      if (!next) throw new Error(`Nothing on the page matches "${target}"`);
+      current = next;
+    },
+    type: async () => undefined,
+    select: async (target, value) => void calls.push(`select ${target} ${value}`),
+    hover: async () => undefined,
+    scroll: async () => undefined,
+    wait: async () => undefined,
+    screenshot: async () => 'cG5n',
+    url: () => current,
+    title: async () => pages[current].title,
+    outline: async () => Object.keys(pages[current].links).map((text) => `link "${text}"`),
+    remote: async (input) => void calls.push(`remote ${input.type}`),
+    storageState: async () => '{"cookies":[],"origins":[]}',
+    close: async () => undefined,
+  };
+}
+
+const step = (input: Record<string, unknown>) =>
+  toolUseMessage('navigation_step', {
+    contentType: 'lesson_content',
+    description: 'A lesson page',
+    isKeyMoment: false,
+    reasoning: 'Continue the flow',
+    ...input,
+  });
+
+const session = (flows: NavigationSession['flows']): NavigationSession => ({
+  id: 's1',
+  startUrl: 'https://learn.test/',
+  flows,
+  captures: [],
+  interactions: [],
+  status: 'starting',
+  startedAt: 0,
+  defaultPersona: 'struggling',
+});
+
+const provider = (createMessage: LLMProvider['createMessage']): LLMProvider => ({
+  name: 'mock',
+  config: { model: 'test-model', maxTokens: 1000, timeoutMs: 1000 },
+  createMessage,
+  streamMessage: vi.fn(),
+});
+
+describe('runNavigation', () => {
+  it('follows the model through a flow, recording interactions and key moments', async () => {
+    const createMessage = vi
+      .fn()
+      .mockResolvedValueOnce(step({ nextAction: 'click', actionTarget: 'Take the quiz' }))
+      .mockResolvedValueOnce(
+        step({ contentType: 'quiz_question', isKeyMoment: true, nextAction: 'select', actionTarget: 'Reading the lesson again', actionValue: 'reread' })
+      )
+      .mockResolvedValueOnce(step({ contentType: 'quiz_question', nextAction: 'click', actionTarget: 'Submit' }))
+      .mockResolvedValueOnce(
+        step({ contentType: 'quiz_feedback', isKeyMoment: true, wasCorrect: false, attemptNumber: 1, nextAction: 'flow_complete' })
+      );
+    const browser = fakeBrowser();
+    const events: NavigationEvent[] = [];
+
+    const result = await runNavigation(session([{ id: 'f1', description: 'Take the quiz', status: 'pending' }]), {
+      provider: provider(createMessage),
+      browser,
+      config: { ...config, captureOnInteraction: false },
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(result.status).toBe('completed');
+    expect(result.flows).toEqual([{ id: 'f1', description: 'Take the quiz', status: 'completed' }]);
+    expect(browser.calls).toEqual([
+      'goto https://learn.test/',
+      'click Take the quiz',
+      'select Reading the lesson again reread',
+      'click Submit',
+    ]);
+    expect(result.interactions.map((i) => [i.type, i.target, i.success])).toEqual([
+      ['navigate', 'https://learn.test/', true],
+      ['click', 'Take the quiz', true],
+      ['select', 'Reading the lesson again', true],
+      ['click', 'Submit', true],
+    ]);
+    expect(result.captures.map((c) => [c.trigger, c.sequenceNumber])).toEqual([
+      ['flow_start', 1],
+      ['key_moment', 2],
+      ['flow_end', 3],
+    ]);
+    expect(result.captures[2]).toMatchObject({
+      contentType: 'quiz_feedback',
+      wasCorrect: false,
+      attemptNumber: 1,
+      activePersona: 'struggling',
+      url: 'https://learn.test/quiz',
+      pageTitle: 'Quiz',
+    });
+    expect(events.filter((e) => e.type === 'status').map((e) => e.type === 'status' && e.status)).toContain('capturing');
+
+    // The prompt carries the persona, the flow goal and the page's controls
+    const prompt = createMessage.mock.calls[0][0].messages[0].content[1].text;
+    expect(prompt).toContain('ACTIVE PERSONA: Struggling Learner');
+    expect(prompt).toContain('Current flow goal: Take the quiz');
+    expect(prompt).toContain('link "Take the quiz"');
+  });
+
+  it('tells the model about actions that failed', async () => {
+    const createMessage = vi
+      .fn()
+      .mockResolvedValueOnce(step({ nextAction: 'click', actionTarget: 'Start course' }))
+      .mockResolvedValueOnce(step({ nextAction: 'flow_complete' }));
+
+    const result = await runNavigation(session([{ id: 'f1', description: 'Start', status: 'pending' }]), {
+      provider: provider(createMessage),
+      browser: fakeBrowser(),
+      config,
+    });
+
+    expect(result.interactions[1]).toMatchObject({ type: 'click', success: false, error: 'Nothing on the page matches "Start course"' });
+    expect(createMessage.mock.calls[1][0].messages[0].content[1].text).toContain(
+      'click Start course (failed: Nothing on the page matches "Start course")'
+    );
+  });
+
+  it("refuses to navigate away from the start URL's site", async () => {
+    const createMessage = vi
+      .fn()
+      .mockResolvedValueOnce(step({ nextAction: 'navigate', actionTarget: 'http://169.254.169.254/latest/meta-data/' }))
+      .mockResolvedValueOnce(step({ nextAction: 'navigate', actionTarget: 'file:///etc/passwd' }))
+      .mockResolvedValueOnce(step({ nextAction: 'navigate', actionTarget: '/quiz' }))
+      .mockResolvedValueOnce(step({ nextAction: 'flow_complete' }));
+    const browser = fakeBrowser();
+
+    const result = await runNavigation(session([{ id: 'f1', description: 'Start', status: 'pending' }]), {
+      provider: provider(createMessage),
+      browser,
+      config,
+    });
+
+    expect(browser.calls).toEqual(['goto https://learn.test/', 'goto https://learn.test/quiz']);
+    expect(result.interactions.slice(1).map((i) => [i.type, i.success ?? true])).toEqual([
+      ['navigate', false],
+      ['navigate', false],
+      ['navigate', true],
+    ]);
+    expect(result.interactions[1].error).toBe('Only pages on https://learn.test can be navigated to');
+  });
+
+  it('skips a flow that needs help and moves on to the next', async () => {
+    const createMessage = vi
+      .fn()
+      .mockResolvedValueOnce(step({ contentType: 'error_message', nextAction: 'ask_user', waitingReason: 'login_required' }))
+      .mockResolvedValueOnce(step({ nextAction: 'flow_complete' }));
+    const events: NavigationEvent[] = [];
+
+    const result = await runNavigation(
+      session([
+        { id: 'f1', description: 'Open the dashboard', status: 'pending' },
+        { id: 'f2', description: 'Read a lesson', status: 'pending', persona: 'proficient' },
+      ]),
+      { provider: provider(createMessage), browser: fakeBrowser(), config, onEvent: (event) => events.push(event) }
+    );
+
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: 'status', status: 'waiting_for_user', waitingReason: 'login_required', currentFlowId: 'f1' })
+    );
+    expect(result.flows.map((f) => f.status)).toEqual(['skipped', 'completed']);
+    expect(result.waitingReason).toBeUndefined();
+    expect(createMessage.mock.calls[1][0].messages[0].content[1].text).toContain('ACTIVE PERSONA: Proficient Learner');
+  });
+
+  it('resumes a flow after the user helps, passing their guidance on and logging it', async () => {
+    const createMessage = vi
+      .fn()
+      .mockResolvedValueOnce(step({ contentType: 'error_message', nextAction: 'ask_user', waitingReason: 'captcha_detected' }))
+      .mockResolvedValueOnce(step({ nextAction: 'flow_complete' }));
+    const onWaiting = vi.fn(async () => ({ action: 'continue' as const, guidance: 'Start from the Lessons tab', remoteInputs: 3 }));
+
+    const result = await runNavigation(session([{ id: 'f1', description: 'Read a lesson', status: 'pending' }]), {
+      provider: provider(createMessage),
+      browser: fakeBrowser(),
+      config,
+      onWaiting,
+    });
+
+    expect(onWaiting).toHaveBeenCalledWith(expect.objectContaining({ status: 'waiting_for_user', waitingReason: 'captcha_detected' }));
+    expect(result.flows[0].status).toBe('completed');
+    expect(result.interventions).toEqual([
+      expect.objectContaining({ flowId: 'f1', reason: 'captcha_detected', action: 'continue', guidance: 'Start from the Lessons tab', remoteInputs: 3 }),
+    ]);
+    expect(createMessage.mock.calls[1][0].messages[0].content[1].text).toContain(
+      'The user stepped in to help with this flow and said:\n- Start from the Lessons tab'
+    );
+  });
+
+  it('signs in before the flows, and fails the session without running them when it cannot', async () => {
+    const createMessage = vi.fn();
+    const browser = { ...fakeBrowser(), click: async () => undefined, outline: async () => ['password "Password"'] };
+
+    const result = await runNavigation(session([{ id: 'f1', description: 'Read a lesson', status: 'pending' }]), {
+      provider: provider(createMessage),
+      browser,
+      config,
+      login: { url: 'https://learn.test/login', username: 'student@example.com', password: 'wrong' },
+    });
+
+    expect(browser.calls[0]).toBe('goto https://learn.test/login');
+    expect(result.status).toBe('failed');
+    expect(result.error).toMatch(/^Login failed: Still on the login form/);
+    expect(createMessage).not.toHaveBeenCalled();
+  });
+
+  it('fails a flow that is not done within the step limit', async () => {
+    const createMessage = vi.fn().mockResolvedValue(step({ nextAction: 'scroll' }));
+
+    const result = await runNavigation(session([{ id: 'f1', description: 'Scroll forever', status: 'pending' }]), {
+      provider: provider(createMessage),
+      browser: fakeBrowser(),
+      config,
+      maxSteps: 3,
+    });
+
+    expect(createMessage).toHaveBeenCalledTimes(3);
+    expect(result.flows[0]).toMatchObject({ status: 'failed', notes: 'Not complete after 3 steps' });
+    expect(result.status).toBe('completed');
+  });
+
+  it('asks again when the model returns an invalid step', async () => {
+    const createMessage = vi
+      .fn()
+      .mockResolvedValueOnce(step({ nextAction: 'teleport' }))
+      .mockResolvedValueOnce(step({ nextAction: 'flow_complete' }));
+
+    const result = await runNavigation(session([{ id: 'f1', description: 'Start', status: 'pending' }]), {
+      provider: provider(createMessage),
+      browser: fakeBrowser(),
+      config,
+    });
+
+    expect(result.flows[0].status).toBe('completed');
+    expect(createMessage.mock.calls[1][0].messages[2].content[0]).toMatchObject({ type: 'tool_result', is_error: true });
+  });
+});
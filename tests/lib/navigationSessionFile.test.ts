@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import {
+  importNavigationSession,
+  readNavigationSession,
+  serializeNavigationSession,
+} from '../../src/lib/navigationSessionFile';
+import { DEFAULT_NAVIGATION_CONFIG, type NavigationSession } from '../../src/types/navigation';
+
+const current: NavigationSession = {
+  id: 'session-1',
+  startUrl: 'https://learn.test/',
+  flows: [{ id: 'flow-1', description: 'Take a lesson quiz', status: 'pending' }],
+  captures: [],
+  interactions: [],
+  status: 'ready',
+  startedAt: 1000,
+  defaultPersona: 'mixed',
+};
+
+const capture = {
+  id: 'capture-1',
+  image: 'cG5n',
+  mediaType: 'image/png',
+  timestamp: 2000,
+  trigger: 'key_moment',
+  url: 'https://learn.test/quiz',
+  pageTitle: 'Quiz',
+  description: 'Feedback on a wrong answer',
+  contentType: 'quiz_feedback',
+  flowId: 'flow-1',
+  sequenceNumber: 0,
+  wasCorrect: false,
+  attemptNumber: 2,
+  activePersona: 'struggling',
+};
+
+const sessionFile = {
+  format: 'navigation-session',
+  version: 1,
+  startUrl: 'https://learn.test/',
+  defaultPersona: 'struggling',
+  config: { flowTimeout: 60000 },
+  flows: [{ id: 'flow-1', description: 'Take a lesson quiz', status: 'completed', notes: 'Answered twice' }],
+  interactions: [
+    { id: 'i-1', type: 'select', timestamp: 1500, target: 'Spacing', value: 'Spacing', flowId: 'flow-1', success: true },
+  ],
+  captures: [capture],
+  startedAt: 1000,
+  endedAt: 3000,
+};
+
+describe('readNavigationSession', () => {
+  it('keeps interactions, flow statuses, persona and config', () => {
+    const result = readNavigationSession(sessionFile, current);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.session).toMatchObject({
+      id: 'session-1',
+      status: 'completed',
+      defaultPersona: 'struggling',
+      flows: [{ status: 'completed', notes: 'Answered twice' }],
+      interactions: [{ target: 'Spacing' }],
+      captures: [{ wasCorrect: false, attemptNumber: 2, activePersona: 'struggling' }],
+      startedAt: 1000,
+      endedAt: 3000,
+    });
+    expect(result.session.config).toEqual({ ...DEFAULT_NAVIGATION_CONFIG, flowTimeout: 60000 });
+  });
+
+  it('reports each invalid field by path', () => {
+    const result = readNavigationSession(
+      {
+        ...sessionFile,
+        captures: [{ ...capture, trigger: 'whenever', flowId: 'flow-9' }, { ...capture, image: undefined }],
+      },
+      current
+    );
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.issues.map((issue) => issue.path)).toEqual(['captures[0].trigger', 'captures[1].image']);
+
+    const unknownFlow = readNavigationSession({ ...sessionFile, captures: [{ ...capture, flowId: 'flow-9' }] }, current);
+    expect(unknownFlow).toEqual({
+      success: false,
+      issues: [{ path: 'captures[0].flowId', message: 'no flow has id "flow-9"' }],
+    });
+  });
+
+  it('rejects versions it does not know', () => {
+    expect(readNavigationSession({ ...sessionFile, version: 2 }, current)).toMatchObject({
+      success: false,
+      issues: [{ path: 'version' }],
+    });
+  });
+
+  it('reads an unversioned captures paste against the open session, dropping data URL prefixes', () => {
+    const result = readNavigationSession({ captures: [{ ...capture, image: 'data:image/png;base64,cG5n' }] }, current);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.session.startUrl).toBe('https://learn.test/');
+    expect(result.session.flows).toEqual(current.flows);
+    expect(result.session.captures[0].image).toBe('cG5n');
+  });
+
+  it('round-trips a serialized session', () => {
+    const result = readNavigationSession(sessionFile, current);
+    if (!result.success) throw new Error('expected the session file to be valid');
+
+    const again = readNavigationSession(JSON.parse(JSON.stringify(serializeNavigationSession(result.session))), current);
+    expect(again).toEqual(result);
+  });
+});
+
+describe('importNavigationSession', () => {
+  it('reads screenshots from a zip by their manifest path', async () => {
+    const zip = new JSZip();
+    const { image: _, mediaType: __, ...withoutImage } = capture;
+    zip.file(
+      'export/session.json',
+      JSON.stringify({ ...sessionFile, captures: [{ ...withoutImage, file: 'screens/quiz.jpg' }] })
+    );
+    zip.file('export/screens/quiz.jpg', 'jpg');
+    const archive = new File([await zip.generateAsync({ type: 'arraybuffer' })], 'session.zip');
+
+    const result = await importNavigationSession(archive, current);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.session.captures[0]).toMatchObject({ image: btoa('jpg'), mediaType: 'image/jpeg' });
+  });
+
+  it('reports captures whose file is missing from the zip', async () => {
+    const zip = new JSZip();
+    zip.file('session.json', JSON.stringify({ ...sessionFile, captures: [{ ...capture, image: undefined, file: 'gone.png' }] }));
+    const archive = new File([await zip.generateAsync({ type: 'arraybuffer' })], 'session.zip');
+
+    expect(await importNavigationSession(archive, current)).toEqual({
+      success: false,
+      issues: [{ path: 'captures[0].file', message: '"gone.png" is not in the archive' }],
+    });
+  });
+
+  it('reports text that is not JSON', async () => {
+    expect(await importNavigationSession('{captures:', current)).toEqual({
+      success: false,
+      issues: [{ path: '', message: 'Not valid JSON' }],
+    });
+  });
+});
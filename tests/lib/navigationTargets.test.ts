@@ -0,0 +1,87 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { gzipSync } from 'node:zlib';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { checkNavigationTarget, fetchFromPublicHost, isPublicAddress } from '../../src/lib/navigationTargets';
+
+// A public page that redirects to the cloud metadata service
+let server: Server;
+let origin: string;
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    if (request.url === '/redirect') {
+      response.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data/' }).end();
+    } else {
+      response
+        .writeHead(200, { 'Content-Type': 'text/html', 'Content-Encoding': 'gzip', 'Set-Cookie': ['a=1', 'b=2'] })
+        .end(gzipSync(`<p>${request.method} ${request.headers.host}</p>`));
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+// Treats the test server as the public site it stands in for
+const allowTestServer = (address: string, family: 4 | 6) => address === '127.0.0.1' || isPublicAddress(address, family);
+
+describe('isPublicAddress', () => {
+  it('refuses loopback, private, link-local and metadata addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0']) {
+      expect(isPublicAddress(address, 4), address).toBe(false);
+    }
+    for (const address of ['::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe']) {
+      expect(isPublicAddress(address, 6), address).toBe(false);
+    }
+  });
+
+  it('allows addresses on the public internet', () => {
+    expect(isPublicAddress('93.184.216.34', 4)).toBe(true);
+    expect(isPublicAddress('2606:2800:220:1:248:1893:25c8:1946', 6)).toBe(true);
+  });
+});
+
+describe('checkNavigationTarget', () => {
+  it('refuses hosts that resolve to the server itself or its network', async () => {
+    expect(await checkNavigationTarget('http://localhost:4321/')).toBe('localhost is not a public website');
+    expect(await checkNavigationTarget('http://169.254.169.254/latest/meta-data/')).toBe('169.254.169.254 is not a public website');
+    expect(await checkNavigationTarget('http://[::1]/')).toBe('[::1] is not a public website');
+  });
+
+  it('refuses pages that are not http or https', async () => {
+    expect(await checkNavigationTarget('file:///etc/passwd')).toBe('Only http and https pages can be navigated');
+  });
+
+  it('allows public addresses', async () => {
+    expect(await checkNavigationTarget('https://93.184.216.34/lesson')).toBeNull();
+  });
+});
+
+describe('fetchFromPublicHost', () => {
+  const get = (url: string) => ({ url, method: 'GET', headers: { accept: 'text/html' } });
+
+  it('makes the request and hands back the decoded response', async () => {
+    const response = await fetchFromPublicHost(get(`${origin}/lesson`), { allowAddress: allowTestServer });
+
+    expect(response.status).toBe(200);
+    expect(response.body.toString()).toBe(`<p>GET ${origin.slice('http://'.length)}</p>`);
+    expect(response.headers).toMatchObject({ 'content-type': 'text/html', 'set-cookie': 'a=1\nb=2' });
+    expect(response.headers).not.toHaveProperty('content-encoding');
+  });
+
+  it('returns a redirect unfollowed and refuses the private address it points to', async () => {
+    const response = await fetchFromPublicHost(get(`${origin}/redirect`), { allowAddress: allowTestServer });
+
+    expect(response.status).toBe(302);
+    expect(response.headers.location).toBe('http://169.254.169.254/latest/meta-data/');
+    await expect(fetchFromPublicHost(get(response.headers.location), { allowAddress: allowTestServer })).rejects.toThrow(
+      '169.254.169.254 is not a public website'
+    );
+  });
+
+  it('refuses hosts on the local network', async () => {
+    await expect(fetchFromPublicHost(get(`${origin}/lesson`))).rejects.toThrow('127.0.0.1 is not a public website');
+  });
+});
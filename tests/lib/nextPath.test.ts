@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { sameSitePath } from '../../src/lib/nextPath';
+
+const origin = 'https://audit.example.com';
+
+describe('sameSitePath', () => {
+  it('keeps paths on this site, with their query and fragment', () => {
+    expect(sameSitePath('/projects/p1?tab=trend#latest', origin)).toBe('/projects/p1?tab=trend#latest');
+    expect(sameSitePath('https://audit.example.com/dashboard', origin)).toBe('/dashboard');
+  });
+
+  it('falls back for anything that leads to another site', () => {
+    for (const next of ['/\\evil.com', '//evil.com', '/\\/evil.com', 'https://evil.com/', 'javascript:alert(1)']) {
+      expect(sameSitePath(next, origin), next).toBe('/dashboard');
+    }
+  });
+
+  it('falls back when there is no next path', () => {
+    expect(sameSitePath(null, origin)).toBe('/dashboard');
+    expect(sameSitePath('', origin, '/')).toBe('/');
+  });
+});
@@ -0,0 +1,128 @@
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { fileURLToPath } from 'node:url';
+import { chromium } from 'playwright';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { toolUseMessage } from '../helpers/api';
+import { runNavigation } from '../../src/lib/navigationRunner';
+import { launchBrowser } from '../../src/lib/playwrightBrowser';
+import { DEFAULT_NAVIGATION_CONFIG } from '../../src/types/navigation';
+
+// Needs the browser from `npx playwright install chromium`
+const browserInstalled = existsSync(chromium.executablePath());
+const site = fileURLToPath(new URL('../fixtures/sites/quiz/', import.meta.url));
+
+let server: Server;
+let startUrl: string;
+// A host on the server's private network, counting the requests that reach it
+let internal: Server;
+let internalUrl: string;
+let internalRequests = 0;
+
+beforeAll(async () => {
+  server = createServer(async (request, response) => {
+    if (request.url === '/redirect') {
+      response.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data/' }).end();
+      return;
+    }
+    if (request.url === '/internal-link') {
+      response
+        .writeHead(200, { 'Content-Type': 'text/html' })
+        .end(`<a href="${internalUrl}" style="display:block;height:100vh">Admin</a>`);
+      return;
+    }
+    const file = new URL(request.url ?? '/', 'http://localhost').pathname.slice(1) || 'index.html';
+    try {
+      response.writeHead(200, { 'Content-Type': 'text/html' }).end(await readFile(site + file));
+    } catch {
+      response.writeHead(404).end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  startUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+
+  internal = createServer((_, response) => {
+    internalRequests++;
+    response.writeHead(200, { 'Content-Type': 'text/html' }).end('<h1>Admin</h1>');
+  });
+  await new Promise<void>((resolve) => internal.listen(0, '127.0.0.2', resolve));
+  internalUrl = `http://127.0.0.2:${(internal.address() as AddressInfo).port}/`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  await new Promise<void>((resolve) => internal.close(() => resolve()));
+});
+
+// The fixture site stands in for a public one
+const allowFixtureSite = (address: string) => address === '127.0.0.1';
+
+const step = (input: Record<string, unknown>) =>
+  toolUseMessage('navigation_step', { contentType: 'quiz_question', description: 'The quiz', isKeyMoment: true, reasoning: 'Answer', ...input });
+
+describe.skipIf(!browserInstalled)('launchBrowser against a fixture site', () => {
+  it('answers the quiz wrong as a struggling learner and captures the feedback', async () => {
+    const createMessage = vi
+      .fn()
+      .mockResolvedValueOnce(step({ contentType: 'lesson_content', nextAction: 'click', actionTarget: 'Take the quiz' }))
+      .mockResolvedValueOnce(step({ nextAction: 'select', actionTarget: 'Reading the lesson again' }))
+      .mockResolvedValueOnce(step({ nextAction: 'click', actionTarget: 'Submit' }))
+      .mockResolvedValueOnce(step({ contentType: 'quiz_feedback', wasCorrect: false, attemptNumber: 1, nextAction: 'flow_complete' }));
+    const config = { ...DEFAULT_NAVIGATION_CONFIG, actionDelay: 0 };
+    const browser = await launchBrowser(config, null, { allowAddress: allowFixtureSite });
+
+    try {
+      const session = await runNavigation(
+        {
+          id: 's1',
+          startUrl,
+          flows: [{ id: 'f1', description: 'Take the quiz', status: 'pending' }],
+          captures: [],
+          interactions: [],
+          status: 'starting',
+          startedAt: Date.now(),
+          defaultPersona: 'struggling',
+        },
+        {
+          provider: { name: 'mock', config: { model: 'test-model', maxTokens: 1000, timeoutMs: 1000 }, createMessage, streamMessage: vi.fn() },
+          browser,
+          config,
+        }
+      );
+
+      expect(session.flows[0].status).toBe('completed');
+      expect(session.interactions.every((i) => i.success)).toBe(true);
+      expect(session.captures.at(-1)).toMatchObject({ pageTitle: 'Quiz', contentType: 'quiz_feedback', wasCorrect: false });
+      expect(createMessage.mock.calls[1][0].messages[0].content[1].text).toContain('radio "Reading the lesson again" [name=answer]');
+      expect(await browser.outline()).toContain('button "Submit"');
+    } finally {
+      await browser.close();
+    }
+  }, 60_000);
+
+  it('refuses a redirect from the site to a private address', async () => {
+    const browser = await launchBrowser({ ...DEFAULT_NAVIGATION_CONFIG, actionDelay: 0 }, null, { allowAddress: allowFixtureSite });
+
+    try {
+      await browser.goto(startUrl);
+      await expect(browser.goto(`${startUrl}redirect`)).rejects.toThrow(/ERR_BLOCKED_BY_CLIENT/);
+      expect(browser.url()).not.toContain('169.254.169.254');
+    } finally {
+      await browser.close();
+    }
+  }, 60_000);
+
+  it("keeps the user's remote clicks off private addresses too", async () => {
+    const browser = await launchBrowser({ ...DEFAULT_NAVIGATION_CONFIG, actionDelay: 0 }, null, { allowAddress: allowFixtureSite });
+
+    try {
+      await browser.goto(`${startUrl}internal-link`);
+      await browser.remote({ type: 'click', x: 0.5, y: 0.5 });
+      expect(internalRequests).toBe(0);
+    } finally {
+      await browser.close();
+    }
+  }, 60_000);
+});
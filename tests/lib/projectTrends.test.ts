@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { addressedRecommendations, categoryAverages, openGaps, projectTrend } from '../../src/lib/projectTrends';
+import { createDefaultProfile } from '../../src/data/auditProfiles';
+import { samplePrinciples } from '../helpers/principles';
+
+const ids = samplePrinciples.map((p) => p.id);
+const profile = createDefaultProfile(ids);
+
+const audit = (id: string, createdAt: string, overallScore: number, ratings: Record<string, number | null>) => ({
+  id,
+  createdAt,
+  overallScore,
+  ratings,
+  profile,
+});
+
+// Out of order on purpose: everything is reported oldest first
+const audits = [
+  audit('second', '2025-03-01T00:00:00Z', 3.3, { 'retrieval-practice': 4, 'spaced-repetition': 2, 'cognitive-load-theory': 4 }),
+  audit('first', '2025-01-01T00:00:00Z', 2.3, { 'retrieval-practice': 2, 'spaced-repetition': 3, 'cognitive-load-theory': 2 }),
+];
+
+describe('categoryAverages', () => {
+  it('averages the rated principles in each category', () => {
+    expect(categoryAverages({ 'retrieval-practice': 2, 'spaced-repetition': 4, 'cognitive-load-theory': null }, samplePrinciples, profile)).toEqual({
+      'Memory & Retention': 3,
+    });
+  });
+});
+
+describe('projectTrend', () => {
+  it('charts overall and category scores oldest first', () => {
+    expect(projectTrend(audits, samplePrinciples)).toEqual([
+      { reportId: 'first', createdAt: '2025-01-01T00:00:00Z', overallScore: 2.3, categories: { 'Memory & Retention': 2.5, 'Cognitive Load': 2 } },
+      { reportId: 'second', createdAt: '2025-03-01T00:00:00Z', overallScore: 3.3, categories: { 'Memory & Retention': 3, 'Cognitive Load': 4 } },
+    ]);
+  });
+});
+
+describe('openGaps', () => {
+  it('lists the gaps in the latest audit', () => {
+    expect(openGaps(audits, samplePrinciples).map((g) => [g.id, g.score])).toEqual([['spaced-repetition', 2]]);
+    expect(openGaps([], samplePrinciples)).toEqual([]);
+  });
+});
+
+describe('addressedRecommendations', () => {
+  it('lists the recommendations each re-audit shows were addressed', () => {
+    const [step] = addressedRecommendations(audits, samplePrinciples);
+
+    expect(step).toMatchObject({ fromReportId: 'first', toReportId: 'second', createdAt: '2025-03-01T00:00:00Z' });
+    expect(step.addressed).toEqual([
+      { id: 'retrieval-practice', title: 'Retrieval Practice', category: 'Memory & Retention', recommendation: 'Add more retrieval-practice.', before: 2, after: 4 },
+      { id: 'cognitive-load-theory', title: 'Cognitive Load Theory', category: 'Cognitive Load', recommendation: 'Add more cognitive-load-theory.', before: 2, after: 4 },
+    ]);
+  });
+});
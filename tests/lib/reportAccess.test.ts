@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  type ReportAccessSettings,
+  checkReportAccess,
+  createOwnerKey,
+  hashOwnerKey,
+  hashPassword,
+  signReportToken,
+  verifyPassword,
+  verifyReportToken,
+} from '../../src/lib/reportAccess';
+
+const secret = vi.hoisted(() => {
+  vi.stubEnv('REPORT_TOKEN_SECRET', 'test token secret');
+  return 'test token secret';
+});
+
+const ownerKey = createOwnerKey();
+const now = Date.parse('2025-06-01T12:00:00Z');
+const hour = 60 * 60 * 1000;
+
+const settings = (overrides: Partial<ReportAccessSettings> = {}): ReportAccessSettings => ({
+  mode: 'link',
+  ownerKeyHash: hashOwnerKey(ownerKey),
+  userId: null,
+  workspaceId: null,
+  passwordHash: null,
+  expiresAt: null,
+  grantsRevokedAt: null,
+  ...overrides,
+});
+
+describe('checkReportAccess', () => {
+  it('lets anyone open link reports until they expire', () => {
+    expect(checkReportAccess('r1', settings(), {}, now)).toEqual({ granted: true, owner: false });
+    const expired = settings({ expiresAt: new Date(now - hour).toISOString() });
+    expect(checkReportAccess('r1', expired, {}, now)).toEqual({ granted: false, reason: 'expired' });
+  });
+
+  it('always lets the owner in', () => {
+    const expiredPrivate = settings({ mode: 'private', expiresAt: new Date(now - hour).toISOString() });
+    expect(checkReportAccess('r1', expiredPrivate, { ownerKey }, now)).toEqual({ granted: true, owner: true });
+    expect(checkReportAccess('r1', expiredPrivate, { ownerKey: createOwnerKey() }, now)).toMatchObject({ granted: false });
+  });
+
+  it('treats the author account as an owner', () => {
+    const accountReport = settings({ mode: 'private', userId: 'user-1' });
+    expect(checkReportAccess('r1', accountReport, { userId: 'user-1' }, now)).toEqual({ granted: true, owner: true });
+    expect(checkReportAccess('r1', accountReport, { userId: 'user-2' }, now)).toEqual({ granted: false, reason: 'forbidden' });
+    expect(checkReportAccess('r1', settings({ mode: 'private' }), { userId: 'user-1' }, now)).toMatchObject({ granted: false });
+  });
+
+  it('keeps private reports from everyone else, even with a signed token', () => {
+    const token = signReportToken('r1', secret, now + hour, now);
+    expect(checkReportAccess('r1', settings({ mode: 'private' }), { token }, now)).toEqual({ granted: false, reason: 'forbidden' });
+  });
+
+  it('asks for a password unless a valid token is presented', () => {
+    const protectedReport = settings({ mode: 'password', passwordHash: 'scrypt:x:y' });
+    expect(checkReportAccess('r1', protectedReport, {}, now)).toEqual({ granted: false, reason: 'password' });
+
+    const token = signReportToken('r1', secret, now + hour, now);
+    expect(checkReportAccess('r1', protectedReport, { token }, now)).toEqual({ granted: true, owner: false });
+    expect(checkReportAccess('r1', settings({ mode: 'signed' }), { token }, now)).toEqual({ granted: true, owner: false });
+    expect(checkReportAccess('r1', settings({ mode: 'signed' }), {}, now)).toEqual({ granted: false, reason: 'forbidden' });
+  });
+
+  it('lets workspace members in, and editors manage the report', () => {
+    const teamReport = settings({ mode: 'private', workspaceId: 'team', expiresAt: new Date(now - hour).toISOString() });
+    expect(checkReportAccess('r1', teamReport, { workspaceRole: 'viewer' }, now)).toEqual({ granted: true, owner: false });
+    expect(checkReportAccess('r1', teamReport, { workspaceRole: 'editor' }, now)).toEqual({ granted: true, owner: true });
+    expect(checkReportAccess('r1', teamReport, { workspaceRole: null }, now)).toMatchObject({ granted: false });
+  });
+});
+
+describe('verifyReportToken', () => {
+  const token = signReportToken('r1', secret, now + hour, now);
+
+  it('accepts its own token until it expires', () => {
+    expect(verifyReportToken(token, 'r1', settings(), now)).toBe(now + hour);
+    expect(verifyReportToken(token, 'r1', settings(), now + 2 * hour)).toBeNull();
+  });
+
+  it('rejects tokens for other reports, tampered tokens and revoked tokens', () => {
+    expect(verifyReportToken(token, 'r2', settings(), now)).toBeNull();
+    expect(verifyReportToken(token.replace(/^\d+/, String(now + 100 * hour)), 'r1', settings(), now)).toBeNull();
+    expect(verifyReportToken(token, 'r1', settings({ grantsRevokedAt: new Date(now).toISOString() }), now)).toBeNull();
+  });
+
+  it('rejects tokens signed with anything but the server secret', () => {
+    // Report rows are readable with the anon key, so their owner key hash must not sign tokens
+    const forged = signReportToken('r1', hashOwnerKey(ownerKey), now + hour, now);
+    expect(verifyReportToken(forged, 'r1', settings(), now)).toBeNull();
+    expect(verifyReportToken(token, 'r1', settings(), now, null)).toBeNull();
+  });
+});
+
+describe('hashPassword', () => {
+  it('verifies the original password only', async () => {
+    const stored = await hashPassword('correct horse');
+    expect(stored).toMatch(/^scrypt:/);
+    expect(await verifyPassword('correct horse', stored)).toBe(true);
+    expect(await verifyPassword('wrong horse', stored)).toBe(false);
+  });
+});
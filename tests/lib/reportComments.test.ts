@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { type ReportComment, commentPermissions, threadsFor } from '../../src/lib/reportComments';
+
+const comment = (id: string, overrides: Partial<ReportComment> = {}): ReportComment => ({
+  id,
+  reportId: 'abc',
+  parentId: null,
+  sectionId: null,
+  principleId: 'retrieval-practice',
+  body: id,
+  authorEmail: 'a@example.com',
+  createdAt: '2025-01-01T00:00:00Z',
+  resolvedAt: null,
+  resolvedBy: null,
+  ...overrides,
+});
+
+describe('threadsFor', () => {
+  const comments = [
+    comment('overall'),
+    comment('in-section', { sectionId: 'home' }),
+    comment('section-wide', { sectionId: 'home', principleId: null }),
+    comment('reply', { parentId: 'overall' }),
+  ];
+
+  it('groups replies under threads about the same principle and section', () => {
+    expect(threadsFor(comments, null, 'retrieval-practice')).toEqual([
+      { comment: comments[0], replies: [comments[3]] },
+    ]);
+    expect(threadsFor(comments, 'home', 'retrieval-practice').map((t) => t.comment.id)).toEqual(['in-section']);
+    expect(threadsFor(comments, 'home', null).map((t) => t.comment.id)).toEqual(['section-wide']);
+  });
+});
+
+describe('commentPermissions', () => {
+  const lookup = (owner: boolean, role: 'owner' | 'editor' | 'viewer' | null) =>
+    ({ owner, role }) as Parameters<typeof commentPermissions>[0];
+
+  it('needs an account to comment and management rights to review', () => {
+    expect(commentPermissions(lookup(false, 'viewer'), { email: 'v@example.com' })).toEqual({ comment: true, review: false });
+    expect(commentPermissions(lookup(true, 'editor'), { email: 'e@example.com' })).toEqual({ comment: true, review: true });
+    expect(commentPermissions(lookup(true, null), {})).toEqual({ comment: false, review: true });
+    expect(commentPermissions(lookup(false, null), { email: 'x@example.com' })).toEqual({ comment: false, review: false });
+  });
+});
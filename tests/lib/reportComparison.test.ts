@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { compareReports, type ComparableReport } from '../../src/lib/reportComparison';
+import { createDefaultProfile } from '../../src/data/auditProfiles';
+import { samplePrinciples } from '../helpers/principles';
+
+const score = (value: number) => ({ score: value, reasoning: 'because', confidence: 'high' as const });
+
+const before: ComparableReport = {
+  overallScore: 2.5,
+  ratings: { 'retrieval-practice': 2, 'spaced-repetition': 4, 'cognitive-load-theory': 3 },
+  sectionResults: [
+    { sectionId: 'a1', sectionName: 'Quiz', scores: { 'retrieval-practice': score(2), 'cognitive-load-theory': score(3) } },
+    { sectionId: 'a2', sectionName: 'Intro video', scores: { 'cognitive-load-theory': score(3) } },
+  ],
+};
+
+const after: ComparableReport = {
+  overallScore: 3.5,
+  ratings: { 'retrieval-practice': 4, 'spaced-repetition': 2, 'cognitive-load-theory': 3, 'self-efficacy': 5 },
+  sectionResults: [
+    { sectionId: 'b1', sectionName: 'quiz ', scores: { 'retrieval-practice': score(4), 'cognitive-load-theory': score(3) } },
+    { sectionId: 'b2', sectionName: 'Practice', scores: { 'retrieval-practice': score(5) } },
+  ],
+};
+
+describe('compareReports', () => {
+  const comparison = compareReports(before, after, samplePrinciples);
+
+  it('reports the overall and per-principle deltas, marking principles rated on one side only', () => {
+    expect(comparison.overall).toEqual({ before: 2.5, after: 3.5, delta: 1 });
+    expect(comparison.principles.map((p) => [p.id, p.delta])).toEqual([
+      ['retrieval-practice', 2],
+      ['spaced-repetition', -2],
+      ['cognitive-load-theory', 0],
+      ['self-efficacy', null],
+    ]);
+  });
+
+  it('lists gaps that were closed and gaps that newly opened', () => {
+    expect(comparison.gapsClosed.map((p) => p.id)).toEqual(['retrieval-practice']);
+    expect(comparison.gapsOpened.map((p) => p.id)).toEqual(['spaced-repetition']);
+  });
+
+  it("judges gaps by each report's own threshold", () => {
+    const strict = { ...createDefaultProfile(Object.keys(after.ratings)), gapThreshold: 4 };
+    const result = compareReports(before, { ...after, profile: strict }, samplePrinciples);
+    expect(result.gapsClosed).toEqual([]);
+  });
+
+  it('matches sections by name and keeps sections found in only one report', () => {
+    expect(comparison.sections.map((s) => [s.name, s.before, s.after])).toEqual([
+      ['Quiz', 2.5, 3.5],
+      ['Intro video', 3, null],
+      ['Practice', null, 5],
+    ]);
+    expect(comparison.sections[0].principles).toContainEqual({
+      id: 'retrieval-practice',
+      title: 'Retrieval Practice',
+      before: 2,
+      after: 4,
+      delta: 2,
+    });
+  });
+});
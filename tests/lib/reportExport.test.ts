@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildReportDocument,
+  buildScoreTable,
+  decodeJpegDataUrl,
+  jpegSize,
+  toCsv,
+  type ExportableReport,
+} from '../../src/lib/reportExport';
+import { samplePrinciples } from '../helpers/principles';
+import { TINY_JPEG_DATA_URL } from '../helpers/images';
+
+const score = (value: number, reasoning = 'because') => ({ score: value, reasoning, confidence: 'high' as const });
+
+const report: ExportableReport = {
+  createdAt: '2025-03-01T00:00:00Z',
+  ratings: { 'retrieval-practice': 2, 'spaced-repetition': 5, 'cognitive-load-theory': 4 },
+  sectionResults: [
+    {
+      sectionId: 's1',
+      sectionName: 'Quiz',
+      scores: {
+        'retrieval-practice': { ...score(2, 'Only one question, "recall" is shallow'), evidence: [{ image: 1 }] },
+        'spaced-repetition': { score: 0, reasoning: 'n/a', confidence: 'high', notApplicable: true },
+      },
+      thumbnails: { 1: TINY_JPEG_DATA_URL },
+    },
+  ],
+  refinedScores: [
+    { principleId: 'retrieval-practice', originalScore: 2, refinedScore: 3, refinedReasoning: 'Quizzes recur weekly.', specificActions: [] },
+  ],
+};
+
+describe('buildReportDocument', () => {
+  const doc = buildReportDocument(report, samplePrinciples)!;
+
+  it('breaks scores down by category in library order', () => {
+    expect(doc.categories.map((c) => [c.category, c.average])).toEqual([
+      ['Memory & Retention', 3.5],
+      ['Cognitive Load', 4],
+    ]);
+  });
+
+  it('carries the reasoning and section behind each gap', () => {
+    expect(doc.gaps).toEqual([
+      expect.objectContaining({ id: 'retrieval-practice', section: 'Quiz', reasoning: 'Only one question, "recall" is shallow' }),
+    ]);
+    expect(doc.keyTakeaways?.topActions.map((a) => a.id)).toEqual(['retrieval-practice']);
+  });
+
+  it('keeps not-applicable rows without a score', () => {
+    expect(doc.sections[0].rows.find((r) => r.id === 'spaced-repetition')).toMatchObject({ score: null, notApplicable: true });
+    expect(doc.sections[0].average).toBe(2);
+  });
+
+  it('returns null when nothing was rated', () => {
+    expect(buildReportDocument({ ratings: { 'retrieval-practice': null } }, samplePrinciples)).toBeNull();
+  });
+});
+
+describe('toCsv', () => {
+  it('writes overall and per-section rows, quoting cells that need it', () => {
+    const csv = toCsv(buildScoreTable(buildReportDocument(report, samplePrinciples)!));
+    const lines = csv.trim().split('\r\n');
+
+    expect(lines[0]).toBe('section,principle_id,principle,category,score,refined_score,confidence,not_applicable,reasoning');
+    expect(lines[1]).toBe('Overall,retrieval-practice,Retrieval Practice,Memory & Retention,2,3,,false,Quizzes recur weekly.');
+    expect(lines).toContain(
+      'Quiz,retrieval-practice,Retrieval Practice,Memory & Retention,2,,high,false,"Only one question, ""recall"" is shallow"'
+    );
+    expect(lines).toContain('Quiz,spaced-repetition,Spaced Repetition,Memory & Retention,,,high,true,n/a');
+  });
+});
+
+describe('jpegSize', () => {
+  it('reads the dimensions of a JPEG data URL', () => {
+    expect(jpegSize(decodeJpegDataUrl(TINY_JPEG_DATA_URL)!)).toEqual({ width: 1, height: 1 });
+    expect(decodeJpegDataUrl('data:image/png;base64,AAAA')).toBeNull();
+  });
+});
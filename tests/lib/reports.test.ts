@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { type ReportListing, filterReports, parseReportId } from '../../src/lib/reports';
+
+describe('parseReportId', () => {
+  it('accepts a share link or a bare id', () => {
+    expect(parseReportId('https://example.com/audit/Ab3_x-9QzK')).toBe('Ab3_x-9QzK');
+    expect(parseReportId('/audit/Ab3_x-9QzK/?ref=mail')).toBe('Ab3_x-9QzK');
+    expect(parseReportId('  Ab3_x-9QzK ')).toBe('Ab3_x-9QzK');
+  });
+
+  it('rejects empty and malformed input', () => {
+    expect(parseReportId('')).toBeNull();
+    expect(parseReportId('not a report')).toBeNull();
+  });
+});
+
+describe('filterReports', () => {
+  const listing = (id: string, overallScore: number, productName: string | null, tags: string[]): ReportListing => ({
+    id,
+    createdAt: '2025-01-01T00:00:00Z',
+    productName,
+    tags,
+    overallScore,
+    accessMode: 'link',
+    previousVersionId: null,
+    workspaceId: null,
+    projectId: null,
+  });
+  const reports = [
+    listing('a1', 2.5, 'Onboarding Course', ['sales']),
+    listing('b2', 3.5, 'Safety Training', ['compliance', 'sales']),
+    listing('c3', 4.5, null, []),
+  ];
+
+  it('searches product names, tags and ids', () => {
+    expect(filterReports(reports, { query: 'onboarding' }).map((r) => r.id)).toEqual(['a1']);
+    expect(filterReports(reports, { query: 'COMPLIANCE' }).map((r) => r.id)).toEqual(['b2']);
+    expect(filterReports(reports, { query: 'c3' }).map((r) => r.id)).toEqual(['c3']);
+  });
+
+  it('combines tag and score filters', () => {
+    expect(filterReports(reports, { tag: 'sales' }).map((r) => r.id)).toEqual(['a1', 'b2']);
+    expect(filterReports(reports, { tag: 'sales', minScore: 3 }).map((r) => r.id)).toEqual(['b2']);
+    expect(filterReports(reports, { maxScore: 4 }).map((r) => r.id)).toEqual(['a1', 'b2']);
+    expect(filterReports(reports, {})).toHaveLength(3);
+  });
+});
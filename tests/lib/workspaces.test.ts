@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { hasRole, isLastOwner, normalizeEmail } from '../../src/lib/workspaces';
+
+describe('hasRole', () => {
+  it('ranks owners above editors above viewers', () => {
+    expect(hasRole('owner', 'editor')).toBe(true);
+    expect(hasRole('editor', 'editor')).toBe(true);
+    expect(hasRole('viewer', 'editor')).toBe(false);
+    expect(hasRole(null, 'viewer')).toBe(false);
+  });
+});
+
+describe('isLastOwner', () => {
+  const member = (email: string, role: 'owner' | 'editor' | 'viewer') => ({ email, role, addedAt: '' });
+
+  it('protects the only owner', () => {
+    const members = [member('lead@example.com', 'owner'), member('dev@example.com', 'editor')];
+    expect(isLastOwner(members, ' Lead@Example.com')).toBe(true);
+    expect(isLastOwner(members, 'dev@example.com')).toBe(false);
+    expect(isLastOwner([...members, member('cto@example.com', 'owner')], 'lead@example.com')).toBe(false);
+  });
+});
+
+describe('normalizeEmail', () => {
+  it('trims and lowercases', () => {
+    expect(normalizeEmail('  Dev@Example.COM ')).toBe('dev@example.com');
+  });
+});